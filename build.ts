@@ -51,6 +51,16 @@ const entryPoints = [
     path: 'src/transports/loki.ts',
     outputName: 'transports/loki',
   },
+  {
+    name: 'encrypted-file',
+    path: 'src/transports/encrypted-file.ts',
+    outputName: 'transports/encrypted-file',
+  },
+  {
+    name: 'log-filter',
+    path: 'src/transports/log-filter.ts',
+    outputName: 'transports/log-filter',
+  },
   // Utility entry points
   {
     name: 'metrics',
@@ -131,6 +141,8 @@ async function buildModule(
     sourcemap,
     minify,
     external,
+    // Transports resolve their worker by package export, not source path
+    define: { 'process.env.STERN_LOGGER_BUILD': JSON.stringify(format) },
     naming: `${entry.outputName}.js`,
   });
 
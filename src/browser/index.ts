@@ -6,6 +6,7 @@
  * - Remote endpoint batching for production
  * - LocalStorage buffering for offline support
  * - Sentry integration for error tracking
+ * - W3C traceparent/tracestate propagation helpers
  * - Type-safe API matching Node.js version
  */
 
@@ -13,9 +14,23 @@ export {
   BrowserLogger,
   baseBrowserLogger,
   initBrowserLogger,
+  type BrowserLogFn,
   type BrowserLogLevel,
   type BrowserLoggerOptions,
+  type BrowserLoggerWithLevels,
 } from './logger';
 
+// W3C Trace Context propagation (runtime-agnostic)
+export {
+  extractTraceContext,
+  injectTraceContext,
+  isTraceSampled,
+  parseTraceparent,
+  parseTracestate,
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+  type TraceHeaders,
+} from '../utils/trace-context';
+
 // Re-export shared types
 export type { SpanContext } from '../types';
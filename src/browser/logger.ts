@@ -11,28 +11,48 @@
 
 /* eslint-disable n/no-unsupported-features/node-builtins */
 
-import type { SpanContext } from '../types';
+import type { SeverityLevel, SpanContext } from '../types';
+import type { CustomLevels } from '../utils/levels';
+
+import { SEVERITY_LEVELS } from '../types';
+import { ConfigurationError } from '../utils/error-handler';
+import { nearestSeverityLevel, resolveLevelValues } from '../utils/levels';
+
+/**
+ * Browser log levels (the built-in levels shared with the Node logger)
+ */
+export type BrowserLogLevel = SeverityLevel;
 
 /**
- * Browser log levels
+ * Browser log method: context object first, or a message only
  */
-export type BrowserLogLevel =
-  | 'trace'
-  | 'debug'
-  | 'info'
-  | 'warn'
-  | 'error'
-  | 'fatal';
+export type BrowserLogFn = (
+  contextOrMessage: Record<string, unknown> | string,
+  message?: string,
+) => void;
+
+/**
+ * Browser logger with a method for each custom level
+ */
+export type BrowserLoggerWithLevels<TLevels extends string> =
+  BrowserLogger<TLevels> & Readonly<Record<TLevels, BrowserLogFn>>;
 
 /**
  * Browser logger configuration
  */
-export interface BrowserLoggerOptions {
+export interface BrowserLoggerOptions<TLevels extends string = never> {
   /**
    * Minimum log level to output
    * @default 'info'
    */
-  level?: BrowserLogLevel;
+  level?: BrowserLogLevel | NoInfer<TLevels>;
+
+  /**
+   * Custom levels by name and numeric value, e.g. `{ notice: 35, audit: 70 }`.
+   * Each becomes a logger method; console output and Sentry reporting
+   * follow the nearest built-in level below it.
+   */
+  customLevels?: Readonly<Record<TLevels, number>>;
 
   /**
    * Service name for logs
@@ -109,7 +129,7 @@ export interface BrowserLoggerOptions {
  */
 interface BrowserLogEntry {
   timestamp: number;
-  level: BrowserLogLevel;
+  level: string;
   message: string;
   service: string;
   context?: Record<string, unknown>;
@@ -126,15 +146,6 @@ const DEFAULT_REDACT_PATHS = ['password', 'token', 'apiKey', 'secret'];
 const MAX_OFFLINE_BUFFER_SIZE = 100;
 const OFFLINE_BUFFER_KEY = '__logger_offline_buffer';
 
-const LOG_LEVELS: Record<BrowserLogLevel, number> = {
-  trace: 10,
-  debug: 20,
-  info: 30,
-  warn: 40,
-  error: 50,
-  fatal: 60,
-};
-
 /**
  * Redacts sensitive fields from an object
  * @param obj - Object to redact
@@ -176,22 +187,26 @@ function redactObject(
 /**
  * Browser logger implementation
  */
-export class BrowserLogger {
+export class BrowserLogger<TLevels extends string = never> {
   private readonly options: Required<
-    Omit<BrowserLoggerOptions, 'remote' | 'sentryDsn'>
+    Omit<BrowserLoggerOptions<TLevels>, 'remote' | 'sentryDsn' | 'customLevels'>
   > & {
     remote?: BrowserLoggerOptions['remote'];
     sentryDsn?: string;
+    customLevels?: BrowserLoggerOptions<TLevels>['customLevels'];
   };
 
+  private readonly levelValues: Readonly<Record<string, number>>;
+
   private readonly batchBuffer: Array<BrowserLogEntry> = [];
   private batchTimer?: ReturnType<typeof setInterval>;
   private traceContext?: SpanContext;
   private sentryInitialized = false;
 
-  constructor(options: BrowserLoggerOptions = {}) {
+  constructor(options: BrowserLoggerOptions<TLevels> = {}) {
     this.options = {
       level: options.level ?? 'info',
+      customLevels: options.customLevels,
       service: options.service ?? 'browser-app',
       console: options.console ?? true,
       context: options.context ?? {},
@@ -199,6 +214,8 @@ export class BrowserLogger {
       remote: options.remote,
       sentryDsn: options.sentryDsn,
     };
+    this.levelValues = resolveLevelValues(this.options.customLevels);
+    this.installCustomLevelMethods(this.options.customLevels);
 
     // Initialize Sentry if DSN provided
     if (this.options.sentryDsn != null) {
@@ -249,14 +266,14 @@ export class BrowserLogger {
    * @param childContext - Additional context for child logger
    * @returns New logger instance with merged context
    */
-  public child(childContext: Record<string, unknown>): BrowserLogger {
+  public child(childContext: Record<string, unknown>): this {
     return new BrowserLogger({
       ...this.options,
       context: {
         ...this.options.context,
         ...childContext,
       },
-    });
+    }) as this;
   }
 
   /**
@@ -340,19 +357,55 @@ export class BrowserLogger {
     }
   }
 
+  /**
+   * Add a log method for each custom level
+   * @param customLevels - Custom levels by name and value
+   * @throws {ConfigurationError} If a level name is taken by a logger member
+   *   or its value is not a positive integer
+   */
+  private installCustomLevelMethods(customLevels: CustomLevels = {}): void {
+    for (const [name, value] of Object.entries(customLevels)) {
+      if (name in this) {
+        throw new ConfigurationError(
+          `Custom level "${name}" conflicts with a logger method or property`,
+        );
+      }
+      if (!Number.isInteger(value) || value <= 0) {
+        throw new ConfigurationError(
+          `Custom level "${name}" must have a positive integer value`,
+        );
+      }
+
+      const method: BrowserLogFn = (contextOrMessage, message) => {
+        this.log(name, contextOrMessage, message);
+      };
+      Object.defineProperty(this, name, { value: method });
+    }
+  }
+
+  /**
+   * Get the numeric value of a level
+   * @param level - Level name (built-in or custom)
+   * @returns Level value, or 0 for unknown levels
+   */
+  private severityOf(level: string): number {
+    return this.levelValues[level] ?? 0;
+  }
+
   /**
    * Core logging method
-   * @param level - Log level
+   * @param level - Log level (built-in or custom)
    * @param contextOrMessage - Context object or message string
    * @param message - Message string (if first arg is context)
    */
   private log(
-    level: BrowserLogLevel,
+    level: string,
     contextOrMessage: Record<string, unknown> | string,
     message?: string,
   ): void {
     // Check if level is enabled
-    if (LOG_LEVELS[level] < LOG_LEVELS[this.options.level]) {
+    const severity = this.severityOf(level);
+    if (severity < this.severityOf(this.options.level)) {
       return;
     }
 
@@ -400,21 +453,18 @@ export class BrowserLogger {
       this.addToBatch(entry);
     }
 
-    // Send to Sentry if error level
-    this.maybeSendToSentry(level, entry);
+    // Send to Sentry if error level or above
+    this.maybeSendToSentry(severity, entry);
   }
 
   /**
    * Send error to Sentry if conditions are met
-   * @param level - Log level
+   * @param severity - Numeric log level
    * @param entry - Log entry
    */
-  private maybeSendToSentry(
-    level: BrowserLogLevel,
-    entry: BrowserLogEntry,
-  ): void {
+  private maybeSendToSentry(severity: number, entry: BrowserLogEntry): void {
     if (
-      (level === 'error' || level === 'fatal') &&
+      severity >= SEVERITY_LEVELS.error &&
       this.sentryInitialized &&
       typeof window !== 'undefined' &&
       'Sentry' in window
@@ -437,8 +487,8 @@ export class BrowserLogger {
         ? `${prefix} ${entry.message} ${context}`
         : `${prefix} ${entry.message}`;
 
-    // Map to console methods
-    switch (entry.level) {
+    // Map to console methods; custom levels use their nearest built-in level
+    switch (nearestSeverityLevel(this.severityOf(entry.level))) {
       case 'trace':
       case 'debug':
         console.debug(fullMessage);
@@ -687,6 +737,13 @@ export class BrowserLogger {
  * logger.error({ err }, 'Request failed');
  * ```
  *
+ * @example Custom levels
+ * ```typescript
+ * const logger = initBrowserLogger({ customLevels: { audit: 70 } });
+ *
+ * logger.audit({ userId }, 'Consent given'); // console.error, sent to Sentry
+ * ```
+ *
  * @example Production usage (remote + Sentry)
  * ```typescript
  * const logger = initBrowserLogger({
@@ -711,10 +768,10 @@ export class BrowserLogger {
  * });
  * ```
  */
-export function initBrowserLogger(
-  options?: BrowserLoggerOptions,
-): BrowserLogger {
-  return new BrowserLogger(options);
+export function initBrowserLogger<TLevels extends string = never>(
+  options?: BrowserLoggerOptions<TLevels>,
+): BrowserLoggerWithLevels<TLevels> {
+  return new BrowserLogger(options) as BrowserLoggerWithLevels<TLevels>;
 }
 
 /**
@@ -2,7 +2,8 @@
  * @fileoverview Configuration constants and default values
  *
  * Defines pure default values for logging levels, file rotation,
- * sensitive data redaction, validation limits, and telemetry settings.
+ * sensitive data redaction, validation limits, rate limiting, duplicate
+ * collapsing, and telemetry settings.
  *
  * Users should override these defaults in their configuration by reading
  * from environment variables, config files, or secret management systems.
@@ -41,6 +42,21 @@ export const DEFAULT_ROTATION_OPTIONS = {
   FREQUENCY: 'daily' as const,
 } as const;
 
+/**
+ * Time-based rotation frequencies accepted by `fileRotationOptions`
+ */
+export const ROTATION_FREQUENCIES = ['daily', 'hourly'] as const;
+
+/**
+ * Console format styles accepted by `formatStyle`
+ */
+export const FORMAT_STYLES = ['compact', 'default'] as const;
+
+/**
+ * HMAC algorithms accepted for signing log records
+ */
+export const INTEGRITY_ALGORITHMS = ['sha256', 'sha384', 'sha512'] as const;
+
 /**
  * Default sensitive fields to redact
  */
@@ -65,6 +81,23 @@ export const DEFAULT_REDACT_PATHS = [
   '*.ssn',
 ];
 
+/**
+ * Bytes per kibibyte, the multiplier of binary size units
+ */
+export const BYTES_PER_KIBIBYTE = 1024;
+const DEFAULT_MAX_RECORD_SIZE_KIB = 256;
+
+/**
+ * Default validation limits used in strict mode
+ */
+export const DEFAULT_VALIDATION_LIMITS = {
+  MAX_MESSAGE_LENGTH: 10000,
+  MAX_RECORD_SIZE: DEFAULT_MAX_RECORD_SIZE_KIB * BYTES_PER_KIBIBYTE, // 256 KiB
+  MAX_DEPTH: 10,
+  MAX_KEYS: 200,
+  ON_VIOLATION: 'truncate' as const,
+} as const;
+
 /**
  * Time constants in milliseconds
  */
@@ -87,3 +120,92 @@ export const DEFAULT_TELEMETRY_OPTIONS = {
     SECONDS_PER_MINUTE *
     MILLISECONDS_PER_SECOND, // 1 minute
 } as const;
+
+/**
+ * Default rate limiting options
+ * - INTERVAL_MS: Interval over which `limit` records are allowed (1 minute)
+ * - MAX_BUCKETS: Maximum number of tracked buckets (oldest are evicted)
+ */
+export const DEFAULT_RATE_LIMIT_OPTIONS = {
+  INTERVAL_MS: SECONDS_PER_MINUTE * MILLISECONDS_PER_SECOND, // 1 minute
+  MAX_BUCKETS: 10000,
+} as const;
+
+/**
+ * Default retention options for rotated log files
+ * - CHECK_INTERVAL_MS: How often rotated files are compressed and pruned,
+ *   and free disk space is checked (1 minute)
+ * - LOW_DISK_LEVEL: While free space is below `minFreeSpace`, log files
+ *   only receive records at this level or above
+ */
+export const DEFAULT_RETENTION_OPTIONS = {
+  CHECK_INTERVAL_MS: SECONDS_PER_MINUTE * MILLISECONDS_PER_SECOND, // 1 minute
+  LOW_DISK_LEVEL: 'warn',
+} as const;
+
+/**
+ * Default duplicate collapsing options
+ * - WINDOW_MS: How long repeats of a record are held after it is logged
+ * - MAX_ENTRIES: Maximum number of tracked fingerprints (oldest are flushed)
+ * - LEVELS: Levels that are collapsed (errors and fatals always pass)
+ */
+const DEFAULT_DEDUP_WINDOW_SECONDS = 10;
+
+export const DEFAULT_DEDUP_OPTIONS = {
+  WINDOW_MS: DEFAULT_DEDUP_WINDOW_SECONDS * MILLISECONDS_PER_SECOND, // 10 seconds
+  MAX_ENTRIES: 10000,
+  LEVELS: ['trace', 'debug', 'info', 'warn'],
+} as const;
+
+/**
+ * Default request-scoped log buffer options
+ * - LEVEL: Records below this level are buffered
+ * - FLUSH_ON: Level that flushes the buffered records
+ * - MAX_RECORDS: Maximum number of records held per scope (oldest are dropped)
+ */
+export const DEFAULT_LOG_BUFFER_OPTIONS = {
+  LEVEL: 'info',
+  FLUSH_ON: 'error',
+  MAX_RECORDS: 1000,
+} as const;
+
+/**
+ * Default HTTP request logging options
+ * - REQUEST_ID_HEADER: Header a request ID is read from and echoed in
+ * - MAX_REQUEST_ID_LENGTH: Longer incoming request IDs are replaced
+ * - MAX_BODY_SIZE: Captured request bodies are truncated to this many characters
+ * - MAX_BODY_READ_SIZE: Larger request bodies are not read or captured
+ * - REDACT_HEADERS: Headers whose values are censored when captured
+ */
+export const DEFAULT_HTTP_LOGGING_OPTIONS = {
+  REQUEST_ID_HEADER: 'x-request-id',
+  MAX_REQUEST_ID_LENGTH: 128,
+  MAX_BODY_SIZE: 4096,
+  MAX_BODY_READ_SIZE: 65536,
+  REDACT_HEADERS: [
+    'authorization',
+    'cookie',
+    'proxy-authorization',
+    'set-cookie',
+    'x-api-key',
+  ],
+} as const;
+
+/**
+ * Default audit log options
+ * - FILE_NAME: Audit log file name under the log directory
+ * - MAX_SIZE: Size at which the audit log is checkpointed and rotated
+ */
+export const DEFAULT_AUDIT_LOG_OPTIONS = {
+  FILE_NAME: 'audit.log',
+  MAX_SIZE: '10m',
+} as const;
+
+/**
+ * Default time allowed for shutdownLogger to flush and close transports
+ * @default 5000 (5 seconds)
+ */
+const DEFAULT_SHUTDOWN_TIMEOUT_SECONDS = 5;
+
+export const DEFAULT_SHUTDOWN_TIMEOUT_MS =
+  DEFAULT_SHUTDOWN_TIMEOUT_SECONDS * MILLISECONDS_PER_SECOND;
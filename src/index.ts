@@ -45,38 +45,100 @@
 export {
   baseLogger,
   createComponentLogger,
+  getLogLevel,
   getNamespaceConfig,
   initLogger,
   initLoggerWithNamespaces,
+  setLogLevel,
   setNamespaceConfig,
+  shutdownLogger,
 } from './logger';
 
 // Type exports
 export type {
   ChildLogger,
+  ComponentLoggerOptions,
+  CustomLevelLogger,
+  DedupOptions,
+  EncryptionOptions,
+  EndTimer,
   FileRotationOptions,
+  IntegrityAlgorithm,
+  IntegrityOptions,
+  LogBufferOptions,
+  LogFileOptions,
   Logger,
   LogFn,
   LoggerOptions,
+  MergeBindings,
+  RateLimitKeyContext,
+  RateLimitOptions,
+  SamplingMode,
+  SamplingOptions,
+  SamplingRates,
   ServiceMetadata,
   SeverityLevel,
   SpanContext,
   TelemetryContextOptions,
   TelemetryOptions,
+  TimerOptions,
+  TypedChildLogger,
+  ValidationOptions,
+  ValidationPolicy,
 } from './types';
 
 export { SEVERITY_LEVELS } from './types';
 
 // Utility exports for advanced use cases
-export { setupLogDirectory } from './utils/directory';
+export { checkLogDirectory, setupLogDirectory } from './utils/directory';
+
+export { type EnvSource, loggerOptionsFromEnv } from './utils/env-config';
+
+export {
+  assertValidLoggerOptions,
+  isValidRedactPath,
+  isValidRotationSize,
+  type OptionsValidationResult,
+  parseRetentionAge,
+  parseRotationSize,
+  validateLoggerOptions,
+} from './utils/options-validation';
 
 export {
+  checkFilenameTemplate,
+  expandFilenameTemplate,
+  type FilenameTemplateValues,
+} from './utils/file-routes';
+
+export {
+  applyLogRetention,
+  isLowDiskSpace,
+  type LogRetentionPolicy,
+  type LogRetentionReport,
+  startLogRetention,
+  stopLogRetention,
+} from './utils/retention';
+
+export {
+  type ConfigurationIssue,
+  ConfigurationError,
   createSerializers,
   errorSerializer,
   formatErrorMessage,
+  LoggerError,
+  ModuleLoadError,
   normalizeError,
+  TransportError,
+  ValidationError,
 } from './utils/error-handler';
 
+export {
+  type ShutdownOptions,
+  type ShutdownReport,
+  type TransportShutdownResult,
+  type TransportShutdownStatus,
+} from './utils/shutdown';
+
 export {
   registerProcessHandlers,
   unregisterProcessHandlers,
@@ -90,35 +152,203 @@ export {
 
 export {
   clearTraceContext,
+  type CorrelationMode,
+  createTelemetryMixin,
   createTraceMixin,
   destroyTraceContextManager,
   getTraceContext,
   getTraceContextStats,
+  isAsyncContextSupported,
+  resolveCorrelationMode,
+  runWithTraceContext,
   setTraceContext,
+  stopTraceContextCleanup,
 } from './utils/telemetry';
 
+export {
+  addLogContext,
+  clearLogContext,
+  createLogContextMixin,
+  getLogContext,
+  type LogContextBindings,
+  runWithLogContext,
+} from './utils/log-context';
+
+export {
+  createExpressRequestLogger,
+  createHonoRequestLogger,
+  type ExpressLikeRequest,
+  type ExpressLikeResponse,
+  getRequestId,
+  getRequestLogger,
+  type HonoLikeContext,
+  type HttpCaptureOptions,
+  type HttpLogFields,
+  type HttpLoggingOptions,
+  type HttpLoggingVariables,
+  withRequestLogging,
+} from './utils/http-logging';
+
+export {
+  defineLogEvents,
+  getLogEventsJsonSchema,
+  LOG_EVENT_FIELD,
+  type LogEventCatalog,
+  type LogEventDefinition,
+  type LogEventEmitter,
+  type LogEventFields,
+  type LogEventFieldSpec,
+  type LogEventFieldType,
+  type LogEventMethodName,
+  type LogEvents,
+  type LogEventsJsonSchema,
+  toLogEventMethodName,
+} from './utils/log-events';
+
+export {
+  AUDIT_GENESIS_HASH,
+  type AuditChainHead,
+  type AuditLogCheckpoint,
+  type AuditLogger,
+  type AuditLogIssue,
+  type AuditLogIssueReason,
+  type AuditLogOptions,
+  type AuditLogVerification,
+  createAuditLogger,
+  verifyAuditLog,
+} from './utils/audit-log';
+
+export {
+  canonicalJson,
+  createIntegrityHook,
+  INTEGRITY_FIELD,
+  type LogRecordSignature,
+  type LogRecordVerification,
+  type LogRecordVerificationFailure,
+  verifyLogRecord,
+} from './utils/integrity';
+
+export {
+  decryptLogFile,
+  ENCRYPTED_FILE_EXTENSION,
+  ENCRYPTION_KEY_ENV,
+  parseEncryptionKey,
+  resolveEncryptionKey,
+} from './utils/encryption';
+
+export {
+  createEncryptedFileTransport,
+  type EncryptedFileTransportOptions,
+} from './transports/encrypted-file';
+
+export {
+  createLogFilterStage,
+  type LogFilterOptions,
+} from './transports/log-filter';
+
+export {
+  type CustomLevels,
+  nearestSeverityLevel,
+  resolveLevelColors,
+  resolveLevelValues,
+  SEVERITY_COLORS,
+} from './utils/levels';
+
+export {
+  BUFFERED_AT_FIELD,
+  createLogBufferHook,
+  flushLogBuffer,
+  runWithLogBuffer,
+} from './utils/log-buffer';
+
+export {
+  extractTraceContext,
+  injectTraceContext,
+  isTraceSampled,
+  isValidSpanId,
+  isValidTraceId,
+  parseTraceFlags,
+  parseTraceparent,
+  parseTracestate,
+  TRACE_FLAG_SAMPLED,
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+  type TraceHeaders,
+} from './utils/trace-context';
+
+export {
+  composeLogMethodHooks,
+  getLoggerBindings,
+  getLoggerNamespace,
+  type LogMethodHook,
+  splitLogArgs,
+  withLogFields,
+} from './utils/log-pipeline';
+
+export {
+  createDedupHook,
+  type DedupHook,
+  type RepeatSummaryFields,
+} from './utils/dedup';
+
+export {
+  createRateLimitHook,
+  formatSuppressionSummary,
+  LogRateLimiter,
+  RATE_LIMIT_FIELD,
+  type SuppressionSummary,
+} from './utils/rate-limit';
+
+export { createSamplingHook, traceSamplingValue } from './utils/sampling';
+
+export { elapsedMs, installTimerMethods } from './utils/timing';
+
+export {
+  createValidationHook,
+  resolveValidationOptions,
+  VALIDATION_VIOLATIONS_FIELD,
+  validateLogRecord,
+  type ResolvedValidationOptions,
+  type ValidationResult,
+  type ValidationViolation,
+  type ValidationViolationCode,
+} from './utils/validation';
+
 export {
   buildNamespace,
   clearNamespaceCache,
   isNamespaceEnabled,
+  matchNamespaceRule,
   type NamespaceConfig,
+  type NamespaceRule,
   parseNamespacePatterns,
+  resolveNamespaceLevel,
 } from './utils/namespace_filter';
 
 // Constant exports
 export {
+  DEFAULT_AUDIT_LOG_OPTIONS,
+  DEFAULT_DEDUP_OPTIONS,
+  DEFAULT_HTTP_LOGGING_OPTIONS,
+  DEFAULT_LOG_BUFFER_OPTIONS,
   DEFAULT_LOG_DIRECTORY,
   DEFAULT_LOG_LEVEL,
   DEFAULT_NODE_ENV,
+  DEFAULT_RATE_LIMIT_OPTIONS,
   DEFAULT_REDACT_PATHS,
+  DEFAULT_RETENTION_OPTIONS,
   DEFAULT_ROTATION_OPTIONS,
   DEFAULT_SERVICE_NAME,
+  DEFAULT_SHUTDOWN_TIMEOUT_MS,
   DEFAULT_TELEMETRY_OPTIONS,
+  DEFAULT_VALIDATION_LIMITS,
 } from './constants';
 
 // LGTM Stack Integration
 export {
+  createLokiLevelMap,
   createLokiTransport,
+  type LokiLevel,
   type LokiTransportOptions,
 } from './transports/loki';
 
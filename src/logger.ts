@@ -5,13 +5,26 @@
  * OpenTelemetry trace context integration, and telemetry method enhancement.
  */
 
+import type { LogFilterOptions } from './transports/log-filter';
 import type {
+  ComponentLoggerOptions,
+  CustomLevelLogger,
+  DedupOptions,
+  FileRotationOptions,
+  LogFileOptions,
   Logger,
   LoggerOptions,
+  MergeBindings,
+  RateLimitOptions,
   ServiceMetadata,
   SpanContext,
 } from './types';
+import type { FilenameTemplateValues } from './utils/file-routes';
+import type { CustomLevels } from './utils/levels';
+import type { LogMethodHook } from './utils/log-pipeline';
 import type { NamespaceConfig } from './utils/namespace_filter';
+import type { LogRetentionPolicy } from './utils/retention';
+import type { ShutdownOptions, ShutdownReport } from './utils/shutdown';
 
 import { join } from 'node:path';
 
@@ -21,24 +34,60 @@ import pino from 'pino';
 import {
   DEFAULT_LOG_LEVEL,
   DEFAULT_NODE_ENV,
+  DEFAULT_RETENTION_OPTIONS,
   DEFAULT_ROTATION_OPTIONS,
   DEFAULT_SERVICE_NAME,
+  DEFAULT_SHUTDOWN_TIMEOUT_MS,
 } from './constants';
+import { createEncryptedFileTransport } from './transports/encrypted-file';
+import { createLogFilterStage } from './transports/log-filter';
+import { createLokiLevelMap } from './transports/loki';
+import { createDedupHook } from './utils/dedup';
 import { setupLogDirectory } from './utils/directory';
+import { ENCRYPTED_FILE_EXTENSION } from './utils/encryption';
 import { ConfigurationError, createSerializers } from './utils/error-handler';
-import { createCustomPrettyOptions } from './utils/formatter';
+import {
+  createFilenamePattern,
+  expandFilenameTemplate,
+} from './utils/file-routes';
+import {
+  createCustomPrettyOptions,
+  createPrettyLevelOptions,
+} from './utils/formatter';
+import { createIntegrityHook } from './utils/integrity';
+import { resolveLevelValues } from './utils/levels';
+import { createLogBufferHook } from './utils/log-buffer';
+import { createLogContextMixin } from './utils/log-context';
+import { composeLogMethodHooks } from './utils/log-pipeline';
 import {
   buildNamespace,
   isNamespaceEnabled,
   parseNamespacePatterns,
+  resolveNamespaceLevel,
 } from './utils/namespace_filter';
+import { assertValidLoggerOptions } from './utils/options-validation';
+import { createRateLimitHook, LogRateLimiter } from './utils/rate-limit';
 import { createRedactionOptions } from './utils/redaction';
+import { startLogRetention, stopLogRetention } from './utils/retention';
+import { createSamplingHook } from './utils/sampling';
+import {
+  closeTransportStreams,
+  describeTransport,
+  flushSummarySources,
+  registerSummarySource,
+  registerTransportStream,
+} from './utils/shutdown';
 import {
   clearTraceContext,
+  createTelemetryMixin,
   createTraceMixin,
   getTraceContext,
+  resolveCorrelationMode,
   setTraceContext,
+  stopTraceContextCleanup,
 } from './utils/telemetry';
+import { installTimerMethods } from './utils/timing';
+import { createValidationHook } from './utils/validation';
 
 /**
  * Detects if we're running in a Node.js or Bun environment
@@ -84,8 +133,17 @@ const RANDOM_ID_END = 11;
 const HEX_RADIX = 16;
 const TRACE_FLAGS_PAD_LENGTH = 2;
 
+// Built-in transport targets accept every record; the logger level and
+// per-namespace levels do the filtering, so runtime changes to either
+// (setLogLevel, `voice:*=debug`) are not cut off by a stale target level
+const BUILT_IN_TARGET_LEVEL = 'trace';
+
 /**
  * Get a unique ID for the current process/thread
+ *
+ * Only used as the key for the fallback trace store on runtimes without
+ * async context support; elsewhere trace context is per async context.
+ *
  * @returns Thread/process identifier string
  */
 function getCurrentThreadId(): string {
@@ -112,13 +170,56 @@ function shouldEnablePrettyPrint(options?: Partial<LoggerOptions>): boolean {
   return options?.prettyPrint ?? true;
 }
 
+/**
+ * Collect custom levels from `customLevels` and `pinoOptions.customLevels`
+ * @param options - Logger options
+ * @returns Custom levels, or undefined when none are declared
+ */
+function getCustomLevels(
+  options?: Partial<LoggerOptions>,
+): CustomLevels | undefined {
+  const customLevels = {
+    ...options?.pinoOptions?.customLevels,
+    ...options?.customLevels,
+  };
+  return Object.keys(customLevels).length > 0 ? customLevels : undefined;
+}
+
+/**
+ * Map custom levels to Loki level labels on a pino-loki target
+ * @param target - Transport target
+ * @param customLevels - Custom levels
+ * @returns Target with a `levelMap` for the custom levels (entries set by
+ *   the caller win)
+ */
+function withLokiLevelMap(
+  target: pino.TransportTargetOptions,
+  customLevels: CustomLevels | undefined,
+): pino.TransportTargetOptions {
+  if (target.target !== 'pino-loki' || customLevels == null) {
+    return target;
+  }
+
+  const targetOptions = target.options as Record<string, unknown> | undefined;
+  return {
+    ...target,
+    options: {
+      ...targetOptions,
+      levelMap: {
+        ...createLokiLevelMap(customLevels),
+        ...(targetOptions?.levelMap as Record<string, unknown> | undefined),
+      },
+    },
+  };
+}
+
 /**
  * Helper to add console transport if needed
  * @param targets - Array to add transport configuration to
  * @param options - Logger options
  */
 function addConsoleTransport(
-  targets: Array<pino.TransportTargetOptions>,
+  targets: Array<pino.TransportTargetOptions | pino.TransportPipelineOptions>,
   options?: Partial<LoggerOptions>,
 ): void {
   if (!shouldEnablePrettyPrint(options)) {
@@ -137,15 +238,21 @@ function addConsoleTransport(
 
   targets.push({
     target: 'pino-pretty',
-    level: options?.level ?? DEFAULT_LOG_LEVEL,
-    options: prettyOptions,
+    level: BUILT_IN_TARGET_LEVEL,
+    options: {
+      ...prettyOptions,
+      ...createPrettyLevelOptions(
+        getCustomLevels(options),
+        options?.levelColors,
+      ),
+    },
   });
 }
 
 /**
  * Helper to configure file rotation options
  * @param rotationOptions - File rotation configuration
- * @param logDir - Log directory path
+ * @param file - Log file path
  * @param level - Log level
  * @returns Transport target options for pino-roll
  */
@@ -155,7 +262,7 @@ function createRotationTransport(
     maxFiles?: number;
     frequency?: 'daily' | 'hourly';
   }>,
-  logDir: string,
+  file: string,
   level: string,
 ): pino.TransportTargetOptions {
   const maxSize = rotationOptions.maxSize ?? DEFAULT_ROTATION_OPTIONS.MAX_SIZE;
@@ -168,7 +275,7 @@ function createRotationTransport(
     target: 'pino-roll',
     level,
     options: {
-      file: join(logDir, 'app.log'),
+      file,
       frequency,
       size: maxSize,
       limit: {
@@ -179,13 +286,143 @@ function createRotationTransport(
   };
 }
 
+/**
+ * Helper to create the target writing one log file
+ * @param file - Log file path
+ * @param level - Log level
+ * @param options - Logger options (for encryption)
+ * @param rotationOptions - File rotation configuration (none: no rotation)
+ * @returns Transport target options
+ */
+function createFileTarget(
+  file: string,
+  level: string,
+  options: Partial<LoggerOptions>,
+  rotationOptions: FileRotationOptions | undefined,
+): pino.TransportTargetOptions {
+  if (options.encryption != null) {
+    // Encrypt at rest, rotating the same way when configured
+    return createEncryptedFileTransport({
+      file: `${file}${ENCRYPTED_FILE_EXTENSION}`,
+      encryption: options.encryption,
+      ...(rotationOptions != null && { rotation: rotationOptions }),
+      level,
+    });
+  }
+  if (rotationOptions != null) {
+    // Use pino-roll for file rotation
+    return createRotationTransport(rotationOptions, file, level);
+  }
+  // Use basic file transport without rotation
+  return {
+    target: 'pino/file',
+    level,
+    options: {
+      destination: file,
+      mkdir: true,
+    },
+  };
+}
+
+/**
+ * Values for the filename templates of routed log files
+ * @param options - Logger options
+ * @returns Service name, environment and process id
+ */
+function getFilenameTemplateValues(
+  options: Partial<LoggerOptions>,
+): FilenameTemplateValues {
+  return {
+    service: options.defaultService ?? DEFAULT_SERVICE_NAME,
+    env: options.nodeEnv ?? DEFAULT_NODE_ENV,
+    pid: process.pid,
+  };
+}
+
+/**
+ * Put a filter stage in front of a file target when it filters anything
+ *
+ * Files whose rotation options set `minFreeSpace` are held to
+ * `DEFAULT_RETENTION_OPTIONS.LOW_DISK_LEVEL` while disk space is low.
+ *
+ * @param target - File target
+ * @param rotationOptions - Rotation options of the file
+ * @param filter - Upper bound and namespace patterns of the file
+ * @param options - Logger options
+ * @returns Transport target or pipeline options
+ */
+function withFileFilter(
+  target: pino.TransportTargetOptions,
+  rotationOptions: FileRotationOptions | undefined,
+  filter: Pick<LogFilterOptions, 'maxLevel' | 'namespaces'>,
+  options: Partial<LoggerOptions>,
+): pino.TransportTargetOptions | pino.TransportPipelineOptions {
+  const stageOptions: LogFilterOptions = { ...filter };
+  if (rotationOptions?.minFreeSpace != null) {
+    stageOptions.lowDiskLevel = DEFAULT_RETENTION_OPTIONS.LOW_DISK_LEVEL;
+  }
+  if (Object.keys(stageOptions).length === 0) {
+    return target;
+  }
+
+  const customLevels = getCustomLevels(options);
+  return {
+    level: target.level,
+    pipeline: [
+      createLogFilterStage({
+        ...stageOptions,
+        ...(customLevels != null && { customLevels }),
+      }),
+      { target: target.target, options: target.options },
+    ],
+  };
+}
+
+/**
+ * Helper to create the target of a routed log file
+ *
+ * The level range starts at the target level; the upper bound and the
+ * namespace patterns need a filter stage in front of the file.
+ *
+ * @param route - Routed log file
+ * @param logDir - Log directory path
+ * @param options - Logger options
+ * @returns Transport target or pipeline options
+ */
+function createFileRouteTarget(
+  route: LogFileOptions,
+  logDir: string,
+  options: Partial<LoggerOptions>,
+): pino.TransportTargetOptions | pino.TransportPipelineOptions {
+  const file = join(
+    logDir,
+    expandFilenameTemplate(route.filename, getFilenameTemplateValues(options)),
+  );
+  const rotationOptions = route.rotation ?? options.fileRotationOptions;
+  const target = createFileTarget(
+    file,
+    route.level ?? BUILT_IN_TARGET_LEVEL,
+    options,
+    rotationOptions,
+  );
+  return withFileFilter(
+    target,
+    rotationOptions,
+    {
+      ...(route.maxLevel != null && { maxLevel: route.maxLevel }),
+      ...(route.namespaces != null && { namespaces: route.namespaces }),
+    },
+    options,
+  );
+}
+
 /**
  * Helper to add file transport if needed
  * @param targets - Array to add transport configuration to
  * @param options - Logger options
  */
 function addFileTransport(
-  targets: Array<pino.TransportTargetOptions>,
+  targets: Array<pino.TransportTargetOptions | pino.TransportPipelineOptions>,
   options?: Partial<LoggerOptions>,
 ): void {
   if (options?.logDir == null || options.logDir.length === 0) {
@@ -204,23 +441,63 @@ function addFileTransport(
     );
   }
 
-  const level = options.level ?? DEFAULT_LOG_LEVEL;
-  const rotationOptions = options.fileRotationOptions;
+  targets.push(
+    withFileFilter(
+      createFileTarget(
+        join(logDir, 'app.log'),
+        BUILT_IN_TARGET_LEVEL,
+        options,
+        options.fileRotationOptions,
+      ),
+      options.fileRotationOptions,
+      {},
+      options,
+    ),
+  );
 
-  if (rotationOptions != null) {
-    // Use pino-roll for file rotation
-    targets.push(createRotationTransport(rotationOptions, logDir, level));
-  } else {
-    // Use basic file transport without rotation
-    targets.push({
-      target: 'pino/file',
-      level,
-      options: {
-        destination: join(logDir, 'app.log'),
-        mkdir: true,
-      },
-    });
+  // Routed log files next to app.log
+  for (const route of options.files ?? []) {
+    targets.push(createFileRouteTarget(route, logDir, options));
+  }
+}
+
+/**
+ * Collect the retention policies of app.log and the routed log files
+ * @param options - Logger options
+ * @returns Log files and their rotation options
+ */
+function getRetentionPolicies(
+  options: Partial<LoggerOptions>,
+): Array<LogRetentionPolicy> {
+  const policies: Array<LogRetentionPolicy> = [];
+  if (options.fileRotationOptions != null) {
+    policies.push({ options: options.fileRotationOptions });
+  }
+  const values = getFilenameTemplateValues(options);
+  for (const route of options.files ?? []) {
+    const rotationOptions = route.rotation ?? options.fileRotationOptions;
+    if (rotationOptions != null) {
+      policies.push({
+        files: createFilenamePattern(route.filename, values),
+        options: rotationOptions,
+      });
+    }
+  }
+  return policies;
+}
+
+/**
+ * Start (or stop) compression and retention of rotated log files
+ * @param options - Logger options
+ */
+function configureLogRetention(options?: Partial<LoggerOptions>): void {
+  if (options?.logDir == null || options.logDir.length === 0) {
+    stopLogRetention();
+    return;
   }
+  startLogRetention(options.logDir, getRetentionPolicies(options), (error) => {
+    currentLogger.error({ err: error }, error.message);
+  });
 }
 
 /**
@@ -236,7 +513,9 @@ function addFileTransport(
 function createTransport(
   options?: Partial<LoggerOptions>,
 ): pino.TransportMultiOptions | pino.TransportSingleOptions | undefined {
-  const targets: Array<pino.TransportTargetOptions> = [];
+  const targets: Array<
+    pino.TransportTargetOptions | pino.TransportPipelineOptions
+  > = [];
 
   // Add console transport if needed
   addConsoleTransport(targets, options);
@@ -246,7 +525,12 @@ function createTransport(
 
   // Add user-provided transports
   if (options?.transports != null) {
-    targets.push(...options.transports);
+    const customLevels = getCustomLevels(options);
+    targets.push(
+      ...options.transports.map((target) =>
+        withLokiLevelMap(target, customLevels),
+      ),
+    );
   }
 
   // If no targets, use default console
@@ -255,8 +539,9 @@ function createTransport(
   }
 
   // If single target, return it directly
-  if (targets.length === 1) {
-    return { target: targets[0]!.target, options: targets[0]!.options };
+  const [first] = targets;
+  if (targets.length === 1 && first != null && 'target' in first) {
+    return { target: first.target, options: first.options };
   }
 
   // Multiple targets
@@ -270,6 +555,9 @@ function createTransport(
  *
  * These methods allow setting/clearing/getting OpenTelemetry trace context
  * which will be automatically included in logs via the mixin function.
+ * Context is stored per async execution context, so concurrent requests
+ * never see each other's trace IDs. Runtimes without async context support
+ * fall back to the keyed TTL/LRU store.
  *
  * @param logger - The Pino logger to enhance
  * @returns Enhanced logger with telemetry methods
@@ -305,7 +593,7 @@ function enhanceLoggerWithTelemetry(logger: Logger): Logger {
  * Initialize the base Pino logger with sensible defaults
  *
  * Uses native Pino features for best performance and type safety:
- * - mixin for OpenTelemetry trace context
+ * - mixin for ambient log context and OpenTelemetry trace context
  * - serializers for error handling
  * - redact for sensitive data protection
  * - base for default metadata
@@ -315,6 +603,7 @@ function enhanceLoggerWithTelemetry(logger: Logger): Logger {
 function initializeBaseLogger(): Logger {
   try {
     const transport = createTransport();
+    const mixin = createLogContextMixin(createTraceMixin(getCurrentThreadId));
 
     const rawLogger = pino({
       level: DEFAULT_LOG_LEVEL,
@@ -325,15 +614,22 @@ function initializeBaseLogger(): Logger {
         env: DEFAULT_NODE_ENV,
       },
       ...(transport && { transport }),
-      // Add mixin for OpenTelemetry trace context injection
-      mixin: createTraceMixin(getCurrentThreadId),
+      // Add mixin for ambient log context and OpenTelemetry trace context
+      mixin,
+      // Strict validation is on by default
+      hooks: createPinoHooks(undefined, undefined, mixin),
     });
 
+    if (transport) {
+      registerTransportStream(describeTransport(transport), rawLogger);
+    }
+
     // Cast to our Logger type (Pino logger is structurally compatible)
     const logger = rawLogger as Logger;
 
     // Add telemetry helper methods (setTraceContext, clearTraceContext)
     enhanceLoggerWithTelemetry(logger);
+    installTimerMethods(logger);
 
     return logger;
   } catch (error) {
@@ -386,27 +682,22 @@ function getActiveOtelContext(): SpanContext | undefined {
 
 /**
  * Creates the mixin function for trace context injection
+ *
+ * Honors `telemetry.autoInject` and `telemetry.contextOptions`
+ * (`correlationMode`, `injectTraceContext`, `getActiveContext`).
+ *
  * @param options - Logger options with telemetry configuration
  * @returns Pino mixin function
+ * @throws {ConfigurationError} If the telemetry options are contradictory
  */
 function createLoggerMixin(
   options?: Partial<LoggerOptions>,
 ): () => Record<string, unknown> {
-  if (options?.telemetry?.enabled === true) {
-    // Use autoInject if enabled, otherwise fall back to custom getActiveContext
-    if (options.telemetry.autoInject === true) {
-      return createTraceMixin(getCurrentThreadId, getActiveOtelContext);
-    }
-
-    if (options.telemetry.contextOptions?.getActiveContext != null) {
-      return createTraceMixin(
-        getCurrentThreadId,
-        options.telemetry.contextOptions.getActiveContext,
-      );
-    }
-  }
-
-  return createTraceMixin(getCurrentThreadId);
+  return createTelemetryMixin(
+    options?.telemetry,
+    getCurrentThreadId,
+    getActiveOtelContext,
+  );
 }
 
 /**
@@ -426,6 +717,121 @@ function createBaseConfig(
   };
 }
 
+/**
+ * Creates a dedup stage whose held repeats are logged on shutdown
+ * @param options - Dedup options
+ * @returns Log method hook
+ * @throws {ConfigurationError} If the options are invalid
+ */
+function createDedupStage(options: DedupOptions): LogMethodHook {
+  const hook = createDedupHook(options);
+  registerSummarySource(hook);
+  return hook;
+}
+
+/**
+ * Creates a rate limiting stage whose pending summaries are logged on
+ * shutdown
+ * @param options - Rate limit options
+ * @returns Log method hook
+ * @throws {ConfigurationError} If the options are invalid
+ */
+function createRateLimitStage(options: RateLimitOptions): LogMethodHook {
+  const limiter = new LogRateLimiter(options);
+  registerSummarySource(limiter);
+  return createRateLimitHook(limiter);
+}
+
+/**
+ * Creates the log volume stages (dedup, then rate limiting) shared by
+ * `initLogger` and component loggers
+ * @param options - Logger or component logger options
+ * @returns Stages in pipeline order, undefined when disabled
+ */
+function createVolumeStages(
+  options: ComponentLoggerOptions | undefined,
+): Array<LogMethodHook | undefined> {
+  return [
+    options?.dedup == null ? undefined : createDedupStage(options.dedup),
+    options?.rateLimit == null
+      ? undefined
+      : createRateLimitStage(options.rateLimit),
+  ];
+}
+
+/**
+ * Creates Pino hooks, composing stern-logger's log method stages with any
+ * hooks passed through `pinoOptions`
+ *
+ * Stages (in order):
+ * - sampling (with `sampling`; errors and fatals always pass)
+ * - duplicate collapsing (with `dedup`)
+ * - rate limiting (with `rateLimit`)
+ * - tail buffering (inside `runWithLogBuffer` scopes)
+ * - strict validation (unless `strict: false`)
+ * - user-provided `pinoOptions.hooks.logMethod`
+ *
+ * Serialized records are signed (with `integrity`) after any user-provided
+ * `pinoOptions.hooks.streamWrite`.
+ *
+ * @param options - Logger options
+ * @param pinoHooks - Hooks from pinoOptions passthrough
+ * @param mixin - The logger's mixin (trace context for trace-aware sampling
+ *   and for records held by the tail buffer)
+ * @returns Pino hooks configuration
+ */
+function createPinoHooks(
+  options: Partial<LoggerOptions> | undefined,
+  pinoHooks: pino.LoggerOptions['hooks'],
+  mixin: () => Record<string, unknown>,
+): pino.LoggerOptions['hooks'] {
+  const logMethod = composeLogMethodHooks([
+    options?.sampling == null
+      ? undefined
+      : createSamplingHook(options.sampling, mixin),
+    ...createVolumeStages(options),
+    createLogBufferHook(mixin),
+    options?.strict === false
+      ? undefined
+      : createValidationHook(
+          options?.validation,
+          options?.nodeEnv ?? DEFAULT_NODE_ENV,
+        ),
+    pinoHooks?.logMethod as LogMethodHook | undefined,
+  ]);
+
+  return {
+    ...pinoHooks,
+    ...(logMethod && {
+      logMethod: logMethod as NonNullable<
+        pino.LoggerOptions['hooks']
+      >['logMethod'],
+    }),
+    ...createSigningHooks(options, pinoHooks),
+  };
+}
+
+/**
+ * Creates the `streamWrite` hook that signs records (with `integrity`),
+ * after any user-provided `pinoOptions.hooks.streamWrite`
+ * @param options - Logger options
+ * @param pinoHooks - Hooks from pinoOptions passthrough
+ * @returns Hooks to merge, empty when records are not signed
+ */
+function createSigningHooks(
+  options: Partial<LoggerOptions> | undefined,
+  pinoHooks: pino.LoggerOptions['hooks'],
+): pino.LoggerOptions['hooks'] {
+  if (options?.integrity == null) {
+    return {};
+  }
+  const sign = createIntegrityHook(options.integrity);
+  const userHook = pinoHooks?.streamWrite;
+  return {
+    streamWrite: userHook ? (line) => sign(userHook(line)) : sign,
+  };
+}
+
 /**
  * Creates Pino logger configuration object
  * @param options - Logger options
@@ -440,15 +846,19 @@ function createPinoConfig(
     | undefined,
 ): pino.LoggerOptions {
   const pinoOptions = options?.pinoOptions;
+  const mixin = createLogContextMixin(createLoggerMixin(options));
+  const customLevels = getCustomLevels(options);
 
   return {
     ...pinoOptions,
+    ...(customLevels && { customLevels }),
     level: options?.level ?? DEFAULT_LOG_LEVEL,
     serializers: createSerializers(),
     redact: createRedactionOptions(options?.redactPaths),
     base: createBaseConfig(options, pinoOptions?.base),
     ...(transport && { transport }),
-    mixin: createLoggerMixin(options),
+    mixin,
+    hooks: createPinoHooks(options, pinoOptions?.hooks, mixin),
   };
 }
 
@@ -462,11 +872,23 @@ function createPinoConfig(
  * - OpenTelemetry integration via mixin
  * - Sensitive data redaction
  * - Error serialization
+ * - Sampling via hooks.logMethod (enable with `sampling`)
+ * - Duplicate collapsing via hooks.logMethod (enable with `dedup`)
+ * - Rate limiting via hooks.logMethod (enable with `rateLimit`)
+ * - Strict validation via hooks.logMethod (disable with `strict: false`)
+ * - Custom levels (`customLevels`), also applied to pretty and Loki output
  *
- * Note: Rate limiting is available separately via LogRateLimiter utilities.
+ * By default, initialization errors are logged and the base logger is
+ * returned. With `failOnError: true`, options are validated up front and
+ * errors are thrown instead. Contradictory telemetry options always throw,
+ * since falling back would silently drop trace correlation.
  *
  * @param options - Optional logger configuration
- * @returns A promise that resolves with the configured Pino logger instance
+ * @returns A promise that resolves with the configured Pino logger instance,
+ *   with a method for each custom level
+ * @throws {ConfigurationError} If the telemetry options are contradictory
+ * @throws {ConfigurationError} With `failOnError: true`, if options are
+ *   invalid or initialization fails
  *
  * @example
  * ```typescript
@@ -484,44 +906,171 @@ function createPinoConfig(
  *   }
  * });
  * ```
+ *
+ * @example Custom levels
+ * ```typescript
+ * const logger = await initLogger({
+ *   customLevels: { notice: 35, audit: 70 },
+ *   namespaces: '*,billing:*=notice',
+ * });
+ * logger.audit({ userId }, 'Role changed');
+ * ```
  */
-export async function initLogger(
-  options?: Partial<LoggerOptions>,
-): Promise<Logger> {
+export async function initLogger<TLevels extends string = never>(
+  options?: Partial<LoggerOptions<TLevels>>,
+): Promise<CustomLevelLogger<TLevels>> {
+  assertTelemetryOptions(options);
+
   try {
+    if (options?.failOnError === true) {
+      assertValidLoggerOptions(options);
+    }
+
+    // Validate namespace levels before Pino spawns transport workers
+    const newNamespaceConfig = parseLoggerNamespaces(options);
+
     const transport = createTransport(options);
     const config = createPinoConfig(options, transport);
     const rawLogger = pino(config);
+    if (transport) {
+      registerTransportStream(describeTransport(transport), rawLogger);
+    }
 
     // Cast to our Logger type (Pino logger is structurally compatible)
     const newLogger = rawLogger as Logger;
 
-    // Add telemetry helper methods
+    // Add telemetry helper methods and duration timers
     enhanceLoggerWithTelemetry(newLogger);
+    installTimerMethods(newLogger, options?.timers);
 
     // Update global logger references
     pinoLogger = newLogger;
     currentLogger = newLogger;
 
     // Configure namespace filtering if provided
-    if (options?.namespaces != null) {
-      setNamespaceConfig(options.namespaces);
+    if (newNamespaceConfig != null) {
+      namespaceConfig = newNamespaceConfig;
     }
+    bumpConfigGeneration();
+    configureLogRetention(options);
 
-    return newLogger;
+    return newLogger as CustomLevelLogger<TLevels>;
   } catch (error) {
-    // Log the error using the existing logger if available
-    if (typeof pinoLogger !== 'undefined') {
-      pinoLogger.error({ err: error }, 'Failed to initialize logger');
-    } else {
-      console.error('Failed to initialize logger:', error);
-    }
+    return handleInitError(error, options) as CustomLevelLogger<TLevels>;
+  }
+}
+
+/**
+ * Parse and validate the `namespaces` option of initLogger
+ * @param options - Logger options passed to initLogger
+ * @returns Namespace configuration, or undefined when not configured
+ * @throws {ConfigurationError} If a pattern names an unknown level
+ */
+function parseLoggerNamespaces(
+  options: Partial<LoggerOptions> | undefined,
+): NamespaceConfig | undefined {
+  if (options?.namespaces == null) {
+    return undefined;
+  }
+  const config = parseNamespacePatterns(options.namespaces);
+  assertNamespaceLevels(config, resolveLevelValues(getCustomLevels(options)));
+  return config;
+}
 
-    // Return the base logger as fallback
-    return baseLogger;
+/**
+ * Reject contradictory telemetry options
+ *
+ * Runs outside initLogger's fallback handling: a logger without the
+ * requested trace correlation must not be returned silently.
+ *
+ * @param options - Logger options passed to initLogger
+ * @throws {ConfigurationError} If the telemetry options are contradictory
+ */
+function assertTelemetryOptions(
+  options: Partial<LoggerOptions> | undefined,
+): void {
+  if (options?.telemetry?.enabled === true) {
+    resolveCorrelationMode(options.telemetry);
   }
 }
 
+/**
+ * Handle an initLogger failure
+ * @param error - The error thrown during initialization
+ * @param options - Logger options passed to initLogger
+ * @returns The base logger as fallback
+ * @throws {ConfigurationError} When `failOnError` is enabled
+ */
+function handleInitError(
+  error: unknown,
+  options: Partial<LoggerOptions> | undefined,
+): Logger {
+  if (options?.failOnError === true) {
+    throw error instanceof ConfigurationError
+      ? error
+      : new ConfigurationError('Logger initialization failed', error);
+  }
+
+  // Log the error using the existing logger if available
+  if (typeof pinoLogger !== 'undefined') {
+    pinoLogger.error({ err: error }, 'Failed to initialize logger');
+  } else {
+    console.error('Failed to initialize logger:', error);
+  }
+
+  // Return the base logger as fallback
+  return baseLogger;
+}
+
+/**
+ * Flush and close every transport and stop background timers
+ *
+ * Logs the summaries held by dedup and rate limiting stages, then flushes all
+ * transport workers created by the library (console, file,
+ * rotation, Loki and custom transports, including those of loggers that
+ * were replaced by a later `initLogger` call), waits for their worker
+ * threads to exit, and stops the telemetry cleanup and log retention
+ * timers. Loggers are silenced afterwards, so late log calls are dropped
+ * instead of failing.
+ *
+ * Never rejects: transports that fail or miss the deadline are reported.
+ *
+ * @param options - Shutdown options
+ * @returns Report of what was flushed, failed, or timed out
+ *
+ * @example
+ * ```typescript
+ * process.once('SIGTERM', () => {
+ *   void shutdownLogger({ timeoutMs: 3000 }).then((report) => {
+ *     process.exit(report.timedOut ? 1 : 0);
+ *   });
+ * });
+ * ```
+ */
+export async function shutdownLogger(
+  options?: ShutdownOptions,
+): Promise<ShutdownReport> {
+  const startedAt = Date.now();
+  const timeoutMs = options?.timeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS;
+
+  // Summaries held by dedup and rate limiting go out before their
+  // transports close
+  flushSummarySources();
+  const transports = await closeTransportStreams(timeoutMs);
+  const telemetryTimerStopped = stopTraceContextCleanup();
+  stopLogRetention();
+
+  // Rebuild component loggers from the (now silent) current logger
+  bumpConfigGeneration();
+
+  return {
+    transports,
+    telemetryTimerStopped,
+    timedOut: transports.some((transport) => transport.status === 'timed_out'),
+    durationMs: Date.now() - startedAt,
+  };
+}
+
 // =============================================================================
 // NAMESPACE FILTERING
 // =============================================================================
@@ -532,6 +1081,12 @@ let namespaceConfig: NamespaceConfig = parseNamespacePatterns('*');
 /** Reference to the current logger instance */
 let currentLogger: Logger = pinoLogger;
 
+/**
+ * Configuration generation, bumped on every runtime reconfiguration.
+ * Component loggers compare against it to know when to rebuild.
+ */
+let configGeneration = 0;
+
 /**
  * No-op logger that silently discards all log calls.
  * Used when a namespace is disabled.
@@ -553,21 +1108,288 @@ const noOpLogger: Logger = {
   setTraceContext: noOpFn,
   getTraceContext: () => undefined,
   clearTraceContext: noOpFn,
+  isLevelEnabled: () => false,
 } as unknown as Logger;
 
+// Timers on a disabled logger still run and time the function
+installTimerMethods(noOpLogger);
+
+/**
+ * Mark all component loggers as stale so they rebuild on next use
+ */
+function bumpConfigGeneration(): void {
+  configGeneration++;
+}
+
+/**
+ * One `child()` call recorded on a component logger
+ */
+interface ChildStep {
+  readonly bindings: Record<string, unknown>;
+  readonly options: pino.ChildLoggerOptions | undefined;
+}
+
+/**
+ * Mutable state behind a component logger handle
+ */
+interface ComponentLoggerState {
+  readonly namespace: string;
+  readonly steps: ReadonlyArray<ChildStep>;
+  generation: number;
+  target: Logger;
+  /**
+   * Properties assigned directly on the handle (such as `level`), applied
+   * to every target the handle resolves to. Never applied to the no-op
+   * logger, which all disabled handles share.
+   */
+  readonly overrides: Map<PropertyKey, unknown>;
+  /** Methods bound to the current target */
+  bound: Map<PropertyKey, unknown>;
+  /** Stage applied to log method calls (e.g. per-component rate limiting) */
+  readonly logMethodHook: LogMethodHook | undefined;
+}
+
+/**
+ * Rebuild a component logger's target from the current configuration
+ * @param state - Component logger state
+ */
+function refreshComponentLogger(state: ComponentLoggerState): void {
+  state.generation = configGeneration;
+  state.bound.clear();
+
+  if (!isNamespaceEnabled(state.namespace, namespaceConfig)) {
+    state.target = noOpLogger;
+    return;
+  }
+
+  // The namespace level goes on the first child so later children inherit it
+  const namespaceLevel = resolveNamespaceLevel(
+    state.namespace,
+    namespaceConfig,
+  );
+  let target = currentLogger;
+  for (const [index, step] of state.steps.entries()) {
+    const options =
+      index === 0 && namespaceLevel != null
+        ? { ...step.options, level: namespaceLevel }
+        : step.options;
+    target = target.child(step.bindings, options) as Logger;
+  }
+  for (const [property, value] of state.overrides) {
+    Reflect.set(target, property, value);
+  }
+  state.target = target;
+}
+
+/**
+ * Get the up-to-date target of a component logger
+ * @param state - Component logger state
+ * @returns Real child logger, or the no-op logger when disabled
+ */
+function resolveComponentLogger(state: ComponentLoggerState): Logger {
+  if (state.generation !== configGeneration) {
+    refreshComponentLogger(state);
+  }
+  return state.target;
+}
+
+/**
+ * Bind a logger method to its target, routing log methods through the
+ * component's log method hook
+ * @param state - Component logger state
+ * @param target - Real logger the method belongs to
+ * @param property - Method name
+ * @param value - Method
+ * @returns Bound method
+ */
+function bindComponentMethod(
+  state: ComponentLoggerState,
+  target: Logger,
+  property: PropertyKey,
+  value: unknown,
+): unknown {
+  const method = (value as (...args: Array<unknown>) => unknown).bind(target);
+  const hook = state.logMethodHook;
+  const level =
+    typeof property === 'string' ? target.levels.values[property] : undefined;
+  if (hook == null || level == null) {
+    return method;
+  }
+
+  return (...args: Array<unknown>): void => {
+    hook.call(target, args, method as pino.LogFn, level);
+  };
+}
+
+/**
+ * Read a property of a disabled component logger handle
+ * @param state - Component logger state
+ * @param property - Property name
+ * @returns No-op logger property, or the value assigned on the handle
+ */
+function getDisabledProperty(
+  state: ComponentLoggerState,
+  property: PropertyKey,
+): unknown {
+  if (property === 'bindings') {
+    // A disabled handle still reports the bindings it was created with
+    return (): pino.Bindings =>
+      Object.assign(
+        currentLogger.bindings(),
+        ...state.steps.map((step) => step.bindings),
+      );
+  }
+  // A disabled handle stays silent whatever level was assigned on it
+  if (property !== 'level' && state.overrides.has(property)) {
+    return state.overrides.get(property);
+  }
+  // Custom level methods exist only on real loggers
+  if (typeof property === 'string' && property in currentLogger.levels.values) {
+    return noOpFn;
+  }
+  return Reflect.get(noOpLogger, property);
+}
+
+/**
+ * Create a live component logger handle
+ *
+ * The handle forwards to a real child logger (or the no-op logger when the
+ * namespace is disabled) and rebuilds it lazily after any reconfiguration,
+ * so loggers created at module load follow later `setNamespaceConfig`,
+ * `setLogLevel`, and `initLogger` calls. A disabled handle costs one
+ * generation check per call.
+ *
+ * @param namespace - Namespace of the component
+ * @param steps - Child calls to replay on top of the current logger
+ * @param logMethodHook - Stage applied to log method calls, shared with children
+ * @returns Logger handle
+ */
+function createLiveComponentLogger(
+  namespace: string,
+  steps: ReadonlyArray<ChildStep>,
+  logMethodHook: LogMethodHook | undefined,
+): Logger {
+  const state: ComponentLoggerState = {
+    namespace,
+    steps,
+    generation: -1,
+    target: noOpLogger,
+    overrides: new Map(),
+    bound: new Map(),
+    logMethodHook,
+  };
+
+  const child = (
+    bindings: Record<string, unknown>,
+    options?: pino.ChildLoggerOptions,
+  ): Logger =>
+    createLiveComponentLogger(
+      namespace,
+      [...steps, { bindings, options }],
+      logMethodHook,
+    );
+
+  return new Proxy(noOpLogger, {
+    get(_, property, receiver): unknown {
+      if (property === 'child') {
+        return child;
+      }
+
+      const target = resolveComponentLogger(state);
+      if (target === noOpLogger) {
+        return getDisabledProperty(state, property);
+      }
+
+      const value: unknown = Reflect.get(target, property);
+      if (typeof value !== 'function') {
+        return value;
+      }
+
+      // Timers log through the handle, so the component's stages apply
+      if (property === 'startTimer' || property === 'time') {
+        return (value as (...args: Array<unknown>) => unknown).bind(receiver);
+      }
+
+      // Bind so Pino internals see the real logger as `this`
+      let bound = state.bound.get(property);
+      if (bound == null) {
+        bound = bindComponentMethod(state, target, property, value);
+        state.bound.set(property, bound);
+      }
+      return bound;
+    },
+    set(_, property, value): boolean {
+      const target = resolveComponentLogger(state);
+      if (target !== noOpLogger) {
+        // Throws for unknown levels before the override is kept
+        Reflect.set(target, property, value);
+      } else if (
+        property === 'level' &&
+        !isKnownLevel(value as string, currentLogger.levels.values)
+      ) {
+        throw new ConfigurationError(`Unknown log level "${String(value)}"`);
+      }
+      state.overrides.set(property, value);
+      state.bound.delete(property);
+      return true;
+    },
+  });
+}
+
+/**
+ * Check that a level is known to a logger
+ * @param level - Level name
+ * @param levels - Level values of the logger, by name
+ * @returns True for configured levels and 'silent'
+ */
+function isKnownLevel(
+  level: string,
+  levels: Readonly<Record<string, number>>,
+): boolean {
+  return level === 'silent' || level in levels;
+}
+
+/**
+ * Ensure every per-namespace level is known to the logger
+ * @param config - Parsed namespace configuration
+ * @param levels - Level values of the logger the levels will be applied to
+ * @throws {ConfigurationError} If a pattern names an unknown level
+ */
+function assertNamespaceLevels(
+  config: NamespaceConfig,
+  levels: Readonly<Record<string, number>>,
+): void {
+  for (const rule of config.rules) {
+    if (rule.level != null && !isKnownLevel(rule.level, levels)) {
+      throw new ConfigurationError(
+        `Unknown log level "${rule.level}" for namespace pattern "${rule.pattern}"`,
+      );
+    }
+  }
+}
+
 /**
  * Set the namespace configuration for log filtering.
  * Called automatically by initLogger when namespaces option is provided.
  *
- * @param namespaces - Comma-separated namespace patterns
+ * Takes effect immediately for every component logger, including those
+ * created before the call.
+ *
+ * @param namespaces - Comma-separated namespace patterns, each optionally
+ *   suffixed with `=level`
+ * @throws {ConfigurationError} If a pattern names an unknown level
  *
  * @example
  * ```typescript
  * setNamespaceConfig('voice:*,twilio:*');
+ * setNamespaceConfig('voice:*=debug,http:*=warn,*=info');
  * ```
  */
 export function setNamespaceConfig(namespaces: string): void {
-  namespaceConfig = parseNamespacePatterns(namespaces);
+  const config = parseNamespacePatterns(namespaces);
+  assertNamespaceLevels(config, currentLogger.levels.values);
+  namespaceConfig = config;
+  bumpConfigGeneration();
 }
 
 /**
@@ -579,14 +1401,53 @@ export function getNamespaceConfig(): NamespaceConfig {
   return namespaceConfig;
 }
 
+/**
+ * Change the log level at runtime.
+ *
+ * Applies to the current logger and every component logger, including
+ * those created before the call, unless their level was set directly or
+ * comes from a `namespace=level` pattern.
+ *
+ * @param level - New log level (e.g. 'debug', 'info', 'silent')
+ * @throws {ConfigurationError} If the level is not known to the logger
+ *
+ * @example
+ * ```typescript
+ * process.on('SIGUSR2', () => setLogLevel('debug'));
+ * ```
+ */
+export function setLogLevel(level: string): void {
+  if (!isKnownLevel(level, currentLogger.levels.values)) {
+    throw new ConfigurationError(`Unknown log level: "${level}"`);
+  }
+  currentLogger.level = level;
+  bumpConfigGeneration();
+}
+
+/**
+ * Get the current log level.
+ *
+ * @returns The level of the current logger
+ */
+export function getLogLevel(): string {
+  return currentLogger.level;
+}
+
 /**
  * Create a component logger with namespace filtering.
  *
- * If the namespace is disabled by LOG_NAMESPACES, returns a no-op logger
- * that silently discards all log calls for zero performance impact.
+ * If the namespace is disabled by LOG_NAMESPACES, log calls are silently
+ * discarded at near-zero cost. The returned logger stays live: later
+ * namespace, level, or `initLogger` changes apply to it (and to its
+ * children) without re-creating it.
+ *
+ * `TLevels` names the `customLevels` of the logger, for their methods.
  *
  * @param metadata - Service metadata for the component
- * @returns Logger instance (real or no-op based on namespace filtering)
+ * @param options - Component logger options (per-component rate limiting
+ *   and duplicate collapsing)
+ * @returns Logger instance following the current configuration
+ * @throws {ConfigurationError} If the rate limit or dedup options are invalid
  *
  * @example
  * ```typescript
@@ -600,21 +1461,37 @@ export function getNamespaceConfig(): NamespaceConfig {
  * // If LOG_NAMESPACES=voice:* this logs
  * // If LOG_NAMESPACES=http:* this is silently discarded
  * log.debug({ callId }, 'Call started');
+ *
+ * // At most 10 logs per second, with a summary of what was suppressed
+ * const poller = createComponentLogger(
+ *   { component: 'queue', operation: 'poll' },
+ *   { rateLimit: { limit: 10, intervalMs: 1000 } },
+ * );
+ *
+ * // With customLevels: { audit: 70 }
+ * const billing = createComponentLogger<ServiceMetadata, 'audit'>({
+ *   component: 'billing',
+ * });
+ * billing.audit({ actor: userId }, 'Refund issued');
  * ```
  */
-export function createComponentLogger(metadata: ServiceMetadata): Logger {
+export function createComponentLogger<
+  TMetadata extends ServiceMetadata = ServiceMetadata,
+  TLevels extends string = never,
+>(
+  metadata: TMetadata,
+  options?: ComponentLoggerOptions,
+): CustomLevelLogger<TLevels, MergeBindings<TMetadata, { namespace: string }>> {
   const namespace = buildNamespace(metadata);
 
-  // Check if namespace is enabled
-  if (!isNamespaceEnabled(namespace, namespaceConfig)) {
-    return noOpLogger;
-  }
-
-  // Create real child logger with metadata
-  return currentLogger.child({
-    ...metadata,
+  return createLiveComponentLogger(
     namespace,
-  }) as Logger;
+    [{ bindings: { ...metadata, namespace }, options: undefined }],
+    composeLogMethodHooks(createVolumeStages(options)),
+  ) as CustomLevelLogger<
+    TLevels,
+    MergeBindings<TMetadata, { namespace: string }>
+  >;
 }
 
 /**
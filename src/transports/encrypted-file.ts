@@ -0,0 +1,262 @@
+/**
+ * @fileoverview Encrypted file transport
+ *
+ * Pino transport that writes log files encrypted at rest. Every chunk Pino
+ * hands the transport is encrypted on its own (see `utils/encryption`), and
+ * files rotate like pino-roll's (`<file>.1`, `<file>.2`, ...), so rotated
+ * files can be read with `decryptLogFile()` one by one.
+ */
+
+import type { TransportTargetOptions } from 'pino';
+
+import type { EncryptionOptions, FileRotationOptions } from '../types';
+import type { ChunkPosition } from '../utils/encryption';
+
+import {
+  closeSync,
+  fstatSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  rmSync,
+  writeSync,
+} from 'node:fs';
+import { basename, dirname } from 'node:path';
+import { Writable } from 'node:stream';
+import { fileURLToPath } from 'node:url';
+
+import { DEFAULT_ROTATION_OPTIONS } from '../constants';
+import {
+  createFileId,
+  encryptChunk,
+  parseEncryptionKey,
+  resolveEncryptionKey,
+} from '../utils/encryption';
+import { normalizeError } from '../utils/error-handler';
+import { parseRotationSize } from '../utils/options-validation';
+
+// Package export of the standalone transport build
+const WORKER_EXPORT = '@mrstern/logger/transports/encrypted-file';
+
+/**
+ * Options for the encrypted file transport
+ */
+export interface EncryptedFileTransportOptions {
+  /** Path of the encrypted log file */
+  file: string;
+  /** Encryption key (default: `LOG_ENCRYPTION_KEY`) */
+  encryption?: EncryptionOptions;
+  /** Rotate like pino-roll: `<file>.1`, `<file>.2`, ... (default: no rotation) */
+  rotation?: FileRotationOptions;
+  /** Minimum level for this transport */
+  level?: string;
+}
+
+/**
+ * Options received by the transport worker
+ */
+export interface EncryptedFileWorkerOptions {
+  file: string;
+  /** Base64 encryption key */
+  key: string;
+  rotation?: {
+    /** Size in bytes at which the file rotates */
+    size: number;
+    /** Rotated files kept in addition to the current one */
+    count: number;
+    frequency: 'daily' | 'hourly';
+  };
+}
+
+/**
+ * Start of the rotation period a time falls in
+ * @param frequency - Rotation frequency
+ * @param now - Time (epoch milliseconds)
+ * @returns Start of the day or hour (local time)
+ */
+function periodStart(frequency: 'daily' | 'hourly', now: number): number {
+  const date = new Date(now);
+  return frequency === 'daily'
+    ? date.setHours(0, 0, 0, 0)
+    : date.setMinutes(0, 0, 0);
+}
+
+/**
+ * Numbers of the rotated files of a log file, ascending
+ * @param file - Log file path
+ * @returns File numbers
+ */
+function listFileNumbers(file: string): Array<number> {
+  const prefix = `${basename(file)}.`;
+  return readdirSync(dirname(file))
+    .filter(
+      (name) =>
+        name.startsWith(prefix) && /^\d+$/u.test(name.slice(prefix.length)),
+    )
+    .map((name) => Number(name.slice(prefix.length)))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Create the appending writer of the worker, rotating when configured
+ *
+ * Every opened file gets a new file id, and its chunks are numbered from 0,
+ * so `decryptLogFile()` detects missing or reordered chunks.
+ *
+ * @param file - Log file path
+ * @param key - Key bytes
+ * @param rotation - Rotation settings
+ * @returns Writer encrypting each chunk
+ */
+function createFileWriter(
+  file: string,
+  key: Buffer,
+  rotation: EncryptedFileWorkerOptions['rotation'],
+): { write: (chunk: Buffer) => void; close: () => void } {
+  mkdirSync(dirname(file), { recursive: true });
+
+  let fileNumber = rotation ? (listFileNumbers(file).at(-1) ?? 1) : 0;
+  const pathOf = (number: number): string =>
+    rotation ? `${file}.${number}` : file;
+  let fd = openSync(pathOf(fileNumber), 'a');
+  let size = fstatSync(fd).size;
+  let period = rotation ? periodStart(rotation.frequency, Date.now()) : 0;
+  let position: ChunkPosition = { fileId: createFileId(), index: 0 };
+  const encode = (chunk: Buffer): string =>
+    `${encryptChunk(key, chunk, position)}\n`;
+
+  const roll = (settings: NonNullable<typeof rotation>): void => {
+    closeSync(fd);
+    fileNumber++;
+    fd = openSync(pathOf(fileNumber), 'a');
+    size = 0;
+    position = { fileId: createFileId(), index: 0 };
+    period = periodStart(settings.frequency, Date.now());
+    for (const number of listFileNumbers(file)) {
+      if (number < fileNumber - settings.count) {
+        rmSync(pathOf(number), { force: true });
+      }
+    }
+  };
+
+  return {
+    write(chunk) {
+      let data = encode(chunk);
+      if (
+        rotation &&
+        size > 0 &&
+        (size + Buffer.byteLength(data) > rotation.size ||
+          periodStart(rotation.frequency, Date.now()) !== period)
+      ) {
+        roll(rotation);
+        // Encrypt again at the start of the new file
+        data = encode(chunk);
+      }
+      writeSync(fd, data);
+      size += Buffer.byteLength(data);
+      position = { ...position, index: position.index + 1 };
+    },
+    close() {
+      closeSync(fd);
+    },
+  };
+}
+
+/**
+ * Transport worker entry point (loaded by Pino in a worker thread)
+ * @param options - Worker options
+ * @returns Stream encrypting each chunk to the file
+ */
+export default function encryptedFileTransport(
+  options: EncryptedFileWorkerOptions,
+): Writable {
+  const key = parseEncryptionKey(options.key);
+  const writer = createFileWriter(options.file, key, options.rotation);
+
+  return new Writable({
+    write(chunk: Buffer, _encoding, callback): void {
+      try {
+        writer.write(chunk);
+        callback();
+      } catch (error) {
+        callback(normalizeError(error));
+      }
+    },
+    final(callback): void {
+      writer.close();
+      callback();
+    },
+  });
+}
+
+/**
+ * Module Pino loads in the worker thread
+ *
+ * The package build defines `STERN_LOGGER_BUILD` as its module format, so
+ * built code uses the package export: ESM builds resolve it to the `.mjs`
+ * file, and CommonJS builds leave it to Pino, which resolves it from the
+ * calling module. `import.meta.url` is only used when running from source;
+ * CommonJS builds would inline it as the path on the build machine.
+ *
+ * @returns Module URL, package export, or path of this source module
+ */
+function getWorkerTarget(): string {
+  if (process.env['STERN_LOGGER_BUILD'] === 'esm') {
+    return import.meta.resolve(WORKER_EXPORT);
+  }
+  if (process.env['STERN_LOGGER_BUILD'] === 'cjs') {
+    return WORKER_EXPORT;
+  }
+  return fileURLToPath(import.meta.url);
+}
+
+/**
+ * Create an encrypted file transport target
+ *
+ * The key is resolved (and checked) in the calling thread, so a missing or
+ * invalid key fails at startup rather than in the worker.
+ *
+ * @param options - Transport options
+ * @returns Pino transport target
+ * @throws {ConfigurationError} If the key or rotation size is invalid
+ *
+ * @example
+ * ```typescript
+ * const logger = pino({
+ *   transport: {
+ *     targets: [
+ *       createEncryptedFileTransport({
+ *         file: './logs/audit-trail.log.enc',
+ *         encryption: { key: process.env.LOG_ENCRYPTION_KEY },
+ *         rotation: { maxSize: '10m', maxFiles: 14 },
+ *       }),
+ *     ],
+ *   },
+ * });
+ * ```
+ */
+export function createEncryptedFileTransport(
+  options: EncryptedFileTransportOptions,
+): TransportTargetOptions {
+  const key = resolveEncryptionKey(options.encryption).toString('base64');
+  const rotation = options.rotation;
+  const workerOptions: EncryptedFileWorkerOptions = {
+    file: options.file,
+    key,
+    ...(rotation && {
+      rotation: {
+        size: parseRotationSize(
+          rotation.maxSize ?? DEFAULT_ROTATION_OPTIONS.MAX_SIZE,
+        ),
+        count: rotation.maxFiles ?? DEFAULT_ROTATION_OPTIONS.MAX_FILES,
+        frequency: rotation.frequency ?? DEFAULT_ROTATION_OPTIONS.FREQUENCY,
+      },
+    }),
+  };
+
+  return {
+    target: getWorkerTarget(),
+    ...(options.level != null && { level: options.level }),
+    options: workerOptions,
+  };
+}
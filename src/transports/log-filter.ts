@@ -0,0 +1,220 @@
+/**
+ * @fileoverview Log filter transport
+ *
+ * Pino pipeline stage that passes on only the records at or below a level
+ * and in matching namespaces, so a file target behind it receives a slice
+ * of the log (such as `payments:*` records, or warnings but not errors).
+ * While the retention sweep reports low disk space, it can also hold a
+ * file to a higher minimum level. Records are passed on unchanged, one
+ * line each.
+ */
+
+import type { TransportSingleOptions } from 'pino';
+
+import { Transform } from 'node:stream';
+import { StringDecoder } from 'node:string_decoder';
+import { fileURLToPath } from 'node:url';
+
+import { ConfigurationError } from '../utils/error-handler';
+import { resolveLevelValues } from '../utils/levels';
+import {
+  isNamespaceEnabled,
+  parseNamespacePatterns,
+} from '../utils/namespace_filter';
+import { getLowDiskSpaceFlag } from '../utils/retention';
+
+// Package export of the standalone transport build
+const WORKER_EXPORT = '@mrstern/logger/transports/log-filter';
+
+/**
+ * Options for the log filter stage
+ */
+export interface LogFilterOptions {
+  /** Highest level passed on (default: no upper bound) */
+  maxLevel?: string;
+  /** Namespace patterns records must match, as in `LOG_NAMESPACES` */
+  namespaces?: string;
+  /**
+   * Lowest level passed on while the retention sweep reports free space
+   * below `minFreeSpace` (default: no degraded mode)
+   */
+  lowDiskLevel?: string;
+  /** Custom levels by name and numeric value, for `maxLevel` */
+  customLevels?: Readonly<Record<string, number>>;
+}
+
+/**
+ * Options received by the transport worker
+ */
+export interface LogFilterWorkerOptions {
+  /** Highest level value passed on */
+  maxLevel?: number;
+  namespaces?: string;
+  /** Lowest level value passed on while `lowDiskSpace` is set */
+  lowDiskLevel?: number;
+  /** Low disk space flag shared with the main thread */
+  lowDiskSpace?: Int32Array;
+}
+
+/**
+ * Check whether a record is held back while disk space is low
+ * @param level - Level value of the record
+ * @param options - Worker options
+ * @returns True for records below the low disk level during low disk space
+ */
+function isHeldForDiskSpace(
+  level: unknown,
+  options: LogFilterWorkerOptions,
+): boolean {
+  return (
+    options.lowDiskLevel != null &&
+    options.lowDiskSpace != null &&
+    typeof level === 'number' &&
+    level < options.lowDiskLevel &&
+    Atomics.load(options.lowDiskSpace, 0) === 1
+  );
+}
+
+/**
+ * Create the check a record line must pass
+ * @param options - Worker options
+ * @returns True for lines to pass on
+ */
+function createLineFilter(
+  options: LogFilterWorkerOptions,
+): (line: string) => boolean {
+  const namespaceConfig =
+    options.namespaces == null
+      ? undefined
+      : parseNamespacePatterns(options.namespaces);
+
+  return (line) => {
+    let record: { level?: unknown; namespace?: unknown };
+    try {
+      record = JSON.parse(line) as typeof record;
+    } catch {
+      return false;
+    }
+    if (
+      (options.maxLevel != null &&
+        typeof record.level === 'number' &&
+        record.level > options.maxLevel) ||
+      isHeldForDiskSpace(record.level, options)
+    ) {
+      return false;
+    }
+    // Records of the root logger have no namespace
+    const namespace =
+      typeof record.namespace === 'string' ? record.namespace : '';
+    return (
+      namespaceConfig == null || isNamespaceEnabled(namespace, namespaceConfig)
+    );
+  };
+}
+
+/**
+ * Transport worker entry point (loaded by Pino in a worker thread)
+ * @param options - Worker options
+ * @returns Stream passing on the lines of matching records
+ */
+export default function logFilterTransport(
+  options: LogFilterWorkerOptions,
+): Transform {
+  const accepts = createLineFilter(options);
+  const decoder = new StringDecoder('utf8');
+  let pending = '';
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback): void {
+      const lines = `${pending}${decoder.write(chunk)}`.split('\n');
+      pending = lines.pop() ?? '';
+      for (const line of lines) {
+        if (accepts(line)) {
+          this.push(`${line}\n`);
+        }
+      }
+      callback();
+    },
+    flush(callback): void {
+      const line = `${pending}${decoder.end()}`;
+      if (line.length > 0 && accepts(line)) {
+        this.push(`${line}\n`);
+      }
+      callback();
+    },
+  });
+}
+
+/**
+ * Module Pino loads in the worker thread
+ *
+ * Built code uses the package export for its module format (see the
+ * encrypted file transport); only unbuilt sources use `import.meta.url`.
+ *
+ * @returns Module URL, package export, or path of this source module
+ */
+function getWorkerTarget(): string {
+  if (process.env['STERN_LOGGER_BUILD'] === 'esm') {
+    return import.meta.resolve(WORKER_EXPORT);
+  }
+  if (process.env['STERN_LOGGER_BUILD'] === 'cjs') {
+    return WORKER_EXPORT;
+  }
+  return fileURLToPath(import.meta.url);
+}
+
+/**
+ * Create a log filter stage for a Pino transport pipeline
+ *
+ * The minimum level is the `level` of the pipeline itself; this stage adds
+ * the upper bound, the namespace patterns, and the minimum level while
+ * disk space is low.
+ *
+ * @param options - Filter options
+ * @returns Pipeline stage
+ * @throws {ConfigurationError} If `maxLevel` or `lowDiskLevel` is not a
+ *   known level
+ *
+ * @example
+ * ```typescript
+ * const logger = pino({
+ *   transport: {
+ *     targets: [
+ *       {
+ *         level: 'warn',
+ *         pipeline: [
+ *           createLogFilterStage({ maxLevel: 'warn', namespaces: 'payments:*' }),
+ *           { target: 'pino/file', options: { destination: './logs/payments-warnings.log' } },
+ *         ],
+ *       },
+ *     ],
+ *   },
+ * });
+ * ```
+ */
+export function createLogFilterStage(
+  options: LogFilterOptions,
+): TransportSingleOptions {
+  const workerOptions: LogFilterWorkerOptions = {};
+  const levels = resolveLevelValues(options.customLevels);
+  const resolveLevel = (level: string): number => {
+    const value = levels[level];
+    if (value == null) {
+      throw new ConfigurationError(`Unknown log level "${level}"`);
+    }
+    return value;
+  };
+
+  if (options.maxLevel != null) {
+    workerOptions.maxLevel = resolveLevel(options.maxLevel);
+  }
+  if (options.namespaces != null) {
+    workerOptions.namespaces = options.namespaces;
+  }
+  if (options.lowDiskLevel != null) {
+    workerOptions.lowDiskLevel = resolveLevel(options.lowDiskLevel);
+    workerOptions.lowDiskSpace = getLowDiskSpaceFlag();
+  }
+
+  return { target: getWorkerTarget(), options: workerOptions };
+}
@@ -7,6 +7,11 @@
 
 import type { TransportTargetOptions } from 'pino';
 
+import type { SeverityLevel } from '../types';
+import type { CustomLevels } from '../utils/levels';
+
+import { nearestSeverityLevel } from '../utils/levels';
+
 /**
  * Options for Loki transport configuration
  */
@@ -84,8 +89,30 @@ export interface LokiTransportOptions {
    * @default true
    */
   json?: boolean;
+
+  /**
+   * Custom levels to map to Loki level labels, by name and value.
+   * `initLogger` fills these in from its own `customLevels`.
+   * @example { notice: 35, audit: 70 }
+   */
+  customLevels?: CustomLevels;
 }
 
+/**
+ * Level label Loki shows for a Pino level
+ */
+export type LokiLevel = 'debug' | 'info' | 'warning' | 'error' | 'critical';
+
+// Loki level label of each built-in level
+const LOKI_LEVELS: Readonly<Record<SeverityLevel, LokiLevel>> = {
+  trace: 'debug',
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error',
+  fatal: 'critical',
+};
+
 const DEFAULT_BATCH_INTERVAL_MS = 5000;
 const DEFAULT_BATCH_SIZE = 1000;
 const DEFAULT_TIMEOUT_MS = 30000;
@@ -144,6 +171,26 @@ function configureBatching(batching?: {
   };
 }
 
+/**
+ * Map custom level values to Loki level labels
+ *
+ * pino-loki labels unknown level values as `info`; each custom level gets
+ * the label of its nearest built-in level instead (`audit: 70` →
+ * `critical`, `notice: 35` → `info`).
+ *
+ * @param customLevels - Custom levels by name and value
+ * @returns pino-loki `levelMap` entries for the custom levels
+ */
+export function createLokiLevelMap(
+  customLevels: CustomLevels,
+): Record<number, LokiLevel> {
+  const levelMap: Record<number, LokiLevel> = {};
+  for (const value of Object.values(customLevels)) {
+    levelMap[value] = LOKI_LEVELS[nearestSeverityLevel(value)];
+  }
+  return levelMap;
+}
+
 /**
  * Creates Pino transport configuration for Loki
  *
@@ -203,6 +250,7 @@ export function createLokiTransport(
     silenceErrors = false,
     replaceTimestamp = false,
     json = true,
+    customLevels,
   } = options;
 
   // Validate required options
@@ -220,6 +268,9 @@ export function createLokiTransport(
     replaceTimestamp,
     ...configureAuth(basicAuth, bearerToken, headers),
     ...configureBatching(batching),
+    ...(customLevels != null && {
+      levelMap: createLokiLevelMap(customLevels),
+    }),
   };
 
   return {
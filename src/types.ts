@@ -12,40 +12,155 @@ type PinoLogger = pino.Logger;
 /**
  * Log function signature for structured logging.
  * Supports both object-first and message-only calls.
+ * `TFields` constrains the object of object-first calls.
  */
-export interface LogFn {
-  (obj: Record<string, unknown>, msg?: string): void;
+export interface LogFn<TFields extends object = Record<string, unknown>> {
+  (obj: TFields, msg?: string): void;
   (msg: string): void;
 }
 
+/**
+ * Bindings of a child logger: the parent's bindings, overridden by its own
+ */
+export type MergeBindings<TParent extends object, TChild extends object> = {
+  [K in keyof (Omit<TParent, keyof TChild> & TChild)]: (Omit<
+    TParent,
+    keyof TChild
+  > &
+    TChild)[K];
+};
+
 /**
  * Minimal logger interface for child loggers and helper functions.
  * Use this type when accepting a logger parameter in functions.
+ *
+ * The type parameters exist only at compile time: `TBindings` accumulates
+ * the bindings of `child()` calls, and `TFields` optionally constrains the
+ * fields of log calls (declare it as a type alias, not an interface).
+ *
+ * @example
+ * ```typescript
+ * type OrderFields = { orderId: string; total?: number };
+ *
+ * const log: ChildLogger<{ component: string }, OrderFields> =
+ *   createComponentLogger({ component: 'orders' });
+ * log.info({ orderId: 'o-1' }, 'Order created');
+ * log.info({ orderID: 'o-1' }, 'Order created'); // type error
+ * ```
  */
-export interface ChildLogger {
+export interface ChildLogger<
+  TBindings extends object = Record<string, unknown>,
+  TFields extends object = Record<string, unknown>,
+> {
   /** Log at fatal level */
-  readonly fatal: LogFn;
+  readonly fatal: LogFn<TFields>;
   /** Log at error level */
-  readonly error: LogFn;
+  readonly error: LogFn<TFields>;
   /** Log at warn level */
-  readonly warn: LogFn;
+  readonly warn: LogFn<TFields>;
   /** Log at info level */
-  readonly info: LogFn;
+  readonly info: LogFn<TFields>;
   /** Log at debug level */
-  readonly debug: LogFn;
+  readonly debug: LogFn<TFields>;
   /** Log at trace level */
-  readonly trace: LogFn;
+  readonly trace: LogFn<TFields>;
+  /**
+   * Get the bindings accumulated by this logger and its parents
+   * (optional, so plain objects and mocks implementing the logging
+   * methods remain assignable; {@link TypedChildLogger} requires it)
+   */
+  bindings?(): TBindings;
   /**
    * Create a child logger with additional context bindings.
    * Pino supports nested children - each child inherits parent bindings.
    */
-  child(bindings: Record<string, unknown>): ChildLogger;
+  child<TChild extends Record<string, unknown>>(
+    bindings: TChild,
+  ): ChildLogger<MergeBindings<TBindings, TChild>, TFields>;
+  /**
+   * Start a duration timer; the returned function logs the elapsed time
+   * (`duration_ms`, from a monotonic clock) together with `bindings`
+   * (optional, like `bindings()`)
+   */
+  startTimer?(
+    bindings?: Record<string, unknown>,
+    options?: TimerOptions,
+  ): EndTimer;
+  /**
+   * Run a sync or async function and log its outcome with `duration_ms`;
+   * failures are logged at error level with the serialized error and rethrown
+   * (optional, like `bindings()`)
+   */
+  time?<T>(
+    label: string,
+    fn: () => T | Promise<T>,
+    options?: TimerOptions,
+  ): Promise<T>;
+}
+
+/**
+ * {@link ChildLogger} whose `bindings()`, `startTimer()` and `time()` are
+ * always present, as on the loggers of this package. Use it to read typed
+ * bindings without optional calls; accept plain `ChildLogger` parameters
+ * where mocks must remain assignable.
+ *
+ * @example
+ * ```typescript
+ * const log: TypedChildLogger<{ component: string }> =
+ *   createComponentLogger({ component: 'calls' });
+ * log.child({ callId: 'c-1' }).bindings().callId; // string
+ * ```
+ */
+export interface TypedChildLogger<
+  TBindings extends object = Record<string, unknown>,
+  TFields extends object = Record<string, unknown>,
+> extends ChildLogger<TBindings, TFields> {
+  /** Get the bindings accumulated by this logger and its parents */
+  bindings(): TBindings;
+  /** Create a child logger with additional context bindings */
+  child<TChild extends Record<string, unknown>>(
+    bindings: TChild,
+  ): TypedChildLogger<MergeBindings<TBindings, TChild>, TFields>;
+  /** Start a duration timer (see {@link ChildLogger.startTimer}) */
+  startTimer(
+    bindings?: Record<string, unknown>,
+    options?: TimerOptions,
+  ): EndTimer;
+  /** Run and time a function (see {@link ChildLogger.time}) */
+  time<T>(
+    label: string,
+    fn: () => T | Promise<T>,
+    options?: TimerOptions,
+  ): Promise<T>;
 }
 
+/**
+ * Ends a timer started with `startTimer`
+ * @param msg - Log message
+ * @param extra - Fields to add to the record
+ * @returns Elapsed milliseconds
+ */
+export type EndTimer = (msg: string, extra?: Record<string, unknown>) => number;
+
+/**
+ * Logger with a method for each custom level declared in `customLevels`
+ * (`TBindings` as in {@link Logger})
+ */
+export type CustomLevelLogger<
+  TLevels extends string,
+  TBindings extends pino.Bindings = pino.Bindings,
+> = string extends TLevels
+  ? Logger<TBindings>
+  : Logger<TBindings> & Readonly<Record<TLevels, pino.LogFn>>;
+
 /**
  * Enhanced logger extending Pino's logger with additional functionality
+ *
+ * `TBindings` types the bindings accumulated by `child()` calls (and the
+ * metadata of component loggers); it has no runtime cost.
  */
-export interface Logger extends PinoLogger {
+export interface Logger<TBindings extends pino.Bindings = pino.Bindings>
+  extends PinoLogger {
   /**
    * Set the current trace context for correlation
    * @param context - The trace context to set
@@ -62,6 +177,41 @@ export interface Logger extends PinoLogger {
    * Clear the current trace context
    */
   clearTraceContext(): void;
+
+  /**
+   * Get the bindings accumulated by this logger and its parents
+   */
+  bindings(): TBindings;
+
+  /**
+   * Create a child logger; it keeps the stern-logger methods
+   */
+  child<
+    TChildLevels extends string = never,
+    TChild extends pino.Bindings = pino.Bindings,
+  >(
+    bindings: TChild,
+    options?: pino.ChildLoggerOptions<TChildLevels>,
+  ): Logger<MergeBindings<TBindings, TChild>> & pino.Logger<TChildLevels>;
+
+  /**
+   * Start a duration timer; the returned function logs the elapsed time
+   * (`duration_ms`, from a monotonic clock) together with `bindings`
+   */
+  startTimer(
+    bindings?: Record<string, unknown>,
+    options?: TimerOptions,
+  ): EndTimer;
+
+  /**
+   * Run a sync or async function and log its outcome with `duration_ms`;
+   * failures are logged at error level with the serialized error and rethrown
+   */
+  time<T>(
+    label: string,
+    fn: () => T | Promise<T>,
+    options?: TimerOptions,
+  ): Promise<T>;
 }
 
 /**
@@ -123,13 +273,28 @@ type PinoPassthroughOptions = Omit<
 /**
  * Configuration options for the logger
  */
-export interface LoggerOptions {
+export interface LoggerOptions<TLevels extends string = string> {
   /**
-   * Log level (debug, info, warn, error, fatal)
+   * Log level (debug, info, warn, error, fatal, or a custom level)
    * @default 'debug' in development, 'info' in production
    */
   level?: string;
 
+  /**
+   * Custom levels by name and numeric value, e.g. `{ notice: 35, audit: 70 }`.
+   * Each becomes a logger method and can be used as `level`, in namespace
+   * level overrides, and in `setLogLevel`. Pretty output, Loki level labels,
+   * and metrics place it next to the nearest built-in level below it.
+   */
+  customLevels?: Readonly<Record<TLevels, number>>;
+
+  /**
+   * Pretty console colors by level name (colorette names such as 'cyan' or
+   * 'bgMagenta')
+   * @default Custom levels use the color of their nearest built-in level
+   */
+  levelColors?: Readonly<Record<string, string>>;
+
   /**
    * Comma-separated namespace patterns for filtering logs.
    * Supports glob patterns: "voice:*" matches voice:orchestrator, voice:service.
@@ -164,6 +329,24 @@ export interface LoggerOptions {
    */
   fileRotationOptions?: FileRotationOptions;
 
+  /**
+   * Encrypt log files at rest (AES-256-GCM): `app.log` is written as
+   * `app.log.enc`, readable with `decryptLogFile`
+   * Only used when logDir is specified
+   * @default undefined (plaintext files)
+   */
+  encryption?: EncryptionOptions;
+
+  /**
+   * Additional log files under `logDir`, each receiving the records within
+   * a level range and/or matching namespace patterns (`app.log` still
+   * receives everything)
+   * Only used when logDir is specified
+   * @example [{ filename: 'error.log', level: 'warn' }, { filename: 'payments.log', namespaces: 'payments:*' }]
+   * @default undefined (app.log only)
+   */
+  files?: ReadonlyArray<LogFileOptions>;
+
   /**
    * Telemetry integration options
    * Configuration for connecting logs to telemetry systems
@@ -210,6 +393,57 @@ export interface LoggerOptions {
    */
   strict?: boolean;
 
+  /**
+   * Limits and violation policy for strict validation
+   * Only used when `strict` is not false
+   * @default DEFAULT_VALIDATION_LIMITS with the 'truncate' policy
+   */
+  validation?: ValidationOptions;
+
+  /**
+   * Token-bucket rate limiting applied to every log call
+   * Suppressed records are counted and reported in a summary record, at
+   * most once per `intervalMs` of each bucket
+   * @default undefined (no rate limiting)
+   */
+  rateLimit?: RateLimitOptions;
+
+  /**
+   * Collapse repeated identical records into one record carrying
+   * `repeat_count`, `first_seen`, and `last_seen`
+   * @default undefined (no collapsing)
+   */
+  dedup?: DedupOptions;
+
+  /**
+   * Probabilistic sampling of records, per level and per namespace,
+   * optionally consistent per trace; errors and fatals are always kept
+   * @default undefined (no sampling)
+   */
+  sampling?: SamplingOptions;
+
+  /**
+   * Defaults for `startTimer` and `time` (level and slow-threshold escalation)
+   * @default { level: 'info', slowLevel: 'warn' } (no slow threshold)
+   */
+  timers?: TimerOptions;
+
+  /**
+   * Sign every JSON record with an HMAC over its canonical JSON, so shipped
+   * logs can be checked with `verifyLogRecord`
+   * @default undefined (records are not signed)
+   */
+  integrity?: IntegrityOptions;
+
+  /**
+   * Throw instead of falling back to the base logger when initialization fails
+   * When true, `initLogger` validates all options up front (see
+   * `validateLoggerOptions`) and throws a `ConfigurationError` listing every
+   * issue; any other initialization error is rethrown as well
+   * @default false
+   */
+  failOnError?: boolean;
+
   /**
    * Additional Pino transport targets to include in the logger pipeline.
    * Merged with stern-logger's managed transports (console, file).
@@ -252,6 +486,271 @@ export interface LoggerOptions {
   pinoOptions?: PinoPassthroughOptions;
 }
 
+/**
+ * What to do with a log record that violates validation limits
+ * - 'truncate': Replace offending values with placeholders and log it
+ * - 'drop': Discard the record
+ * - 'throw': Throw a ValidationError from the log call (development only;
+ *   behaves like 'truncate' when nodeEnv is 'production')
+ */
+export type ValidationPolicy = 'truncate' | 'drop' | 'throw';
+
+/**
+ * Options for strict validation of log messages and metadata
+ */
+export interface ValidationOptions {
+  /**
+   * Maximum message length in characters
+   * @default 10000
+   */
+  maxMessageLength?: number;
+
+  /**
+   * Maximum serialized record size in bytes (message plus metadata)
+   * @default 262144 (256 KiB)
+   */
+  maxRecordSize?: number;
+
+  /**
+   * Maximum nesting depth of metadata objects
+   * @default 10
+   */
+  maxDepth?: number;
+
+  /**
+   * Maximum number of keys per metadata object (and items per array)
+   * @default 200
+   */
+  maxKeys?: number;
+
+  /**
+   * Policy applied when a record violates a limit or contains
+   * non-serializable values (functions, symbols, bigints, circular refs)
+   * @default 'truncate'
+   */
+  onViolation?: ValidationPolicy;
+}
+
+/**
+ * A log call as seen by a rate limit key function
+ */
+export interface RateLimitKeyContext {
+  /** Level label (e.g. 'info') */
+  readonly level: string;
+  /** Component namespace, when logged through a component logger */
+  readonly namespace: string | undefined;
+  /** Log message, if any */
+  readonly msg: string | undefined;
+  /** Merge object passed to the log call, if any */
+  readonly obj: Readonly<Record<string, unknown>> | undefined;
+}
+
+/**
+ * Options for token-bucket rate limiting of log records
+ *
+ * Each bucket holds `limit` tokens and refills at `limit` per `intervalMs`,
+ * so bursts up to `limit` pass and the sustained rate is capped. Buckets
+ * are always per level; `by` splits them further.
+ */
+export interface RateLimitOptions {
+  /**
+   * Records allowed per interval for each bucket (also the burst size)
+   */
+  limit: number;
+
+  /**
+   * Interval over which `limit` records are allowed
+   * @default 60000 (1 minute)
+   */
+  intervalMs?: number;
+
+  /**
+   * How records are grouped into buckets within each level
+   * - 'level': One bucket per level
+   * - 'namespace': One bucket per component namespace
+   * - function: One bucket per returned key
+   * @default 'level'
+   */
+  by?: 'level' | 'namespace' | ((context: RateLimitKeyContext) => string);
+
+  /**
+   * Per-level limit overrides (e.g. `{ debug: 10, error: 1000 }`)
+   * Use `Infinity` to exempt a level from rate limiting
+   */
+  levels?: Readonly<Record<string, number>>;
+}
+
+/**
+ * Options for collapsing repeated log records
+ *
+ * Records are fingerprinted by level, namespace, message, and the
+ * configured `fields`. The first record is logged immediately; identical
+ * records within `windowMs` are held, and when the window closes one record
+ * is logged with `repeat_count`, `first_seen`, and `last_seen`.
+ */
+export interface DedupOptions {
+  /**
+   * How long repeats are held after the first record is logged
+   * @default 10000 (10 seconds)
+   */
+  windowMs?: number;
+
+  /**
+   * Merge object fields included in the fingerprint (dotted paths allowed)
+   * Records that differ only in other fields are treated as repeats
+   * @default [] (level, namespace, and message only)
+   */
+  fields?: ReadonlyArray<string>;
+
+  /**
+   * Levels that are collapsed; records at other levels always pass
+   * @default ['trace', 'debug', 'info', 'warn']
+   */
+  levels?: ReadonlyArray<string>;
+}
+
+/**
+ * How sampling decisions are made
+ * - 'random': Each record is kept with its level's rate
+ * - 'trace': The decision is derived from `trace_id`, so at a given rate
+ *   either all or none of a trace's records are kept
+ * - 'trace-flags': Records are kept only when the W3C sampled bit
+ *   (`trace_flags`) of the current span context is set
+ *
+ * Records without trace context fall back to 'random'.
+ */
+export type SamplingMode = 'random' | 'trace' | 'trace-flags';
+
+/**
+ * Keep rates per level, from 0 (drop all) to 1 (keep all)
+ */
+export type SamplingRates = Readonly<Record<string, number>>;
+
+/**
+ * Options for sampling log records
+ */
+export interface SamplingOptions {
+  /**
+   * Keep rate per level (e.g. `{ debug: 0.01, info: 0.1 }`)
+   * Levels not listed are kept; `error` and `fatal` are always kept
+   * @default {}
+   */
+  rates?: SamplingRates;
+
+  /**
+   * Per-namespace rate overrides keyed by namespace pattern
+   * (e.g. `{ 'http:healthcheck': { info: 0 }, 'payments:*': { debug: 1 } }`)
+   * The most specific matching pattern wins; levels it doesn't list use `rates`
+   */
+  namespaces?: Readonly<Record<string, SamplingRates>>;
+
+  /**
+   * How sampling decisions are made
+   * @default 'random'
+   */
+  mode?: SamplingMode;
+}
+
+/**
+ * Options for duration timers (`startTimer`, `time`)
+ */
+export interface TimerOptions {
+  /**
+   * Level of the duration record
+   * @default 'info'
+   */
+  level?: SeverityLevel;
+
+  /**
+   * Durations at or above this many milliseconds are logged at `slowLevel`
+   * with `slow: true`
+   * @default undefined (no escalation)
+   */
+  slowMs?: number;
+
+  /**
+   * Level of records for slow durations
+   * @default 'warn'
+   */
+  slowLevel?: SeverityLevel;
+}
+
+/**
+ * HMAC algorithm used to sign log records
+ */
+export type IntegrityAlgorithm = 'sha256' | 'sha384' | 'sha512';
+
+/**
+ * Options for HMAC signing of log records
+ *
+ * The signature is written to the `sig` field as `{ kid, alg, mac }`. The
+ * key id travels with every record, so verifiers can hold several keys
+ * while signing keys are rotated.
+ */
+export interface IntegrityOptions {
+  /**
+   * Id of the signing key, recorded in each signature
+   */
+  keyId: string;
+
+  /**
+   * Secret HMAC key
+   */
+  key: string | Uint8Array;
+
+  /**
+   * HMAC hash algorithm
+   * @default 'sha256'
+   */
+  algorithm?: IntegrityAlgorithm;
+}
+
+/**
+ * Options for a request-scoped log buffer (see `runWithLogBuffer`)
+ *
+ * Records below `level` are held in memory for the scope. When a record at
+ * or above `flushOn` is logged, the held records are logged in order;
+ * otherwise they are discarded when the scope ends.
+ */
+export interface LogBufferOptions {
+  /**
+   * Records below this level are buffered; others are logged right away
+   * (custom levels of the logger are accepted, like for `flushOn`)
+   * The logger's own level must allow them (e.g. `level: 'debug'`)
+   * @default 'info' (trace and debug are buffered)
+   */
+  level?: string;
+
+  /**
+   * Level at which the buffered records are flushed
+   * @default 'error'
+   */
+  flushOn?: string;
+
+  /**
+   * Maximum number of records held per scope (oldest are dropped)
+   * @default 1000
+   */
+  maxRecords?: number;
+}
+
+/**
+ * Options for component loggers
+ */
+export interface ComponentLoggerOptions {
+  /**
+   * Rate limiting for this component logger and its children, applied in
+   * addition to the global `rateLimit` option
+   */
+  rateLimit?: RateLimitOptions;
+
+  /**
+   * Duplicate collapsing for this component logger and its children,
+   * applied in addition to the global `dedup` option
+   */
+  dedup?: DedupOptions;
+}
+
 /**
  * Options for file rotation
  */
@@ -275,6 +774,85 @@ export interface FileRotationOptions {
    * @default 'daily'
    */
   frequency?: 'daily' | 'hourly';
+
+  /**
+   * Gzip rotated files (`app.3.log` becomes `app.3.log.gz`)
+   * @default false
+   */
+  compress?: boolean;
+
+  /**
+   * Delete rotated files older than this age
+   * E.g., '12h', '30d', '8w'
+   * @default undefined (no age limit)
+   */
+  maxAge?: string;
+
+  /**
+   * Delete the oldest rotated files while the log files together exceed
+   * this size. E.g., '500m', '2g'
+   * @default undefined (no size limit)
+   */
+  maxTotalSize?: string;
+
+  /**
+   * Free disk space to keep on the log volume. Below it, the oldest
+   * rotated files are deleted, and a TransportError is reported if that
+   * is not enough; log files then only receive `warn` and above until
+   * free space recovers. E.g., '500m', '1g'
+   * @default undefined (no disk space check)
+   */
+  minFreeSpace?: string;
+}
+
+/**
+ * A log file receiving a slice of the log
+ */
+export interface LogFileOptions {
+  /**
+   * File name under `logDir`. `{service}`, `{env}` and `{pid}` expand to
+   * the service name, environment and process id
+   * @example 'error.log'
+   * @example '{service}-payments-{pid}.log'
+   */
+  filename: string;
+
+  /**
+   * Lowest level written to the file
+   * @default undefined (every level)
+   */
+  level?: string;
+
+  /**
+   * Highest level written to the file
+   * @default undefined (no upper bound)
+   */
+  maxLevel?: string;
+
+  /**
+   * Comma-separated namespace patterns of the records written to the file,
+   * as in `namespaces` (levels in the patterns are ignored)
+   * @example 'payments:*,-payments:healthcheck'
+   * @default undefined (every namespace, and the root logger)
+   */
+  namespaces?: string;
+
+  /**
+   * Rotation, compression and retention of this file
+   * @default fileRotationOptions
+   */
+  rotation?: FileRotationOptions;
+}
+
+/**
+ * Options for encrypting log files at rest
+ */
+export interface EncryptionOptions {
+  /**
+   * 256-bit AES key: 32 bytes, or a base64 or hex string of 32 bytes
+   * @default process.env.LOG_ENCRYPTION_KEY
+   */
+  key?: string | Uint8Array;
 }
 
 /**
@@ -289,7 +867,9 @@ export interface TelemetryOptions {
 
   /**
    * Automatically inject trace context from OpenTelemetry's active span
-   * When true, uses @opentelemetry/api to get the current active span context
+   * When true, uses @opentelemetry/api to get the current active span context.
+   * Equivalent to correlationMode 'auto'; combining it with 'manual' or
+   * `injectTraceContext: false` throws a ConfigurationError.
    * @default false
    */
   autoInject?: boolean;
@@ -307,21 +887,22 @@ export interface TelemetryOptions {
 export interface TelemetryContextOptions {
   /**
    * How to correlate logs with traces
-   * - 'manual': Developer explicitly sets context via setTraceContext()
-   * - 'auto': System tries to detect active spans automatically
-   * @default 'manual'
+   * - 'manual': Only context set via setTraceContext() / runWithTraceContext()
+   * - 'auto': Active span from getActiveContext, or from OpenTelemetry's API
+   * @default 'auto' when autoInject or getActiveContext is set, else 'manual'
    */
   correlationMode?: 'manual' | 'auto';
 
   /**
    * Whether to inject trace context into all logs
+   * When false, no trace fields are added (cannot be combined with 'auto')
    * @default true
    */
   injectTraceContext?: boolean;
 
   /**
    * Function to get the active trace context
-   * Used when correlationMode is 'auto'
+   * Used when correlationMode is 'auto' (falls back to OpenTelemetry)
    * @default undefined
    */
   getActiveContext?: () => SpanContext | undefined;
@@ -0,0 +1,517 @@
+/**
+ * @fileoverview Tamper-evident audit log
+ *
+ * Provides `createAuditLogger()`, a logger for admin actions that writes to
+ * its own file under the log directory. Every record carries a sequence
+ * number, the hash of the record before it, and its own SHA-256 hash, so
+ * editing, reordering or removing a record breaks the chain. When the file
+ * reaches its size limit, the chain head is checkpointed and the file is
+ * rotated; the next file continues the same chain.
+ *
+ * The audit logger is a separate Pino instance without hooks: namespace
+ * filtering, sampling, rate limiting, dedup and `setLogLevel()` never
+ * apply to it. `verifyAuditLog()` reports the first tampered or missing
+ * record of a file.
+ */
+
+import { createHash } from 'node:crypto';
+import {
+  appendFileSync,
+  closeSync,
+  createReadStream,
+  existsSync,
+  fstatSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  writeSync,
+} from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import { createInterface } from 'node:readline';
+
+import pino from 'pino';
+
+import {
+  DEFAULT_AUDIT_LOG_OPTIONS,
+  DEFAULT_LOG_DIRECTORY,
+  DEFAULT_NODE_ENV,
+  DEFAULT_SERVICE_NAME,
+} from '../constants';
+import { setupLogDirectory } from './directory';
+import {
+  ConfigurationError,
+  createSerializers,
+  TransportError,
+} from './error-handler';
+import { parseRotationSize } from './options-validation';
+import { createRedactionOptions } from './redaction';
+
+const HASH_HEX_LENGTH = 64;
+
+/** Previous-record hash of the first record of a chain */
+export const AUDIT_GENESIS_HASH = '0'.repeat(HASH_HEX_LENGTH);
+
+// Chain fields lead the record and its hash ends it, so both are read
+// from fixed positions even if logged fields reuse their names
+const RECORD_PATTERN =
+  /^(\{"seq":(\d+),"prev_hash":"([0-9a-f]{64})",.*),"hash":"([0-9a-f]{64})"\}$/u;
+
+// Rotated files are named `<fileName>.<last seq>`
+const ROTATED_SUFFIX_PATTERN = /\.\d+$/u;
+const CHECKPOINTS_SUFFIX = '.checkpoints';
+
+/**
+ * Audit logger options
+ */
+export interface AuditLogOptions {
+  /** Directory of the audit log (default: './logs') */
+  logDir?: string;
+  /** File name of the audit log (default: 'audit.log') */
+  fileName?: string;
+  /** Size at which the chain head is checkpointed and the file rotated, such as '10m' (default: '10m') */
+  maxSize?: string;
+  /** Service name added to every record (default: 'app') */
+  service?: string;
+  /** Node environment added to every record (default: 'development') */
+  nodeEnv?: string;
+  /** Paths to redact in addition to the defaults */
+  redactPaths?: Array<string>;
+}
+
+/**
+ * Logger writing a hash-chained audit log
+ */
+export type AuditLogger = pino.Logger & {
+  /** Path of the active audit log file */
+  readonly file: string;
+  /** Close the audit log file; later log calls throw */
+  close(): void;
+};
+
+/**
+ * Position of a chain: the last record's sequence number and hash
+ */
+export interface AuditChainHead {
+  readonly seq: number;
+  readonly hash: string;
+}
+
+/**
+ * Chain head recorded when an audit log file is rotated
+ */
+export interface AuditLogCheckpoint extends AuditChainHead {
+  /** Name of the rotated file the head is the last record of */
+  readonly file: string;
+  /** Rotation time (epoch milliseconds) */
+  readonly time: number;
+}
+
+/**
+ * Why an audit log failed verification
+ */
+export type AuditLogIssueReason = 'malformed' | 'tampered' | 'missing';
+
+/**
+ * First problem found in an audit log
+ */
+export interface AuditLogIssue {
+  /** Line of the file the problem was found at (1-based) */
+  readonly line: number;
+  /** Sequence number of the tampered or first missing record, if known */
+  readonly seq?: number;
+  readonly reason: AuditLogIssueReason;
+  readonly message: string;
+}
+
+/**
+ * Result of verifying an audit log file
+ */
+export interface AuditLogVerification {
+  /** True when every record verified and none are missing */
+  readonly valid: boolean;
+  /** Number of records verified before the first issue */
+  readonly records: number;
+  /** Last verified record, if any */
+  readonly head?: AuditChainHead;
+  /** First issue found, if any */
+  readonly issue?: AuditLogIssue;
+}
+
+/**
+ * Parsed chain fields of an audit record
+ */
+interface ChainedRecord extends AuditChainHead {
+  readonly prevHash: string;
+  /** Record text the hash is computed over */
+  readonly content: string;
+}
+
+type LinkIssue = Omit<AuditLogIssue, 'line'>;
+
+/**
+ * SHA-256 of a string
+ * @param content - Hashed text
+ * @returns Hex digest
+ */
+function sha256(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Read the chain fields of an audit record
+ * @param line - Record line, without the newline
+ * @returns Chain fields, or undefined if the line is not a chained JSON record
+ */
+function parseRecord(line: string): ChainedRecord | undefined {
+  const match = RECORD_PATTERN.exec(line);
+  if (match == null) {
+    return undefined;
+  }
+  try {
+    JSON.parse(line);
+  } catch {
+    return undefined;
+  }
+  const [, content = '', seq = '', prevHash = '', hash = ''] = match;
+  return { seq: Number(seq), prevHash, hash, content };
+}
+
+/**
+ * Path of the checkpoints file of an audit log or one of its rotated files
+ * @param file - Audit log path
+ * @returns Checkpoints file path
+ */
+function getCheckpointsPath(file: string): string {
+  const fileName = basename(file).replace(ROTATED_SUFFIX_PATTERN, '');
+  return join(dirname(file), `${fileName}${CHECKPOINTS_SUFFIX}`);
+}
+
+/**
+ * Parse a checkpoints file
+ * @param content - Checkpoints file content
+ * @returns Checkpoints in rotation order; unreadable lines are skipped
+ */
+function parseCheckpoints(content: string): Array<AuditLogCheckpoint> {
+  const checkpoints: Array<AuditLogCheckpoint> = [];
+  for (const line of content.split('\n')) {
+    try {
+      checkpoints.push(JSON.parse(line) as AuditLogCheckpoint);
+    } catch {
+      // Blank or partially written line
+    }
+  }
+  return checkpoints;
+}
+
+/**
+ * Find where a new audit logger continues the chain
+ * @param file - Active audit log path
+ * @returns Head of the active file, else of the last checkpoint, else the
+ *   genesis position
+ * @throws {ConfigurationError} If the last record of the file is malformed
+ */
+function readChainHead(file: string): AuditChainHead {
+  if (existsSync(file)) {
+    const lastLine = readFileSync(file, 'utf8').trimEnd().split('\n').at(-1);
+    if (lastLine != null && lastLine.length > 0) {
+      const record = parseRecord(lastLine);
+      if (record == null) {
+        throw new ConfigurationError(
+          `Cannot continue audit log ${file}: its last record is malformed`,
+        );
+      }
+      return { seq: record.seq, hash: record.hash };
+    }
+  }
+
+  const checkpointsPath = getCheckpointsPath(file);
+  const checkpoint = existsSync(checkpointsPath)
+    ? parseCheckpoints(readFileSync(checkpointsPath, 'utf8')).at(-1)
+    : undefined;
+  return checkpoint
+    ? { seq: checkpoint.seq, hash: checkpoint.hash }
+    : { seq: 0, hash: AUDIT_GENESIS_HASH };
+}
+
+/**
+ * Create the destination that chains, writes and rotates audit records
+ * @param file - Active audit log path
+ * @param maxBytes - Size at which the file is rotated
+ * @returns Pino destination and a function closing it
+ */
+function createChainedDestination(
+  file: string,
+  maxBytes: number,
+): { destination: pino.DestinationStream; close: () => void } {
+  let head = readChainHead(file);
+  let fd: number | undefined = openSync(file, 'a');
+  let size = fstatSync(fd).size;
+
+  // The old descriptor is closed whether or not rotation succeeds
+  const rotate = (openFd: number): number => {
+    try {
+      const rotated = `${file}.${head.seq}`;
+      const checkpoint: AuditLogCheckpoint = {
+        ...head,
+        file: basename(rotated),
+        time: Date.now(),
+      };
+      appendFileSync(
+        getCheckpointsPath(file),
+        `${JSON.stringify(checkpoint)}\n`,
+      );
+      renameSync(file, rotated);
+      const nextFd = openSync(file, 'a');
+      size = 0;
+      return nextFd;
+    } finally {
+      closeSync(openFd);
+    }
+  };
+
+  const write = (line: string): void => {
+    if (fd == null) {
+      throw new TransportError('audit', 'write after close or failed rotation');
+    }
+    const seq = head.seq + 1;
+    const content = `{"seq":${seq},"prev_hash":"${head.hash}",${line.slice(1, line.lastIndexOf('}'))}`;
+    const hash = sha256(content);
+    const record = `${content},"hash":"${hash}"}\n`;
+    const bytes = Buffer.byteLength(record);
+
+    try {
+      if (size > 0 && size + bytes > maxBytes) {
+        const openFd = fd;
+        // A failed rotation leaves no descriptor that could be reused
+        fd = undefined;
+        fd = rotate(openFd);
+      }
+      writeSync(fd, record);
+    } catch (error) {
+      throw new TransportError('audit', error);
+    }
+    size += bytes;
+    head = { seq, hash };
+  };
+
+  const close = (): void => {
+    if (fd != null) {
+      closeSync(fd);
+      fd = undefined;
+    }
+  };
+
+  return { destination: { write }, close };
+}
+
+/**
+ * Create a logger writing a tamper-evident audit log
+ *
+ * Records are written synchronously to `<logDir>/<fileName>` as JSON lines
+ * that start with `seq` and `prev_hash` and end with `hash`, the SHA-256 of
+ * the line without it. An existing file is continued, not overwritten.
+ * When the file would exceed `maxSize`, the chain head is appended to
+ * `<fileName>.checkpoints` and the file is renamed to `<fileName>.<seq>`.
+ *
+ * The logger logs at every level and is never subject to namespace
+ * filtering, sampling, rate limiting or dedup. Default redaction applies.
+ *
+ * @param options - Audit logger options
+ * @returns Audit logger
+ * @throws {ConfigurationError} If the options are invalid, the directory is
+ *   not writable, or the existing file cannot be continued
+ *
+ * @example
+ * ```typescript
+ * const audit = createAuditLogger({ service: 'admin-api' });
+ *
+ * audit.info({ actor: 'u-1', action: 'role.grant', target: 'u-2' }, 'Role granted');
+ * // {"seq":1,"prev_hash":"000…","level":30,…,"msg":"Role granted","hash":"9f2…"}
+ * ```
+ */
+export function createAuditLogger(options: AuditLogOptions = {}): AuditLogger {
+  const logDir = options.logDir ?? DEFAULT_LOG_DIRECTORY;
+  const fileName = options.fileName ?? DEFAULT_AUDIT_LOG_OPTIONS.FILE_NAME;
+  if (fileName.length === 0 || basename(fileName) !== fileName) {
+    throw new ConfigurationError(
+      `Audit log file name must be a plain file name: "${fileName}"`,
+    );
+  }
+  const maxBytes = parseRotationSize(
+    options.maxSize ?? DEFAULT_AUDIT_LOG_OPTIONS.MAX_SIZE,
+  );
+
+  setupLogDirectory(logDir);
+  const file = join(logDir, fileName);
+  const { destination, close } = createChainedDestination(file, maxBytes);
+
+  const logger = pino(
+    {
+      level: 'trace',
+      serializers: createSerializers(),
+      redact: createRedactionOptions(options.redactPaths),
+      base: {
+        service: options.service ?? DEFAULT_SERVICE_NAME,
+        env: options.nodeEnv ?? DEFAULT_NODE_ENV,
+      },
+    },
+    destination,
+  );
+
+  return Object.assign(logger, { file, close });
+}
+
+/**
+ * Check one record against its own hash and the record before it
+ * @param line - Record line
+ * @param previous - Previous record, or the anchor of the first record
+ * @returns The record, or the issue found
+ */
+function checkLink(
+  line: string,
+  previous: AuditChainHead,
+): ChainedRecord | LinkIssue {
+  const record = parseRecord(line);
+  if (record == null) {
+    return {
+      reason: 'malformed',
+      message: 'Line is not a hash-chained audit record',
+    };
+  }
+  if (sha256(record.content) !== record.hash) {
+    return {
+      seq: record.seq,
+      reason: 'tampered',
+      message: `Record ${record.seq} does not match its hash`,
+    };
+  }
+  if (record.seq > previous.seq + 1) {
+    return {
+      seq: previous.seq + 1,
+      reason: 'missing',
+      message: `Records ${previous.seq + 1} to ${record.seq - 1} are missing`,
+    };
+  }
+  if (record.seq !== previous.seq + 1 || record.prevHash !== previous.hash) {
+    return {
+      seq: record.seq,
+      reason: 'tampered',
+      message: `Record ${record.seq} does not follow record ${previous.seq}`,
+    };
+  }
+  return record;
+}
+
+/**
+ * Chain position the first record of a file must follow
+ * @param checkpoints - Checkpoints of the audit log
+ * @param firstSeq - Sequence number of the first record
+ * @returns Latest checkpoint before the record, else the genesis position
+ */
+function findAnchor(
+  checkpoints: ReadonlyArray<AuditLogCheckpoint>,
+  firstSeq: number,
+): AuditChainHead {
+  const anchor = checkpoints
+    .filter((checkpoint) => checkpoint.seq < firstSeq)
+    .at(-1);
+  return anchor ?? { seq: 0, hash: AUDIT_GENESIS_HASH };
+}
+
+/**
+ * Check the end of a rotated file against its checkpoint
+ * @param checkpoint - Checkpoint of the file, if it was rotated
+ * @param head - Last record of the file
+ * @returns Issue found, if any
+ */
+function checkTail(
+  checkpoint: AuditLogCheckpoint | undefined,
+  head: AuditChainHead | undefined,
+): LinkIssue | undefined {
+  if (checkpoint == null) {
+    return undefined;
+  }
+  const lastSeq = head?.seq ?? 0;
+  if (lastSeq < checkpoint.seq) {
+    return {
+      seq: lastSeq + 1,
+      reason: 'missing',
+      message: `Records up to ${checkpoint.seq} are missing from the end of the file`,
+    };
+  }
+  if (lastSeq > checkpoint.seq || head?.hash !== checkpoint.hash) {
+    return {
+      seq: lastSeq,
+      reason: 'tampered',
+      message: `Record ${lastSeq} does not match checkpoint ${checkpoint.seq}`,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Verify an audit log file written by `createAuditLogger()`
+ *
+ * Checks every record's hash and its link to the record before it. The
+ * first record must follow the genesis position or a checkpoint in the
+ * `.checkpoints` file next to it, and a rotated file must end at its
+ * checkpoint. Records removed from the end of the active file cannot be
+ * detected until it is rotated.
+ *
+ * @param path - Path of the active audit log or a rotated file
+ * @returns Verification result with the first issue found
+ * @throws If the file cannot be read
+ *
+ * @example
+ * ```typescript
+ * const result = await verifyAuditLog('./logs/audit.log');
+ * if (!result.valid) {
+ *   console.error(`Line ${result.issue?.line}: ${result.issue?.message}`);
+ * }
+ * ```
+ */
+export async function verifyAuditLog(
+  path: string,
+): Promise<AuditLogVerification> {
+  const checkpointsPath = getCheckpointsPath(path);
+  const checkpoints = existsSync(checkpointsPath)
+    ? parseCheckpoints(await readFile(checkpointsPath, 'utf8'))
+    : [];
+
+  const lines = createInterface({
+    input: createReadStream(path),
+    crlfDelay: Infinity,
+  });
+  let head: AuditChainHead | undefined;
+  let records = 0;
+
+  for await (const line of lines) {
+    const previous =
+      head ?? findAnchor(checkpoints, parseRecord(line)?.seq ?? 1);
+    const result = checkLink(line, previous);
+    if ('reason' in result) {
+      lines.close();
+      return {
+        valid: false,
+        records,
+        head,
+        issue: { line: records + 1, ...result },
+      };
+    }
+    head = { seq: result.seq, hash: result.hash };
+    records++;
+  }
+
+  const fileName = basename(path);
+  const issue = checkTail(
+    checkpoints.find((checkpoint) => checkpoint.file === fileName),
+    head,
+  );
+  return {
+    valid: issue == null,
+    records,
+    head,
+    ...(issue && { issue: { line: records + 1, ...issue } }),
+  };
+}
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Collapsing of repeated log records
+ *
+ * Provides the dedup stage of the log method pipeline: records are
+ * fingerprinted by level, namespace, message, and selected fields. The
+ * first record is logged right away, repeats within the window are held,
+ * and one record carrying `repeat_count`, `first_seen`, and `last_seen` is
+ * logged when the window closes ("last message repeated N times").
+ */
+
+import type { DedupOptions } from '../types';
+import type { LogMethodHook } from './log-pipeline';
+
+import { AsyncResource } from 'node:async_hooks';
+
+import { DEFAULT_DEDUP_OPTIONS } from '../constants';
+import { ConfigurationError } from './error-handler';
+import {
+  getLoggerNamespace,
+  splitLogArgs,
+  withLogFields,
+} from './log-pipeline';
+
+/**
+ * Fields added to the record that closes a window with repeats
+ */
+export interface RepeatSummaryFields {
+  /** Number of repeats held after the first record */
+  readonly repeat_count: number;
+  /** When the first record was logged (ISO 8601) */
+  readonly first_seen: string;
+  /** When the last repeat was seen (ISO 8601) */
+  readonly last_seen: string;
+}
+
+/**
+ * Dedup stage of the log method pipeline
+ */
+export type DedupHook = LogMethodHook & {
+  /** Close every open window now, logging the summaries of held repeats */
+  flush(): void;
+};
+
+/**
+ * A fingerprint being tracked during its window
+ */
+interface DedupEntry {
+  readonly firstSeen: number;
+  lastSeen: number;
+  repeats: number;
+  /** Arguments of the last repeat and how to log them */
+  held:
+    | { args: Array<unknown>; emit: (args: Array<unknown>) => void }
+    | undefined;
+  timer: ReturnType<typeof setTimeout> | undefined;
+}
+
+/**
+ * Serialize fingerprint components
+ * @param value - Array of components (BigInts fall back to String())
+ * @returns Stable string form
+ */
+function stringifyValue(value: unknown): string {
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Read a dotted path from a merge object
+ * @param obj - Merge object
+ * @param path - Dotted path (e.g. 'req.url')
+ * @returns Value at the path, if any
+ */
+function readPath(
+  obj: Record<string, unknown> | undefined,
+  path: string,
+): unknown {
+  let value: unknown = obj;
+  for (const segment of path.split('.')) {
+    if (value == null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * Build the fingerprint of a log call
+ * @param level - Level label
+ * @param namespace - Component namespace, if any
+ * @param args - Arguments passed to the log method
+ * @param fields - Merge object fields to include
+ * @returns Fingerprint string
+ */
+function createFingerprint(
+  level: string,
+  namespace: string | undefined,
+  args: ReadonlyArray<unknown>,
+  fields: ReadonlyArray<string>,
+): string {
+  const { obj, msg, msgIndex } = splitLogArgs(args);
+  return stringifyValue([
+    level,
+    namespace ?? null,
+    msg ?? null,
+    // Interpolation arguments change the rendered message
+    args.slice(msgIndex + 1),
+    fields.map((path) => readPath(obj, path)),
+  ]);
+}
+
+/**
+ * Creates the dedup stage for the log method pipeline
+ *
+ * Repeats are held until the window closes, so the summary record is
+ * logged at most `windowMs` after the first one, in the async context of
+ * the last repeat (so it carries that call's trace and log context).
+ * Records at levels not listed in `levels` (by default `error` and
+ * `fatal`) always pass. `flush()` closes all windows early, e.g. on
+ * shutdown.
+ *
+ * @param options - Dedup options
+ * @returns Log method hook collapsing repeated records
+ * @throws {ConfigurationError} If the window is not positive
+ *
+ * @example
+ * ```typescript
+ * const hook = createDedupHook({ windowMs: 5000, fields: ['jobId'] });
+ * // 1000 × log.warn({ jobId: 1 }, 'Retrying') within 5s logs:
+ * //   { jobId: 1, msg: 'Retrying' }
+ * //   { jobId: 1, repeat_count: 999, first_seen: '...', last_seen: '...', msg: 'Retrying' }
+ * ```
+ */
+export function createDedupHook(options: DedupOptions = {}): DedupHook {
+  const windowMs = options.windowMs ?? DEFAULT_DEDUP_OPTIONS.WINDOW_MS;
+  if (!(windowMs > 0)) {
+    throw new ConfigurationError('Dedup requires a positive windowMs');
+  }
+
+  const levels = new Set<string>(
+    options.levels ?? DEFAULT_DEDUP_OPTIONS.LEVELS,
+  );
+  const fields = options.fields ?? [];
+  const entries = new Map<string, DedupEntry>();
+
+  const closeWindow = (fingerprint: string, entry: DedupEntry): void => {
+    clearTimeout(entry.timer);
+    entries.delete(fingerprint);
+
+    if (entry.held == null) {
+      return;
+    }
+    const summary: RepeatSummaryFields = {
+      repeat_count: entry.repeats,
+      first_seen: new Date(entry.firstSeen).toISOString(),
+      last_seen: new Date(entry.lastSeen).toISOString(),
+    };
+    entry.held.emit(withLogFields(entry.held.args, { ...summary }));
+  };
+
+  const evictOldest = (): void => {
+    const [fingerprint, entry] = entries.entries().next().value ?? [];
+    if (fingerprint != null && entry != null) {
+      closeWindow(fingerprint, entry);
+    }
+  };
+
+  const flush = (): void => {
+    for (const [fingerprint, entry] of [...entries]) {
+      closeWindow(fingerprint, entry);
+    }
+  };
+
+  const dedupHook: LogMethodHook = function (args, method, level): void {
+    const label = this.levels.labels[level];
+    if (label == null || !levels.has(label)) {
+      Reflect.apply(method, this, args);
+      return;
+    }
+
+    const fingerprint = createFingerprint(
+      label,
+      getLoggerNamespace(this),
+      args,
+      fields,
+    );
+    const now = Date.now();
+    const existing = entries.get(fingerprint);
+
+    if (existing != null) {
+      existing.repeats++;
+      existing.lastSeen = now;
+      existing.held = {
+        args,
+        // Log the summary in this call's async context, not in that of
+        // the first record, whose timer closes the window
+        emit: AsyncResource.bind((heldArgs: Array<unknown>) =>
+          Reflect.apply(method, this, heldArgs),
+        ),
+      };
+      return;
+    }
+
+    if (entries.size >= DEFAULT_DEDUP_OPTIONS.MAX_ENTRIES) {
+      evictOldest();
+    }
+
+    const entry: DedupEntry = {
+      firstSeen: now,
+      lastSeen: now,
+      repeats: 0,
+      held: undefined,
+      timer: undefined,
+    };
+    entry.timer = setTimeout(() => closeWindow(fingerprint, entry), windowMs);
+    // Don't keep the process alive for a pending summary
+    entry.timer.unref();
+    entries.set(fingerprint, entry);
+
+    Reflect.apply(method, this, args);
+  };
+
+  return Object.assign(dedupHook, { flush });
+}
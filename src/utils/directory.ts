@@ -5,8 +5,14 @@
  * ensuring proper file system permissions before writing log files.
  */
 
-import { accessSync, constants, existsSync, mkdirSync } from 'node:fs';
-import { resolve } from 'node:path';
+import {
+  accessSync,
+  constants,
+  existsSync,
+  mkdirSync,
+  statSync,
+} from 'node:fs';
+import { dirname, resolve } from 'node:path';
 
 import { ConfigurationError } from './error-handler';
 
@@ -71,3 +77,50 @@ export function setupLogDirectory(dirPath: string): void {
     }
   }
 }
+
+/**
+ * Checks whether a log directory could be used, without creating it
+ *
+ * An existing path must be a writable directory. For a missing path, the
+ * nearest existing ancestor must be a writable directory so that
+ * {@link setupLogDirectory} can create it.
+ *
+ * @param dirPath - Path to the log directory
+ * @returns Description of the problem, or undefined if the directory is usable
+ *
+ * @example
+ * ```typescript
+ * const problem = checkLogDirectory('/var/log/my-app');
+ * if (problem != null) {
+ *   console.warn(problem);
+ * }
+ * ```
+ */
+export function checkLogDirectory(dirPath: string): string | undefined {
+  if (typeof dirPath !== 'string' || dirPath.trim().length === 0) {
+    return 'Log directory path must be a non-empty string';
+  }
+
+  const normalizedPath = resolve(dirPath.trim());
+
+  // Walk up to the nearest existing path
+  let existing = normalizedPath;
+  while (!existsSync(existing) && dirname(existing) !== existing) {
+    existing = dirname(existing);
+  }
+
+  try {
+    if (!statSync(existing).isDirectory()) {
+      return existing === normalizedPath
+        ? `Log directory path is not a directory: ${normalizedPath}`
+        : `Cannot create log directory ${normalizedPath}: ${existing} is not a directory`;
+    }
+    accessSync(existing, constants.W_OK);
+  } catch {
+    return existing === normalizedPath
+      ? `Log directory is not writable: ${normalizedPath}`
+      : `Cannot create log directory ${normalizedPath}: ${existing} is not writable`;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,262 @@
+/**
+ * @fileoverview Encryption of log files at rest
+ *
+ * Encrypts log output with AES-256-GCM, one authenticated chunk per line
+ * (`v1.<fileId>.<index>.<iv>.<tag>.<ciphertext>`), so a damaged or truncated
+ * file still decrypts up to the damage. Every writer numbers its chunks
+ * under a random file id, both authenticated as additional data, so missing
+ * or reordered chunks are detected. The key comes from the options or the
+ * `LOG_ENCRYPTION_KEY` environment variable. `decryptLogFile()` streams
+ * the records of an encrypted file back for local searching.
+ */
+
+import type { CipherGCMTypes } from 'node:crypto';
+
+import type { EncryptionOptions } from '../types';
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { StringDecoder } from 'node:string_decoder';
+
+import { ConfigurationError, TransportError } from './error-handler';
+
+/** Environment variable the encryption key is read from by default */
+export const ENCRYPTION_KEY_ENV = 'LOG_ENCRYPTION_KEY';
+
+/** File extension of encrypted log files */
+export const ENCRYPTED_FILE_EXTENSION = '.enc';
+
+const CIPHER: CipherGCMTypes = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const FILE_ID_BYTES = 12;
+const CHUNK_FORMAT_VERSION = 'v1';
+const HEX_KEY_PATTERN = /^[0-9a-f]{64}$/iu;
+
+/**
+ * Decode an encryption key
+ * @param key - 32 bytes, or a base64 or hex string of 32 bytes
+ * @returns Key bytes
+ * @throws {ConfigurationError} If the key is not 32 bytes long
+ */
+export function parseEncryptionKey(key: string | Uint8Array): Buffer {
+  const bytes =
+    typeof key === 'string'
+      ? Buffer.from(key, HEX_KEY_PATTERN.test(key) ? 'hex' : 'base64')
+      : Buffer.from(key);
+  if (bytes.length !== KEY_BYTES) {
+    throw new ConfigurationError(
+      `Encryption key must be ${KEY_BYTES} bytes (base64 or hex), got ${bytes.length}`,
+    );
+  }
+  return bytes;
+}
+
+/**
+ * Resolve the encryption key from the options or the environment
+ * @param options - Encryption options
+ * @returns Key bytes
+ * @throws {ConfigurationError} If no key is set or it is invalid
+ */
+export function resolveEncryptionKey(options: EncryptionOptions = {}): Buffer {
+  const key = options.key ?? process.env[ENCRYPTION_KEY_ENV];
+  if (key == null || key.length === 0) {
+    throw new ConfigurationError(
+      `Encryption key missing: set encryption.key or ${ENCRYPTION_KEY_ENV}`,
+    );
+  }
+  return parseEncryptionKey(key);
+}
+
+/**
+ * Position of a chunk: the writer that encrypted it and its index
+ */
+export interface ChunkPosition {
+  /** Random id of the writer (one per opened file), base64 */
+  fileId: string;
+  /** Index of the chunk among the writer's chunks, from 0 */
+  index: number;
+}
+
+/**
+ * Create a random file id for a new writer
+ * @returns File id (base64)
+ */
+export function createFileId(): string {
+  return randomBytes(FILE_ID_BYTES).toString('base64');
+}
+
+/**
+ * Additional authenticated data of a chunk
+ * @param position - Chunk position
+ * @returns `v1.<fileId>.<index>`
+ */
+function chunkAad(position: ChunkPosition): Buffer {
+  return Buffer.from(
+    `${CHUNK_FORMAT_VERSION}.${position.fileId}.${position.index}`,
+  );
+}
+
+/**
+ * Encrypt a chunk of log output
+ * @param key - Key bytes
+ * @param plaintext - Chunk to encrypt
+ * @param position - Position of the chunk, authenticated with it
+ * @returns `v1.<fileId>.<index>.<iv>.<tag>.<ciphertext>` (base64 parts)
+ */
+export function encryptChunk(
+  key: Buffer,
+  plaintext: Buffer,
+  position: ChunkPosition,
+): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  cipher.setAAD(chunkAad(position));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [
+    CHUNK_FORMAT_VERSION,
+    position.fileId,
+    position.index,
+    iv.toString('base64'),
+    cipher.getAuthTag().toString('base64'),
+    ciphertext.toString('base64'),
+  ].join('.');
+}
+
+/**
+ * Decrypt and authenticate a chunk
+ * @param key - Key bytes
+ * @param line - Encrypted chunk line
+ * @returns Position and plaintext of the chunk
+ * @throws If the line is not a chunk, or the key or data is wrong
+ */
+function decryptChunk(
+  key: Buffer,
+  line: string,
+): { position: ChunkPosition; plaintext: Buffer } {
+  const [version, fileId, index, iv, tag, ciphertext, ...rest] =
+    line.split('.');
+  if (
+    version !== CHUNK_FORMAT_VERSION ||
+    fileId == null ||
+    !/^\d+$/u.test(index ?? '') ||
+    iv == null ||
+    tag == null ||
+    ciphertext == null ||
+    rest.length > 0
+  ) {
+    throw new Error('Not an encrypted log chunk');
+  }
+  const position = { fileId, index: Number(index) };
+  const decipher = createDecipheriv(CIPHER, key, Buffer.from(iv, 'base64'));
+  decipher.setAAD(chunkAad(position));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]);
+  return { position, plaintext };
+}
+
+/**
+ * Check that a chunk follows the previous one
+ *
+ * A file holds the chunks of one or more writers (a restarted process
+ * appends under a new file id); each writer's chunks must be complete and
+ * in order.
+ *
+ * @param position - Position of the chunk
+ * @param previous - Position of the previous chunk
+ * @param seenFileIds - File ids of the earlier writers
+ * @returns Problem with the sequence, or undefined if it is intact
+ */
+function checkChunkSequence(
+  position: ChunkPosition,
+  previous: ChunkPosition | undefined,
+  seenFileIds: Set<string>,
+): string | undefined {
+  if (previous?.fileId !== position.fileId) {
+    if (seenFileIds.has(position.fileId)) {
+      return 'reordered chunk';
+    }
+    seenFileIds.add(position.fileId);
+    return position.index === 0 ? undefined : 'missing chunks';
+  }
+  if (position.index <= previous.index) {
+    return 'reordered chunk';
+  }
+  return position.index === previous.index + 1 ? undefined : 'missing chunks';
+}
+
+/**
+ * Read the records of an encrypted log file
+ *
+ * Streams the file chunk by chunk, so large files are not loaded into
+ * memory. Each chunk is authenticated, together with its position, before
+ * any of it is returned.
+ *
+ * @param path - Encrypted log file (current or rotated)
+ * @param options - Encryption key (default: `LOG_ENCRYPTION_KEY`)
+ * @yields Records as JSON lines, in file order
+ * @throws {ConfigurationError} If no key is set or it is invalid
+ * @throws {TransportError} If a chunk cannot be decrypted (wrong key,
+ *   corrupted or altered data), or chunks are missing or reordered
+ *
+ * @example
+ * ```typescript
+ * for await (const line of decryptLogFile('./logs/app.log.enc')) {
+ *   if (line.includes('"orderId":42')) console.log(line);
+ * }
+ * ```
+ */
+export async function* decryptLogFile(
+  path: string,
+  options?: EncryptionOptions,
+): AsyncGenerator<string, void, undefined> {
+  const key = resolveEncryptionKey(options);
+  const lines = createInterface({
+    input: createReadStream(path),
+    crlfDelay: Infinity,
+  });
+  // Chunks may end inside a record or a multi-byte character
+  const decoder = new StringDecoder('utf8');
+  let pending = '';
+  let lineNumber = 0;
+  let previous: ChunkPosition | undefined;
+  const seenFileIds = new Set<string>();
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (line.length === 0) {
+      continue;
+    }
+    let chunk: ReturnType<typeof decryptChunk>;
+    try {
+      chunk = decryptChunk(key, line);
+    } catch {
+      lines.close();
+      throw new TransportError(
+        `encrypted-file (${path})`,
+        `decryption of line ${lineNumber}`,
+      );
+    }
+    const problem = checkChunkSequence(chunk.position, previous, seenFileIds);
+    if (problem != null) {
+      lines.close();
+      throw new TransportError(
+        `encrypted-file (${path})`,
+        `decryption of line ${lineNumber} (${problem})`,
+      );
+    }
+    previous = chunk.position;
+    const records = (pending + decoder.write(chunk.plaintext)).split('\n');
+    pending = records.pop() ?? '';
+    yield* records;
+  }
+
+  pending += decoder.end();
+  if (pending.length > 0) {
+    yield pending;
+  }
+}
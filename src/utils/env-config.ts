@@ -0,0 +1,322 @@
+/**
+ * @fileoverview Logger configuration from environment variables
+ *
+ * Maps the conventional LOG_* variables (plus SERVICE_NAME and NODE_ENV)
+ * onto `LoggerOptions`, coercing values and reporting invalid ones as
+ * ConfigurationErrors that name the offending variable.
+ *
+ * @example
+ * ```bash
+ * LOG_LEVEL=debug LOG_NAMESPACES="voice:*,-db:pool" LOG_PRETTY=false bun run dev
+ * ```
+ */
+
+import type { FileRotationOptions, LoggerOptions } from '../types';
+
+import { FORMAT_STYLES, ROTATION_FREQUENCIES } from '../constants';
+import { parseEncryptionKey } from './encryption';
+import { ConfigurationError } from './error-handler';
+import { isValidRotationSize, parseRetentionAge } from './options-validation';
+
+/**
+ * Environment variable source (e.g. `process.env`)
+ */
+export type EnvSource = Readonly<Record<string, string | undefined>>;
+
+/** Default prefix for logger environment variables */
+const DEFAULT_ENV_PREFIX = 'LOG_';
+
+const TRUE_VALUES = new Set(['true', '1', 'yes', 'on']);
+const FALSE_VALUES = new Set(['false', '0', 'no', 'off']);
+
+/**
+ * Read a variable, treating empty and whitespace-only values as unset
+ * @param env - Environment source
+ * @param name - Variable name
+ * @returns Trimmed value, or undefined when unset
+ */
+function readVar(env: EnvSource, name: string): string | undefined {
+  const value = env[name]?.trim();
+  return value == null || value === '' ? undefined : value;
+}
+
+/**
+ * Coerce a value to one of a fixed set of choices (case-insensitive)
+ * @param name - Variable name (for error messages)
+ * @param value - Raw value
+ * @param choices - Accepted values
+ * @returns The matching choice
+ * @throws {ConfigurationError} If the value is not one of the choices
+ */
+function parseChoice<T extends string>(
+  name: string,
+  value: string,
+  choices: ReadonlyArray<T>,
+): T {
+  const normalized = value.toLowerCase();
+  const match = choices.find((choice) => choice === normalized);
+  if (match == null) {
+    throw new ConfigurationError(
+      `Invalid ${name}: "${value}" (expected one of ${choices.join(', ')})`,
+    );
+  }
+  return match;
+}
+
+/**
+ * Coerce a boolean-like value
+ * @param name - Variable name (for error messages)
+ * @param value - Raw value (true/false, 1/0, yes/no, on/off)
+ * @returns Parsed boolean
+ * @throws {ConfigurationError} If the value is not boolean-like
+ */
+function parseBoolean(name: string, value: string): boolean {
+  const normalized = value.toLowerCase();
+  if (TRUE_VALUES.has(normalized)) {
+    return true;
+  }
+  if (FALSE_VALUES.has(normalized)) {
+    return false;
+  }
+  throw new ConfigurationError(
+    `Invalid ${name}: "${value}" (expected true/false, 1/0, yes/no, or on/off)`,
+  );
+}
+
+/**
+ * Coerce a positive integer
+ * @param name - Variable name (for error messages)
+ * @param value - Raw value
+ * @returns Parsed integer
+ * @throws {ConfigurationError} If the value is not a positive integer
+ */
+function parsePositiveInteger(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(parsed) || parsed < 1) {
+    throw new ConfigurationError(
+      `Invalid ${name}: "${value}" (expected a positive integer)`,
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Split a comma-separated list, dropping empty entries
+ * @param value - Raw value
+ * @returns List entries
+ */
+function parseList(value: string): Array<string> {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+/**
+ * Check a size variable
+ * @param name - Variable name (for error messages)
+ * @param value - Raw value
+ * @returns The size, lowercased
+ * @throws {ConfigurationError} If the value is not a size
+ */
+function parseSize(name: string, value: string): string {
+  if (!isValidRotationSize(value)) {
+    throw new ConfigurationError(
+      `Invalid ${name}: "${value}" (expected a size such as 10m, 500k, or 1g)`,
+    );
+  }
+  return value.toLowerCase();
+}
+
+/**
+ * Read compression and retention options from `<prefix>ROTATION_*`
+ * variables
+ * @param env - Environment source
+ * @param prefix - Variable prefix
+ * @returns Retention options that are set
+ * @throws {ConfigurationError} If a retention variable is invalid
+ */
+function retentionOptionsFromEnv(
+  env: EnvSource,
+  prefix: string,
+): FileRotationOptions {
+  const compressVar = `${prefix}ROTATION_COMPRESS`;
+  const maxAgeVar = `${prefix}ROTATION_MAX_AGE`;
+  const maxTotalSizeVar = `${prefix}ROTATION_MAX_TOTAL_SIZE`;
+  const minFreeSpaceVar = `${prefix}ROTATION_MIN_FREE_SPACE`;
+
+  const compress = readVar(env, compressVar);
+  const maxAge = readVar(env, maxAgeVar);
+  const maxTotalSize = readVar(env, maxTotalSizeVar);
+  const minFreeSpace = readVar(env, minFreeSpaceVar);
+
+  if (maxAge != null) {
+    try {
+      parseRetentionAge(maxAge);
+    } catch {
+      throw new ConfigurationError(
+        `Invalid ${maxAgeVar}: "${maxAge}" (expected an age such as 12h, 30d, or 8w)`,
+      );
+    }
+  }
+
+  return {
+    ...(compress != null && {
+      compress: parseBoolean(compressVar, compress),
+    }),
+    ...(maxAge != null && { maxAge: maxAge.toLowerCase() }),
+    ...(maxTotalSize != null && {
+      maxTotalSize: parseSize(maxTotalSizeVar, maxTotalSize),
+    }),
+    ...(minFreeSpace != null && {
+      minFreeSpace: parseSize(minFreeSpaceVar, minFreeSpace),
+    }),
+  };
+}
+
+/**
+ * Read file rotation options from `<prefix>ROTATION_*` variables
+ * @param env - Environment source
+ * @param prefix - Variable prefix
+ * @returns Rotation options, or undefined when none are set
+ * @throws {ConfigurationError} If a rotation variable is invalid
+ */
+function rotationOptionsFromEnv(
+  env: EnvSource,
+  prefix: string,
+): FileRotationOptions | undefined {
+  const maxSizeVar = `${prefix}ROTATION_MAX_SIZE`;
+  const maxFilesVar = `${prefix}ROTATION_MAX_FILES`;
+  const frequencyVar = `${prefix}ROTATION_FREQUENCY`;
+
+  const maxSize = readVar(env, maxSizeVar);
+  const maxFiles = readVar(env, maxFilesVar);
+  const frequency = readVar(env, frequencyVar);
+  const retention = retentionOptionsFromEnv(env, prefix);
+
+  if (
+    maxSize == null &&
+    maxFiles == null &&
+    frequency == null &&
+    Object.keys(retention).length === 0
+  ) {
+    return undefined;
+  }
+
+  return {
+    ...(maxSize != null && { maxSize: parseSize(maxSizeVar, maxSize) }),
+    ...(maxFiles != null && {
+      maxFiles: parsePositiveInteger(maxFilesVar, maxFiles),
+    }),
+    ...(frequency != null && {
+      frequency: parseChoice(frequencyVar, frequency, ROTATION_FREQUENCIES),
+    }),
+    ...retention,
+  };
+}
+
+/**
+ * Check an encryption key variable
+ * @param name - Variable name (for error messages)
+ * @param value - Raw value
+ * @returns The key, unchanged
+ * @throws {ConfigurationError} If the value is not a 32-byte base64 or hex key
+ */
+function parseEncryptionKeyVar(name: string, value: string): string {
+  try {
+    parseEncryptionKey(value);
+  } catch {
+    throw new ConfigurationError(
+      `Invalid ${name}: expected a 32-byte key in base64 or hex`,
+    );
+  }
+  return value;
+}
+
+/**
+ * Build logger options from environment variables
+ *
+ * Only variables that are set (and non-empty) produce options, so the
+ * result can be spread over code defaults or merged with other sources.
+ *
+ * | Variable                       | Option                             |
+ * | ------------------------------ | ---------------------------------- |
+ * | `LOG_LEVEL`                    | `level`                            |
+ * | `LOG_NAMESPACES`               | `namespaces`                       |
+ * | `LOG_DIR`                      | `logDir`                           |
+ * | `LOG_PRETTY`                   | `prettyPrint`                      |
+ * | `LOG_FORMAT_STYLE`             | `formatStyle`                      |
+ * | `LOG_ROTATION_MAX_SIZE`        | `fileRotationOptions.maxSize`      |
+ * | `LOG_ROTATION_MAX_FILES`       | `fileRotationOptions.maxFiles`     |
+ * | `LOG_ROTATION_FREQUENCY`       | `fileRotationOptions.frequency`    |
+ * | `LOG_ROTATION_COMPRESS`        | `fileRotationOptions.compress`     |
+ * | `LOG_ROTATION_MAX_AGE`         | `fileRotationOptions.maxAge`       |
+ * | `LOG_ROTATION_MAX_TOTAL_SIZE`  | `fileRotationOptions.maxTotalSize` |
+ * | `LOG_ROTATION_MIN_FREE_SPACE`  | `fileRotationOptions.minFreeSpace` |
+ * | `LOG_REDACT_PATHS`             | `redactPaths` (comma-separated)    |
+ * | `LOG_ENCRYPTION_KEY`           | `encryption.key`                   |
+ * | `SERVICE_NAME`                 | `defaultService`                   |
+ * | `NODE_ENV`                     | `nodeEnv`                          |
+ *
+ * `SERVICE_NAME` and `NODE_ENV` are conventional names and are read
+ * without the prefix. `LOG_LEVEL` accepts any level name (lowercased), so
+ * custom levels work; it is checked against the configured levels by
+ * `initLogger` / `assertValidLoggerOptions`.
+ *
+ * @param env - Environment source
+ * @param prefix - Prefix for the LOG_* variables
+ * @returns Logger options for the variables that are set
+ * @throws {ConfigurationError} If a variable has an invalid value
+ *
+ * @example
+ * ```typescript
+ * const logger = await initLogger({
+ *   defaultService: 'api',
+ *   ...loggerOptionsFromEnv(),
+ * });
+ *
+ * // Custom prefix: MYAPP_LOG_LEVEL, MYAPP_LOG_DIR, ...
+ * loggerOptionsFromEnv(process.env, 'MYAPP_LOG_');
+ * ```
+ */
+// eslint-disable-next-line complexity -- High complexity due to one optional branch per variable.
+export function loggerOptionsFromEnv(
+  env: EnvSource = process.env,
+  prefix: string = DEFAULT_ENV_PREFIX,
+): Partial<LoggerOptions> {
+  const levelVar = `${prefix}LEVEL`;
+  const prettyVar = `${prefix}PRETTY`;
+  const formatStyleVar = `${prefix}FORMAT_STYLE`;
+  const encryptionKeyVar = `${prefix}ENCRYPTION_KEY`;
+
+  const level = readVar(env, levelVar);
+  const namespaces = readVar(env, `${prefix}NAMESPACES`);
+  const logDir = readVar(env, `${prefix}DIR`);
+  const pretty = readVar(env, prettyVar);
+  const formatStyle = readVar(env, formatStyleVar);
+  const redactPaths = readVar(env, `${prefix}REDACT_PATHS`);
+  const encryptionKey = readVar(env, encryptionKeyVar);
+  const defaultService = readVar(env, 'SERVICE_NAME');
+  const nodeEnv = readVar(env, 'NODE_ENV');
+  const fileRotationOptions = rotationOptionsFromEnv(env, prefix);
+
+  return {
+    // Any level name: custom levels are only known to the logger options
+    ...(level != null && { level: level.toLowerCase() }),
+    ...(namespaces != null && { namespaces }),
+    ...(logDir != null && { logDir }),
+    ...(pretty != null && { prettyPrint: parseBoolean(prettyVar, pretty) }),
+    ...(formatStyle != null && {
+      formatStyle: parseChoice(formatStyleVar, formatStyle, FORMAT_STYLES),
+    }),
+    ...(fileRotationOptions != null && { fileRotationOptions }),
+    ...(redactPaths != null && { redactPaths: parseList(redactPaths) }),
+    ...(encryptionKey != null && {
+      encryption: {
+        key: parseEncryptionKeyVar(encryptionKeyVar, encryptionKey),
+      },
+    }),
+    ...(defaultService != null && { defaultService }),
+    ...(nodeEnv != null && { nodeEnv }),
+  };
+}
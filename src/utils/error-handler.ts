@@ -34,11 +34,28 @@ export class ModuleLoadError extends LoggerError {
   }
 }
 
+/**
+ * A single problem found in logger configuration
+ */
+export interface ConfigurationIssue {
+  /** Option path (e.g. 'fileRotationOptions.maxSize', 'transports[1].target') */
+  readonly path: string;
+  /** What is wrong with the value */
+  readonly message: string;
+}
+
 export class ConfigurationError extends LoggerError {
-  constructor(message: string, cause?: unknown) {
+  public readonly issues: ReadonlyArray<ConfigurationIssue>;
+
+  constructor(
+    message: string,
+    cause?: unknown,
+    issues: ReadonlyArray<ConfigurationIssue> = [],
+  ) {
     super(message);
     this.name = 'ConfigurationError';
     this.cause = cause;
+    this.issues = issues;
   }
 }
 
@@ -54,6 +71,16 @@ export class TransportError extends LoggerError {
   }
 }
 
+export class ValidationError extends LoggerError {
+  public readonly violations: ReadonlyArray<string>;
+
+  constructor(message: string, violations: ReadonlyArray<string> = []) {
+    super(message);
+    this.name = 'ValidationError';
+    this.violations = violations;
+  }
+}
+
 /**
  * Normalizes errors into a consistent format
  * Ensures that errors always have a message and optional stack trace
@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Filename templates of routed log files
+ *
+ * Routed log files (`LoggerOptions.files`) are named with templates such as
+ * `{service}-{env}.log` or `payments-{pid}.log`. The placeholders expand
+ * to the logger's service name, environment, and the process id, and each
+ * name stays a single file directly under `logDir`.
+ */
+
+import { ConfigurationError } from './error-handler';
+
+/**
+ * Values substituted into filename templates
+ */
+export interface FilenameTemplateValues {
+  /** Service name (`defaultService`) */
+  service: string;
+  /** Environment (`nodeEnv`) */
+  env: string;
+  /** Process id */
+  pid: number;
+}
+
+// `{name}` placeholders
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g;
+const PLACEHOLDERS: ReadonlyArray<string> = ['service', 'env', 'pid'];
+// Names of the files the logger writes itself
+const RESERVED_FILENAMES: ReadonlyArray<string> = [
+  'app.log',
+  'exceptions.log',
+  'rejections.log',
+];
+
+/**
+ * Make a substituted value safe to use in a file name
+ * @param value - Service name or environment
+ * @returns Value without path separators
+ */
+function sanitizeSegment(value: string): string {
+  return value.replace(/[/\\]/g, '-');
+}
+
+/**
+ * Check a filename template
+ * @param template - Filename template such as `{service}-error.log`
+ * @returns A description of the problem, or undefined if the template is valid
+ *
+ * @example
+ * ```typescript
+ * checkFilenameTemplate('payments-{pid}.log'); // undefined
+ * checkFilenameTemplate('{host}.log'); // 'Unknown placeholder "{host}" ...'
+ * ```
+ */
+export function checkFilenameTemplate(template: string): string | undefined {
+  if (typeof template !== 'string' || template.trim().length === 0) {
+    return 'Filename must be a non-empty string';
+  }
+  if (/[/\\]/.test(template) || template === '.' || template === '..') {
+    return `"${template}" must be a file name, not a path`;
+  }
+  if (RESERVED_FILENAMES.includes(template)) {
+    return `"${template}" is written by the logger itself`;
+  }
+  for (const [placeholder, name] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!PLACEHOLDERS.includes(name ?? '')) {
+      return `Unknown placeholder "${placeholder}" (use ${PLACEHOLDERS.map((item) => `{${item}}`).join(', ')})`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Expand the placeholders of a filename template
+ * @param template - Filename template such as `{service}-{env}.log`
+ * @param values - Values to substitute
+ * @returns File name
+ * @throws {ConfigurationError} If the template is invalid
+ *
+ * @example
+ * ```typescript
+ * expandFilenameTemplate('{service}-{env}.log', {
+ *   service: 'payment-api',
+ *   env: 'production',
+ *   pid: process.pid,
+ * });
+ * // 'payment-api-production.log'
+ * ```
+ */
+export function expandFilenameTemplate(
+  template: string,
+  values: FilenameTemplateValues,
+): string {
+  const problem = checkFilenameTemplate(template);
+  if (problem != null) {
+    throw new ConfigurationError(problem);
+  }
+  return template.replace(PLACEHOLDER_PATTERN, (_placeholder, name: string) =>
+    sanitizeSegment(String(values[name as keyof FilenameTemplateValues])),
+  );
+}
+
+/**
+ * Match the file names a template expands to in any process
+ *
+ * `{pid}` matches any process id, so files left by earlier processes are
+ * matched too (used for retention of rotated files).
+ *
+ * @param template - Filename template
+ * @param values - Values for `{service}` and `{env}`
+ * @returns Anchored RegExp
+ * @throws {ConfigurationError} If the template is invalid
+ */
+export function createFilenamePattern(
+  template: string,
+  values: Omit<FilenameTemplateValues, 'pid'>,
+): RegExp {
+  const problem = checkFilenameTemplate(template);
+  if (problem != null) {
+    throw new ConfigurationError(problem);
+  }
+  const escape = (text: string): string =>
+    text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  let source = '';
+  let offset = 0;
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1] as keyof FilenameTemplateValues;
+    source += escape(template.slice(offset, match.index));
+    source +=
+      name === 'pid' ? String.raw`\d+` : escape(sanitizeSegment(values[name]));
+    offset = match.index + match[0].length;
+  }
+  source += escape(template.slice(offset));
+  return new RegExp(`^${source}$`);
+}
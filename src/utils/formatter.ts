@@ -1,9 +1,14 @@
 /**
  * @fileoverview Custom log formatter utilities
  *
- * Provides custom formatting options for pretty printing logs in a compact format
+ * Provides custom formatting options for pretty printing logs in a compact
+ * format, and level labels and colors for custom levels
  */
 
+import type { CustomLevels } from './levels';
+
+import { resolveLevelColors } from './levels';
+
 const DEFAULT_COMPACT_FIELDS = ['pid', 'hostname', 'env', 'service'];
 
 /**
@@ -37,3 +42,36 @@ export function createCustomPrettyOptions(
     messageFormat,
   };
 }
+
+/**
+ * Creates pino-pretty options that label and colorize custom levels
+ *
+ * Built-in levels keep pino-pretty's colors; custom levels use
+ * `levelColors` or the color of their nearest built-in level.
+ *
+ * @param customLevels - Custom levels by name and value
+ * @param levelColors - Colors by level name (colorette names)
+ * @returns Pino-pretty options to merge, or an empty object when there is
+ *   nothing to customize
+ */
+export function createPrettyLevelOptions(
+  customLevels?: CustomLevels,
+  levelColors?: Readonly<Record<string, string>>,
+): Record<string, unknown> {
+  const colors = resolveLevelColors(customLevels, levelColors);
+  if (Object.keys(colors).length === 0) {
+    return {};
+  }
+
+  return {
+    ...(customLevels != null && {
+      customLevels: Object.entries(customLevels)
+        .map(([name, value]) => `${name}:${value}`)
+        .join(','),
+    }),
+    customColors: Object.entries(colors)
+      .map(([name, color]) => `${name}:${color}`)
+      .join(','),
+    useOnlyCustomProps: false,
+  };
+}
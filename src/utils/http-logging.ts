@@ -0,0 +1,914 @@
+/**
+ * @fileoverview HTTP request logging middleware
+ *
+ * Provides request logging for Fetch API servers (Bun.serve, Deno, Node
+ * adapters), Express, and Hono. Each request gets a request ID (propagated
+ * from the incoming header or generated), its W3C trace context, and a
+ * child logger; one completion record carries the status, duration, and
+ * sizes at a level chosen from the status code.
+ *
+ * Framework types are described structurally, so neither Express nor Hono
+ * is a dependency.
+ */
+
+import type { ChildLogger, SeverityLevel, SpanContext } from '../types';
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+
+import {
+  DEFAULT_HTTP_LOGGING_OPTIONS,
+  DEFAULT_REDACT_PATHS,
+} from '../constants';
+import { runWithTraceContext } from './telemetry';
+import { elapsedMs } from './timing';
+import { extractTraceContext } from './trace-context';
+
+/**
+ * What parts of a request and response are logged
+ */
+export interface HttpCaptureOptions {
+  /**
+   * Log the request path
+   * @default true
+   */
+  path?: boolean;
+
+  /**
+   * Include the query string in the path
+   * @default false (query strings often carry tokens)
+   */
+  query?: boolean;
+
+  /**
+   * Log request and response headers: all of them, or only those listed
+   * Headers in `redactHeaders` are censored either way
+   * @default false
+   */
+  headers?: boolean | ReadonlyArray<string>;
+
+  /**
+   * Log the request body (JSON and form bodies only)
+   * Keys in `redactKeys` are censored at any depth before truncation;
+   * bodies that cannot be parsed, or are larger than 64 KiB, are dropped
+   * @default false
+   */
+  body?: boolean;
+
+  /**
+   * Captured bodies are truncated to this many characters of JSON
+   * @default 4096
+   */
+  maxBodySize?: number;
+}
+
+/**
+ * Options for the HTTP request logging middleware
+ */
+export interface HttpLoggingOptions {
+  /**
+   * Header the request ID is read from and echoed in on the response
+   * @default 'x-request-id'
+   */
+  requestIdHeader?: string;
+
+  /**
+   * Generates a request ID when the request has no usable one
+   * @default crypto.randomUUID
+   */
+  generateRequestId?: () => string;
+
+  /**
+   * What to capture in the completion record
+   */
+  capture?: HttpCaptureOptions;
+
+  /**
+   * Additional header names to censor (case-insensitive)
+   * @default authorization, cookie, proxy-authorization, set-cookie, x-api-key
+   */
+  redactHeaders?: ReadonlyArray<string>;
+
+  /**
+   * Additional body keys to censor (case-insensitive)
+   * @default The keys of DEFAULT_REDACT_PATHS (password, token, secret, ...)
+   */
+  redactKeys?: ReadonlyArray<string>;
+
+  /**
+   * Picks the completion level from the status code
+   * @default 5xx → 'error', 4xx → 'warn', otherwise 'info'
+   */
+  levelForStatus?: (status: number) => SeverityLevel;
+}
+
+/**
+ * Fields of the completion record, logged under `http`
+ */
+export interface HttpLogFields {
+  method: string;
+  path?: string;
+  status_code: number;
+  duration_ms: number;
+  request_size?: number;
+  response_size?: number;
+  request_headers?: Record<string, string>;
+  response_headers?: Record<string, string>;
+  request_body?: unknown;
+}
+
+/**
+ * Express-style request (also Node's `IncomingMessage` with `originalUrl`)
+ */
+export interface ExpressLikeRequest {
+  method?: string;
+  url?: string;
+  originalUrl?: string;
+  headers: Record<string, string | ReadonlyArray<string> | undefined>;
+  body?: unknown;
+  /** Set to the request's child logger */
+  log?: ChildLogger;
+  /** Set to the request ID */
+  id?: string;
+}
+
+/**
+ * Express-style response (also Node's `ServerResponse`)
+ */
+export interface ExpressLikeResponse {
+  statusCode: number;
+  writableFinished?: boolean;
+  getHeader(name: string): number | string | ReadonlyArray<string> | undefined;
+  getHeaders?(): Record<
+    string,
+    number | string | ReadonlyArray<string> | undefined
+  >;
+  setHeader(name: string, value: string): unknown;
+  once(event: 'close' | 'finish', listener: () => void): unknown;
+}
+
+/**
+ * Hono-style context
+ */
+export interface HonoLikeContext {
+  req: { raw: Request };
+  res: Response;
+  error?: Error;
+  set(key: string, value: unknown): void;
+  header(name: string, value: string): void;
+}
+
+/**
+ * Variables set on the Hono context (`c.var.logger`, `c.var.requestId`)
+ */
+export interface HttpLoggingVariables {
+  logger: ChildLogger;
+  requestId: string;
+}
+
+/**
+ * Options with defaults applied
+ */
+interface ResolvedHttpLoggingOptions {
+  readonly requestIdHeader: string;
+  readonly generateRequestId: () => string;
+  readonly capturePath: boolean;
+  readonly captureQuery: boolean;
+  readonly captureHeaders: boolean | ReadonlySet<string>;
+  readonly captureBody: boolean;
+  readonly maxBodySize: number;
+  readonly redactHeaders: ReadonlySet<string>;
+  readonly redactKeys: ReadonlySet<string>;
+  readonly levelForStatus: (status: number) => SeverityLevel;
+}
+
+/**
+ * Framework-neutral view of a request or response
+ */
+interface HttpMessage {
+  readonly getHeader: (name: string) => string | undefined;
+  readonly headerEntries: () => Array<[string, string]>;
+}
+
+/**
+ * State of a request being logged
+ */
+interface RequestScope {
+  readonly log: ChildLogger;
+  readonly requestId: string;
+  readonly traceContext: SpanContext | undefined;
+  readonly startTime: number;
+  readonly method: string;
+  readonly path: string | undefined;
+  readonly requestSize: number | undefined;
+  readonly requestHeaders: Record<string, string> | undefined;
+  readonly requestBody: unknown;
+}
+
+// Per-async-context storage for the request being handled
+const requestStorage = new AsyncLocalStorage<RequestScope>();
+
+const HTTP_CLIENT_ERROR = 400;
+const HTTP_SERVER_ERROR = 500;
+const REDACTED = '[REDACTED]';
+const TRUNCATED_SUFFIX = '…[truncated]';
+const REQUEST_ID_PATTERN = /^[\w\-.:@]+$/;
+const CAPTURED_BODY_TYPES = /json|x-www-form-urlencoded/i;
+const FORM_BODY_TYPE = /x-www-form-urlencoded/i;
+const PLACEHOLDER_ORIGIN = 'http://localhost';
+
+/**
+ * Default completion level for a status code
+ * @param status - HTTP status code
+ * @returns 'error' for 5xx, 'warn' for 4xx, otherwise 'info'
+ */
+function defaultLevelForStatus(status: number): SeverityLevel {
+  if (status >= HTTP_SERVER_ERROR) {
+    return 'error';
+  }
+  if (status >= HTTP_CLIENT_ERROR) {
+    return 'warn';
+  }
+  return 'info';
+}
+
+/**
+ * Lower-case a list of names into a set
+ * @param names - Names
+ * @returns Set of lower-cased names
+ */
+function toNameSet(names: ReadonlyArray<string>): Set<string> {
+  return new Set(names.map((name) => name.toLowerCase()));
+}
+
+/**
+ * Apply defaults to the capture options
+ * @param capture - Capture options
+ * @returns Resolved capture settings
+ */
+function resolveCapture(
+  capture: HttpCaptureOptions,
+): Pick<
+  ResolvedHttpLoggingOptions,
+  | 'capturePath'
+  | 'captureQuery'
+  | 'captureHeaders'
+  | 'captureBody'
+  | 'maxBodySize'
+> {
+  return {
+    capturePath: capture.path ?? true,
+    captureQuery: capture.query ?? false,
+    captureHeaders: Array.isArray(capture.headers)
+      ? toNameSet(capture.headers)
+      : capture.headers === true,
+    captureBody: capture.body ?? false,
+    maxBodySize:
+      capture.maxBodySize ?? DEFAULT_HTTP_LOGGING_OPTIONS.MAX_BODY_SIZE,
+  };
+}
+
+/**
+ * Apply defaults to the middleware options
+ * @param options - Middleware options
+ * @returns Resolved options
+ */
+function resolveOptions(
+  options: HttpLoggingOptions,
+): ResolvedHttpLoggingOptions {
+  const defaultRedactKeys = DEFAULT_REDACT_PATHS.map((path) =>
+    path.replace(/^\*\./, ''),
+  );
+
+  return {
+    ...resolveCapture(options.capture ?? {}),
+    requestIdHeader: (
+      options.requestIdHeader ?? DEFAULT_HTTP_LOGGING_OPTIONS.REQUEST_ID_HEADER
+    ).toLowerCase(),
+    generateRequestId: options.generateRequestId ?? randomUUID,
+    redactHeaders: toNameSet([
+      ...DEFAULT_HTTP_LOGGING_OPTIONS.REDACT_HEADERS,
+      ...(options.redactHeaders ?? []),
+    ]),
+    redactKeys: toNameSet([
+      ...defaultRedactKeys,
+      ...(options.redactKeys ?? []),
+    ]),
+    levelForStatus: options.levelForStatus ?? defaultLevelForStatus,
+  };
+}
+
+/**
+ * View Fetch API headers as an HTTP message
+ * @param headers - Fetch headers
+ * @returns Header accessors
+ */
+function fromFetchHeaders(headers: Headers): HttpMessage {
+  return {
+    getHeader: (name) => headers.get(name) ?? undefined,
+    headerEntries: () => {
+      const entries: Array<[string, string]> = [];
+      headers.forEach((value, name) => entries.push([name, value]));
+      return entries;
+    },
+  };
+}
+
+/**
+ * Join a Node-style header value
+ * @param value - Header value
+ * @returns String value, if present
+ */
+function joinHeaderValue(
+  value: number | string | ReadonlyArray<string> | undefined,
+): string | undefined {
+  if (value == null) {
+    return undefined;
+  }
+  return typeof value === 'object' ? value.join(', ') : String(value);
+}
+
+/**
+ * View a Node-style header record as an HTTP message
+ * @param getHeaders - Returns the header record (names in lower case)
+ * @returns Header accessors
+ */
+function fromHeaderRecord(
+  getHeaders: () => Record<
+    string,
+    number | string | ReadonlyArray<string> | undefined
+  >,
+): HttpMessage {
+  return {
+    getHeader: (name) => joinHeaderValue(getHeaders()[name]),
+    headerEntries: () =>
+      Object.entries(getHeaders()).flatMap(([name, value]) => {
+        const joined = joinHeaderValue(value);
+        return joined == null ? [] : [[name.toLowerCase(), joined]];
+      }),
+  };
+}
+
+/**
+ * Read the Content-Length of a message
+ * @param message - Request or response
+ * @returns Size in bytes, if declared
+ */
+function readContentLength(message: HttpMessage): number | undefined {
+  const value = Number(message.getHeader('content-length'));
+  return Number.isInteger(value) && value >= 0 ? value : undefined;
+}
+
+/**
+ * Collect the headers to log, censoring sensitive ones
+ * @param message - Request or response
+ * @param settings - Resolved options
+ * @returns Captured headers, or undefined when headers are not captured
+ */
+function captureHeaders(
+  message: HttpMessage,
+  settings: ResolvedHttpLoggingOptions,
+): Record<string, string> | undefined {
+  const allowed = settings.captureHeaders;
+  if (allowed === false) {
+    return undefined;
+  }
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of message.headerEntries()) {
+    if (allowed !== true && !allowed.has(name)) {
+      continue;
+    }
+    headers[name] = settings.redactHeaders.has(name) ? REDACTED : value;
+  }
+  return headers;
+}
+
+/**
+ * Censor sensitive keys of a parsed body at any depth
+ * @param value - Parsed body
+ * @param keys - Lower-cased keys to censor
+ * @returns Copy with sensitive values replaced
+ */
+function redactBody(value: unknown, keys: ReadonlySet<string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactBody(item, keys));
+  }
+  if (value == null || typeof value !== 'object') {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      keys.has(key.toLowerCase()) ? REDACTED : redactBody(item, keys),
+    ]),
+  );
+}
+
+/**
+ * Parse a form body, collecting repeated keys into arrays
+ * @param text - URL-encoded body
+ * @returns Fields by name
+ */
+function parseFormBody(text: string): Record<string, string | Array<string>> {
+  const fields: Record<string, string | Array<string>> = {};
+  for (const [key, value] of new URLSearchParams(text)) {
+    const existing = fields[key];
+    if (existing == null) {
+      fields[key] = value;
+    } else {
+      fields[key] = Array.isArray(existing)
+        ? [...existing, value]
+        : [existing, value];
+    }
+  }
+  return fields;
+}
+
+/**
+ * Parse a raw body by its content type
+ * @param text - Raw body
+ * @param contentType - Request content type
+ * @returns Parsed body, or undefined if it cannot be parsed
+ */
+function parseBody(text: string, contentType: string): unknown {
+  if (FORM_BODY_TYPE.test(contentType)) {
+    return parseFormBody(text);
+  }
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Truncate a redacted body whose JSON is longer than the limit
+ * @param value - Redacted body
+ * @param maxBodySize - Maximum characters of JSON
+ * @returns The body, truncated JSON text, or undefined if not serializable
+ */
+function truncateBody(value: unknown, maxBodySize: number): unknown {
+  let json: string;
+  try {
+    json = JSON.stringify(value);
+  } catch {
+    return undefined;
+  }
+  if (json.length > maxBodySize) {
+    return `${json.slice(0, maxBodySize)}${TRUNCATED_SUFFIX}`;
+  }
+  return value;
+}
+
+/**
+ * Prepare a request body for logging
+ *
+ * Bodies are parsed and redacted before they are truncated, so a sensitive
+ * value is never cut short and logged in part. Raw bodies that cannot be
+ * parsed are dropped rather than logged as they are.
+ *
+ * @param body - Parsed body or raw text
+ * @param contentType - Request content type
+ * @param settings - Resolved options
+ * @returns Redacted and truncated body, or undefined when dropped
+ */
+function prepareBody(
+  body: unknown,
+  contentType: string,
+  settings: ResolvedHttpLoggingOptions,
+): unknown {
+  let parsed = body;
+  if (body instanceof Uint8Array) {
+    parsed =
+      body.byteLength > DEFAULT_HTTP_LOGGING_OPTIONS.MAX_BODY_READ_SIZE
+        ? undefined
+        : new TextDecoder().decode(body);
+  }
+  if (typeof parsed === 'string') {
+    parsed =
+      parsed.length > DEFAULT_HTTP_LOGGING_OPTIONS.MAX_BODY_READ_SIZE
+        ? undefined
+        : parseBody(parsed, contentType);
+  }
+  return parsed === undefined
+    ? undefined
+    : truncateBody(
+        redactBody(parsed, settings.redactKeys),
+        settings.maxBodySize,
+      );
+}
+
+/**
+ * Read a stream to text, giving up past a size limit
+ * @param stream - Body stream
+ * @param limit - Maximum bytes to read
+ * @returns Text, or undefined if the stream is larger than the limit
+ */
+async function readLimitedText(
+  stream: ReadableStream<Uint8Array>,
+  limit: number,
+): Promise<string | undefined> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return text + decoder.decode();
+    }
+    size += value.byteLength;
+    if (size > limit) {
+      // Cancelling a clone settles only once the original is cancelled too
+      void reader.cancel().catch(() => undefined);
+      return undefined;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+}
+
+/**
+ * Read a Fetch request body for logging without consuming it
+ *
+ * A clone of the body is read up to `MAX_BODY_READ_SIZE` bytes; larger
+ * bodies are not captured.
+ *
+ * @param request - Incoming request
+ * @returns Body text, if it is a captured content type within the limit
+ */
+async function readFetchBody(request: Request): Promise<string | undefined> {
+  const contentType = request.headers.get('content-type') ?? '';
+  const limit = DEFAULT_HTTP_LOGGING_OPTIONS.MAX_BODY_READ_SIZE;
+  if (
+    request.body == null ||
+    !CAPTURED_BODY_TYPES.test(contentType) ||
+    Number(request.headers.get('content-length')) > limit
+  ) {
+    return undefined;
+  }
+  const { body } = request.clone();
+  if (body == null) {
+    return undefined;
+  }
+  try {
+    return await readLimitedText(body, limit);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Use the incoming request ID if it is safe to log, else generate one
+ * @param request - Incoming request
+ * @param settings - Resolved options
+ * @returns Request ID
+ */
+function resolveRequestId(
+  request: HttpMessage,
+  settings: ResolvedHttpLoggingOptions,
+): string {
+  const incoming = request.getHeader(settings.requestIdHeader)?.trim();
+  if (
+    incoming != null &&
+    incoming.length <= DEFAULT_HTTP_LOGGING_OPTIONS.MAX_REQUEST_ID_LENGTH &&
+    REQUEST_ID_PATTERN.test(incoming)
+  ) {
+    return incoming;
+  }
+  return settings.generateRequestId();
+}
+
+/**
+ * Get the path to log from a request URL
+ * @param url - Absolute URL or path with query
+ * @param settings - Resolved options
+ * @returns Path (with query if configured), or undefined when not captured
+ */
+function resolvePath(
+  url: string,
+  settings: ResolvedHttpLoggingOptions,
+): string | undefined {
+  if (!settings.capturePath) {
+    return undefined;
+  }
+  try {
+    const parsed = new URL(url, PLACEHOLDER_ORIGIN);
+    return settings.captureQuery
+      ? `${parsed.pathname}${parsed.search}`
+      : parsed.pathname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Start logging a request
+ * @param logger - Logger to create the request's child logger from
+ * @param settings - Resolved options
+ * @param request - Request details
+ * @param request.method - HTTP method
+ * @param request.url - Absolute URL or path with query
+ * @param request.message - Request headers
+ * @param request.body - Parsed body or raw text, when captured
+ * @returns Request scope
+ */
+function beginRequest(
+  logger: ChildLogger,
+  settings: ResolvedHttpLoggingOptions,
+  request: { method: string; url: string; message: HttpMessage; body: unknown },
+): RequestScope {
+  const requestId = resolveRequestId(request.message, settings);
+  const headers = Object.fromEntries(request.message.headerEntries());
+
+  return {
+    log: logger.child({ request_id: requestId }),
+    requestId,
+    traceContext: extractTraceContext(headers),
+    startTime: performance.now(),
+    method: request.method,
+    path: resolvePath(request.url, settings),
+    requestSize: readContentLength(request.message),
+    requestHeaders: captureHeaders(request.message, settings),
+    requestBody:
+      request.body === undefined
+        ? undefined
+        : prepareBody(
+            request.body,
+            request.message.getHeader('content-type') ?? '',
+            settings,
+          ),
+  };
+}
+
+/**
+ * Run request handling with the request scope and trace context active
+ * @param scope - Request scope
+ * @param fn - Handler to run
+ * @returns The handler's return value
+ */
+function runInRequestScope<T>(scope: RequestScope, fn: () => T): T {
+  return requestStorage.run(scope, () =>
+    scope.traceContext == null
+      ? fn()
+      : runWithTraceContext(scope.traceContext, fn),
+  );
+}
+
+/**
+ * Log the completion record of a request
+ * @param scope - Request scope
+ * @param settings - Resolved options
+ * @param status - Response status code
+ * @param response - Response headers, if a response was sent
+ * @param error - Error thrown by the handler, if any
+ */
+function completeRequest(
+  scope: RequestScope,
+  settings: ResolvedHttpLoggingOptions,
+  status: number,
+  response: HttpMessage | undefined,
+  error?: unknown,
+): void {
+  const http: HttpLogFields = {
+    method: scope.method,
+    path: scope.path,
+    status_code: status,
+    duration_ms: elapsedMs(scope.startTime),
+    request_size: scope.requestSize,
+    response_size: response == null ? undefined : readContentLength(response),
+    request_headers: scope.requestHeaders,
+    response_headers:
+      response == null ? undefined : captureHeaders(response, settings),
+    request_body: scope.requestBody,
+  };
+
+  const level = error == null ? settings.levelForStatus(status) : 'error';
+  const fields = error == null ? { http } : { err: error, http };
+  scope.log[level](
+    fields,
+    error == null ? 'Request completed' : 'Request failed',
+  );
+}
+
+/**
+ * Set the request ID header on a Fetch response
+ * @param response - Handler response
+ * @param name - Header name
+ * @param requestId - Request ID
+ * @returns The response, or a copy when its headers are immutable
+ */
+function withRequestIdHeader(
+  response: Response,
+  name: string,
+  requestId: string,
+): Response {
+  try {
+    response.headers.set(name, requestId);
+    return response;
+  } catch {
+    // Responses from fetch() have immutable headers
+    const copy = new Response(response.body, response);
+    copy.headers.set(name, requestId);
+    return copy;
+  }
+}
+
+/**
+ * Get the child logger of the request being handled
+ *
+ * Works anywhere inside a request handled by one of the middlewares,
+ * including after awaits.
+ *
+ * @returns Request logger, or undefined outside a request
+ */
+export function getRequestLogger(): ChildLogger | undefined {
+  return requestStorage.getStore()?.log;
+}
+
+/**
+ * Get the ID of the request being handled
+ * @returns Request ID, or undefined outside a request
+ */
+export function getRequestId(): string | undefined {
+  return requestStorage.getStore()?.requestId;
+}
+
+/**
+ * Wrap a Fetch API handler (`(Request) => Response`) with request logging
+ *
+ * Works with Bun.serve, Deno.serve, and Node adapters that speak Fetch.
+ * Extra handler arguments (e.g. Bun's `server`) are passed through. The
+ * request's logger is available through {@link getRequestLogger}.
+ *
+ * @param logger - Logger to create request loggers from
+ * @param handler - Request handler
+ * @param options - Middleware options
+ * @returns Handler that logs each request
+ *
+ * @example
+ * ```typescript
+ * Bun.serve({
+ *   fetch: withRequestLogging(logger, async (request) => {
+ *     getRequestLogger()?.info('Loading users');
+ *     return Response.json(await loadUsers());
+ *   }),
+ * });
+ * ```
+ */
+export function withRequestLogging<TArgs extends Array<unknown>>(
+  logger: ChildLogger,
+  handler: (request: Request, ...args: TArgs) => Response | Promise<Response>,
+  options: HttpLoggingOptions = {},
+): (request: Request, ...args: TArgs) => Promise<Response> {
+  const settings = resolveOptions(options);
+
+  return async (request, ...args) => {
+    const scope = beginRequest(logger, settings, {
+      method: request.method,
+      url: request.url,
+      message: fromFetchHeaders(request.headers),
+      body: settings.captureBody ? await readFetchBody(request) : undefined,
+    });
+
+    let response: Response;
+    try {
+      response = await runInRequestScope(scope, () =>
+        handler(request, ...args),
+      );
+    } catch (error) {
+      completeRequest(scope, settings, HTTP_SERVER_ERROR, undefined, error);
+      throw error;
+    }
+
+    response = withRequestIdHeader(
+      response,
+      settings.requestIdHeader,
+      scope.requestId,
+    );
+    completeRequest(
+      scope,
+      settings,
+      response.status,
+      fromFetchHeaders(response.headers),
+    );
+    return response;
+  };
+}
+
+/**
+ * Creates Express request logging middleware
+ *
+ * Sets `req.log` and `req.id`, echoes the request ID header, and logs the
+ * completion record when the response finishes (or a warning when the
+ * connection closes first). Also works with Node's `http.createServer` by
+ * calling it with a no-op `next`. A parsed `req.body` is captured when
+ * body capture is on, so register it after the body parser.
+ *
+ * @param logger - Logger to create request loggers from
+ * @param options - Middleware options
+ * @returns Express middleware
+ *
+ * @example
+ * ```typescript
+ * app.use(express.json());
+ * app.use(createExpressRequestLogger(logger, { capture: { body: true } }));
+ * app.get('/users', (req, res) => {
+ *   req.log?.info('Loading users');
+ * });
+ * ```
+ */
+export function createExpressRequestLogger(
+  logger: ChildLogger,
+  options: HttpLoggingOptions = {},
+): (
+  req: ExpressLikeRequest,
+  res: ExpressLikeResponse,
+  next: (error?: unknown) => void,
+) => void {
+  const settings = resolveOptions(options);
+
+  return (req, res, next) => {
+    const scope = beginRequest(logger, settings, {
+      method: req.method ?? 'GET',
+      url: req.originalUrl ?? req.url ?? '/',
+      message: fromHeaderRecord(() => req.headers),
+      body: settings.captureBody ? req.body : undefined,
+    });
+    req.log = scope.log;
+    req.id = scope.requestId;
+    res.setHeader(settings.requestIdHeader, scope.requestId);
+
+    const message = fromHeaderRecord(() => res.getHeaders?.() ?? {});
+    res.once('finish', () => {
+      completeRequest(scope, settings, res.statusCode, message);
+    });
+    res.once('close', () => {
+      if (res.writableFinished === false) {
+        scope.log.warn(
+          { http: { method: scope.method, path: scope.path } },
+          'Request aborted',
+        );
+      }
+    });
+
+    runInRequestScope(scope, () => next());
+  };
+}
+
+/**
+ * Creates Hono request logging middleware
+ *
+ * Sets `c.var.logger` and `c.var.requestId` (see
+ * {@link HttpLoggingVariables}), echoes the request ID header, and logs the
+ * completion record after the handler; errors handled by Hono (`c.error`)
+ * are logged with the record.
+ *
+ * @param logger - Logger to create request loggers from
+ * @param options - Middleware options
+ * @returns Hono middleware
+ *
+ * @example
+ * ```typescript
+ * const app = new Hono<{ Variables: HttpLoggingVariables }>();
+ * app.use(createHonoRequestLogger(logger));
+ * app.get('/', (c) => {
+ *   c.var.logger.info('Processing request');
+ *   return c.json({ message: 'Hello!' });
+ * });
+ * ```
+ */
+export function createHonoRequestLogger(
+  logger: ChildLogger,
+  options: HttpLoggingOptions = {},
+): (c: HonoLikeContext, next: () => Promise<void>) => Promise<void> {
+  const settings = resolveOptions(options);
+
+  return async (c, next) => {
+    const request = c.req.raw;
+    const scope = beginRequest(logger, settings, {
+      method: request.method,
+      url: request.url,
+      message: fromFetchHeaders(request.headers),
+      body: settings.captureBody ? await readFetchBody(request) : undefined,
+    });
+    c.set('logger', scope.log);
+    c.set('requestId', scope.requestId);
+
+    try {
+      await runInRequestScope(scope, next);
+    } catch (error) {
+      completeRequest(scope, settings, HTTP_SERVER_ERROR, undefined, error);
+      throw error;
+    }
+
+    c.header(settings.requestIdHeader, scope.requestId);
+    completeRequest(
+      scope,
+      settings,
+      c.res.status,
+      fromFetchHeaders(c.res.headers),
+      c.error,
+    );
+  };
+}
@@ -0,0 +1,251 @@
+/**
+ * @fileoverview HMAC signing of log records
+ *
+ * Signs each serialized record with an HMAC over its canonical JSON (keys
+ * sorted, no whitespace) and adds the signature as a `sig` field. Signing
+ * runs as a Pino `streamWrite` hook, so every transport receives signed
+ * lines. Because the canonical form ignores key order and formatting,
+ * `verifyLogRecord()` also accepts records that were re-serialized on the
+ * way, such as lines read back from Loki.
+ */
+
+import type { IntegrityAlgorithm, IntegrityOptions } from '../types';
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+import { INTEGRITY_ALGORITHMS } from '../constants';
+import { ConfigurationError } from './error-handler';
+
+/** Field carrying the signature on signed records */
+export const INTEGRITY_FIELD = 'sig';
+
+/**
+ * Signature of a log record
+ */
+export interface LogRecordSignature {
+  /** Id of the signing key */
+  readonly kid: string;
+  /** HMAC hash algorithm */
+  readonly alg: IntegrityAlgorithm;
+  /** HMAC of the record's canonical JSON (base64url) */
+  readonly mac: string;
+}
+
+/**
+ * Why a log record failed verification
+ */
+export type LogRecordVerificationFailure =
+  | 'malformed'
+  | 'unsigned'
+  | 'unknown_key'
+  | 'invalid_signature';
+
+/**
+ * Result of verifying a log record
+ */
+export interface LogRecordVerification {
+  /** True when the signature matches the record */
+  readonly valid: boolean;
+  /** Id of the key the record claims to be signed with */
+  readonly keyId?: string;
+  /** Why verification failed */
+  readonly reason?: LogRecordVerificationFailure;
+}
+
+/**
+ * Serialize a JSON value in canonical form: object keys sorted, no
+ * whitespace, `undefined` properties omitted
+ * @param value - JSON value
+ * @returns Canonical JSON
+ *
+ * @example
+ * ```typescript
+ * canonicalJson({ b: 1, a: [true, { d: null, c: 'x' }] });
+ * // '{"a":[true,{"c":"x","d":null}],"b":1}'
+ * ```
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Compute the HMAC of a record, excluding its signature field
+ * @param record - Parsed log record
+ * @param algorithm - HMAC hash algorithm
+ * @param key - Secret key
+ * @returns HMAC (base64url)
+ */
+function computeMac(
+  record: Readonly<Record<string, unknown>>,
+  algorithm: IntegrityAlgorithm,
+  key: string | Uint8Array,
+): string {
+  const signed = Object.fromEntries(
+    Object.entries(record).filter(([field]) => field !== INTEGRITY_FIELD),
+  );
+  return createHmac(algorithm, key)
+    .update(canonicalJson(signed))
+    .digest('base64url');
+}
+
+/**
+ * Validate integrity options
+ * @param options - Integrity options
+ * @throws {ConfigurationError} If the key id, key or algorithm is invalid
+ */
+function assertValidIntegrityOptions(options: IntegrityOptions): void {
+  if (typeof options.keyId !== 'string' || options.keyId.length === 0) {
+    throw new ConfigurationError('Integrity keyId must be a non-empty string');
+  }
+  if (options.key.length === 0) {
+    throw new ConfigurationError('Integrity key must not be empty');
+  }
+  if (
+    options.algorithm != null &&
+    !INTEGRITY_ALGORITHMS.includes(options.algorithm)
+  ) {
+    throw new ConfigurationError(
+      `Unknown integrity algorithm "${options.algorithm}"`,
+    );
+  }
+}
+
+/**
+ * Create a Pino `streamWrite` hook that signs each serialized record
+ *
+ * The signature `{ kid, alg, mac }` is appended as the last field of the
+ * line. A `sig` field logged by the caller is not covered by the signature
+ * and is shadowed by it.
+ *
+ * @param options - Integrity options
+ * @returns Hook mapping a serialized record to the signed record
+ * @throws {ConfigurationError} If the options are invalid
+ *
+ * @example
+ * ```typescript
+ * const sign = createIntegrityHook({ keyId: '2026-10', key: process.env.LOG_HMAC_KEY! });
+ * sign('{"level":30,"msg":"hi"}\n');
+ * // '{"level":30,"msg":"hi","sig":{"kid":"2026-10","alg":"sha256","mac":"…"}}\n'
+ * ```
+ */
+export function createIntegrityHook(
+  options: IntegrityOptions,
+): (line: string) => string {
+  assertValidIntegrityOptions(options);
+  const { keyId, key } = options;
+  const algorithm = options.algorithm ?? 'sha256';
+
+  return (line) => {
+    const record = JSON.parse(line) as Record<string, unknown>;
+    const signature: LogRecordSignature = {
+      kid: keyId,
+      alg: algorithm,
+      mac: computeMac(record, algorithm, key),
+    };
+    const end = line.lastIndexOf('}');
+    return `${line.slice(0, end)},"${INTEGRITY_FIELD}":${JSON.stringify(signature)}${line.slice(end)}`;
+  };
+}
+
+/**
+ * Parse a record given as a JSON line
+ * @param record - JSON line or parsed record
+ * @returns Parsed record, or undefined if it is not a JSON object
+ */
+function toRecord(
+  record: string | Readonly<Record<string, unknown>>,
+): Readonly<Record<string, unknown>> | undefined {
+  if (typeof record !== 'string') {
+    return record;
+  }
+  try {
+    const parsed: unknown = JSON.parse(record);
+    return parsed !== null && typeof parsed === 'object'
+      ? (parsed as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the signature of a record
+ * @param record - Parsed record
+ * @returns Signature, or undefined if the record carries none
+ */
+function readSignature(
+  record: Readonly<Record<string, unknown>>,
+): LogRecordSignature | undefined {
+  const signature = record[INTEGRITY_FIELD] as
+    | Partial<Record<keyof LogRecordSignature, unknown>>
+    | undefined;
+  if (
+    typeof signature?.kid !== 'string' ||
+    typeof signature.alg !== 'string' ||
+    typeof signature.mac !== 'string'
+  ) {
+    return undefined;
+  }
+  return signature as LogRecordSignature;
+}
+
+/**
+ * Verify the signature of a log record
+ *
+ * Accepts a JSON line as written to files, or a record already parsed (for
+ * example from a Loki query). The signing key is looked up by the key id
+ * in the signature, so records signed before and after a key rotation can
+ * be verified with the same key set.
+ *
+ * @param record - JSON line or parsed record
+ * @param keys - Secret keys by key id
+ * @returns Verification result
+ *
+ * @example
+ * ```typescript
+ * const keys = { '2026-09': oldKey, '2026-10': currentKey };
+ * for (const line of lines) {
+ *   const { valid, reason } = verifyLogRecord(line, keys);
+ *   if (!valid) console.error(`Rejected record: ${reason}`);
+ * }
+ * ```
+ */
+export function verifyLogRecord(
+  record: string | Readonly<Record<string, unknown>>,
+  keys: Readonly<Record<string, string | Uint8Array>>,
+): LogRecordVerification {
+  const parsed = toRecord(record);
+  if (parsed == null) {
+    return { valid: false, reason: 'malformed' };
+  }
+  const signature = readSignature(parsed);
+  if (signature == null) {
+    return { valid: false, reason: 'unsigned' };
+  }
+  const keyId = signature.kid;
+  if (!INTEGRITY_ALGORITHMS.includes(signature.alg)) {
+    return { valid: false, keyId, reason: 'malformed' };
+  }
+  const key = Object.hasOwn(keys, keyId) ? keys[keyId] : undefined;
+  if (key == null) {
+    return { valid: false, keyId, reason: 'unknown_key' };
+  }
+
+  const expected = Buffer.from(computeMac(parsed, signature.alg, key));
+  const actual = Buffer.from(signature.mac);
+  const valid =
+    expected.length === actual.length && timingSafeEqual(expected, actual);
+  return valid
+    ? { valid, keyId }
+    : { valid, keyId, reason: 'invalid_signature' };
+}
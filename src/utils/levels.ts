@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Custom log level helpers
+ *
+ * Shared by the Node and browser loggers and the outputs that need to
+ * place a custom level (such as `notice: 35` or `audit: 70`) on the
+ * built-in severity scale: pretty colors, Loki level labels, and console
+ * methods. Runtime-agnostic, so it is safe to bundle for browsers.
+ */
+
+import type { SeverityLevel } from '../types';
+
+import { SEVERITY_LEVELS } from '../types';
+
+/**
+ * Custom levels by name and numeric value, e.g. `{ notice: 35, audit: 70 }`
+ */
+export type CustomLevels<TLevels extends string = string> = Readonly<
+  Record<TLevels, number>
+>;
+
+/**
+ * Pretty console color of each built-in level (colorette names, as used by
+ * pino-pretty)
+ */
+export const SEVERITY_COLORS: Readonly<Record<SeverityLevel, string>> = {
+  fatal: 'bgRed',
+  error: 'red',
+  warn: 'yellow',
+  info: 'green',
+  debug: 'blue',
+  trace: 'gray',
+};
+
+const SEVERITY_LEVELS_DESCENDING = (
+  Object.entries(SEVERITY_LEVELS) as Array<[SeverityLevel, number]>
+).sort(([, a], [, b]) => b - a);
+
+/**
+ * Find the built-in level a level value behaves like
+ *
+ * That is the highest built-in level at or below the value; values below
+ * `trace` map to `trace`.
+ *
+ * @param value - Numeric level value
+ * @returns Built-in level name
+ *
+ * @example
+ * ```typescript
+ * nearestSeverityLevel(35); // 'info'
+ * nearestSeverityLevel(70); // 'fatal'
+ * ```
+ */
+export function nearestSeverityLevel(value: number): SeverityLevel {
+  const match = SEVERITY_LEVELS_DESCENDING.find(
+    ([, severity]) => value >= severity,
+  );
+  return match?.[0] ?? 'trace';
+}
+
+/**
+ * Merge custom levels into the built-in level values
+ * @param customLevels - Custom levels
+ * @returns Level values by name
+ */
+export function resolveLevelValues(
+  customLevels?: CustomLevels,
+): Readonly<Record<string, number>> {
+  return { ...SEVERITY_LEVELS, ...customLevels };
+}
+
+/**
+ * Pretty console colors for custom levels
+ * @param customLevels - Custom levels
+ * @param levelColors - Colors set explicitly, by level name
+ * @returns Colors by level name; custom levels without an explicit color
+ *   use the color of their nearest built-in level
+ */
+export function resolveLevelColors(
+  customLevels: CustomLevels = {},
+  levelColors: Readonly<Record<string, string>> = {},
+): Record<string, string> {
+  const colors: Record<string, string> = {};
+  for (const [name, value] of Object.entries(customLevels)) {
+    colors[name] = SEVERITY_COLORS[nearestSeverityLevel(value)];
+  }
+  return { ...colors, ...levelColors };
+}
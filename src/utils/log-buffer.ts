@@ -0,0 +1,276 @@
+/**
+ * @fileoverview Request-scoped tail buffering of log records
+ *
+ * Provides scopes in which low-severity records (debug, trace) are held in
+ * memory instead of being logged. If the unit of work logs an error, the
+ * held records are logged in order before it; if it succeeds, they are
+ * discarded when the scope ends, so debug detail is only paid for on
+ * failures.
+ */
+
+import type { LogBufferOptions } from '../types';
+import type { LogMethodHook } from './log-pipeline';
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { DEFAULT_LOG_BUFFER_OPTIONS } from '../constants';
+import { ConfigurationError } from './error-handler';
+import { splitLogArgs, withLogFields } from './log-pipeline';
+
+/** Field added to flushed records with the time they were logged (ISO 8601) */
+export const BUFFERED_AT_FIELD = 'buffered_at';
+
+/**
+ * A record held in a scope, with the stage that logs it
+ */
+interface BufferedRecord {
+  readonly args: Array<unknown>;
+  readonly emit: (args: Array<unknown>) => void;
+}
+
+/**
+ * Value held in async context storage for a buffering scope
+ */
+interface LogBufferScope {
+  readonly parent: LogBufferScope | undefined;
+  /** Records below this level are buffered */
+  readonly level: string;
+  /** Records at or above this level flush the buffer */
+  readonly flushOn: string;
+  readonly maxRecords: number;
+  records: Array<BufferedRecord>;
+  /** Records dropped because the buffer was full */
+  dropped: number;
+  state: 'buffering' | 'flushed' | 'closed';
+}
+
+// Per-async-context storage for buffering scopes
+const logBufferStorage = new AsyncLocalStorage<LogBufferScope>();
+
+/**
+ * Resolve a level label to its severity
+ *
+ * Labels are resolved against the levels of the logging logger, so custom
+ * levels can bound a scope.
+ *
+ * @param name - Option name (for the error message)
+ * @param label - Level label
+ * @param levels - Level values of the logger
+ * @returns Numeric severity
+ * @throws {ConfigurationError} If the logger has no such level
+ */
+function resolveSeverity(
+  name: string,
+  label: string,
+  levels: Readonly<Record<string, number | undefined>>,
+): number {
+  const severity = Object.hasOwn(levels, label) ? levels[label] : undefined;
+  if (severity == null) {
+    throw new ConfigurationError(`Unknown log buffer ${name}: "${label}"`);
+  }
+  return severity;
+}
+
+/**
+ * Create a buffering scope nested in the current one, if any
+ * @param options - Log buffer options
+ * @returns New scope
+ * @throws {ConfigurationError} If the options are invalid
+ */
+function createScope(options: LogBufferOptions): LogBufferScope {
+  const maxRecords =
+    options.maxRecords ?? DEFAULT_LOG_BUFFER_OPTIONS.MAX_RECORDS;
+  if (!Number.isInteger(maxRecords) || maxRecords <= 0) {
+    throw new ConfigurationError(
+      'Log buffer maxRecords must be a positive integer',
+    );
+  }
+
+  return {
+    parent: logBufferStorage.getStore(),
+    level: options.level ?? DEFAULT_LOG_BUFFER_OPTIONS.LEVEL,
+    flushOn: options.flushOn ?? DEFAULT_LOG_BUFFER_OPTIONS.FLUSH_ON,
+    maxRecords,
+    records: [],
+    dropped: 0,
+    state: 'buffering',
+  };
+}
+
+/**
+ * Log the records held by a scope and its enclosing scopes
+ *
+ * Enclosing scopes are flushed first, since their records are older. The
+ * scope keeps logging records right away afterwards.
+ *
+ * @param scope - Scope to flush
+ */
+function flushScope(scope: LogBufferScope): void {
+  if (scope.parent != null) {
+    flushScope(scope.parent);
+  }
+  if (scope.state !== 'buffering') {
+    return;
+  }
+
+  const { records, dropped } = scope;
+  scope.state = 'flushed';
+  scope.records = [];
+
+  const [first] = records;
+  if (first != null && dropped > 0) {
+    first.emit([
+      { log_buffer: { dropped } },
+      `dropped ${dropped} buffered ${dropped === 1 ? 'log' : 'logs'}`,
+    ]);
+  }
+  for (const record of records) {
+    record.emit(record.args);
+  }
+}
+
+/**
+ * Discard the records of a scope that ended without a flush
+ * @param scope - Scope that ended
+ */
+function closeScope(scope: LogBufferScope): void {
+  if (scope.state === 'buffering') {
+    scope.state = 'closed';
+    scope.records = [];
+  }
+}
+
+/**
+ * Hold a record in a scope, dropping the oldest one when full
+ * @param scope - Buffering scope
+ * @param record - Record to hold
+ */
+function bufferRecord(scope: LogBufferScope, record: BufferedRecord): void {
+  if (scope.records.length >= scope.maxRecords) {
+    scope.records.shift();
+    scope.dropped++;
+  }
+  scope.records.push(record);
+}
+
+/**
+ * Run a function with a tail buffer for low-severity records
+ *
+ * Inside `fn` (including after awaits), records below `level` from any
+ * logger are held. The first record at or above `flushOn` logs them in
+ * order before itself, and later records in the scope are logged right
+ * away. When `fn` returns (or its promise settles) without a flush, the
+ * held records are discarded. Nested scopes flush their enclosing scopes
+ * too.
+ *
+ * Held records keep their logger's bindings and the ambient and trace
+ * fields from when they were logged; merge objects are serialized when
+ * flushed, so they should not be mutated afterwards. Pino stamps `time`
+ * on flush, so each held record carries the time it was logged in
+ * `buffered_at`.
+ *
+ * `level` and `flushOn` may name custom levels; they are resolved against
+ * the levels of each logger that logs in the scope, and a log call throws
+ * a `ConfigurationError` if its logger has no such level.
+ *
+ * @param fn - Unit of work to run
+ * @param options - Log buffer options
+ * @returns The function's return value
+ * @throws {ConfigurationError} If `maxRecords` is invalid
+ *
+ * @example
+ * ```typescript
+ * await runWithLogBuffer(async () => {
+ *   log.debug({ query }, 'Loading order'); // held
+ *   const order = await loadOrder(id);
+ *   if (order == null) {
+ *     log.error({ id }, 'Order not found'); // logs the debug record first
+ *   }
+ * });
+ * ```
+ */
+export function runWithLogBuffer<T>(
+  fn: () => T,
+  options: LogBufferOptions = {},
+): T {
+  const scope = createScope(options);
+
+  let result: T;
+  try {
+    result = logBufferStorage.run(scope, fn);
+  } catch (error) {
+    closeScope(scope);
+    throw error;
+  }
+
+  if (result instanceof Promise) {
+    const close = (): void => closeScope(scope);
+    void result.then(close, close);
+  } else {
+    closeScope(scope);
+  }
+  return result;
+}
+
+/**
+ * Flush the current log buffer scope
+ *
+ * Use when a unit of work fails without logging at the `flushOn` level
+ * (e.g. a handler returning a 500 response). Does nothing outside a scope.
+ */
+export function flushLogBuffer(): void {
+  const scope = logBufferStorage.getStore();
+  if (scope != null) {
+    flushScope(scope);
+  }
+}
+
+/**
+ * Creates the tail buffering stage for the log method pipeline
+ *
+ * Outside a {@link runWithLogBuffer} scope every record passes. Held
+ * records are snapshotted with the logger's mixin fields (ambient log
+ * context, trace context), which take lower precedence than the merge
+ * object as they do in Pino, and with the time they were logged
+ * ({@link BUFFERED_AT_FIELD}).
+ *
+ * @param mixin - The logger's mixin
+ * @returns Log method hook buffering records inside scopes; it throws a
+ *   `ConfigurationError` if the logger lacks the scope's `level` or `flushOn`
+ */
+export function createLogBufferHook(
+  mixin: () => Record<string, unknown>,
+): LogMethodHook {
+  return function logBufferHook(args, method, level): void {
+    const scope = logBufferStorage.getStore();
+    if (scope == null) {
+      Reflect.apply(method, this, args);
+      return;
+    }
+
+    const levels = this.levels.values;
+    if (level >= resolveSeverity('flushOn', scope.flushOn, levels)) {
+      flushScope(scope);
+    }
+    if (
+      level >= resolveSeverity('level', scope.level, levels) ||
+      scope.state === 'flushed'
+    ) {
+      Reflect.apply(method, this, args);
+      return;
+    }
+    if (scope.state === 'closed') {
+      // Discarded along with the rest of the scope's records
+      return;
+    }
+
+    bufferRecord(scope, {
+      args: withLogFields(args, {
+        ...mixin(),
+        ...splitLogArgs(args).obj,
+        [BUFFERED_AT_FIELD]: new Date().toISOString(),
+      }),
+      emit: (heldArgs) => Reflect.apply(method, this, heldArgs),
+    });
+  };
+}
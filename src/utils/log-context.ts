@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Ambient log context management
+ *
+ * Provides async-context-scoped bindings that are merged into every log
+ * record via the Pino mixin, so request-scoped fields (requestId, userId,
+ * tenant) do not have to be threaded through child loggers.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Bindings attached to every log emitted inside a log context scope
+ */
+export type LogContextBindings = Record<string, unknown>;
+
+/**
+ * Value held in async context storage for the current scope
+ */
+interface LogContextStore {
+  bindings: LogContextBindings;
+}
+
+// Per-async-context storage for ambient bindings
+const logContextStorage = new AsyncLocalStorage<LogContextStore>();
+
+/**
+ * Run a function with ambient log bindings
+ *
+ * Every log from `baseLogger`, component loggers, and their children inside
+ * `fn` (including after awaits) carries the bindings. Nested scopes merge
+ * with the enclosing scope; inner values override outer ones.
+ *
+ * @param bindings - Fields to attach to every log in the scope
+ * @param fn - Function to run
+ * @returns The function's return value
+ *
+ * @example
+ * ```typescript
+ * await runWithLogContext({ requestId: req.id }, async () => {
+ *   log.info('Loading user'); // includes requestId
+ *   await runWithLogContext({ userId }, async () => {
+ *     log.info('Loaded'); // includes requestId and userId
+ *   });
+ * });
+ * ```
+ */
+export function runWithLogContext<T>(
+  bindings: LogContextBindings,
+  fn: () => T,
+): T {
+  const parent = logContextStorage.getStore();
+  return logContextStorage.run(
+    { bindings: { ...parent?.bindings, ...bindings } },
+    fn,
+  );
+}
+
+/**
+ * Add bindings to the current log context scope
+ *
+ * Inside a {@link runWithLogContext} scope, the bindings are added to that
+ * scope and are visible to all code still running in it (e.g. fields added
+ * by an auth middleware reach the route handler). Outside any scope, a new
+ * scope is entered for the current execution and its continuations.
+ *
+ * @param bindings - Fields to add
+ */
+export function addLogContext(bindings: LogContextBindings): void {
+  const store = logContextStorage.getStore();
+  if (store != null) {
+    store.bindings = { ...store.bindings, ...bindings };
+    return;
+  }
+  logContextStorage.enterWith({ bindings: { ...bindings } });
+}
+
+/**
+ * Get the ambient bindings for the current scope
+ *
+ * @returns Current bindings (empty object outside any scope)
+ */
+export function getLogContext(): Readonly<LogContextBindings> {
+  return logContextStorage.getStore()?.bindings ?? {};
+}
+
+/**
+ * Clear ambient bindings for every scope (useful for testing)
+ */
+export function clearLogContext(): void {
+  logContextStorage.disable();
+}
+
+/**
+ * Creates a Pino mixin that merges ambient log context bindings
+ *
+ * Fields returned by `mixin` (e.g. trace context) take precedence over
+ * ambient bindings with the same name.
+ *
+ * @param mixin - Optional mixin to combine with
+ * @returns Mixin function for Pino
+ */
+export function createLogContextMixin(
+  mixin?: () => Record<string, unknown>,
+): () => Record<string, unknown> {
+  return (): Record<string, unknown> => {
+    const store = logContextStorage.getStore();
+    if (store == null) {
+      return mixin?.() ?? {};
+    }
+    return mixin == null
+      ? { ...store.bindings }
+      : { ...store.bindings, ...mixin() };
+  };
+}
@@ -0,0 +1,357 @@
+/**
+ * @fileoverview Typed log event catalog
+ *
+ * Provides `defineLogEvents()`, which turns a catalog of named events into
+ * typed emitters: each event's fields are checked at compile time and its
+ * records carry a stable `event` key that dashboards and alerts can query.
+ * The same catalog can be exported as JSON Schema for query authors.
+ */
+
+import type { ChildLogger, SeverityLevel } from '../types';
+
+import { SEVERITY_LEVELS } from '../types';
+import { ConfigurationError } from './error-handler';
+
+/** Field carrying the event name on event records */
+export const LOG_EVENT_FIELD = 'event';
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Value type of an event field
+ */
+export type LogEventFieldType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array';
+
+/**
+ * Field definition: a type, or a type with optionality and a description
+ */
+export type LogEventFieldSpec =
+  | LogEventFieldType
+  | {
+      readonly type: LogEventFieldType;
+      /** Whether the field may be omitted (default: false) */
+      readonly optional?: boolean;
+      /** Description included in the JSON Schema */
+      readonly description?: string;
+    };
+
+/**
+ * Definition of a single log event
+ */
+export interface LogEventDefinition {
+  /** Level the event is logged at */
+  readonly level: SeverityLevel;
+  /** Default message (default: the event name) */
+  readonly message?: string;
+  /** Description included in the JSON Schema */
+  readonly description?: string;
+  /** Fields of the event, by name */
+  readonly fields?: Readonly<Record<string, LogEventFieldSpec>>;
+}
+
+/**
+ * Catalog of log events, keyed by event name (e.g. `'payment.failed'`)
+ */
+export type LogEventCatalog = Readonly<Record<string, LogEventDefinition>>;
+
+/**
+ * TypeScript type of a field value
+ */
+type FieldValue<TType extends LogEventFieldType> = {
+  string: string;
+  number: number;
+  integer: number;
+  boolean: boolean;
+  object: Record<string, unknown>;
+  array: Array<unknown>;
+}[TType];
+
+type FieldTypeOf<TSpec> = TSpec extends LogEventFieldType
+  ? TSpec
+  : TSpec extends { readonly type: infer TType extends LogEventFieldType }
+    ? TType
+    : never;
+
+type OptionalKeys<TFields> = {
+  [K in keyof TFields]: TFields[K] extends { readonly optional: true }
+    ? K
+    : never;
+}[keyof TFields];
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+/**
+ * Fields accepted by an event, derived from its definition
+ */
+export type LogEventFields<TDefinition extends LogEventDefinition> =
+  TDefinition['fields'] extends Readonly<Record<string, LogEventFieldSpec>>
+    ? Simplify<
+        {
+          -readonly [K in Exclude<
+            keyof TDefinition['fields'],
+            OptionalKeys<TDefinition['fields']>
+          >]: FieldValue<FieldTypeOf<TDefinition['fields'][K]>>;
+        } & {
+          -readonly [K in OptionalKeys<TDefinition['fields']>]?: FieldValue<
+            FieldTypeOf<TDefinition['fields'][K]>
+          >;
+        }
+      >
+    : Record<string, never>;
+
+/**
+ * Emitter method name of an event: `'payment.failed'` becomes `paymentFailed`
+ */
+export type LogEventMethodName<TName extends string> =
+  TName extends `${infer THead}${'.' | '-' | '_'}${infer TTail}`
+    ? `${THead}${Capitalize<LogEventMethodName<TTail>>}`
+    : TName;
+
+/**
+ * Logs one event through a logger
+ */
+export type LogEventEmitter<TDefinition extends LogEventDefinition> = (
+  logger: Pick<ChildLogger, SeverityLevel>,
+  ...args: Record<string, never> extends LogEventFields<TDefinition>
+    ? [fields?: LogEventFields<TDefinition>, msg?: string]
+    : [fields: LogEventFields<TDefinition>, msg?: string]
+) => void;
+
+/**
+ * Typed emitters for a catalog, one per event
+ */
+export type LogEvents<TCatalog extends LogEventCatalog> = {
+  readonly [K in keyof TCatalog &
+    string as LogEventMethodName<K>]: LogEventEmitter<TCatalog[K]>;
+};
+
+/**
+ * JSON Schema document describing a catalog's event records
+ */
+export interface LogEventsJsonSchema {
+  readonly $schema: string;
+  readonly title: string;
+  readonly oneOf: ReadonlyArray<{ readonly $ref: string }>;
+  readonly $defs: Readonly<Record<string, Record<string, unknown>>>;
+}
+
+const catalogs = new WeakMap<object, LogEventCatalog>();
+
+const FIELD_TYPES = new Set<string>([
+  'string',
+  'number',
+  'integer',
+  'boolean',
+  'object',
+  'array',
+]);
+
+/**
+ * Convert an event name to its emitter method name
+ * @param name - Event name such as 'payment.failed'
+ * @returns Method name such as 'paymentFailed'
+ */
+export function toLogEventMethodName(name: string): string {
+  return name.replace(/[._-](\w)/gu, (_, char: string) => char.toUpperCase());
+}
+
+/**
+ * Normalize a field definition to its object form
+ * @param spec - Field definition
+ * @returns Type, optionality and description of the field
+ */
+function normalizeField(spec: LogEventFieldSpec): {
+  type: LogEventFieldType;
+  optional: boolean;
+  description: string | undefined;
+} {
+  return typeof spec === 'string'
+    ? { type: spec, optional: false, description: undefined }
+    : {
+        type: spec.type,
+        optional: spec.optional === true,
+        description: spec.description,
+      };
+}
+
+/**
+ * Validate one event definition
+ * @param name - Event name
+ * @param definition - Event definition
+ * @throws {ConfigurationError} If the level or a field is invalid
+ */
+function assertValidEvent(name: string, definition: LogEventDefinition): void {
+  if (!(definition.level in SEVERITY_LEVELS)) {
+    throw new ConfigurationError(
+      `Log event "${name}" has unknown level "${definition.level}"`,
+    );
+  }
+
+  for (const [field, spec] of Object.entries(definition.fields ?? {})) {
+    if (field === LOG_EVENT_FIELD) {
+      throw new ConfigurationError(
+        `Log event "${name}" cannot define the reserved field "${LOG_EVENT_FIELD}"`,
+      );
+    }
+    if (!FIELD_TYPES.has(normalizeField(spec).type)) {
+      throw new ConfigurationError(
+        `Log event "${name}" field "${field}" has unknown type "${normalizeField(spec).type}"`,
+      );
+    }
+  }
+}
+
+/**
+ * Define a catalog of log events with typed emitters
+ *
+ * Each event becomes a method named after it in camelCase. The method type
+ * checks the event's fields, logs at the event's level, and adds
+ * `event: '<name>'` to the record (after the fields, so it cannot be
+ * overridden).
+ *
+ * @param catalog - Events keyed by name
+ * @returns Emitters keyed by method name
+ * @throws {ConfigurationError} If a definition is invalid or two event names
+ *   map to the same method name
+ *
+ * @example
+ * ```typescript
+ * const events = defineLogEvents({
+ *   'payment.failed': {
+ *     level: 'error',
+ *     message: 'Payment failed',
+ *     fields: {
+ *       amount: 'number',
+ *       currency: 'string',
+ *       reason: { type: 'string', optional: true },
+ *     },
+ *   },
+ * });
+ *
+ * events.paymentFailed(logger, { amount: 42, currency: 'EUR' });
+ * // { event: 'payment.failed', amount: 42, currency: 'EUR', msg: 'Payment failed' }
+ * ```
+ */
+export function defineLogEvents<const TCatalog extends LogEventCatalog>(
+  catalog: TCatalog,
+): LogEvents<TCatalog> {
+  const emitters: Record<string, unknown> = {};
+  const owners = new Map<string, string>();
+
+  for (const [name, definition] of Object.entries(catalog)) {
+    assertValidEvent(name, definition);
+
+    const methodName = toLogEventMethodName(name);
+    const owner = owners.get(methodName);
+    if (owner != null) {
+      throw new ConfigurationError(
+        `Log events "${owner}" and "${name}" both map to method "${methodName}"`,
+      );
+    }
+    owners.set(methodName, name);
+
+    emitters[methodName] = (
+      logger: Pick<ChildLogger, SeverityLevel>,
+      fields: Record<string, unknown> = {},
+      msg?: string,
+    ): void => {
+      logger[definition.level](
+        { ...fields, [LOG_EVENT_FIELD]: name },
+        msg ?? definition.message ?? name,
+      );
+    };
+  }
+
+  const events = Object.freeze(emitters) as LogEvents<TCatalog>;
+  catalogs.set(events, catalog);
+  return events;
+}
+
+/**
+ * Build the JSON Schema of one event's records
+ * @param name - Event name
+ * @param definition - Event definition
+ * @returns Object schema for the record
+ */
+function eventSchema(
+  name: string,
+  definition: LogEventDefinition,
+): Record<string, unknown> {
+  const properties: Record<string, unknown> = {
+    [LOG_EVENT_FIELD]: { const: name },
+    level: { const: SEVERITY_LEVELS[definition.level] },
+  };
+  const required = [LOG_EVENT_FIELD];
+
+  for (const [field, spec] of Object.entries(definition.fields ?? {})) {
+    const { type, optional, description } = normalizeField(spec);
+    properties[field] = { type, ...(description != null && { description }) };
+    if (!optional) {
+      required.push(field);
+    }
+  }
+
+  return {
+    type: 'object',
+    title: name,
+    ...(definition.description != null && {
+      description: definition.description,
+    }),
+    properties,
+    required,
+  };
+}
+
+/**
+ * Escape a JSON Pointer reference token (RFC 6901)
+ * @param token - Unescaped token
+ * @returns Token with '~' and '/' escaped
+ */
+function toJsonPointerToken(token: string): string {
+  return token.replace(/~/gu, '~0').replace(/\//gu, '~1');
+}
+
+/**
+ * Export a catalog as a JSON Schema (draft 2020-12) document
+ *
+ * Each event is a `$defs` entry keyed by event name, describing its record:
+ * the `event` constant, the numeric Pino `level`, and its fields. Records
+ * may carry other fields (bindings, trace context), so additional
+ * properties are allowed.
+ *
+ * @param events - Emitters returned by `defineLogEvents()`
+ * @param title - Schema title
+ * @returns JSON Schema document
+ * @throws {ConfigurationError} If `events` was not created by `defineLogEvents()`
+ */
+export function getLogEventsJsonSchema(
+  events: object,
+  title = 'Log events',
+): LogEventsJsonSchema {
+  const catalog = catalogs.get(events);
+  if (catalog == null) {
+    throw new ConfigurationError(
+      'getLogEventsJsonSchema() expects emitters created by defineLogEvents()',
+    );
+  }
+
+  const $defs: Record<string, Record<string, unknown>> = {};
+  for (const [name, definition] of Object.entries(catalog)) {
+    $defs[name] = eventSchema(name, definition);
+  }
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    title,
+    oneOf: Object.keys($defs).map((name) => ({
+      $ref: `#/$defs/${encodeURIComponent(toJsonPointerToken(name))}`,
+    })),
+    $defs,
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Log method pipeline composition
+ *
+ * Provides composition of Pino `hooks.logMethod` stages so that features
+ * which inspect, rewrite, or drop log calls (validation, rate limiting,
+ * sampling) can be layered without knowing about each other.
+ */
+
+import type pino from 'pino';
+
+/**
+ * A Pino `hooks.logMethod` stage.
+ *
+ * Call `method.apply(this, args)` to pass the (possibly rewritten) call on
+ * to the next stage; return without calling it to drop the record.
+ */
+export type LogMethodHook = (
+  this: pino.Logger,
+  args: Array<unknown>,
+  method: pino.LogFn,
+  level: number,
+) => void;
+
+/**
+ * Compose log method stages into a single Pino hook
+ *
+ * Stages run in array order; the first stage sees the original call and
+ * the last one hands it to Pino. Undefined entries are skipped.
+ *
+ * @param hooks - Stages to compose
+ * @returns Combined hook, or undefined when no stage is active
+ */
+export function composeLogMethodHooks(
+  hooks: ReadonlyArray<LogMethodHook | undefined>,
+): LogMethodHook | undefined {
+  const stages = hooks.filter((hook): hook is LogMethodHook => hook != null);
+
+  if (stages.length === 0) {
+    return undefined;
+  }
+
+  if (stages.length === 1) {
+    return stages[0];
+  }
+
+  return function composedLogMethod(
+    this: pino.Logger,
+    args: Array<unknown>,
+    method: pino.LogFn,
+    level: number,
+  ): void {
+    const logger = this;
+
+    const dispatch = (index: number, stageArgs: Array<unknown>): void => {
+      const stage = stages[index];
+      if (stage == null) {
+        Reflect.apply(method, logger, stageArgs);
+        return;
+      }
+
+      const next = function (...nextArgs: Array<unknown>): void {
+        dispatch(index + 1, nextArgs);
+      } as pino.LogFn;
+
+      stage.call(logger, stageArgs, next, level);
+    };
+
+    dispatch(0, args);
+  };
+}
+
+/**
+ * Split Pino log method arguments into merge object and message
+ *
+ * @param args - Arguments passed to a log method
+ * @returns Merge object (if any), message (if any) and the index of the message
+ */
+export function splitLogArgs(args: ReadonlyArray<unknown>): {
+  obj: Record<string, unknown> | undefined;
+  msg: string | undefined;
+  msgIndex: number;
+} {
+  const [first, second] = args;
+
+  if (typeof first === 'string') {
+    return { obj: undefined, msg: first, msgIndex: 0 };
+  }
+
+  const obj =
+    first != null && typeof first === 'object' && !(first instanceof Error)
+      ? (first as Record<string, unknown>)
+      : undefined;
+
+  return {
+    obj,
+    msg: typeof second === 'string' ? second : undefined,
+    msgIndex: 1,
+  };
+}
+
+// Bindings of each logger instance, read once
+const loggerBindings = new WeakMap<object, Readonly<Record<string, unknown>>>();
+
+/**
+ * Get the bindings a logger was created with (cached per instance)
+ * @param logger - Logger the call was made on
+ * @returns Child bindings, including those of its parents
+ */
+export function getLoggerBindings(
+  logger: pino.Logger,
+): Readonly<Record<string, unknown>> {
+  let bindings = loggerBindings.get(logger);
+  if (bindings == null) {
+    bindings = logger.bindings();
+    loggerBindings.set(logger, bindings);
+  }
+  return bindings;
+}
+
+/**
+ * Get the component namespace a logger was created with
+ * @param logger - Logger the call was made on
+ * @returns Namespace binding, if any
+ */
+export function getLoggerNamespace(logger: pino.Logger): string | undefined {
+  const { namespace } = getLoggerBindings(logger);
+  return typeof namespace === 'string' ? namespace : undefined;
+}
+
+/**
+ * Add fields to the merge object of a log call
+ *
+ * Message-only calls get a merge object, and an Error passed as the first
+ * argument is kept under `err`.
+ *
+ * @param args - Arguments passed to a log method
+ * @param fields - Fields to add (they override existing ones)
+ * @returns Rewritten arguments
+ */
+export function withLogFields(
+  args: ReadonlyArray<unknown>,
+  fields: Record<string, unknown>,
+): Array<unknown> {
+  const [first, ...rest] = args;
+
+  if (first instanceof Error) {
+    return [{ err: first, ...fields }, ...rest];
+  }
+  if (first != null && typeof first === 'object') {
+    return [{ ...first, ...fields }, ...rest];
+  }
+  return [fields, ...args];
+}
@@ -182,7 +182,8 @@ export function getGlobalMetricsCollector(): LogMetricsCollector {
  * Wraps a logger to automatically track metrics
  *
  * Creates a proxy around the logger that intercepts log calls
- * and increments appropriate counters.
+ * and increments appropriate counters. Custom levels are counted
+ * under their own names.
  *
  * @param logger - Logger instance to wrap
  * @param serviceName - Service name for metrics
@@ -200,18 +201,21 @@ export function getGlobalMetricsCollector(): LogMetricsCollector {
  * logger.error({ err }, 'Payment failed'); // Increments error counter
  * ```
  */
-export function withMetrics(logger: Logger, serviceName?: string): Logger {
+export function withMetrics<TLogger extends Logger>(
+  logger: TLogger,
+  serviceName?: string,
+): TLogger {
   const collector = globalMetricsCollector;
 
   return new Proxy(logger, {
     get(target, prop, receiver): unknown {
       const original: unknown = Reflect.get(target, prop, receiver);
 
-      // Intercept log level methods
+      // Intercept log level methods, including custom levels
       if (
         typeof original === 'function' &&
         typeof prop === 'string' &&
-        ['trace', 'debug', 'info', 'warn', 'error', 'fatal'].includes(prop)
+        Object.hasOwn(target.levels.values, prop)
       ) {
         return new Proxy(original as (...args: Array<unknown>) => unknown, {
           apply(
@@ -3,6 +3,7 @@
  *
  * Provides utilities for filtering logs by namespace patterns.
  * Enables selective log output based on component/layer hierarchy.
+ * `LOG_NAMESPACES` is read by `loggerOptionsFromEnv()`.
  *
  * @example
  * ```bash
@@ -14,11 +15,34 @@
  *
  * # All logs (default)
  * LOG_NAMESPACES=* bun run dev
+ *
+ * # Per-namespace minimum levels
+ * LOG_NAMESPACES="voice:*=debug,http:*=warn,*=info" bun run dev
+ *
+ * # Everything except health checks and pool chatter
+ * LOG_NAMESPACES="*,-http:healthcheck,-db:pool" bun run dev
  * ```
  */
 
 import type { ServiceMetadata } from '../types';
 
+/**
+ * A single compiled namespace pattern
+ */
+export interface NamespaceRule {
+  /** Pattern as written, without the level suffix */
+  readonly pattern: string;
+
+  /** Compiled RegExp for matching */
+  readonly matcher: RegExp;
+
+  /** Minimum level for matching namespaces (undefined = logger level) */
+  readonly level: string | undefined;
+
+  /** Higher values win when several rules match the same namespace */
+  readonly specificity: number;
+}
+
 /**
  * Configuration for namespace filtering
  */
@@ -33,11 +57,78 @@ export interface NamespaceConfig {
    * Compiled RegExp patterns for matching
    */
   readonly matchers: ReadonlyArray<RegExp>;
+
+  /**
+   * Compiled patterns with their optional levels
+   */
+  readonly rules: ReadonlyArray<NamespaceRule>;
+
+  /**
+   * Compiled `-`-prefixed exclusion patterns (always win over matchers)
+   */
+  readonly exclusions: ReadonlyArray<RegExp>;
 }
 
 /** Cache for compiled namespace configs */
 const configCache = new Map<string, NamespaceConfig>();
 
+/**
+ * Compile a glob pattern into an anchored RegExp
+ * @param pattern - Glob pattern (`*` matches any characters)
+ * @returns Compiled RegExp
+ */
+function compileGlob(pattern: string): RegExp {
+  // Escape regex special characters except *
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  // Convert glob * to regex .*
+  const regexPattern = escaped.replace(/\*/g, '.*');
+  return new RegExp(`^${regexPattern}$`);
+}
+
+/**
+ * Compile a single `pattern[=level]` entry
+ * @param entry - Trimmed, non-empty pattern entry
+ * @returns Compiled rule
+ */
+function compileRule(entry: string): NamespaceRule {
+  const separator = entry.lastIndexOf('=');
+  const pattern =
+    separator === -1 ? entry : entry.slice(0, separator).trim() || '*';
+  const level =
+    separator === -1
+      ? undefined
+      : entry
+          .slice(separator + 1)
+          .trim()
+          .toLowerCase() || undefined;
+
+  // Exact patterns beat any glob; among globs, more literal characters win
+  const literalLength = pattern.replace(/\*/g, '').length;
+  const specificity = pattern.includes('*')
+    ? literalLength
+    : Number.MAX_SAFE_INTEGER;
+
+  return {
+    pattern,
+    matcher: compileGlob(pattern),
+    level,
+    specificity,
+  };
+}
+
+/**
+ * Compile a `-`-prefixed exclusion entry
+ *
+ * A level suffix is meaningless on an exclusion and is ignored.
+ *
+ * @param entry - Entry including the leading `-`
+ * @returns Compiled RegExp, or undefined for a bare `-`
+ */
+function compileExclusion(entry: string): RegExp | undefined {
+  const pattern = entry.slice(1).split('=')[0]?.trim() ?? '';
+  return pattern.length > 0 ? compileGlob(pattern) : undefined;
+}
+
 /**
  * Parse a namespace pattern string into RegExp matchers.
  *
@@ -46,6 +137,14 @@ const configCache = new Map<string, NamespaceConfig>();
  * - `voice:*` matches voice:orchestrator, voice:service, etc.
  * - `voice:orchestrator` matches exactly that namespace
  *
+ * Each pattern may carry a minimum level (`voice:*=debug`); see
+ * {@link resolveNamespaceLevel}.
+ *
+ * Patterns prefixed with `-` exclude matching namespaces. As in the `debug`
+ * package, exclusions win over inclusions regardless of order, and a list
+ * with only exclusions enables nothing (use `*,-db:*` for everything but
+ * `db:*`).
+ *
  * @param patterns - Comma-separated namespace patterns
  * @returns Compiled namespace configuration
  *
@@ -53,6 +152,9 @@ const configCache = new Map<string, NamespaceConfig>();
  * ```typescript
  * const config = parseNamespacePatterns('voice:*,http:request');
  * // config.matchers = [/^voice:.*$/, /^http:request$/]
+ *
+ * parseNamespacePatterns('voice:*=debug,http:*=warn,*=info');
+ * parseNamespacePatterns('*,-http:healthcheck,-db:pool');
  * ```
  */
 export function parseNamespacePatterns(patterns: string): NamespaceConfig {
@@ -69,27 +171,32 @@ export function parseNamespacePatterns(patterns: string): NamespaceConfig {
     const config: NamespaceConfig = {
       patterns: trimmed,
       matchers: [],
+      rules: [],
+      exclusions: [],
     };
     configCache.set(patterns, config);
     return config;
   }
 
   // Parse and compile patterns
-  const matchers = trimmed
+  const entries = trimmed
     .split(',')
     .map((pattern) => pattern.trim())
-    .filter((pattern) => pattern.length > 0)
-    .map((pattern) => {
-      // Escape regex special characters except *
-      const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
-      // Convert glob * to regex .*
-      const regexPattern = escaped.replace(/\*/g, '.*');
-      return new RegExp(`^${regexPattern}$`);
-    });
+    .filter((pattern) => pattern.length > 0);
+
+  const rules = entries
+    .filter((entry) => !entry.startsWith('-'))
+    .map(compileRule);
+  const exclusions = entries
+    .filter((entry) => entry.startsWith('-'))
+    .map(compileExclusion)
+    .filter((matcher): matcher is RegExp => matcher != null);
 
   const config: NamespaceConfig = {
     patterns: trimmed,
-    matchers,
+    matchers: rules.map((rule) => rule.matcher),
+    rules,
+    exclusions,
   };
 
   configCache.set(patterns, config);
@@ -149,9 +256,12 @@ export function buildNamespace(metadata: ServiceMetadata): string {
 /**
  * Check if a namespace is enabled based on configured patterns.
  *
- * Returns true if:
- * - No patterns are configured (empty matchers array = all enabled)
- * - The namespace matches any of the configured patterns
+ * Returns false if the namespace matches any exclusion pattern. Otherwise
+ * returns true if:
+ * - No patterns are configured at all (`*` or empty = all enabled)
+ * - The namespace matches any of the configured inclusion patterns
+ *
+ * As in the `debug` package, exclusions alone enable nothing.
  *
  * @param namespace - The namespace to check (e.g., "voice:orchestrator")
  * @param config - The parsed namespace configuration
@@ -164,21 +274,85 @@ export function buildNamespace(metadata: ServiceMetadata): string {
  * isNamespaceEnabled('voice:orchestrator', config); // true
  * isNamespaceEnabled('voice:service', config);      // true
  * isNamespaceEnabled('http:request', config);       // false
+ *
+ * const everythingBut = parseNamespacePatterns('*,-http:healthcheck');
+ * isNamespaceEnabled('http:healthcheck', everythingBut); // false
  * ```
  */
 export function isNamespaceEnabled(
   namespace: string,
   config: NamespaceConfig,
 ): boolean {
-  // No matchers means all namespaces are enabled (wildcard or empty)
+  // Exclusions win over any inclusion
+  if (config.exclusions.some((matcher) => matcher.test(namespace))) {
+    return false;
+  }
+
+  // No patterns means all namespaces are enabled (wildcard or empty);
+  // exclusions without inclusions enable nothing
   if (config.matchers.length === 0) {
-    return true;
+    return config.exclusions.length === 0;
   }
 
   // Check if namespace matches any pattern
   return config.matchers.some((matcher) => matcher.test(namespace));
 }
 
+/**
+ * Resolve the minimum level configured for a namespace.
+ *
+ * The most specific matching pattern wins: an exact namespace beats any
+ * glob, and among globs the one with more literal characters wins (ties go
+ * to the pattern listed first). Returns undefined when no pattern matches
+ * or the winning pattern has no level, meaning the logger level applies.
+ *
+ * @param namespace - The namespace to resolve (e.g., "voice:orchestrator")
+ * @param config - The parsed namespace configuration
+ * @returns The configured level, or undefined
+ *
+ * @example
+ * ```typescript
+ * const config = parseNamespacePatterns('voice:*=debug,http:*=warn,*=info');
+ *
+ * resolveNamespaceLevel('voice:orchestrator', config); // 'debug'
+ * resolveNamespaceLevel('db:query', config);           // 'info'
+ * ```
+ */
+export function resolveNamespaceLevel(
+  namespace: string,
+  config: NamespaceConfig,
+): string | undefined {
+  return matchNamespaceRule(namespace, config.rules)?.level;
+}
+
+/**
+ * Find the most specific rule matching a namespace
+ *
+ * An exact pattern beats any glob, a glob with more literal characters
+ * beats a broader one, and ties go to the rule listed first.
+ *
+ * @param namespace - The namespace to match
+ * @param rules - Rules to match against
+ * @returns The winning rule, or undefined when none matches
+ */
+export function matchNamespaceRule(
+  namespace: string,
+  rules: ReadonlyArray<NamespaceRule>,
+): NamespaceRule | undefined {
+  let best: NamespaceRule | undefined;
+
+  for (const rule of rules) {
+    if (
+      (best == null || rule.specificity > best.specificity) &&
+      rule.matcher.test(namespace)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best;
+}
+
 /**
  * Clear the namespace config cache.
  * Useful for testing or when configuration changes.
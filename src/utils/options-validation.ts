@@ -0,0 +1,850 @@
+/**
+ * @fileoverview Up-front validation of logger options
+ *
+ * Checks a `LoggerOptions` object before any logger is built and reports
+ * every problem at once (custom levels, level names, rotation settings,
+ * routed log files, transport shapes, redact path syntax, log directory, validation, rate
+ * limit, dedup, sampling, timer, integrity, encryption and telemetry
+ * options), so misconfiguration fails fast instead of silently falling
+ * back.
+ */
+
+import type {
+  FileRotationOptions,
+  LogFileOptions,
+  LoggerOptions,
+} from '../types';
+import type { ConfigurationIssue } from './error-handler';
+
+import {
+  BYTES_PER_KIBIBYTE,
+  FORMAT_STYLES,
+  INTEGRITY_ALGORITHMS,
+  ROTATION_FREQUENCIES,
+} from '../constants';
+import { SEVERITY_LEVELS } from '../types';
+import { checkLogDirectory } from './directory';
+import { resolveEncryptionKey } from './encryption';
+import { ConfigurationError } from './error-handler';
+import { checkFilenameTemplate } from './file-routes';
+import { parseNamespacePatterns } from './namespace_filter';
+import { resolveCorrelationMode } from './telemetry';
+
+/**
+ * Result of validating logger options
+ */
+export interface OptionsValidationResult {
+  /** True when no issues were found */
+  readonly valid: boolean;
+  /** Every problem found, in option order */
+  readonly issues: ReadonlyArray<ConfigurationIssue>;
+}
+
+// Rotation size as accepted by pino-roll: a number with an optional unit
+const ROTATION_SIZE_PATTERN = /^\d+(?:\.\d+)?[bkmg]?$/i;
+const MEBIBYTE_EXPONENT = 2;
+const ROTATION_SIZE_EXPONENTS: Readonly<Record<string, number | undefined>> = {
+  b: 0,
+  k: 1,
+  m: MEBIBYTE_EXPONENT,
+  g: 3,
+};
+
+// Retention age: a whole number of hours, days or weeks
+const RETENTION_AGE_PATTERN = /^(\d+)([hdw])$/i;
+const MILLISECONDS_PER_HOUR = 3_600_000;
+const HOURS_PER_DAY = 24;
+const HOURS_PER_WEEK = 168;
+const RETENTION_AGE_HOURS: Readonly<Record<string, number | undefined>> = {
+  h: 1,
+  d: HOURS_PER_DAY,
+  w: HOURS_PER_WEEK,
+};
+
+// fast-redact path: identifiers or `*` joined by dots, plus bracket access
+const REDACT_SEGMENT = String.raw`(?:[A-Za-z_$][\w$]*|\*)`;
+const REDACT_BRACKET = String.raw`\[(?:\d+|\*|"[^"]*"|'[^']*')\]`;
+const REDACT_PATH_PATTERN = new RegExp(
+  `^(?:${REDACT_SEGMENT}|${REDACT_BRACKET})(?:\\.${REDACT_SEGMENT}|${REDACT_BRACKET})*$`,
+);
+
+// Custom level names become logger methods and pretty labels (lowercased
+// by pino-pretty), so they must be lowercase identifiers
+const CUSTOM_LEVEL_NAME = /^[a-z][a-z0-9_]*$/;
+const RESERVED_LEVEL_NAMES = new Set([
+  ...Object.keys(SEVERITY_LEVELS),
+  'silent',
+  'bindings',
+  'child',
+  'flush',
+  'level',
+  'levels',
+  'on',
+  'time',
+  'version',
+]);
+
+const VALIDATION_POLICIES: ReadonlyArray<string> = [
+  'truncate',
+  'drop',
+  'throw',
+];
+const SAMPLING_MODES: ReadonlyArray<string> = [
+  'random',
+  'trace',
+  'trace-flags',
+];
+// A single namespace glob: no list separators, levels, or exclusions
+const NAMESPACE_PATTERN = /^[^,=\s-][^,=\s]*$/;
+const RATE_LIMIT_KEYS: ReadonlyArray<string> = ['level', 'namespace'];
+const VALIDATION_LIMIT_KEYS = [
+  'maxMessageLength',
+  'maxRecordSize',
+  'maxDepth',
+  'maxKeys',
+] as const;
+
+/**
+ * Check whether a value is a rotation size pino-roll understands
+ * @param value - Size such as '10m', '500k', '1.5g'
+ * @returns True if the size is valid
+ */
+export function isValidRotationSize(value: string): boolean {
+  return ROTATION_SIZE_PATTERN.test(value);
+}
+
+/**
+ * Convert a rotation size to bytes, as pino-roll does (no unit means MiB)
+ * @param value - Size such as '10m', '500k', '1.5g'
+ * @returns Size in bytes
+ * @throws {ConfigurationError} If the size is invalid
+ */
+export function parseRotationSize(value: string): number {
+  if (!isValidRotationSize(value)) {
+    throw new ConfigurationError(
+      `"${value}" is not a size such as 10m, 500k, or 1g`,
+    );
+  }
+  const exponent =
+    ROTATION_SIZE_EXPONENTS[value.slice(-1).toLowerCase()] ?? MEBIBYTE_EXPONENT;
+  return parseFloat(value) * BYTES_PER_KIBIBYTE ** exponent;
+}
+
+/**
+ * Convert a retention age to milliseconds
+ * @param value - Age such as '12h', '30d', '8w'
+ * @returns Age in milliseconds
+ * @throws {ConfigurationError} If the age is invalid
+ */
+export function parseRetentionAge(value: string): number {
+  const match = RETENTION_AGE_PATTERN.exec(value);
+  const hours = RETENTION_AGE_HOURS[match?.[2]?.toLowerCase() ?? ''];
+  if (match == null || hours == null) {
+    throw new ConfigurationError(
+      `"${value}" is not an age such as 12h, 30d, or 8w`,
+    );
+  }
+  return Number(match[1]) * hours * MILLISECONDS_PER_HOUR;
+}
+
+/**
+ * Check whether a redact path is valid fast-redact syntax
+ * @param path - Path such as 'user.password' or 'headers["x-api-key"]'
+ * @returns True if the path is valid
+ */
+export function isValidRedactPath(path: string): boolean {
+  return REDACT_PATH_PATTERN.test(path);
+}
+
+/**
+ * Check whether a value is a positive integer
+ * @param value - Value to check
+ * @returns True for positive safe integers
+ */
+function isPositiveInteger(value: unknown): boolean {
+  return Number.isSafeInteger(value) && (value as number) > 0;
+}
+
+/**
+ * Check whether a value is a positive number (Infinity included)
+ * @param value - Value to check
+ * @returns True for numbers greater than zero
+ */
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && value > 0;
+}
+
+/**
+ * Collect the level names the logger will accept
+ * @param options - Logger options (for Pino custom levels)
+ * @returns Known level names
+ */
+function knownLevels(options: Partial<LoggerOptions>): Set<string> {
+  const customLevels = [
+    ...Object.keys(options.pinoOptions?.customLevels ?? {}),
+    ...Object.keys(options.customLevels ?? {}),
+  ];
+  const builtIn =
+    options.pinoOptions?.useOnlyCustomLevels === true
+      ? []
+      : Object.keys(SEVERITY_LEVELS);
+  return new Set([...builtIn, ...customLevels, 'silent']);
+}
+
+/**
+ * Collects issues found while validating options
+ */
+class IssueCollector {
+  public readonly issues: Array<ConfigurationIssue> = [];
+
+  /**
+   * Record an issue
+   * @param path - Option path
+   * @param message - What is wrong
+   */
+  public add(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+
+  /**
+   * Record an issue unless a value is one of the allowed choices
+   * @param path - Option path
+   * @param value - Value to check (skipped when undefined)
+   * @param choices - Allowed values
+   */
+  public expectChoice(
+    path: string,
+    value: unknown,
+    choices: Iterable<string>,
+  ): void {
+    const allowed = [...choices];
+    if (value !== undefined && !allowed.includes(value as string)) {
+      this.add(
+        path,
+        `${JSON.stringify(value)} is not one of ${allowed.join(', ')}`,
+      );
+    }
+  }
+}
+
+/**
+ * Validate custom level names and values
+ * @param options - Logger options
+ * @param collector - Issue collector
+ */
+function checkCustomLevels(
+  options: Partial<LoggerOptions>,
+  collector: IssueCollector,
+): void {
+  const values = new Map<number, string>(
+    Object.entries(SEVERITY_LEVELS).map(([name, value]) => [value, name]),
+  );
+
+  for (const [name, value] of Object.entries(options.customLevels ?? {})) {
+    const path = `customLevels.${name}`;
+    if (!CUSTOM_LEVEL_NAME.test(name) || RESERVED_LEVEL_NAMES.has(name)) {
+      collector.add(
+        path,
+        'must be a lowercase identifier that is not a built-in level or logger method',
+      );
+    } else if (!Number.isInteger(value) || value <= 0) {
+      collector.add(path, `${value} is not a positive integer`);
+    } else if (values.has(value)) {
+      collector.add(path, `${value} is already used by "${values.get(value)}"`);
+    } else {
+      values.set(value, name);
+    }
+  }
+}
+
+/**
+ * Validate level and per-namespace levels
+ * @param options - Logger options
+ * @param collector - Issue collector
+ */
+function checkLevels(
+  options: Partial<LoggerOptions>,
+  collector: IssueCollector,
+): void {
+  const levels = knownLevels(options);
+  collector.expectChoice('level', options.level, levels);
+
+  if (options.namespaces == null) {
+    return;
+  }
+  for (const rule of parseNamespacePatterns(options.namespaces).rules) {
+    if (rule.level != null && !levels.has(rule.level)) {
+      collector.add(
+        'namespaces',
+        `Unknown level "${rule.level}" for pattern "${rule.pattern}"`,
+      );
+    }
+  }
+}
+
+/**
+ * Validate log directory and rotation options
+ * @param options - Logger options
+ * @param collector - Issue collector
+ */
+function checkFileOptions(
+  options: Partial<LoggerOptions>,
+  collector: IssueCollector,
+): void {
+  if (options.logDir != null && options.logDir.length > 0) {
+    const problem = checkLogDirectory(options.logDir);
+    if (problem != null) {
+      collector.add('logDir', problem);
+    }
+  }
+
+  if (options.fileRotationOptions != null) {
+    checkRotation(
+      'fileRotationOptions',
+      options.fileRotationOptions,
+      collector,
+    );
+  }
+}
+
+/**
+ * Validate rotation options
+ * @param path - Option path of the rotation options
+ * @param rotation - File rotation options
+ * @param collector - Issue collector
+ */
+function checkRotation(
+  path: string,
+  rotation: FileRotationOptions,
+  collector: IssueCollector,
+): void {
+  if (rotation.maxSize != null && !isValidRotationSize(rotation.maxSize)) {
+    collector.add(
+      `${path}.maxSize`,
+      `"${rotation.maxSize}" is not a size such as 10m, 500k, or 1g`,
+    );
+  }
+  if (rotation.maxFiles != null && !isPositiveInteger(rotation.maxFiles)) {
+    collector.add(
+      `${path}.maxFiles`,
+      `${String(rotation.maxFiles)} is not a positive integer`,
+    );
+  }
+  collector.expectChoice(
+    `${path}.frequency`,
+    rotation.frequency,
+    ROTATION_FREQUENCIES,
+  );
+  checkRetention(path, rotation, collector);
+}
+
+/**
+ * Validate compression and retention of rotated files
+ * @param path - Option path of the rotation options
+ * @param rotation - File rotation options
+ * @param collector - Issue collector
+ */
+function checkRetention(
+  path: string,
+  rotation: FileRotationOptions,
+  collector: IssueCollector,
+): void {
+  if (rotation.compress != null && typeof rotation.compress !== 'boolean') {
+    collector.add(`${path}.compress`, 'Must be a boolean');
+  }
+  if (rotation.maxAge != null) {
+    try {
+      parseRetentionAge(rotation.maxAge);
+    } catch (error) {
+      collector.add(
+        `${path}.maxAge`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+  for (const field of ['maxTotalSize', 'minFreeSpace'] as const) {
+    const size = rotation[field];
+    if (size != null && !isValidRotationSize(size)) {
+      collector.add(
+        `${path}.${field}`,
+        `"${size}" is not a size such as 10m, 500k, or 1g`,
+      );
+    }
+  }
+}
+
+/**
+ * Validate the level range of a routed log file
+ * @param path - Option path of the file
+ * @param route - Routed log file options
+ * @param levels - Level values by name
+ * @param collector - Issue collector
+ */
+function checkLevelRange(
+  path: string,
+  route: LogFileOptions,
+  levels: Readonly<Record<string, number>>,
+  collector: IssueCollector,
+): void {
+  collector.expectChoice(`${path}.level`, route.level, Object.keys(levels));
+  collector.expectChoice(
+    `${path}.maxLevel`,
+    route.maxLevel,
+    Object.keys(levels),
+  );
+  const min = levels[route.level ?? ''];
+  const max = levels[route.maxLevel ?? ''];
+  if (min != null && max != null && max < min) {
+    collector.add(
+      `${path}.maxLevel`,
+      `"${route.maxLevel}" is below level "${route.level}"`,
+    );
+  }
+}
+
+/**
+ * Validate one routed log file
+ * @param path - Option path of the file
+ * @param route - Routed log file options
+ * @param levels - Level values by name
+ * @param collector - Issue collector
+ */
+function checkFileRoute(
+  path: string,
+  route: LogFileOptions,
+  levels: Readonly<Record<string, number>>,
+  collector: IssueCollector,
+): void {
+  const problem = checkFilenameTemplate(route.filename);
+  if (problem != null) {
+    collector.add(`${path}.filename`, problem);
+  }
+  checkLevelRange(path, route, levels, collector);
+  if (
+    route.namespaces != null &&
+    (typeof route.namespaces !== 'string' ||
+      route.namespaces.trim().length === 0)
+  ) {
+    collector.add(
+      `${path}.namespaces`,
+      'Namespaces must be a non-empty string',
+    );
+  }
+  if (route.rotation != null) {
+    checkRotation(`${path}.rotation`, route.rotation, collector);
+  }
+}
+
+/**
+ * Validate routed log files
+ * @param options - Logger options
+ * @param collector - Issue collector
+ */
+function checkFileRoutes(
+  options: Partial<LoggerOptions>,
+  collector: IssueCollector,
+): void {
+  if (options.files == null || options.files.length === 0) {
+    return;
+  }
+  if (options.logDir == null || options.logDir.length === 0) {
+    collector.add('files', 'Routed log files require logDir');
+  }
+
+  const levelNames = knownLevels(options);
+  const levels = Object.fromEntries(
+    Object.entries({
+      ...SEVERITY_LEVELS,
+      ...options.pinoOptions?.customLevels,
+      ...options.customLevels,
+    }).filter(([name]) => levelNames.has(name)),
+  );
+  const filenames = new Set<string>();
+  options.files.forEach((route, index) => {
+    const path = `files[${index}]`;
+    checkFileRoute(path, route, levels, collector);
+    if (filenames.has(route.filename)) {
+      collector.add(
+        `${path}.filename`,
+        `"${route.filename}" is already used by another file`,
+      );
+    }
+    filenames.add(route.filename);
+  });
+}
+
+/**
+ * Validate additional transport targets
+ * @param options - Logger options
+ * @param collector - Issue collector
+ */
+function checkTransports(
+  options: Partial<LoggerOptions>,
+  collector: IssueCollector,
+): void {
+  const levels = knownLevels(options);
+
+  options.transports?.forEach((transport: unknown, index) => {
+    const path = `transports[${index}]`;
+    if (transport == null || typeof transport !== 'object') {
+      collector.add(path, 'Transport must be an object with a target');
+      return;
+    }
+
+    const {
+      target,
+      level,
+      options: targetOptions,
+    } = transport as Record<string, unknown>;
+    if (typeof target !== 'string' || target.trim().length === 0) {
+      collector.add(`${path}.target`, 'Target must be a non-empty string');
+    }
+    collector.expectChoice(`${path}.level`, level, levels);
+    if (
+      targetOptions != null &&
+      (typeof targetOptions !== 'object' || Array.isArray(targetOptions))
+    ) {
+      collector.add(`${path}.options`, 'Options must be an object');
+    }
+  });
+}
+
+/**
+ * Validate redact paths
+ * @param options - Logger options
+ * @param collector - Issue collector
+ */
+function checkRedactPaths(
+  options: Partial<LoggerOptions>,
+  collector: IssueCollector,
+): void {
+  options.redactPaths?.forEach((path, index) => {
+    if (typeof path !== 'string' || !isValidRedactPath(path)) {
+      collector.add(
+        `redactPaths[${index}]`,
+        `${JSON.stringify(path)} is not a valid redact path`,
+      );
+    }
+  });
+}
+
+/**
+ * Validate strict validation limits and policy
+ * @param options - Logger options
+ * @param collector - Issue collector
+ */
+function checkValidationOptions(
+  options: Partial<LoggerOptions>,
+  collector: IssueCollector,
+): void {
+  const validation = options.validation;
+  if (validation == null) {
+    return;
+  }
+  for (const key of VALIDATION_LIMIT_KEYS) {
+    const value = validation[key];
+    if (value != null && !isPositiveInteger(value)) {
+      collector.add(
+        `validation.${key}`,
+        `${String(value)} is not a positive integer`,
+      );
+    }
+  }
+  collector.expectChoice(
+    'validation.onViolation',
+    validation.onViolation,
+    VALIDATION_POLICIES,
+  );
+}
+
+/**
+ * Validate rate limit options
+ * @param options - Logger options
+ * @param collector - Issue collector
+ */
+function checkRateLimit(
+  options: Partial<LoggerOptions>,
+  collector: IssueCollector,
+): void {
+  const rateLimit = options.rateLimit;
+  if (rateLimit == null) {
+    return;
+  }
+  if (!isPositiveNumber(rateLimit.limit)) {
+    collector.add(
+      'rateLimit.limit',
+      `${String(rateLimit.limit)} is not a positive number`,
+    );
+  }
+  if (rateLimit.intervalMs != null && !isPositiveNumber(rateLimit.intervalMs)) {
+    collector.add(
+      'rateLimit.intervalMs',
+      `${String(rateLimit.intervalMs)} is not a positive number`,
+    );
+  }
+  if (typeof rateLimit.by !== 'function') {
+    collector.expectChoice('rateLimit.by', rateLimit.by, RATE_LIMIT_KEYS);
+  }
+  for (const [level, limit] of Object.entries(rateLimit.levels ?? {})) {
+    if (!knownLevels(options).has(level)) {
+      collector.add('rateLimit.levels', `Unknown level "${level}"`);
+    } else if (!isPositiveNumber(limit)) {
+      collector.add(
+        `rateLimit.levels.${level}`,
+        `${String(limit)} is not a positive number`,
+      );
+    }
+  }
+}
+
+/**
+ * Validate dedup options
+ * @param options - Logger options
+ * @param collector - Issue collector
+ */
+function checkDedup(
+  options: Partial<LoggerOptions>,
+  collector: IssueCollector,
+): void {
+  const dedup = options.dedup;
+  if (dedup == null) {
+    return;
+  }
+  if (dedup.windowMs != null && !isPositiveNumber(dedup.windowMs)) {
+    collector.add(
+      'dedup.windowMs',
+      `${String(dedup.windowMs)} is not a positive number`,
+    );
+  }
+  const levels = knownLevels(options);
+  dedup.levels?.forEach((level, index) => {
+    collector.expectChoice(`dedup.levels[${index}]`, level, levels);
+  });
+}
+
+/**
+ * Validate a table of sampling rates
+ * @param path - Option path of the table
+ * @param rates - Rates per level
+ * @param levels - Known level names
+ * @param collector - Issue collector
+ */
+function checkSamplingRates(
+  path: string,
+  rates: Readonly<Record<string, unknown>>,
+  levels: Set<string>,
+  collector: IssueCollector,
+): void {
+  for (const [level, rate] of Object.entries(rates)) {
+    if (!levels.has(level)) {
+      collector.add(path, `Unknown level "${level}"`);
+    } else if (typeof rate !== 'number' || !(rate >= 0 && rate <= 1)) {
+      collector.add(
+        `${path}.${level}`,
+        `${String(rate)} is not a rate between 0 and 1`,
+      );
+    }
+  }
+}
+
+/**
+ * Validate sampling options
+ * @param options - Logger options
+ * @param collector - Issue collector
+ */
+function checkSampling(
+  options: Partial<LoggerOptions>,
+  collector: IssueCollector,
+): void {
+  const sampling = options.sampling;
+  if (sampling == null) {
+    return;
+  }
+  const levels = knownLevels(options);
+  collector.expectChoice('sampling.mode', sampling.mode, SAMPLING_MODES);
+  checkSamplingRates('sampling.rates', sampling.rates ?? {}, levels, collector);
+
+  for (const [pattern, rates] of Object.entries(sampling.namespaces ?? {})) {
+    const path = `sampling.namespaces["${pattern}"]`;
+    if (!NAMESPACE_PATTERN.test(pattern)) {
+      collector.add(path, 'Pattern must be a single namespace glob');
+    }
+    checkSamplingRates(path, rates, levels, collector);
+  }
+}
+
+/**
+ * Validate duration timer defaults
+ * @param options - Logger options
+ * @param collector - Issue collector
+ */
+function checkTimers(
+  options: Partial<LoggerOptions>,
+  collector: IssueCollector,
+): void {
+  const timers = options.timers;
+  if (timers == null) {
+    return;
+  }
+  const levels = knownLevels(options);
+  collector.expectChoice('timers.level', timers.level, levels);
+  collector.expectChoice('timers.slowLevel', timers.slowLevel, levels);
+  if (timers.slowMs != null && !isPositiveNumber(timers.slowMs)) {
+    collector.add(
+      'timers.slowMs',
+      `${String(timers.slowMs)} is not a positive number`,
+    );
+  }
+}
+
+/**
+ * Validate record signing options
+ * @param options - Logger options
+ * @param collector - Issue collector
+ */
+function checkIntegrity(
+  options: Partial<LoggerOptions>,
+  collector: IssueCollector,
+): void {
+  const integrity = options.integrity;
+  if (integrity == null) {
+    return;
+  }
+  if (typeof integrity.keyId !== 'string' || integrity.keyId.length === 0) {
+    collector.add('integrity.keyId', 'Key id must be a non-empty string');
+  }
+  if (
+    (typeof integrity.key !== 'string' &&
+      !(integrity.key instanceof Uint8Array)) ||
+    integrity.key.length === 0
+  ) {
+    collector.add('integrity.key', 'Key must be a non-empty string or bytes');
+  }
+  collector.expectChoice(
+    'integrity.algorithm',
+    integrity.algorithm,
+    INTEGRITY_ALGORITHMS,
+  );
+}
+
+/**
+ * Validate encryption at rest options
+ * @param options - Logger options
+ * @param collector - Issue collector
+ */
+function checkEncryption(
+  options: Partial<LoggerOptions>,
+  collector: IssueCollector,
+): void {
+  if (options.encryption == null) {
+    return;
+  }
+  if (options.logDir == null || options.logDir.length === 0) {
+    collector.add('encryption', 'Encryption requires logDir');
+  }
+  try {
+    resolveEncryptionKey(options.encryption);
+  } catch (error) {
+    collector.add(
+      'encryption.key',
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+/**
+ * Validate telemetry options
+ * @param options - Logger options
+ * @param collector - Issue collector
+ */
+function checkTelemetry(
+  options: Partial<LoggerOptions>,
+  collector: IssueCollector,
+): void {
+  if (options.telemetry?.enabled !== true) {
+    return;
+  }
+  try {
+    resolveCorrelationMode(options.telemetry);
+  } catch (error) {
+    collector.add(
+      'telemetry.contextOptions',
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+/**
+ * Validate logger options and report every problem at once
+ *
+ * Checks custom levels, level names (including per-namespace levels), log directory
+ * writability (without creating it), rotation size and frequency, routed
+ * log files (filename templates, level ranges, namespaces), transport
+ * shapes, redact path syntax, validation limits, rate limit, dedup,
+ * sampling, and timer options, and telemetry options.
+ *
+ * @param options - Logger options to validate
+ * @returns Validation result with all issues found
+ *
+ * @example
+ * ```typescript
+ * const { valid, issues } = validateLoggerOptions({
+ *   level: 'verbose',
+ *   fileRotationOptions: { maxSize: '10 MB' },
+ * });
+ * // valid = false
+ * // issues = [
+ * //   { path: 'level', message: '"verbose" is not one of ...' },
+ * //   { path: 'fileRotationOptions.maxSize', message: '"10 MB" is not a size ...' },
+ * // ]
+ * ```
+ */
+export function validateLoggerOptions(
+  options: Partial<LoggerOptions> | undefined,
+): OptionsValidationResult {
+  const collector = new IssueCollector();
+
+  if (options != null) {
+    checkCustomLevels(options, collector);
+    checkLevels(options, collector);
+    collector.expectChoice('formatStyle', options.formatStyle, FORMAT_STYLES);
+    checkFileOptions(options, collector);
+    checkFileRoutes(options, collector);
+    checkTransports(options, collector);
+    checkRedactPaths(options, collector);
+    checkValidationOptions(options, collector);
+    checkRateLimit(options, collector);
+    checkDedup(options, collector);
+    checkSampling(options, collector);
+    checkTimers(options, collector);
+    checkIntegrity(options, collector);
+    checkEncryption(options, collector);
+    checkTelemetry(options, collector);
+  }
+
+  return { valid: collector.issues.length === 0, issues: collector.issues };
+}
+
+/**
+ * Validate logger options and throw if any are invalid
+ *
+ * @param options - Logger options to validate
+ * @throws {ConfigurationError} Listing every issue (also available as `error.issues`)
+ */
+export function assertValidLoggerOptions(
+  options: Partial<LoggerOptions> | undefined,
+): void {
+  const { valid, issues } = validateLoggerOptions(options);
+  if (valid) {
+    return;
+  }
+
+  const details = issues
+    .map((issue) => `  - ${issue.path}: ${issue.message}`)
+    .join('\n');
+  throw new ConfigurationError(
+    `Invalid logger options (${issues.length} issue${issues.length === 1 ? '' : 's'}):\n${details}`,
+    undefined,
+    issues,
+  );
+}
@@ -5,13 +5,16 @@
  * unhandled promise rejections, with dedicated logging to separate files.
  */
 
-import type { Logger } from '../types';
+import type { EncryptionOptions, Logger } from '../types';
 
 import { join } from 'node:path';
 
 import pino from 'pino';
 
+import { createEncryptedFileTransport } from '../transports/encrypted-file';
 import { setupLogDirectory } from './directory';
+import { ENCRYPTED_FILE_EXTENSION } from './encryption';
+import { registerTransportStream } from './shutdown';
 
 /**
  * Handler function references for cleanup
@@ -31,10 +34,32 @@ const handlerRefs: HandlerRefs = {
  *
  * @param logPath - Path to the log file
  * @param level - Log level to use
+ * @param encryption - Encrypt the file at rest (written as `<logPath>.enc`)
  * @returns Configured logger instance
  */
-function createExceptionLogger(logPath: string, level: string): pino.Logger {
-  return pino({
+function createExceptionLogger(
+  logPath: string,
+  level: string,
+  encryption?: EncryptionOptions,
+): pino.Logger {
+  if (encryption != null) {
+    const encryptedPath = `${logPath}${ENCRYPTED_FILE_EXTENSION}`;
+    const encryptedLogger = pino({
+      level,
+      transport: createEncryptedFileTransport({
+        file: encryptedPath,
+        encryption,
+        rotation: { frequency: 'daily', maxSize: '10m', maxFiles: 14 },
+      }),
+    });
+    registerTransportStream(
+      `encrypted-file (${encryptedPath})`,
+      encryptedLogger,
+    );
+    return encryptedLogger;
+  }
+
+  const logger = pino({
     level,
     transport: {
       target: 'pino-roll',
@@ -48,6 +73,11 @@ function createExceptionLogger(logPath: string, level: string): pino.Logger {
       },
     },
   });
+
+  // Flushed and closed by shutdownLogger
+  registerTransportStream(`pino-roll (${logPath})`, logger);
+
+  return logger;
 }
 
 /**
@@ -56,6 +86,8 @@ function createExceptionLogger(logPath: string, level: string): pino.Logger {
  * This function sets up handlers for uncaught exceptions and unhandled
  * promise rejections. These handlers will log errors to separate files
  * (exceptions.log and rejections.log) to aid in debugging production issues.
+ * In the logger's `logDir`, their rotated files are compressed and pruned
+ * with the logger's `fileRotationOptions` retention settings.
  *
  * IMPORTANT: This function does not call process.exit(). The process will
  * crash naturally after logging, which is the correct behavior for
@@ -64,6 +96,8 @@ function createExceptionLogger(logPath: string, level: string): pino.Logger {
  * @param logger - Logger instance for additional context logging
  * @param logDir - Optional directory for exception logs. If not provided,
  *                 errors will be logged to the main logger only.
+ * @param encryption - Optional encryption at rest for the exception logs
+ *                     (same options as `LoggerOptions.encryption`)
  *
  * @example
  * ```typescript
@@ -73,7 +107,11 @@ function createExceptionLogger(logPath: string, level: string): pino.Logger {
  * registerProcessHandlers(logger, './logs');
  * ```
  */
-export function registerProcessHandlers(logger: Logger, logDir?: string): void {
+export function registerProcessHandlers(
+  logger: Logger,
+  logDir?: string,
+  encryption?: EncryptionOptions,
+): void {
   // Clean up any existing handlers first
   unregisterProcessHandlers();
 
@@ -88,8 +126,16 @@ export function registerProcessHandlers(logger: Logger, logDir?: string): void {
       const exceptionsPath = join(logDir, 'exceptions.log');
       const rejectionsPath = join(logDir, 'rejections.log');
 
-      exceptionsLogger = createExceptionLogger(exceptionsPath, 'error');
-      rejectionsLogger = createExceptionLogger(rejectionsPath, 'error');
+      exceptionsLogger = createExceptionLogger(
+        exceptionsPath,
+        'error',
+        encryption,
+      );
+      rejectionsLogger = createExceptionLogger(
+        rejectionsPath,
+        'error',
+        encryption,
+      );
     } catch (error) {
       logger.error(
         { err: error },
@@ -0,0 +1,313 @@
+/**
+ * @fileoverview Token-bucket rate limiting of log records
+ *
+ * Provides the rate limiting stage of the log method pipeline: records are
+ * counted in token buckets per level, per namespace, or per caller-supplied
+ * key. Records over the limit are suppressed and reported in a summary
+ * record ("suppressed 4,210 similar logs in 60s") at most once per
+ * interval of each bucket, however long the flood lasts.
+ */
+
+import type { RateLimitKeyContext, RateLimitOptions } from '../types';
+import type { LogMethodHook } from './log-pipeline';
+
+import { DEFAULT_RATE_LIMIT_OPTIONS } from '../constants';
+import { ConfigurationError } from './error-handler';
+import { getLoggerNamespace, splitLogArgs } from './log-pipeline';
+
+/** Field carrying suppression details on summary records */
+export const RATE_LIMIT_FIELD = 'rate_limit';
+
+/**
+ * Details attached to a suppression summary record
+ */
+export interface SuppressionSummary {
+  /** Bucket key (level, namespace, or custom key) */
+  readonly key: string;
+  /** Number of records suppressed */
+  readonly suppressed: number;
+  /** Time from the first suppressed record until suppression ended */
+  readonly window_ms: number;
+}
+
+/**
+ * Logs a summary record through the stage that suppressed the records
+ */
+type SummaryEmitter = (args: Array<unknown>) => void;
+
+/**
+ * State of a single token bucket
+ */
+interface Bucket {
+  readonly key: string;
+  readonly limit: number;
+  tokens: number;
+  refilledAt: number;
+  suppressed: number;
+  firstSuppressedAt: number;
+  emit: SummaryEmitter | undefined;
+  timer: ReturnType<typeof setTimeout> | undefined;
+}
+
+const MILLISECONDS_PER_SECOND = 1000;
+
+/**
+ * Format a suppression window for summary messages
+ * @param ms - Window length in milliseconds
+ * @returns Duration such as '250ms' or '60s'
+ */
+function formatWindow(ms: number): string {
+  return ms < MILLISECONDS_PER_SECOND
+    ? `${ms}ms`
+    : `${Math.round(ms / MILLISECONDS_PER_SECOND)}s`;
+}
+
+/**
+ * Build the message of a suppression summary record
+ * @param summary - Suppression details
+ * @returns Message such as 'suppressed 4,210 similar logs in 60s'
+ */
+export function formatSuppressionSummary(summary: SuppressionSummary): string {
+  const noun = summary.suppressed === 1 ? 'log' : 'logs';
+  return `suppressed ${summary.suppressed.toLocaleString('en-US')} similar ${noun} in ${formatWindow(summary.window_ms)}`;
+}
+
+/**
+ * Token-bucket rate limiter for log records
+ *
+ * Each bucket starts full with `limit` tokens and refills continuously at
+ * `limit` tokens per `intervalMs`. A record consumes one token; records
+ * arriving at an empty bucket are suppressed and counted. The summary is
+ * logged as soon as suppression ends: either before the next record the
+ * bucket lets through, or when the bucket has refilled a token.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new LogRateLimiter({ limit: 100, by: 'namespace' });
+ * const hook = createRateLimitHook(limiter);
+ * ```
+ */
+export class LogRateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly intervalMs: number;
+
+  /**
+   * @param options - Rate limit options
+   * @throws {ConfigurationError} If the limit or interval is not positive
+   */
+  constructor(private readonly options: RateLimitOptions) {
+    this.intervalMs =
+      options.intervalMs ?? DEFAULT_RATE_LIMIT_OPTIONS.INTERVAL_MS;
+
+    if (!(options.limit > 0) || !(this.intervalMs > 0)) {
+      throw new ConfigurationError(
+        'Rate limit requires a positive limit and intervalMs',
+      );
+    }
+  }
+
+  /**
+   * Whether bucket keys may depend on the component namespace
+   * @returns True unless buckets are per level only
+   */
+  public get needsNamespace(): boolean {
+    return this.options.by != null && this.options.by !== 'level';
+  }
+
+  /**
+   * Decide whether a record may be logged
+   *
+   * @param context - The log call
+   * @param emit - Logs a summary record at the call's level
+   * @returns True if the record may be logged, false if it is suppressed
+   */
+  public admit(context: RateLimitKeyContext, emit: SummaryEmitter): boolean {
+    const limit = this.options.levels?.[context.level] ?? this.options.limit;
+    if (limit === Number.POSITIVE_INFINITY) {
+      return true;
+    }
+
+    const bucket = this.getBucket(context, limit);
+    const now = Date.now();
+    this.refill(bucket, now);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      // Records let through during a flood don't end its summary window
+      if (now - bucket.firstSuppressedAt >= this.intervalMs) {
+        this.endSuppression(bucket, now);
+      }
+      return true;
+    }
+
+    if (bucket.suppressed === 0) {
+      bucket.firstSuppressedAt = now;
+    }
+    bucket.suppressed++;
+    bucket.emit = emit;
+    this.scheduleSummary(bucket, now);
+    return false;
+  }
+
+  /**
+   * Log summaries for all buckets that are currently suppressing records
+   */
+  public flush(): void {
+    const now = Date.now();
+    for (const bucket of this.buckets.values()) {
+      this.endSuppression(bucket, now);
+    }
+  }
+
+  /**
+   * Find or create the bucket for a log call
+   * @param context - The log call
+   * @param limit - Limit for the call's level
+   * @returns Bucket
+   */
+  private getBucket(context: RateLimitKeyContext, limit: number): Bucket {
+    const key = this.resolveKey(context);
+    const id = key === context.level ? key : `${context.level}\u0000${key}`;
+
+    let bucket = this.buckets.get(id);
+    if (bucket == null) {
+      if (this.buckets.size >= DEFAULT_RATE_LIMIT_OPTIONS.MAX_BUCKETS) {
+        this.evictOldest();
+      }
+      bucket = {
+        key,
+        limit,
+        tokens: limit,
+        refilledAt: Date.now(),
+        suppressed: 0,
+        firstSuppressedAt: 0,
+        emit: undefined,
+        timer: undefined,
+      };
+      this.buckets.set(id, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Resolve the bucket key of a log call
+   * @param context - The log call
+   * @returns Level, namespace, or custom key
+   */
+  private resolveKey(context: RateLimitKeyContext): string {
+    const by = this.options.by ?? 'level';
+    if (by === 'level') {
+      return context.level;
+    }
+    if (by === 'namespace') {
+      return context.namespace ?? context.level;
+    }
+    return by(context);
+  }
+
+  /**
+   * Drop the least recently created bucket, reporting its suppressions
+   */
+  private evictOldest(): void {
+    const [id, bucket] = this.buckets.entries().next().value ?? [];
+    if (id == null || bucket == null) {
+      return;
+    }
+    this.endSuppression(bucket, Date.now());
+    this.buckets.delete(id);
+  }
+
+  /**
+   * Add the tokens accrued since the last refill
+   * @param bucket - Bucket to refill
+   * @param now - Current time
+   */
+  private refill(bucket: Bucket, now: number): void {
+    const accrued =
+      ((now - bucket.refilledAt) * bucket.limit) / this.intervalMs;
+    bucket.tokens = Math.min(bucket.limit, bucket.tokens + accrued);
+    bucket.refilledAt = now;
+  }
+
+  /**
+   * Schedule the summary for the end of the bucket's summary window
+   * (one interval after its first suppressed record)
+   * @param bucket - Bucket that is suppressing records
+   * @param now - Current time
+   */
+  private scheduleSummary(bucket: Bucket, now: number): void {
+    if (bucket.timer != null) {
+      return;
+    }
+
+    const msUntilWindowEnd = Math.max(
+      0,
+      bucket.firstSuppressedAt + this.intervalMs - now,
+    );
+    bucket.timer = setTimeout(() => {
+      bucket.timer = undefined;
+      this.endSuppression(bucket, Date.now());
+    }, msUntilWindowEnd);
+
+    // Don't keep the process alive for a pending summary
+    bucket.timer.unref();
+  }
+
+  /**
+   * Log the summary of a bucket's suppressed records, if any
+   * @param bucket - Bucket whose suppression ended
+   * @param now - Current time
+   */
+  private endSuppression(bucket: Bucket, now: number): void {
+    clearTimeout(bucket.timer);
+    bucket.timer = undefined;
+
+    const { suppressed, emit } = bucket;
+    if (suppressed === 0 || emit == null) {
+      return;
+    }
+    bucket.suppressed = 0;
+    bucket.emit = undefined;
+
+    const summary: SuppressionSummary = {
+      key: bucket.key,
+      suppressed,
+      window_ms: now - bucket.firstSuppressedAt,
+    };
+    emit([{ [RATE_LIMIT_FIELD]: summary }, formatSuppressionSummary(summary)]);
+  }
+}
+
+/**
+ * Creates the rate limiting stage for the log method pipeline
+ *
+ * @param limiterOrOptions - Rate limiter, or options to create one
+ * @returns Log method hook dropping records over the limit
+ * @throws {ConfigurationError} If the options are invalid
+ */
+export function createRateLimitHook(
+  limiterOrOptions: LogRateLimiter | RateLimitOptions,
+): LogMethodHook {
+  const limiter =
+    limiterOrOptions instanceof LogRateLimiter
+      ? limiterOrOptions
+      : new LogRateLimiter(limiterOrOptions);
+
+  return function rateLimitHook(args, method, level): void {
+    const { obj, msg } = splitLogArgs(args);
+    const context: RateLimitKeyContext = {
+      level: this.levels.labels[level] ?? String(level),
+      namespace: limiter.needsNamespace ? getLoggerNamespace(this) : undefined,
+      msg,
+      obj,
+    };
+
+    const emit: SummaryEmitter = (summaryArgs) => {
+      Reflect.apply(method, this, summaryArgs);
+    };
+
+    if (limiter.admit(context, emit)) {
+      Reflect.apply(method, this, args);
+    }
+  };
+}
@@ -0,0 +1,551 @@
+/**
+ * @fileoverview Compression and retention of rotated log files
+ *
+ * pino-roll only keeps a number of files, and only those it created itself.
+ * A retention sweep over the log directory gzips rotated files and deletes
+ * them by count, age and total size. It also guards free disk space:
+ * below `minFreeSpace` the oldest rotated files are reclaimed first, and a
+ * TransportError is reported if that is not enough. Until free space
+ * recovers, the low disk space flag is set, and log files drop records
+ * below `warn` (see `createLogFilterStage`). The sweep covers
+ * `app.log`, `exceptions.log` and `rejections.log` (plain or encrypted),
+ * plus routed log files under their own options, and runs on an unref'd
+ * timer, so it never keeps the process alive.
+ */
+
+import type { FileRotationOptions } from '../types';
+
+import { createReadStream, createWriteStream } from 'node:fs';
+import {
+  appendFile,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  statfs,
+  utimes,
+} from 'node:fs/promises';
+import { join } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { createGzip } from 'node:zlib';
+
+import {
+  DEFAULT_RETENTION_OPTIONS,
+  DEFAULT_ROTATION_OPTIONS,
+} from '../constants';
+import { normalizeError, TransportError } from './error-handler';
+import { parseRetentionAge, parseRotationSize } from './options-validation';
+
+// Files numbered by pino-roll: `app.log` rotates to `app.<number>.log`
+const ROLLED_FILE_PATTERN = /^(.+)\.\d+(\.[^.]+)(\.gz)?$/;
+// Files numbered by the encrypted file transport: `app.log.enc.<number>`
+const ENCRYPTED_ROTATED_FILE_PATTERN = /^(.+)(\.enc)\.\d+(\.gz)?$/;
+// Log files swept unless a policy names its own
+const DEFAULT_LOG_FILES = /^(?:app|exceptions|rejections)\.log$/;
+const GZIP_EXTENSION = '.gz';
+
+/**
+ * Log files swept with the same options
+ */
+export interface LogRetentionPolicy {
+  /**
+   * Matches the names of the log files covered, such as `app.log` for
+   * `app.3.log.gz` and `app.log.enc.3`
+   * @default app.log, exceptions.log and rejections.log
+   */
+  readonly files?: RegExp;
+  /** Compression and retention options */
+  readonly options: FileRotationOptions;
+}
+
+/**
+ * Result of a retention sweep
+ */
+export interface LogRetentionReport {
+  /** Rotated files that were gzipped */
+  readonly compressed: ReadonlyArray<string>;
+  /** Rotated files that were deleted */
+  readonly removed: ReadonlyArray<string>;
+  /** Free space on the log volume after the sweep (with `minFreeSpace`) */
+  readonly freeBytes?: number;
+  /** True when free space stayed below `minFreeSpace` */
+  readonly lowDiskSpace: boolean;
+}
+
+/**
+ * A numbered log file found in the log directory
+ */
+interface LogFile {
+  name: string;
+  base: string;
+  compressed: boolean;
+  size: number;
+  mtimeMs: number;
+}
+
+/**
+ * Check whether any compression or retention option is set
+ * @param options - File rotation options
+ * @returns True if a sweep has something to do
+ */
+function hasRetentionOptions(options: FileRotationOptions): boolean {
+  return (
+    options.compress === true ||
+    options.maxAge != null ||
+    options.maxTotalSize != null ||
+    options.minFreeSpace != null
+  );
+}
+
+/**
+ * Recognize a numbered log file
+ * @param fileName - File name in the log directory
+ * @returns Name of the log file it belongs to (such as `app.log`), the
+ *   group of files rotated together, and whether it is gzipped
+ */
+function parseRotatedFileName(
+  fileName: string,
+): { logName: string; base: string; compressed: boolean } | undefined {
+  const encrypted = ENCRYPTED_ROTATED_FILE_PATTERN.exec(fileName);
+  if (encrypted?.[1] != null) {
+    return {
+      logName: encrypted[1],
+      base: `${encrypted[1]}${encrypted[2] ?? ''}`,
+      compressed: encrypted[3] != null,
+    };
+  }
+  const rolled = ROLLED_FILE_PATTERN.exec(fileName);
+  if (rolled?.[1] == null || rolled[2] === GZIP_EXTENSION) {
+    return undefined;
+  }
+  const logName = `${rolled[1]}${rolled[2] ?? ''}`;
+  return { logName, base: logName, compressed: rolled[3] != null };
+}
+
+/**
+ * List the numbered log files of a directory
+ * @param logDir - Log directory
+ * @param pattern - Matches the names of the log files to list
+ * @returns Log files
+ */
+async function listLogFiles(
+  logDir: string,
+  pattern: RegExp,
+): Promise<Array<LogFile>> {
+  const files: Array<LogFile> = [];
+  for (const name of await readdir(logDir)) {
+    const rotated = parseRotatedFileName(name);
+    if (rotated == null || !pattern.test(rotated.logName)) {
+      continue;
+    }
+    const stats = await stat(join(logDir, name));
+    files.push({
+      name,
+      base: rotated.base,
+      compressed: rotated.compressed,
+      size: stats.size,
+      mtimeMs: stats.mtimeMs,
+    });
+  }
+  return files;
+}
+
+/**
+ * Split log files into the files being written and the rotated ones
+ *
+ * The file being written is the most recently modified uncompressed file of
+ * each log, which also covers pino-roll restarting its numbering.
+ *
+ * @param files - Log files
+ * @returns Rotated files, oldest first
+ */
+function findRotatedFiles(files: ReadonlyArray<LogFile>): Array<LogFile> {
+  const active = new Map<string, LogFile>();
+  for (const file of files) {
+    const current = active.get(file.base);
+    if (
+      !file.compressed &&
+      (current == null || file.mtimeMs > current.mtimeMs)
+    ) {
+      active.set(file.base, file);
+    }
+  }
+  const activeFiles = new Set(active.values());
+  return files
+    .filter((file) => !activeFiles.has(file))
+    .sort((a, b) => a.mtimeMs - b.mtimeMs);
+}
+
+/**
+ * Gzip a rotated file, keeping its modification time
+ *
+ * If the `.gz` file already exists (pino-roll reused the number), the new
+ * gzip member is appended to it; gzip readers decompress both.
+ *
+ * @param logDir - Log directory
+ * @param file - Uncompressed rotated file
+ * @returns The compressed file
+ */
+async function compressFile(logDir: string, file: LogFile): Promise<LogFile> {
+  const source = join(logDir, file.name);
+  const name = `${file.name}${GZIP_EXTENSION}`;
+  const target = join(logDir, name);
+  const temporary = `${target}.tmp`;
+
+  await pipeline(
+    createReadStream(source),
+    createGzip(),
+    createWriteStream(temporary),
+  );
+  const existing = await stat(target).catch(() => undefined);
+  if (existing == null) {
+    await rename(temporary, target);
+  } else {
+    await appendFile(target, await readFile(temporary));
+    await rm(temporary);
+  }
+  const mtime = new Date(file.mtimeMs);
+  await utimes(target, mtime, mtime);
+  await rm(source);
+
+  const { size } = await stat(target);
+  return { ...file, name, compressed: true, size };
+}
+
+/**
+ * Free space available to the process on the log volume
+ * @param logDir - Log directory
+ * @returns Free bytes
+ */
+async function getFreeBytes(logDir: string): Promise<number> {
+  const stats = await statfs(logDir);
+  return stats.bavail * stats.bsize;
+}
+
+/**
+ * One sweep over the numbered files of a log directory
+ */
+class RetentionSweep {
+  public readonly compressed: Array<string> = [];
+  public readonly removed: Array<string> = [];
+  private readonly logDir: string;
+  // Rotated files, oldest first
+  private rotated: Array<LogFile>;
+  private totalSize: number;
+
+  /**
+   * @param logDir - Log directory
+   * @param files - Numbered log files in the directory
+   */
+  constructor(logDir: string, files: ReadonlyArray<LogFile>) {
+    this.logDir = logDir;
+    this.rotated = findRotatedFiles(files);
+    this.totalSize = files.reduce((sum, file) => sum + file.size, 0);
+  }
+
+  /**
+   * Gzip the uncompressed rotated files, one at a time
+   */
+  public async compress(): Promise<void> {
+    for (const [index, file] of this.rotated.entries()) {
+      if (file.compressed) {
+        continue;
+      }
+      const result = await compressFile(this.logDir, file);
+      this.rotated[index] = result;
+      this.totalSize -= file.size - result.size;
+      this.compressed.push(file.name);
+    }
+  }
+
+  /**
+   * Delete the oldest rotated files beyond a count per log
+   * @param maxFiles - Rotated files to keep per log
+   */
+  public async removeOverCount(maxFiles: number): Promise<void> {
+    const kept = new Map<string, number>();
+    const excess = [...this.rotated].reverse().filter((file) => {
+      const count = (kept.get(file.base) ?? 0) + 1;
+      kept.set(file.base, count);
+      return count > maxFiles;
+    });
+    for (const file of excess) {
+      await this.remove(file);
+    }
+  }
+
+  /**
+   * Delete rotated files last modified before a time
+   * @param cutoff - Time (epoch milliseconds)
+   */
+  public async removeOlderThan(cutoff: number): Promise<void> {
+    for (const file of this.rotated.filter((item) => item.mtimeMs < cutoff)) {
+      await this.remove(file);
+    }
+  }
+
+  /**
+   * Delete the oldest rotated files while the log files exceed a size
+   * @param maxTotalSize - Size in bytes
+   */
+  public async removeUntilTotalSize(maxTotalSize: number): Promise<void> {
+    while (this.totalSize > maxTotalSize && this.rotated[0] != null) {
+      await this.remove(this.rotated[0]);
+    }
+  }
+
+  /**
+   * Delete the oldest rotated files while free space is below a minimum
+   * @param minFreeSpace - Size in bytes
+   * @returns Free bytes afterwards
+   */
+  public async reclaimDiskSpace(minFreeSpace: number): Promise<number> {
+    let freeBytes = await getFreeBytes(this.logDir);
+    while (freeBytes < minFreeSpace && this.rotated[0] != null) {
+      const oldest = this.rotated[0];
+      await this.remove(oldest);
+      freeBytes += oldest.size;
+    }
+    return freeBytes;
+  }
+
+  /**
+   * Delete a rotated file
+   * @param file - Rotated file
+   */
+  private async remove(file: LogFile): Promise<void> {
+    await rm(join(this.logDir, file.name), { force: true });
+    this.rotated = this.rotated.filter((item) => item !== file);
+    this.totalSize -= file.size;
+    this.removed.push(file.name);
+  }
+}
+
+/**
+ * Run one compression and retention sweep over a log directory
+ *
+ * Rotated files are gzipped (with `compress`), then deleted oldest first
+ * while a log has more than `maxFiles` rotated files, while they are older
+ * than `maxAge`, while all log files together exceed `maxTotalSize`, and
+ * while free space is below `minFreeSpace`. The files being written are
+ * never touched.
+ *
+ * @param logDir - Log directory
+ * @param options - File rotation options
+ * @param files - Matches the names of the log files to sweep (default:
+ *   `app.log`, `exceptions.log` and `rejections.log`)
+ * @returns What was compressed and deleted
+ * @throws {ConfigurationError} If a size or age option is invalid
+ *
+ * @example
+ * ```typescript
+ * const report = await applyLogRetention('./logs', {
+ *   compress: true,
+ *   maxAge: '30d',
+ *   maxTotalSize: '2g',
+ * });
+ * // { compressed: ['app.3.log'], removed: ['app.1.log.gz'], lowDiskSpace: false }
+ * ```
+ */
+export async function applyLogRetention(
+  logDir: string,
+  options: FileRotationOptions,
+  files: RegExp = DEFAULT_LOG_FILES,
+): Promise<LogRetentionReport> {
+  const sweep = new RetentionSweep(logDir, await listLogFiles(logDir, files));
+
+  if (options.compress === true) {
+    await sweep.compress();
+  }
+  await sweep.removeOverCount(
+    options.maxFiles ?? DEFAULT_ROTATION_OPTIONS.MAX_FILES,
+  );
+  if (options.maxAge != null) {
+    await sweep.removeOlderThan(Date.now() - parseRetentionAge(options.maxAge));
+  }
+  if (options.maxTotalSize != null) {
+    await sweep.removeUntilTotalSize(parseRotationSize(options.maxTotalSize));
+  }
+
+  const { compressed, removed } = sweep;
+  if (options.minFreeSpace == null) {
+    return { compressed, removed, lowDiskSpace: false };
+  }
+  const minFreeSpace = parseRotationSize(options.minFreeSpace);
+  const freeBytes = await sweep.reclaimDiskSpace(minFreeSpace);
+  return {
+    compressed,
+    removed,
+    freeBytes,
+    lowDiskSpace: freeBytes < minFreeSpace,
+  };
+}
+
+/**
+ * State of the running retention sweep
+ */
+interface RetentionState {
+  timer: ReturnType<typeof setInterval>;
+  running: boolean;
+  lowDiskSpace: boolean;
+}
+
+let retentionState: RetentionState | null = null;
+
+// Set while free space stays below `minFreeSpace`; shared with the log
+// filter stages of file targets, which run in transport worker threads
+const lowDiskSpaceFlag = new Int32Array(
+  new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT),
+);
+
+/**
+ * Get the low disk space flag shared with transport workers
+ * @returns One-element array, 1 while disk space is low
+ */
+export function getLowDiskSpaceFlag(): Int32Array {
+  return lowDiskSpaceFlag;
+}
+
+/**
+ * Check whether the retention sweep found free space below `minFreeSpace`
+ * @returns True until free space recovers or the sweep is stopped
+ */
+export function isLowDiskSpace(): boolean {
+  return Atomics.load(lowDiskSpaceFlag, 0) === 1;
+}
+
+/**
+ * Set or clear the low disk space flag
+ * @param low - Whether free space is below `minFreeSpace`
+ */
+function setLowDiskSpace(low: boolean): void {
+  Atomics.store(lowDiskSpaceFlag, 0, low ? 1 : 0);
+}
+
+/**
+ * A policy whose sweep left free space below its `minFreeSpace`
+ */
+interface LowDiskSpace {
+  policy: LogRetentionPolicy;
+  report: LogRetentionReport;
+}
+
+/**
+ * Sweep a log directory once per policy
+ * @param logDir - Log directory
+ * @param policies - Policies with compression or retention options
+ * @returns The first policy left with low disk space
+ */
+async function sweepPolicies(
+  logDir: string,
+  policies: ReadonlyArray<LogRetentionPolicy>,
+): Promise<LowDiskSpace | undefined> {
+  let lowDiskSpace: LowDiskSpace | undefined;
+  for (const policy of policies) {
+    const report = await applyLogRetention(
+      logDir,
+      policy.options,
+      policy.files,
+    );
+    if (report.lowDiskSpace) {
+      lowDiskSpace ??= { policy, report };
+    }
+  }
+  return lowDiskSpace;
+}
+
+/**
+ * Start sweeping a log directory now and then every
+ * `DEFAULT_RETENTION_OPTIONS.CHECK_INTERVAL_MS`
+ *
+ * Replaces any sweep started before. Each policy sweeps its own log files
+ * with its own options; policies without compression or retention options
+ * are skipped, and nothing starts when none has any. Failed sweeps, and
+ * free space that stays below `minFreeSpace`, are reported once as a
+ * TransportError. While free space is low, log files run degraded: they
+ * only receive records at `warn` or above until a sweep finds enough
+ * free space again.
+ *
+ * @param logDir - Log directory
+ * @param policies - Log files and their compression and retention options
+ * @param onError - Receives failures and low disk space reports
+ *
+ * @example
+ * ```typescript
+ * startLogRetention(
+ *   './logs',
+ *   [
+ *     { options: { compress: true, maxAge: '30d' } },
+ *     { files: /^error\.log$/, options: { maxAge: '90d' } },
+ *   ],
+ *   (error) => console.error(error.message),
+ * );
+ * ```
+ */
+export function startLogRetention(
+  logDir: string,
+  policies: ReadonlyArray<LogRetentionPolicy>,
+  onError: (error: TransportError) => void,
+): void {
+  stopLogRetention();
+  const activePolicies = policies.filter((policy) =>
+    hasRetentionOptions(policy.options),
+  );
+  if (activePolicies.length === 0) {
+    return;
+  }
+
+  const transportName = `file (${logDir})`;
+  const sweep = async (state: RetentionState): Promise<void> => {
+    if (state.running) {
+      return;
+    }
+    state.running = true;
+    try {
+      const lowDiskSpace = await sweepPolicies(logDir, activePolicies);
+      const wasLow = state.lowDiskSpace;
+      // Enter or leave degraded mode before reporting
+      state.lowDiskSpace = lowDiskSpace != null;
+      setLowDiskSpace(state.lowDiskSpace);
+      if (lowDiskSpace != null && !wasLow) {
+        const { policy, report } = lowDiskSpace;
+        onError(
+          new TransportError(
+            transportName,
+            `disk space check: ${report.freeBytes ?? 0} bytes free, below minFreeSpace ${policy.options.minFreeSpace ?? ''}; log files only receive ${DEFAULT_RETENTION_OPTIONS.LOW_DISK_LEVEL} and above until it recovers`,
+          ),
+        );
+      }
+    } catch (error) {
+      onError(new TransportError(transportName, normalizeError(error)));
+    } finally {
+      state.running = false;
+    }
+  };
+
+  const state: RetentionState = {
+    timer: setInterval(() => {
+      void sweep(state);
+    }, DEFAULT_RETENTION_OPTIONS.CHECK_INTERVAL_MS),
+    running: false,
+    lowDiskSpace: false,
+  };
+  state.timer.unref();
+  retentionState = state;
+  void sweep(state);
+}
+
+/**
+ * Stop the retention sweep started by startLogRetention
+ * @returns True if a sweep was running
+ */
+export function stopLogRetention(): boolean {
+  if (retentionState == null) {
+    return false;
+  }
+  clearInterval(retentionState.timer);
+  retentionState = null;
+  setLowDiskSpace(false);
+  return true;
+}
@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Probabilistic and trace-aware sampling of log records
+ *
+ * Provides the sampling stage of the log method pipeline: records are kept
+ * with a per-level rate, optionally overridden per namespace pattern. The
+ * decision can be random, derived from `trace_id` so a trace's records are
+ * kept or dropped together, or follow the W3C sampled bit of the current
+ * span context. Errors and fatals are never sampled out.
+ */
+
+import type { SamplingMode, SamplingOptions, SamplingRates } from '../types';
+import type { LogMethodHook } from './log-pipeline';
+import type { NamespaceConfig } from './namespace_filter';
+
+import { SEVERITY_LEVELS } from '../types';
+import {
+  getLoggerBindings,
+  getLoggerNamespace,
+  splitLogArgs,
+} from './log-pipeline';
+import { matchNamespaceRule, parseNamespacePatterns } from './namespace_filter';
+import { isTraceSampled } from './trace-context';
+
+/**
+ * Trace fields of a log call, as produced by the trace mixin
+ */
+interface TraceFields {
+  readonly traceId: string | undefined;
+  readonly traceFlags: string | undefined;
+}
+
+// FNV-1a 32-bit parameters
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+const UINT32_RANGE = 0x100000000;
+
+/**
+ * Map a trace ID to a stable number in [0, 1)
+ *
+ * @param traceId - Trace ID (any string; W3C IDs are 32 hex characters)
+ * @returns The same value for the same trace ID in every process
+ */
+export function traceSamplingValue(traceId: string): number {
+  let hash = FNV_OFFSET_BASIS;
+  for (let index = 0; index < traceId.length; index++) {
+    hash ^= traceId.charCodeAt(index);
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+  return (hash >>> 0) / UINT32_RANGE;
+}
+
+/**
+ * Read a string field from the first source that has it
+ * @param key - Field name
+ * @param sources - Sources in precedence order
+ * @returns Field value, if any source has a non-empty string
+ */
+function readStringField(
+  key: string,
+  sources: ReadonlyArray<Readonly<Record<string, unknown>> | undefined>,
+): string | undefined {
+  for (const source of sources) {
+    const value = source?.[key];
+    if (typeof value === 'string' && value.length > 0) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolves sampling rates for a level and namespace
+ */
+class SamplingRateTable {
+  private readonly overrides: NamespaceConfig | undefined;
+
+  constructor(
+    private readonly rates: SamplingRates,
+    private readonly namespaceRates: Readonly<Record<string, SamplingRates>>,
+  ) {
+    const patterns = Object.keys(namespaceRates);
+    this.overrides =
+      patterns.length === 0
+        ? undefined
+        : parseNamespacePatterns(patterns.join(','));
+  }
+
+  /**
+   * Whether any namespace overrides are configured
+   * @returns True if rates may depend on the namespace
+   */
+  public get hasOverrides(): boolean {
+    return this.overrides != null;
+  }
+
+  /**
+   * Get the keep rate for a record
+   * @param level - Level label
+   * @param namespace - Component namespace, if any
+   * @returns Keep rate (records with a rate of 1 or more are always kept)
+   */
+  public rateFor(level: string, namespace: string | undefined): number {
+    if (this.overrides != null && namespace != null) {
+      const rule = matchNamespaceRule(namespace, this.overrides.rules);
+      const override =
+        rule == null ? undefined : this.namespaceRates[rule.pattern]?.[level];
+      if (override != null) {
+        return override;
+      }
+    }
+    return this.rates[level] ?? 1;
+  }
+}
+
+/**
+ * Decide whether to keep a record with trace context
+ * @param mode - Sampling mode
+ * @param rate - Keep rate for the record
+ * @param trace - Trace fields of the record
+ * @returns Keep decision, or undefined to fall back to random sampling
+ */
+function traceDecision(
+  mode: SamplingMode,
+  rate: number,
+  trace: TraceFields,
+): boolean | undefined {
+  if (trace.traceId == null) {
+    return undefined;
+  }
+  if (mode === 'trace') {
+    return traceSamplingValue(trace.traceId) < rate;
+  }
+  if (trace.traceFlags == null) {
+    return undefined;
+  }
+  return isTraceSampled({
+    traceId: trace.traceId,
+    spanId: '',
+    traceFlags: trace.traceFlags,
+  });
+}
+
+/**
+ * Creates the sampling stage for the log method pipeline
+ *
+ * Trace fields are read from the merge object, then the logger's bindings,
+ * then `getTraceFields` (the logger's trace mixin), so context set via
+ * `setTraceContext`, `runWithTraceContext`, OpenTelemetry, or a child
+ * logger bound to a request is honored.
+ *
+ * @param options - Sampling options
+ * @param getTraceFields - Returns the trace fields the mixin would add
+ * @param random - Random number source (for tests)
+ * @returns Log method hook dropping records that are sampled out
+ *
+ * @example
+ * ```typescript
+ * const hook = createSamplingHook(
+ *   { rates: { debug: 0.01, info: 0.1 }, mode: 'trace' },
+ *   traceMixin,
+ * );
+ * ```
+ */
+export function createSamplingHook(
+  options: SamplingOptions,
+  getTraceFields: () => Record<string, unknown> = () => ({}),
+  random: () => number = Math.random,
+): LogMethodHook {
+  const mode = options.mode ?? 'random';
+  const table = new SamplingRateTable(
+    options.rates ?? {},
+    options.namespaces ?? {},
+  );
+
+  return function samplingHook(args, method, level): void {
+    const label = this.levels.labels[level];
+    if (level >= SEVERITY_LEVELS.error || label == null) {
+      Reflect.apply(method, this, args);
+      return;
+    }
+
+    const rate = table.rateFor(
+      label,
+      table.hasOverrides ? getLoggerNamespace(this) : undefined,
+    );
+
+    let keep: boolean | undefined;
+    if (mode !== 'random') {
+      const sources = [
+        splitLogArgs(args).obj,
+        getLoggerBindings(this),
+        getTraceFields(),
+      ];
+      keep = traceDecision(mode, rate, {
+        traceId: readStringField('trace_id', sources),
+        traceFlags: readStringField('trace_flags', sources),
+      });
+    }
+    keep ??= rate >= 1 || random() < rate;
+
+    if (keep) {
+      Reflect.apply(method, this, args);
+    }
+  };
+}
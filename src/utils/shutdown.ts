@@ -0,0 +1,253 @@
+/**
+ * @fileoverview Transport flushing and shutdown
+ *
+ * Keeps track of the Pino transport worker streams created by the library
+ * (pino-pretty, pino-roll, pino/file, pino-loki, ...) so they can be
+ * flushed and closed on shutdown, with a deadline and a per-transport
+ * report of what was flushed or timed out. Log method stages that hold
+ * summary records back (rate limiting, dedup) are tracked as well, so
+ * their summaries are logged before the transports close.
+ */
+
+import pino from 'pino';
+
+/**
+ * Options for shutting down the logger
+ */
+export interface ShutdownOptions {
+  /**
+   * Maximum time to wait for all transports to flush and exit
+   * @default 5000
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Outcome for a single transport stream
+ * - 'flushed': Pending logs were written and the worker thread exited
+ * - 'timed_out': The worker did not finish before the deadline
+ * - 'failed': The worker reported an error while flushing or closing
+ */
+export type TransportShutdownStatus = 'flushed' | 'timed_out' | 'failed';
+
+/**
+ * Shutdown result for a single transport stream
+ */
+export interface TransportShutdownResult {
+  /** Transport targets served by the stream (e.g. 'pino-pretty, pino-roll') */
+  readonly name: string;
+  /** What happened to the stream */
+  readonly status: TransportShutdownStatus;
+  /** Error message when status is 'failed' */
+  readonly error?: string;
+}
+
+/**
+ * Report returned by shutdownLogger
+ */
+export interface ShutdownReport {
+  /** One entry per transport stream that was open */
+  readonly transports: ReadonlyArray<TransportShutdownResult>;
+  /** Whether the telemetry cleanup timer was running and has been stopped */
+  readonly telemetryTimerStopped: boolean;
+  /** True if any transport timed out */
+  readonly timedOut: boolean;
+  /** Total time spent shutting down */
+  readonly durationMs: number;
+}
+
+/**
+ * Minimal surface of a Pino transport worker stream (thread-stream)
+ */
+interface WorkerStream {
+  readonly closed: boolean;
+  flush(callback: (error?: Error) => void): void;
+  end(): void;
+  once(event: 'close', listener: () => void): unknown;
+  once(event: 'error', listener: (error: Error) => void): unknown;
+  unref(): void;
+}
+
+/**
+ * A transport stream tracked for shutdown
+ */
+interface ManagedTransport {
+  readonly name: string;
+  readonly logger: pino.Logger;
+  readonly stream: WorkerStream;
+}
+
+/**
+ * A log method stage holding summary records back until a timer fires
+ */
+export interface SummarySource {
+  /** Log every pending summary now */
+  flush(): void;
+}
+
+// Transport streams created by the library that have not been closed yet
+const managedTransports = new Set<ManagedTransport>();
+
+// Summary sources are held weakly: component loggers with their own stages
+// may be created and dropped at any rate
+const summarySources = new Set<WeakRef<SummarySource>>();
+const summarySourceCleanup = new FinalizationRegistry<WeakRef<SummarySource>>(
+  (ref) => summarySources.delete(ref),
+);
+
+/**
+ * Check whether a Pino destination is a transport worker stream
+ * @param stream - Destination stream of a Pino logger
+ * @returns True for thread-stream instances
+ */
+function isWorkerStream(stream: unknown): stream is WorkerStream {
+  if (stream == null || typeof stream !== 'object') {
+    return false;
+  }
+  const candidate = stream as Partial<Record<keyof WorkerStream, unknown>> & {
+    worker?: unknown;
+  };
+  return (
+    candidate.worker != null &&
+    typeof candidate.flush === 'function' &&
+    typeof candidate.end === 'function'
+  );
+}
+
+/**
+ * Describe a Pino transport configuration for reports
+ * @param transport - Transport configuration passed to Pino
+ * @returns Comma-separated target names
+ */
+export function describeTransport(
+  transport: pino.TransportMultiOptions | pino.TransportSingleOptions,
+): string {
+  if ('targets' in transport) {
+    return transport.targets
+      .map((target) => ('target' in target ? target.target : 'pipeline'))
+      .join(', ');
+  }
+  return transport.target;
+}
+
+/**
+ * Track a logger's transport worker so shutdown can flush and close it
+ *
+ * Loggers writing to stdout or a plain destination are ignored, since
+ * they have no worker thread to drain.
+ *
+ * @param name - Transport name used in shutdown reports
+ * @param logger - Logger created with a `transport` option
+ */
+export function registerTransportStream(
+  name: string,
+  logger: pino.Logger,
+): void {
+  const stream = Reflect.get(logger, pino.symbols.streamSym) as unknown;
+  if (isWorkerStream(stream)) {
+    managedTransports.add({ name, logger, stream });
+  }
+}
+
+/**
+ * Track a stage with pending summary records so shutdown can log them
+ * @param source - Stage state with a flush method
+ */
+export function registerSummarySource(source: SummarySource): void {
+  const ref = new WeakRef(source);
+  summarySources.add(ref);
+  summarySourceCleanup.register(source, ref);
+}
+
+/**
+ * Log the pending summary records of every tracked stage
+ *
+ * Called before transports are closed, since summaries are otherwise only
+ * logged from unref'd timers that never fire once the process exits.
+ */
+export function flushSummarySources(): void {
+  for (const ref of summarySources) {
+    ref.deref()?.flush();
+  }
+}
+
+/**
+ * Flush a worker stream, end it, and wait for its worker thread to exit
+ * @param stream - Worker stream
+ * @returns Promise resolving once the worker has exited
+ */
+function flushAndClose(stream: WorkerStream): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    // A worker that already crashed reports it as an 'error' event
+    stream.once('error', reject);
+    stream.flush((error) => {
+      if (error != null) {
+        reject(error);
+        return;
+      }
+      stream.once('close', resolve);
+      stream.end();
+    });
+  });
+}
+
+/**
+ * Close one managed transport before a deadline
+ * @param transport - Managed transport
+ * @param timeoutMs - Time allowed
+ * @returns Shutdown result for the transport
+ */
+async function closeTransport(
+  transport: ManagedTransport,
+  timeoutMs: number,
+): Promise<TransportShutdownResult> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<'timed_out'>((resolve) => {
+    timer = setTimeout(() => resolve('timed_out'), timeoutMs);
+    timer.unref();
+  });
+
+  try {
+    const outcome = await Promise.race([
+      flushAndClose(transport.stream).then(() => 'flushed' as const),
+      timeout,
+    ]);
+    if (outcome === 'timed_out') {
+      // Don't let a stuck worker keep the process alive
+      transport.stream.unref();
+    }
+    return { name: transport.name, status: outcome };
+  } catch (error) {
+    return {
+      name: transport.name,
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    clearTimeout(timer);
+    // Writes to a closed worker would error; drop them instead
+    transport.logger.level = 'silent';
+  }
+}
+
+/**
+ * Flush and close every tracked transport stream in parallel
+ *
+ * Streams whose worker already exited are skipped. Each stream is removed
+ * from tracking, so a second call only handles transports created since.
+ *
+ * @param timeoutMs - Time allowed for all streams
+ * @returns Per-transport results
+ */
+export async function closeTransportStreams(
+  timeoutMs: number,
+): Promise<Array<TransportShutdownResult>> {
+  const transports = [...managedTransports];
+  managedTransports.clear();
+
+  return Promise.all(
+    transports
+      .filter((transport) => !transport.stream.closed)
+      .map((transport) => closeTransport(transport, timeoutMs)),
+  );
+}
@@ -1,13 +1,18 @@
 /**
  * @fileoverview OpenTelemetry trace context management
  *
- * Provides thread-local trace context storage with TTL and size limits,
- * and Pino mixin creation for automatic trace ID injection into logs.
+ * Provides per-async-context trace context storage backed by
+ * AsyncLocalStorage, a keyed fallback store with TTL and size limits for
+ * runtimes without async context support, and Pino mixin creation for
+ * automatic trace ID injection into logs.
  */
 
-import type { SpanContext } from '../types';
+import type { SpanContext, TelemetryOptions } from '../types';
+
+import { AsyncLocalStorage } from 'node:async_hooks';
 
 import { DEFAULT_TELEMETRY_OPTIONS } from '../constants';
+import { ConfigurationError } from './error-handler';
 
 /**
  * Interface for trace context entries with TTL
@@ -37,9 +42,17 @@ const DEFAULT_TRACE_CONFIG: TraceContextConfig = {
 };
 
 /**
- * Thread-local storage for trace context with TTL and size limits
+ * Value held in async context storage for the current execution
+ */
+interface AsyncTraceContextStore {
+  readonly context: SpanContext | undefined;
+}
+
+/**
+ * Keyed storage for trace context with TTL and size limits.
+ * Only used by runtimes without async context support.
  */
-class TraceContextManager {
+export class TraceContextManager {
   private readonly contexts = new Map<string, TraceContextEntry>();
   private readonly config: TraceContextConfig;
   private cleanupTimer?: NodeJS.Timeout;
@@ -169,6 +182,19 @@ class TraceContextManager {
     this.cleanupTimer.unref();
   }
 
+  /**
+   * Stop periodic cleanup, keeping stored contexts
+   * @returns True if a cleanup timer was running
+   */
+  public stopCleanup(): boolean {
+    if (!this.cleanupTimer) {
+      return false;
+    }
+    clearInterval(this.cleanupTimer);
+    this.cleanupTimer = undefined;
+    return true;
+  }
+
   /**
    * Stop cleanup and clear all contexts
    */
@@ -181,41 +207,114 @@ class TraceContextManager {
   }
 }
 
-// Global trace context manager instance
+// Global trace context manager instance (keyed fallback store)
 const traceContextManager = new TraceContextManager();
 
 /**
- * Set trace context for the current thread/process
+ * Creates the async context storage, if the runtime supports it
+ * @returns AsyncLocalStorage instance, or undefined when unavailable
+ */
+function createAsyncTraceStorage():
+  | AsyncLocalStorage<AsyncTraceContextStore>
+  | undefined {
+  try {
+    if (typeof AsyncLocalStorage !== 'function') {
+      return undefined;
+    }
+    return new AsyncLocalStorage<AsyncTraceContextStore>();
+  } catch {
+    return undefined;
+  }
+}
+
+// Per-async-context storage (primary store when supported)
+const asyncTraceStorage = createAsyncTraceStorage();
+
+/**
+ * Whether the runtime supports per-async-context trace storage
+ *
+ * When false, trace context falls back to the keyed TTL/LRU store.
+ *
+ * @returns True if AsyncLocalStorage is available
+ */
+export function isAsyncContextSupported(): boolean {
+  return asyncTraceStorage != null;
+}
+
+/**
+ * Run a function with trace context bound to its async scope
+ *
+ * Every log emitted inside `fn` (including after awaits) carries the
+ * given trace context. Concurrent scopes are fully isolated.
+ *
+ * @param context - OpenTelemetry span context for the scope
+ * @param fn - Function to run
+ * @returns The function's return value
+ *
+ * @example
+ * ```typescript
+ * await runWithTraceContext(spanContext, async () => {
+ *   logger.info('Handling request'); // includes trace_id / span_id
+ * });
+ * ```
+ */
+export function runWithTraceContext<T>(context: SpanContext, fn: () => T): T {
+  if (asyncTraceStorage == null) {
+    return fn();
+  }
+  return asyncTraceStorage.run({ context }, fn);
+}
+
+/**
+ * Set trace context for the current execution
  *
- * @param threadId - Identifier for the current thread/process
+ * The context is stored per async execution context: it is visible to the
+ * current synchronous execution and every async continuation created after
+ * this call, but never to concurrent requests. Prefer
+ * {@link runWithTraceContext} where a callback scope is available, since it
+ * cannot leak into the caller. Runtimes without async context support
+ * store it in the keyed TTL/LRU fallback store under `threadId`.
+ *
+ * @param threadId - Key of the fallback store (ignored with async context)
  * @param context - OpenTelemetry span context
  */
 export function setTraceContext(threadId: string, context: SpanContext): void {
-  traceContextManager.set(threadId, context);
+  if (asyncTraceStorage == null) {
+    traceContextManager.set(threadId, context);
+    return;
+  }
+  asyncTraceStorage.enterWith({ context });
 }
 
 /**
- * Clear trace context for the current thread/process
+ * Clear trace context for the current execution
  *
- * @param threadId - Identifier for the current thread/process
+ * @param threadId - Key of the fallback store (ignored with async context)
  */
 export function clearTraceContext(threadId: string): void {
-  traceContextManager.clear(threadId);
+  if (asyncTraceStorage == null) {
+    traceContextManager.clear(threadId);
+    return;
+  }
+  asyncTraceStorage.enterWith({ context: undefined });
 }
 
 /**
- * Get trace context for the current thread/process
+ * Get trace context for the current execution
  *
- * @param threadId - Identifier for the current thread/process
+ * @param threadId - Key of the fallback store (ignored with async context)
  * @returns The current trace context, if any
  */
 export function getTraceContext(threadId: string): SpanContext | undefined {
-  return traceContextManager.get(threadId);
+  if (asyncTraceStorage == null) {
+    return traceContextManager.get(threadId);
+  }
+  return asyncTraceStorage.getStore()?.context;
 }
 
 /**
- * Get statistics about trace context storage
- * @returns Object containing the current size of trace context storage
+ * Get statistics about the keyed fallback store
+ * @returns Object containing the current size of the fallback store
  */
 export function getTraceContextStats(): { size: number } {
   return {
@@ -223,11 +322,24 @@ export function getTraceContextStats(): { size: number } {
   };
 }
 
+/**
+ * Stop the keyed store's periodic cleanup timer (used during shutdown)
+ *
+ * Stored contexts are kept, so logs emitted while shutting down still
+ * carry their trace IDs.
+ *
+ * @returns True if a cleanup timer was running
+ */
+export function stopTraceContextCleanup(): boolean {
+  return traceContextManager.stopCleanup();
+}
+
 /**
  * Clean up all trace contexts (useful for testing or shutdown)
  */
 export function destroyTraceContextManager(): void {
   traceContextManager.destroy();
+  asyncTraceStorage?.disable();
 }
 
 /**
@@ -251,11 +363,11 @@ export function createTraceMixin(
         traceContext = getActiveContext();
       } catch {
         // Fallback to manual mode if auto-detection fails
-        traceContext = traceContextManager.get(threadId);
+        traceContext = getTraceContext(threadId);
       }
     } else {
-      // Manual mode - get from our context manager
-      traceContext = traceContextManager.get(threadId);
+      // Manual mode - context set via setTraceContext / runWithTraceContext
+      traceContext = getTraceContext(threadId);
     }
 
     if (traceContext) {
@@ -276,3 +388,115 @@ export function createTraceMixin(
     return {};
   };
 }
+
+/**
+ * Trace correlation mode resolved from telemetry options
+ */
+export type CorrelationMode = 'manual' | 'auto';
+
+/**
+ * Validates an explicitly configured correlation mode against the other
+ * telemetry options
+ *
+ * @param mode - Explicit correlationMode from contextOptions
+ * @param telemetry - Telemetry options
+ * @throws {ConfigurationError} If the combination is contradictory
+ */
+function validateCorrelationMode(
+  mode: unknown,
+  telemetry: TelemetryOptions,
+): void {
+  if (mode !== 'manual' && mode !== 'auto') {
+    throw new ConfigurationError(
+      `Invalid telemetry.contextOptions.correlationMode: ${String(mode)} (expected 'manual' or 'auto')`,
+    );
+  }
+
+  if (mode === 'manual' && telemetry.autoInject === true) {
+    throw new ConfigurationError(
+      "telemetry.autoInject requires correlationMode 'auto', got 'manual'",
+    );
+  }
+
+  if (mode === 'manual' && telemetry.contextOptions?.getActiveContext != null) {
+    throw new ConfigurationError(
+      "telemetry.contextOptions.getActiveContext is only used with correlationMode 'auto'",
+    );
+  }
+}
+
+/**
+ * Resolve the effective correlation mode from telemetry options
+ *
+ * An explicit `correlationMode` wins. Otherwise `autoInject` or a custom
+ * `getActiveContext` imply 'auto', and everything else is 'manual'.
+ *
+ * @param telemetry - Telemetry options
+ * @returns The effective correlation mode
+ * @throws {ConfigurationError} If the options are contradictory
+ */
+export function resolveCorrelationMode(
+  telemetry: TelemetryOptions,
+): CorrelationMode {
+  const contextOptions = telemetry.contextOptions;
+  const explicitMode = contextOptions?.correlationMode;
+
+  if (explicitMode !== undefined) {
+    validateCorrelationMode(explicitMode, telemetry);
+  }
+
+  const mode =
+    explicitMode ??
+    (telemetry.autoInject === true || contextOptions?.getActiveContext != null
+      ? 'auto'
+      : 'manual');
+
+  if (contextOptions?.injectTraceContext === false && mode === 'auto') {
+    throw new ConfigurationError(
+      "telemetry.contextOptions.injectTraceContext: false cannot be combined with correlationMode 'auto' or autoInject",
+    );
+  }
+
+  return mode;
+}
+
+/**
+ * Creates the trace mixin for a logger from its telemetry options
+ *
+ * - Telemetry disabled: manually set context only (legacy behavior)
+ * - `injectTraceContext: false`: no trace fields are added
+ * - 'manual': only context set via setTraceContext / runWithTraceContext
+ * - 'auto': the active span from `getActiveContext`, or from OpenTelemetry
+ *
+ * @param telemetry - Telemetry options
+ * @param getCurrentThreadId - Function to get the current thread ID
+ * @param getOtelContext - Reads the active OpenTelemetry span context
+ * @returns Mixin function for Pino
+ * @throws {ConfigurationError} If the options are contradictory
+ */
+export function createTelemetryMixin(
+  telemetry: TelemetryOptions | undefined,
+  getCurrentThreadId: () => string,
+  getOtelContext: () => SpanContext | undefined,
+): () => Record<string, unknown> {
+  if (telemetry?.enabled !== true) {
+    return createTraceMixin(getCurrentThreadId);
+  }
+
+  const mode = resolveCorrelationMode(telemetry);
+
+  if (telemetry.contextOptions?.injectTraceContext === false) {
+    return () => ({});
+  }
+
+  if (mode === 'manual') {
+    return createTraceMixin(getCurrentThreadId);
+  }
+
+  const getActiveContext =
+    telemetry.autoInject === true
+      ? getOtelContext
+      : (telemetry.contextOptions?.getActiveContext ?? getOtelContext);
+
+  return createTraceMixin(getCurrentThreadId, getActiveContext);
+}
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Duration timers for loggers
+ *
+ * Provides `startTimer()` and `time()` for stern-logger loggers, measuring
+ * elapsed time with the monotonic `performance.now()` clock and escalating
+ * the level of slow durations.
+ */
+
+import type pino from 'pino';
+
+import type {
+  ChildLogger,
+  EndTimer,
+  SeverityLevel,
+  TimerOptions,
+} from '../types';
+
+const DURATION_PRECISION = 100; // two decimal places
+
+/**
+ * Logger methods the timers log through
+ */
+type LevelLogger = Pick<ChildLogger, SeverityLevel>;
+
+/**
+ * Milliseconds elapsed since a `performance.now()` reading
+ * @param startTime - Start reading
+ * @returns Elapsed milliseconds, rounded to two decimal places
+ */
+export function elapsedMs(startTime: number): number {
+  return (
+    Math.round((performance.now() - startTime) * DURATION_PRECISION) /
+    DURATION_PRECISION
+  );
+}
+
+/**
+ * Log a measured duration at the level its timer options call for
+ * @param logger - Logger to log through
+ * @param options - Timer options
+ * @param fields - Fields to add to the record
+ * @param durationMs - Measured duration
+ * @param msg - Log message
+ */
+function logDuration(
+  logger: LevelLogger,
+  options: TimerOptions,
+  fields: Record<string, unknown>,
+  durationMs: number,
+  msg: string,
+): void {
+  const slow = options.slowMs != null && durationMs >= options.slowMs;
+  const level = slow
+    ? (options.slowLevel ?? 'warn')
+    : (options.level ?? 'info');
+
+  logger[level](
+    { ...fields, duration_ms: durationMs, ...(slow && { slow: true }) },
+    msg,
+  );
+}
+
+/**
+ * Add `startTimer()` and `time()` to a Pino logger
+ *
+ * The methods are set on the instance and log through `this`, so child
+ * loggers (which inherit from their parent) log with their own bindings.
+ *
+ * @param logger - Root logger to add the methods to
+ * @param defaults - Timer options used unless overridden per call
+ *
+ * @example
+ * ```typescript
+ * installTimerMethods(rawLogger, { slowMs: 1000 });
+ * const end = logger.startTimer({ query: 'users' });
+ * await db.query(sql);
+ * end('Query finished'); // { query: 'users', duration_ms: 12.5, msg: 'Query finished' }
+ * ```
+ */
+export function installTimerMethods(
+  logger: pino.Logger | ChildLogger,
+  defaults: TimerOptions = {},
+): void {
+  const methods: Pick<ChildLogger, 'startTimer' | 'time'> = {
+    startTimer(
+      this: LevelLogger,
+      bindings: Record<string, unknown> = {},
+      options?: TimerOptions,
+    ): EndTimer {
+      const settings = { ...defaults, ...options };
+      const startTime = performance.now();
+
+      return (msg, extra) => {
+        const durationMs = elapsedMs(startTime);
+        logDuration(this, settings, { ...bindings, ...extra }, durationMs, msg);
+        return durationMs;
+      };
+    },
+
+    async time<T>(
+      this: LevelLogger,
+      label: string,
+      fn: () => T | Promise<T>,
+      options?: TimerOptions,
+    ): Promise<T> {
+      const settings = { ...defaults, ...options };
+      const startTime = performance.now();
+
+      try {
+        const result = await fn();
+        logDuration(
+          this,
+          settings,
+          { label },
+          elapsedMs(startTime),
+          `${label} completed`,
+        );
+        return result;
+      } catch (error) {
+        this.error(
+          { err: error, label, duration_ms: elapsedMs(startTime) },
+          `${label} failed`,
+        );
+        throw error;
+      }
+    },
+  };
+
+  Object.assign(logger, methods);
+}
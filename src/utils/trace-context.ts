@@ -0,0 +1,386 @@
+/**
+ * @fileoverview W3C Trace Context propagation helpers
+ *
+ * Provides extraction and injection of `traceparent` / `tracestate` headers
+ * following the W3C Trace Context specification. Runtime-agnostic: works
+ * with Fetch API `Headers` and plain header records (Node.js, browsers).
+ *
+ * @see https://www.w3.org/TR/trace-context/
+ */
+
+import type { SpanContext } from '../types';
+
+/**
+ * Header carrier accepted by the propagation helpers.
+ * Fetch API `Headers` or a plain record such as Node's `IncomingHttpHeaders`.
+ */
+export type TraceHeaders =
+  | Headers
+  | Record<string, string | ReadonlyArray<string> | undefined>;
+
+/** traceparent header name */
+export const TRACEPARENT_HEADER = 'traceparent';
+
+/** tracestate header name */
+export const TRACESTATE_HEADER = 'tracestate';
+
+/** Sampled bit of the W3C trace-flags field */
+export const TRACE_FLAG_SAMPLED = 0x01;
+
+/** Maximum number of list-members in tracestate */
+const MAX_TRACESTATE_MEMBERS = 32;
+
+/** List-members longer than this are dropped first when truncating */
+const MAX_TRACESTATE_MEMBER_TRUNCATE_LENGTH = 128;
+
+/** Version this implementation emits */
+const SUPPORTED_VERSION = '00';
+
+/** Reserved, always invalid version */
+const INVALID_VERSION = 'ff';
+
+const HEX_RADIX = 16;
+const TRACE_FLAGS_LENGTH = 2;
+const MAX_TRACE_FLAGS = 0xff;
+
+const VERSION_PATTERN = /^[0-9a-f]{2}$/;
+const TRACE_ID_PATTERN = /^[0-9a-f]{32}$/;
+const SPAN_ID_PATTERN = /^[0-9a-f]{16}$/;
+const TRACE_FLAGS_PATTERN = /^[0-9a-f]{2}$/;
+const TRACE_ID_LENGTH = 32;
+const SPAN_ID_LENGTH = 16;
+const INVALID_TRACE_ID = '0'.repeat(TRACE_ID_LENGTH);
+const INVALID_SPAN_ID = '0'.repeat(SPAN_ID_LENGTH);
+const TRACEPARENT_FIELD_COUNT = 4;
+
+/**
+ * tracestate key: simple key or multi-tenant `tenant@system` key
+ */
+const TRACESTATE_KEY_PATTERN =
+  /^(?:[a-z][_0-9a-z\-*/]{0,255}|[a-z0-9][_0-9a-z\-*/]{0,240}@[a-z][_0-9a-z\-*/]{0,13})$/;
+
+/**
+ * tracestate value: printable ASCII except ',' and '=', no trailing space
+ */
+const TRACESTATE_VALUE_PATTERN =
+  /^[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+
+/**
+ * Read a header value case-insensitively from a carrier
+ * @param headers - Header carrier
+ * @param name - Lowercase header name
+ * @returns Header values (empty when absent)
+ */
+function readHeader(
+  headers: TraceHeaders,
+  name: string,
+): ReadonlyArray<string> {
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    const value = headers.get(name);
+    return value == null ? [] : [value];
+  }
+
+  const record = headers as Record<
+    string,
+    string | ReadonlyArray<string> | undefined
+  >;
+  const values: Array<string> = [];
+  for (const [key, value] of Object.entries(record)) {
+    if (key.toLowerCase() !== name || value == null) {
+      continue;
+    }
+    if (typeof value === 'string') {
+      values.push(value);
+    } else {
+      values.push(...value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Write a header value to a carrier
+ * @param headers - Header carrier
+ * @param name - Lowercase header name
+ * @param value - Header value
+ */
+function writeHeader(headers: TraceHeaders, name: string, value: string): void {
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    headers.set(name, value);
+    return;
+  }
+
+  const record = headers as Record<string, unknown>;
+  for (const key of Object.keys(record)) {
+    if (key.toLowerCase() === name && key !== name) {
+      delete record[key];
+    }
+  }
+  record[name] = value;
+}
+
+/**
+ * Check whether a trace ID is a valid, non-zero W3C trace ID
+ * @param traceId - Trace ID to check
+ * @returns True if valid
+ */
+export function isValidTraceId(traceId: string): boolean {
+  return TRACE_ID_PATTERN.test(traceId) && traceId !== INVALID_TRACE_ID;
+}
+
+/**
+ * Check whether a span ID is a valid, non-zero W3C parent/span ID
+ * @param spanId - Span ID to check
+ * @returns True if valid
+ */
+export function isValidSpanId(spanId: string): boolean {
+  return SPAN_ID_PATTERN.test(spanId) && spanId !== INVALID_SPAN_ID;
+}
+
+/**
+ * Parse trace flags into their numeric value
+ *
+ * Accepts the hex strings produced by this library ('01', '1', '00').
+ *
+ * @param traceFlags - Trace flags as a hex string
+ * @returns Numeric flags (0-255), or undefined if not parseable
+ */
+export function parseTraceFlags(traceFlags?: string): number | undefined {
+  if (traceFlags == null || !/^[0-9a-fA-F]{1,2}$/.test(traceFlags)) {
+    return undefined;
+  }
+  return parseInt(traceFlags, HEX_RADIX);
+}
+
+/**
+ * Check whether a span context has the W3C sampled flag set
+ * @param spanContext - Span context to check
+ * @returns True if the sampled bit is set
+ */
+export function isTraceSampled(spanContext: SpanContext): boolean {
+  const flags = parseTraceFlags(spanContext.traceFlags);
+  return flags != null && (flags & TRACE_FLAG_SAMPLED) === TRACE_FLAG_SAMPLED;
+}
+
+/**
+ * Check a traceparent version against the number of fields present
+ * @param version - Two-character version field
+ * @param fieldCount - Number of '-'-separated fields in the header
+ * @returns True if the version is parseable by this implementation
+ */
+function isSupportedVersion(version: string, fieldCount: number): boolean {
+  if (!VERSION_PATTERN.test(version) || version === INVALID_VERSION) {
+    return false;
+  }
+  return (
+    version !== SUPPORTED_VERSION || fieldCount === TRACEPARENT_FIELD_COUNT
+  );
+}
+
+/**
+ * Parse a single traceparent header value
+ *
+ * Version 00 must be exactly four fields. Higher versions are parsed
+ * forward-compatibly: the first four fields are read and any remainder
+ * must be introduced by '-'.
+ *
+ * @param value - traceparent header value
+ * @returns Parsed span context, or undefined if invalid
+ */
+export function parseTraceparent(value: string): SpanContext | undefined {
+  const parts = value.trim().split('-');
+  const [version, traceId, spanId, traceFlags] = parts;
+
+  if (
+    version == null ||
+    traceId == null ||
+    spanId == null ||
+    traceFlags == null ||
+    !isSupportedVersion(version, parts.length)
+  ) {
+    return undefined;
+  }
+
+  if (
+    !isValidTraceId(traceId) ||
+    !isValidSpanId(spanId) ||
+    !TRACE_FLAGS_PATTERN.test(traceFlags)
+  ) {
+    return undefined;
+  }
+
+  return { traceId, spanId, traceFlags };
+}
+
+/**
+ * Parse and validate a tracestate header value
+ *
+ * Empty list-members are ignored. The whole header is discarded when any
+ * member is malformed, a key is duplicated, or there are more than 32
+ * members.
+ *
+ * @param value - tracestate header value (multiple headers joined by ',')
+ * @returns Normalized tracestate, or undefined if invalid or empty
+ */
+export function parseTracestate(value: string): string | undefined {
+  const members: Array<string> = [];
+  const keys = new Set<string>();
+
+  for (const rawMember of value.split(',')) {
+    const member = rawMember.trim();
+    if (member.length === 0) {
+      continue;
+    }
+
+    const separator = member.indexOf('=');
+    if (separator <= 0) {
+      return undefined;
+    }
+
+    const key = member.slice(0, separator);
+    const memberValue = member.slice(separator + 1);
+    if (
+      !TRACESTATE_KEY_PATTERN.test(key) ||
+      !TRACESTATE_VALUE_PATTERN.test(memberValue) ||
+      keys.has(key)
+    ) {
+      return undefined;
+    }
+
+    keys.add(key);
+    members.push(`${key}=${memberValue}`);
+  }
+
+  if (members.length === 0 || members.length > MAX_TRACESTATE_MEMBERS) {
+    return undefined;
+  }
+
+  return members.join(',');
+}
+
+/**
+ * Truncate tracestate list-members to the W3C limit of 32
+ *
+ * Members longer than 128 characters are removed first, then members are
+ * dropped from the end of the list.
+ *
+ * @param members - tracestate list-members
+ * @returns At most 32 list-members
+ */
+function truncateTracestate(
+  members: ReadonlyArray<string>,
+): ReadonlyArray<string> {
+  if (members.length <= MAX_TRACESTATE_MEMBERS) {
+    return members;
+  }
+
+  const result = [...members];
+  let longIndex = result.findLastIndex(
+    (member) => member.length > MAX_TRACESTATE_MEMBER_TRUNCATE_LENGTH,
+  );
+  while (result.length > MAX_TRACESTATE_MEMBERS && longIndex !== -1) {
+    result.splice(longIndex, 1);
+    longIndex = result.findLastIndex(
+      (member) => member.length > MAX_TRACESTATE_MEMBER_TRUNCATE_LENGTH,
+    );
+  }
+
+  return result.slice(0, MAX_TRACESTATE_MEMBERS);
+}
+
+/**
+ * Extract W3C trace context from incoming request headers
+ *
+ * Returns undefined when `traceparent` is missing, duplicated, or invalid
+ * (bad version, all-zero IDs, malformed fields). `tracestate` is only read
+ * when `traceparent` is valid and is dropped if malformed.
+ *
+ * @param headers - Incoming headers (Fetch `Headers` or a plain record)
+ * @returns Span context for the remote parent, or undefined
+ *
+ * @example
+ * ```typescript
+ * const spanContext = extractTraceContext(req.headers);
+ * if (spanContext) {
+ *   logger.setTraceContext(spanContext);
+ * }
+ * ```
+ */
+export function extractTraceContext(
+  headers: TraceHeaders,
+): SpanContext | undefined {
+  const traceparents = readHeader(headers, TRACEPARENT_HEADER);
+  if (traceparents.length !== 1) {
+    return undefined;
+  }
+
+  const spanContext = parseTraceparent(traceparents[0]!);
+  if (spanContext == null) {
+    return undefined;
+  }
+
+  const tracestates = readHeader(headers, TRACESTATE_HEADER);
+  if (tracestates.length > 0) {
+    const traceState = parseTracestate(tracestates.join(','));
+    if (traceState != null) {
+      spanContext.traceState = traceState;
+    }
+  }
+
+  return spanContext;
+}
+
+/**
+ * Inject W3C trace context into outgoing request headers
+ *
+ * Writes `traceparent` (version 00) and, when present and valid,
+ * `tracestate` truncated to 32 list-members. Invalid span contexts are
+ * not propagated and leave the headers untouched.
+ *
+ * @param headers - Outgoing headers to mutate (Fetch `Headers` or a record)
+ * @param spanContext - Span context to propagate
+ * @returns The same headers object, for chaining
+ *
+ * @example
+ * ```typescript
+ * await fetch('/api/users', {
+ *   headers: injectTraceContext({}, logger.getTraceContext()),
+ * });
+ * ```
+ */
+export function injectTraceContext<T extends TraceHeaders>(
+  headers: T,
+  spanContext: SpanContext | undefined,
+): T {
+  if (
+    spanContext == null ||
+    !isValidTraceId(spanContext.traceId) ||
+    !isValidSpanId(spanContext.spanId)
+  ) {
+    return headers;
+  }
+
+  const flags = parseTraceFlags(spanContext.traceFlags) ?? 0;
+  const traceFlags = (flags & MAX_TRACE_FLAGS)
+    .toString(HEX_RADIX)
+    .padStart(TRACE_FLAGS_LENGTH, '0');
+
+  writeHeader(
+    headers,
+    TRACEPARENT_HEADER,
+    `${SUPPORTED_VERSION}-${spanContext.traceId}-${spanContext.spanId}-${traceFlags}`,
+  );
+
+  if (spanContext.traceState != null && spanContext.traceState.length > 0) {
+    const members = spanContext.traceState
+      .split(',')
+      .map((member) => member.trim())
+      .filter((member) => member.length > 0);
+    const traceState = parseTracestate(truncateTracestate(members).join(','));
+    if (traceState != null) {
+      writeHeader(headers, TRACESTATE_HEADER, traceState);
+    }
+  }
+
+  return headers;
+}
@@ -0,0 +1,414 @@
+/**
+ * @fileoverview Strict validation of log messages and metadata
+ *
+ * Provides the validation stage used when `LoggerOptions.strict` is enabled:
+ * message length, serialized record size, nesting depth and key count
+ * limits, and rejection of non-serializable values, with a configurable
+ * violation policy (truncate, drop, or throw in development).
+ */
+
+import type { ValidationOptions, ValidationPolicy } from '../types';
+import type { LogMethodHook } from './log-pipeline';
+
+import { DEFAULT_VALIDATION_LIMITS } from '../constants';
+import { ValidationError } from './error-handler';
+import { splitLogArgs } from './log-pipeline';
+
+/**
+ * Kinds of validation violations
+ */
+export type ValidationViolationCode =
+  | 'message_length'
+  | 'record_size'
+  | 'depth'
+  | 'key_count'
+  | 'non_serializable'
+  | 'circular';
+
+/**
+ * A single validation violation
+ */
+export interface ValidationViolation {
+  /** Violation kind */
+  readonly code: ValidationViolationCode;
+  /** Location of the offending value ('msg' or a dotted metadata path) */
+  readonly path: string;
+}
+
+/**
+ * Fully resolved validation limits
+ */
+export interface ResolvedValidationOptions {
+  readonly maxMessageLength: number;
+  readonly maxRecordSize: number;
+  readonly maxDepth: number;
+  readonly maxKeys: number;
+  readonly onViolation: ValidationPolicy;
+}
+
+/**
+ * Result of validating a single log record
+ */
+export interface ValidationResult {
+  /** Sanitized metadata (undefined when the call had none) */
+  readonly obj: Record<string, unknown> | undefined;
+  /** Sanitized message (undefined when the call had none) */
+  readonly msg: string | undefined;
+  /** Violations found; empty when the record is valid */
+  readonly violations: ReadonlyArray<ValidationViolation>;
+}
+
+/** Field added to truncated records listing violation codes */
+export const VALIDATION_VIOLATIONS_FIELD = 'validation_violations';
+
+const TRUNCATED_PLACEHOLDER = '[Truncated]';
+const CIRCULAR_PLACEHOLDER = '[Circular]';
+const TRUNCATION_SUFFIX = '…[truncated]';
+
+/**
+ * Resolve validation options against defaults
+ *
+ * @param options - User validation options
+ * @param nodeEnv - Current node environment ('throw' is downgraded in production)
+ * @returns Resolved options
+ */
+// eslint-disable-next-line complexity -- High complexity due to defaulting each optional limit.
+export function resolveValidationOptions(
+  options: ValidationOptions | undefined,
+  nodeEnv: string,
+): ResolvedValidationOptions {
+  const policy = options?.onViolation ?? DEFAULT_VALIDATION_LIMITS.ON_VIOLATION;
+
+  return {
+    maxMessageLength:
+      options?.maxMessageLength ?? DEFAULT_VALIDATION_LIMITS.MAX_MESSAGE_LENGTH,
+    maxRecordSize:
+      options?.maxRecordSize ?? DEFAULT_VALIDATION_LIMITS.MAX_RECORD_SIZE,
+    maxDepth: options?.maxDepth ?? DEFAULT_VALIDATION_LIMITS.MAX_DEPTH,
+    maxKeys: options?.maxKeys ?? DEFAULT_VALIDATION_LIMITS.MAX_KEYS,
+    onViolation:
+      policy === 'throw' && nodeEnv === 'production' ? 'truncate' : policy,
+  };
+}
+
+/**
+ * Check whether a value cannot be represented in JSON
+ * @param value - Value to check
+ * @returns True for functions, symbols and bigints
+ */
+function isNonSerializable(value: unknown): boolean {
+  return (
+    typeof value === 'function' ||
+    typeof value === 'symbol' ||
+    typeof value === 'bigint'
+  );
+}
+
+/**
+ * Placeholder for a non-serializable value
+ * @param value - Function, symbol or bigint
+ * @returns Placeholder string
+ */
+function describeNonSerializable(value: unknown): string {
+  if (typeof value === 'function') {
+    return `[Function${value.name ? `: ${value.name}` : ''}]`;
+  }
+  if (typeof value === 'symbol') {
+    return `[${value.toString()}]`;
+  }
+  return String(value);
+}
+
+/**
+ * Check whether a value is a leaf that serializers handle natively
+ * @param value - Value to check
+ * @returns True for Error, Date, Buffer, typed array and ArrayBuffer instances
+ */
+function isNativeLeaf(value: object): boolean {
+  return (
+    value instanceof Error ||
+    value instanceof Date ||
+    value instanceof ArrayBuffer ||
+    ArrayBuffer.isView(value)
+  );
+}
+
+/**
+ * Recursive walker that sanitizes a metadata tree and collects violations
+ */
+class MetadataSanitizer {
+  public readonly violations: Array<ValidationViolation> = [];
+  private readonly ancestors = new Set<object>();
+
+  constructor(private readonly limits: ResolvedValidationOptions) {}
+
+  /**
+   * Sanitize a value at a given path and depth
+   * @param value - Value to sanitize
+   * @param path - Dotted path of the value
+   * @param depth - Nesting depth of the value (top-level fields are 1)
+   * @returns Sanitized value
+   */
+  public sanitize(value: unknown, path: string, depth: number): unknown {
+    if (isNonSerializable(value)) {
+      this.violations.push({ code: 'non_serializable', path });
+      return describeNonSerializable(value);
+    }
+
+    if (value == null || typeof value !== 'object' || isNativeLeaf(value)) {
+      return value;
+    }
+
+    if (this.ancestors.has(value)) {
+      this.violations.push({ code: 'circular', path });
+      return CIRCULAR_PLACEHOLDER;
+    }
+
+    if (depth > this.limits.maxDepth) {
+      this.violations.push({ code: 'depth', path });
+      return Array.isArray(value) ? '[Array]' : '[Object]';
+    }
+
+    this.ancestors.add(value);
+    const result = Array.isArray(value)
+      ? this.sanitizeArray(value, path, depth)
+      : this.sanitizeObject(value as Record<string, unknown>, path, depth);
+    this.ancestors.delete(value);
+
+    return result;
+  }
+
+  /**
+   * Sanitize array items
+   * @param value - Array to sanitize
+   * @param path - Dotted path of the array
+   * @param depth - Nesting depth of the array
+   * @returns Sanitized array
+   */
+  private sanitizeArray(
+    value: ReadonlyArray<unknown>,
+    path: string,
+    depth: number,
+  ): Array<unknown> {
+    if (value.length > this.limits.maxKeys) {
+      this.violations.push({ code: 'key_count', path });
+    }
+
+    return value
+      .slice(0, this.limits.maxKeys)
+      .map((item, index) => this.sanitize(item, `${path}.${index}`, depth + 1));
+  }
+
+  /**
+   * Sanitize object properties
+   * @param value - Object to sanitize
+   * @param path - Dotted path of the object ('' for the root)
+   * @param depth - Nesting depth of the object
+   * @returns Sanitized object
+   */
+  private sanitizeObject(
+    value: Record<string, unknown>,
+    path: string,
+    depth: number,
+  ): Record<string, unknown> {
+    const keys = Object.keys(value);
+    if (keys.length > this.limits.maxKeys) {
+      this.violations.push({ code: 'key_count', path: path || '<root>' });
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const key of keys.slice(0, this.limits.maxKeys)) {
+      result[key] = this.sanitize(
+        value[key],
+        path ? `${path}.${key}` : key,
+        depth + 1,
+      );
+    }
+    return result;
+  }
+}
+
+/**
+ * Serialized byte size of a value
+ *
+ * Native leaves are not sanitized, so they may still hold circular
+ * references (such as an HTTP client error's `request`) or bigints; those
+ * are measured as their placeholders instead of making JSON.stringify throw.
+ *
+ * @param value - Value to measure
+ * @returns Size in bytes of its JSON representation
+ */
+function serializedSize(value: unknown): number {
+  // Objects on the path from the root to the value being serialized
+  const ancestors: Array<unknown> = [];
+  const json = JSON.stringify(
+    value,
+    function replacer(this: unknown, _key: string, item: unknown): unknown {
+      if (typeof item === 'bigint') {
+        return item.toString();
+      }
+      if (item == null || typeof item !== 'object') {
+        return item;
+      }
+      while (ancestors.length > 0 && ancestors.at(-1) !== this) {
+        ancestors.pop();
+      }
+      if (ancestors.includes(item)) {
+        return CIRCULAR_PLACEHOLDER;
+      }
+      ancestors.push(item);
+      return item;
+    },
+  ) as string | undefined;
+  return Buffer.byteLength(json ?? '', 'utf8');
+}
+
+/**
+ * Shrink a record to fit the size limit by replacing its largest top-level
+ * fields with a placeholder
+ *
+ * @param obj - Sanitized metadata
+ * @param msg - Sanitized message
+ * @param maxRecordSize - Size limit in bytes
+ * @returns Metadata that fits (as far as the message allows)
+ */
+function shrinkToSize(
+  obj: Record<string, unknown>,
+  msg: string | undefined,
+  maxRecordSize: number,
+): Record<string, unknown> {
+  const result = { ...obj };
+  const bySize = Object.keys(result)
+    .map((key) => ({ key, size: serializedSize(result[key]) }))
+    .sort((a, b) => b.size - a.size);
+
+  for (const { key } of bySize) {
+    if (serializedSize({ ...result, msg }) <= maxRecordSize) {
+      break;
+    }
+    result[key] = TRUNCATED_PLACEHOLDER;
+  }
+
+  return result;
+}
+
+/**
+ * Validate and sanitize a log record against limits
+ *
+ * @param obj - Metadata object passed to the log call
+ * @param msg - Message passed to the log call
+ * @param limits - Resolved validation limits
+ * @returns Sanitized record and the violations found
+ *
+ * @example
+ * ```typescript
+ * const result = validateLogRecord({ fn: () => 1 }, 'hello', limits);
+ * // result.obj = { fn: '[Function: fn]' }
+ * // result.violations = [{ code: 'non_serializable', path: 'fn' }]
+ * ```
+ */
+export function validateLogRecord(
+  obj: Record<string, unknown> | undefined,
+  msg: string | undefined,
+  limits: ResolvedValidationOptions,
+): ValidationResult {
+  const sanitizer = new MetadataSanitizer(limits);
+  let sanitizedObj =
+    obj == null
+      ? undefined
+      : (sanitizer.sanitize(obj, '', 0) as Record<string, unknown>);
+  let sanitizedMsg = msg;
+
+  if (msg != null && msg.length > limits.maxMessageLength) {
+    sanitizer.violations.push({ code: 'message_length', path: 'msg' });
+    sanitizedMsg = `${msg.slice(0, limits.maxMessageLength)}${TRUNCATION_SUFFIX}`;
+  }
+
+  if (
+    serializedSize({ ...sanitizedObj, msg: sanitizedMsg }) >
+    limits.maxRecordSize
+  ) {
+    sanitizer.violations.push({ code: 'record_size', path: '<root>' });
+    if (sanitizedObj != null) {
+      sanitizedObj = shrinkToSize(
+        sanitizedObj,
+        sanitizedMsg,
+        limits.maxRecordSize,
+      );
+    }
+  }
+
+  return {
+    obj: sanitizedObj,
+    msg: sanitizedMsg,
+    violations: sanitizer.violations,
+  };
+}
+
+/**
+ * Format violations for error messages
+ * @param violations - Violations to format
+ * @returns Human-readable list
+ */
+function formatViolations(
+  violations: ReadonlyArray<ValidationViolation>,
+): string {
+  return violations.map((v) => `${v.code} at ${v.path}`).join(', ');
+}
+
+/**
+ * Creates the strict validation stage for the log method pipeline
+ *
+ * @param options - Validation options
+ * @param nodeEnv - Current node environment
+ * @returns Log method hook applying the configured policy
+ */
+export function createValidationHook(
+  options: ValidationOptions | undefined,
+  nodeEnv: string,
+): LogMethodHook {
+  const limits = resolveValidationOptions(options, nodeEnv);
+
+  return function validationHook(args, method): void {
+    const { obj, msg, msgIndex } = splitLogArgs(args);
+    const result = validateLogRecord(obj, msg, limits);
+
+    if (result.violations.length === 0) {
+      Reflect.apply(method, this, args);
+      return;
+    }
+
+    if (limits.onViolation === 'drop') {
+      return;
+    }
+
+    if (limits.onViolation === 'throw') {
+      throw new ValidationError(
+        `Log record failed validation: ${formatViolations(result.violations)}`,
+        result.violations.map((v) => v.code),
+      );
+    }
+
+    const fields = {
+      ...result.obj,
+      [VALIDATION_VIOLATIONS_FIELD]: [
+        ...new Set(result.violations.map((v) => v.code)),
+      ],
+    };
+
+    // Message-only call: promote to (fields, msg, ...interpolation args)
+    if (msgIndex === 0) {
+      Reflect.apply(method, this, [fields, result.msg, ...args.slice(1)]);
+      return;
+    }
+
+    const nextArgs = [...args];
+    if (obj != null) {
+      nextArgs[0] = fields;
+    }
+    if (result.msg != null) {
+      nextArgs[1] = result.msg;
+    }
+    Reflect.apply(method, this, nextArgs);
+  };
+}
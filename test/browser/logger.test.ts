@@ -0,0 +1,66 @@
+/**
+ * Tests for the browser logger
+ *
+ * Validates level filtering and custom levels, including console mapping
+ * and inheritance by child loggers.
+ */
+
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+
+import { initBrowserLogger } from '../../src/browser/logger';
+import { ConfigurationError } from '../../src/utils/error-handler';
+
+describe('Browser Logger', () => {
+  let lines: Array<[string, string]>;
+  let spies: Array<{ mockRestore: () => void }>;
+
+  beforeEach(() => {
+    lines = [];
+    spies = (['debug', 'info', 'warn', 'error'] as const).map((method) =>
+      spyOn(console, method).mockImplementation((line: string) => {
+        lines.push([method, line]);
+      }),
+    );
+  });
+
+  afterEach(() => {
+    for (const spy of spies) {
+      spy.mockRestore();
+    }
+  });
+
+  test('should filter records below the level', () => {
+    const logger = initBrowserLogger({ level: 'warn' });
+
+    logger.info('hidden');
+    logger.warn({ retry: 1 }, 'shown');
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]?.[0]).toBe('warn');
+    expect(lines[0]?.[1]).toContain('[WARN] shown {"retry":1}');
+  });
+
+  test('should add methods for custom levels', () => {
+    const logger = initBrowserLogger({
+      level: 'notice',
+      customLevels: { notice: 35, audit: 70 },
+    });
+
+    logger.info('hidden');
+    logger.notice('Settings saved');
+    logger.child({ userId: 'u-1' }).audit('Consent given');
+
+    expect(lines.map(([method]) => method)).toEqual(['info', 'error']);
+    expect(lines[0]?.[1]).toContain('[NOTICE] Settings saved');
+    expect(lines[1]?.[1]).toContain('[AUDIT] Consent given {"userId":"u-1"}');
+  });
+
+  test('should reject custom levels that shadow logger members', () => {
+    expect(() => initBrowserLogger({ customLevels: { flush: 35 } })).toThrow(
+      ConfigurationError,
+    );
+    expect(() => initBrowserLogger({ customLevels: { audit: 0 } })).toThrow(
+      ConfigurationError,
+    );
+  });
+});
@@ -7,13 +7,21 @@
 import { describe, expect, test } from 'bun:test';
 
 import {
+  DEFAULT_AUDIT_LOG_OPTIONS,
+  DEFAULT_DEDUP_OPTIONS,
+  DEFAULT_HTTP_LOGGING_OPTIONS,
+  DEFAULT_LOG_BUFFER_OPTIONS,
   DEFAULT_LOG_DIRECTORY,
   DEFAULT_LOG_LEVEL,
   DEFAULT_NODE_ENV,
+  DEFAULT_RATE_LIMIT_OPTIONS,
   DEFAULT_REDACT_PATHS,
+  DEFAULT_RETENTION_OPTIONS,
   DEFAULT_ROTATION_OPTIONS,
   DEFAULT_SERVICE_NAME,
+  DEFAULT_SHUTDOWN_TIMEOUT_MS,
   DEFAULT_TELEMETRY_OPTIONS,
+  DEFAULT_VALIDATION_LIMITS,
 } from '../src/constants';
 
 // Test constants
@@ -153,6 +161,87 @@ describe('Constants', () => {
     });
   });
 
+  describe('DEFAULT_VALIDATION_LIMITS', () => {
+    test('should have positive numeric limits', () => {
+      expect(DEFAULT_VALIDATION_LIMITS.MAX_MESSAGE_LENGTH).toBe(10000);
+      expect(DEFAULT_VALIDATION_LIMITS.MAX_RECORD_SIZE).toBe(262144);
+      expect(DEFAULT_VALIDATION_LIMITS.MAX_DEPTH).toBe(10);
+      expect(DEFAULT_VALIDATION_LIMITS.MAX_KEYS).toBe(200);
+    });
+
+    test('should default to the truncate policy', () => {
+      expect(DEFAULT_VALIDATION_LIMITS.ON_VIOLATION).toBe('truncate');
+    });
+  });
+
+  describe('DEFAULT_DEDUP_OPTIONS', () => {
+    test('should hold repeats for 10 seconds', () => {
+      expect(DEFAULT_DEDUP_OPTIONS.WINDOW_MS).toBe(10000);
+    });
+
+    test('should not collapse errors or fatals', () => {
+      expect(DEFAULT_DEDUP_OPTIONS.LEVELS).not.toContain('error');
+      expect(DEFAULT_DEDUP_OPTIONS.LEVELS).not.toContain('fatal');
+    });
+  });
+
+  describe('DEFAULT_HTTP_LOGGING_OPTIONS', () => {
+    test('should use the x-request-id header', () => {
+      expect(DEFAULT_HTTP_LOGGING_OPTIONS.REQUEST_ID_HEADER).toBe(
+        'x-request-id',
+      );
+    });
+
+    test('should redact credential headers', () => {
+      expect(DEFAULT_HTTP_LOGGING_OPTIONS.REDACT_HEADERS).toContain(
+        'authorization',
+      );
+      expect(DEFAULT_HTTP_LOGGING_OPTIONS.REDACT_HEADERS).toContain('cookie');
+    });
+  });
+
+  describe('DEFAULT_LOG_BUFFER_OPTIONS', () => {
+    test('should buffer trace and debug until an error', () => {
+      expect(DEFAULT_LOG_BUFFER_OPTIONS.LEVEL).toBe('info');
+      expect(DEFAULT_LOG_BUFFER_OPTIONS.FLUSH_ON).toBe('error');
+    });
+
+    test('should cap the records held per scope', () => {
+      expect(DEFAULT_LOG_BUFFER_OPTIONS.MAX_RECORDS).toBe(1000);
+    });
+  });
+
+  describe('DEFAULT_RATE_LIMIT_OPTIONS', () => {
+    test('should refill buckets over one minute', () => {
+      expect(DEFAULT_RATE_LIMIT_OPTIONS.INTERVAL_MS).toBe(60000);
+    });
+
+    test('should cap the number of tracked buckets', () => {
+      expect(DEFAULT_RATE_LIMIT_OPTIONS.MAX_BUCKETS).toBeGreaterThan(0);
+    });
+  });
+
+  describe('DEFAULT_RETENTION_OPTIONS', () => {
+    test('should check rotated files every minute', () => {
+      expect(DEFAULT_RETENTION_OPTIONS.CHECK_INTERVAL_MS).toBe(60000);
+    });
+  });
+
+  describe('DEFAULT_AUDIT_LOG_OPTIONS', () => {
+    test('should write audit.log and rotate it like the app log', () => {
+      expect(DEFAULT_AUDIT_LOG_OPTIONS.FILE_NAME).toBe('audit.log');
+      expect(DEFAULT_AUDIT_LOG_OPTIONS.MAX_SIZE).toBe(
+        DEFAULT_ROTATION_OPTIONS.MAX_SIZE,
+      );
+    });
+  });
+
+  describe('DEFAULT_SHUTDOWN_TIMEOUT_MS', () => {
+    test('should be 5 seconds', () => {
+      expect(DEFAULT_SHUTDOWN_TIMEOUT_MS).toBe(5000);
+    });
+  });
+
   describe('Integration Tests', () => {
     test('all constants should be defined', () => {
       expect(DEFAULT_LOG_LEVEL).toBeDefined();
@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Shared test fixture that captures log output
+ *
+ * Creates Pino loggers writing to an in-memory destination, so tests can
+ * assert on the parsed records.
+ */
+
+import pino from 'pino';
+
+/**
+ * Log method hook option of Pino loggers
+ */
+export type LogMethodOption = NonNullable<
+  pino.LoggerOptions['hooks']
+>['logMethod'];
+
+/**
+ * Logger writing to memory, with the records it wrote
+ */
+export interface CapturingLogger {
+  logger: pino.Logger;
+  records: Array<Record<string, unknown>>;
+}
+
+/**
+ * Creates a Pino logger that records parsed log lines in memory
+ * @param options - Pino options (level, mixin, hooks, ...)
+ * @returns Logger and captured records
+ */
+export function createCapturingLogger(
+  options: pino.LoggerOptions = {},
+): CapturingLogger {
+  const records: Array<Record<string, unknown>> = [];
+  const logger = pino(options, {
+    write(line: string): void {
+      records.push(JSON.parse(line) as Record<string, unknown>);
+    },
+  });
+  return { logger, records };
+}
@@ -5,23 +5,51 @@
  * telemetry integration, and error handling.
  */
 
-import type { LoggerOptions, SpanContext } from '../src/types';
+import type {
+  ChildLogger,
+  CustomLevelLogger,
+  Logger,
+  LoggerOptions,
+  SpanContext,
+  TypedChildLogger,
+} from '../src/types';
 
-import { existsSync, mkdirSync, rmSync } from 'node:fs';
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+} from 'node:fs';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 
-import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from 'bun:test';
 
 import {
   baseLogger,
   createComponentLogger,
+  getLogLevel,
   getNamespaceConfig,
   initLogger,
   initLoggerWithNamespaces,
+  setLogLevel,
   setNamespaceConfig,
+  shutdownLogger,
 } from '../src/logger';
+import { ConfigurationError } from '../src/utils/error-handler';
+import { verifyLogRecord } from '../src/utils/integrity';
+import { runWithLogBuffer } from '../src/utils/log-buffer';
 import { clearNamespaceCache } from '../src/utils/namespace_filter';
+import { isLowDiskSpace, stopLogRetention } from '../src/utils/retention';
+import { runWithTraceContext } from '../src/utils/telemetry';
 
 // Test constants
 const TEST_DIR_PREFIX = 'stern-logger-logger-test-';
@@ -423,6 +451,38 @@ describe('Logger Module', () => {
         expect(logger.getTraceContext()).toBeUndefined();
       });
 
+      test('should isolate trace context between concurrent async contexts', async () => {
+        const logger = await initLogger();
+
+        const handleRequest = async (
+          traceId: string,
+          delayMs: number,
+        ): Promise<string | undefined> => {
+          logger.setTraceContext({ traceId, spanId: `${traceId}-span` });
+          await new Promise((resolve) => setTimeout(resolve, delayMs));
+          return logger.getTraceContext()?.traceId;
+        };
+
+        const results = await Promise.all([
+          (async () => handleRequest('trace-a', 20))(),
+          (async () => handleRequest('trace-b', 5))(),
+        ]);
+
+        expect(results).toEqual(['trace-a', 'trace-b']);
+      });
+
+      test('should reject contradictory telemetry options without failOnError', async () => {
+        await expect(
+          initLogger({
+            telemetry: {
+              enabled: true,
+              autoInject: true,
+              contextOptions: { injectTraceContext: false },
+            },
+          }),
+        ).rejects.toThrow(ConfigurationError);
+      });
+
       test('should work with telemetry disabled', async () => {
         const logger = await initLogger({
           telemetry: {
@@ -516,6 +576,23 @@ describe('Logger Module', () => {
           await initLogger({ logDir: '\0invalid' });
         }).not.toThrow();
       });
+
+      test('should throw aggregated issues with failOnError', async () => {
+        const promise = initLogger({
+          failOnError: true,
+          level: 'verbose',
+          fileRotationOptions: { maxSize: '10 MB' },
+        });
+
+        await expect(promise).rejects.toThrow(ConfigurationError);
+        await expect(promise).rejects.toThrow('2 issues');
+      });
+
+      test('should rethrow initialization errors with failOnError', async () => {
+        await expect(
+          initLogger({ failOnError: true, logDir: '\0invalid' }),
+        ).rejects.toThrow(ConfigurationError);
+      });
     });
 
     describe('Integration Tests', () => {
@@ -1022,6 +1099,83 @@ describe('Logger Module', () => {
 
       expect(typeof logger.child).toBe('function');
     });
+
+    test('should type metadata and child bindings', () => {
+      const logger = createComponentLogger({ component: 'orders', retries: 3 });
+      const child = logger.child({ orderId: 'o-1', retries: 'none' });
+
+      const bindings = child.bindings();
+      const orderId: string = bindings.orderId;
+      const retries: string = bindings.retries;
+      const component: string = logger.bindings().component;
+      // @ts-expect-error - Not a binding of this logger
+      expect(logger.bindings().orderId).toBeUndefined();
+
+      expect({ orderId, retries, component }).toEqual({
+        orderId: 'o-1',
+        retries: 'none',
+        component: 'orders',
+      });
+    });
+
+    test('should constrain log fields through ChildLogger', () => {
+      type OrderFields = { orderId: string; total?: number };
+      const logger: ChildLogger<
+        { component: string; namespace: string },
+        OrderFields
+      > = createComponentLogger({ component: 'orders' });
+      const child = logger.child({ region: 'eu' });
+
+      expect(() => {
+        logger.info({ orderId: 'o-1', total: 5 }, 'Order created');
+        // @ts-expect-error - Misspelled field
+        logger.info({ orderID: 'o-1' }, 'Order created');
+        child.warn({ orderId: 'o-1' }, 'Order delayed');
+      }).not.toThrow();
+      expect(child.bindings?.()).toMatchObject({
+        component: 'orders',
+        namespace: 'orders',
+        region: 'eu',
+      });
+    });
+
+    test('should type bindings through TypedChildLogger', () => {
+      const logger: TypedChildLogger<{ component: string }> =
+        createComponentLogger({ component: 'calls' });
+      const callId: string = logger.child({ callId: 'c-1' }).bindings().callId;
+
+      expect(callId).toBe('c-1');
+      expect(logger.bindings().component).toBe('calls');
+    });
+
+    test('should accept ChildLogger implementations without bindings or timers', () => {
+      const logFn = (): void => undefined;
+      const mock: ChildLogger = {
+        fatal: logFn,
+        error: logFn,
+        warn: logFn,
+        info: logFn,
+        debug: logFn,
+        trace: logFn,
+        child: () => mock as never,
+      };
+
+      expect(mock.bindings?.()).toBeUndefined();
+      expect(mock.startTimer).toBeUndefined();
+      expect(mock.time).toBeUndefined();
+    });
+
+    test('should report bindings of disabled component loggers', () => {
+      setNamespaceConfig('http:*');
+      const logger = createComponentLogger({ component: 'orders' });
+
+      expect(logger.child({ orderId: 'o-1' }).bindings()).toMatchObject({
+        service: 'app',
+        component: 'orders',
+        namespace: 'orders',
+        orderId: 'o-1',
+      });
+    });
   });
 
   describe('Namespace Filtering Integration', () => {
@@ -1110,4 +1264,773 @@ describe('Logger Module', () => {
       expect(dbLogger).toBeDefined();
     });
   });
+
+  describe('Runtime Reconfiguration', () => {
+    beforeEach(async () => {
+      await initLogger({ level: 'info', namespaces: '*' });
+    });
+
+    afterEach(() => {
+      clearNamespaceCache();
+    });
+
+    test('should enable an existing logger when its namespace is enabled', () => {
+      setNamespaceConfig('voice:*');
+      const logger = createComponentLogger({
+        component: 'http',
+        operation: 'request',
+      });
+      expect(logger.level).toBe('silent');
+
+      setNamespaceConfig('http:*');
+
+      expect(logger.level).toBe('info');
+      expect(logger.isLevelEnabled('info')).toBe(true);
+    });
+
+    test('should silence an existing logger when its namespace is disabled', () => {
+      const logger = createComponentLogger({ component: 'voice' });
+      expect(logger.level).toBe('info');
+
+      setNamespaceConfig('http:*');
+
+      expect(logger.level).toBe('silent');
+      expect(() => logger.info('discarded')).not.toThrow();
+    });
+
+    test('should propagate level changes to existing loggers and children', () => {
+      const logger = createComponentLogger({ component: 'voice' });
+      const child = logger.child({ callId: 'c-1' });
+      expect(child.isLevelEnabled('debug')).toBe(false);
+
+      setLogLevel('debug');
+
+      expect(getLogLevel()).toBe('debug');
+      expect(logger.level).toBe('debug');
+      expect(child.isLevelEnabled('debug')).toBe(true);
+    });
+
+    test('should keep a level set directly on a component logger', () => {
+      const logger = createComponentLogger({ component: 'voice' });
+      logger.level = 'warn';
+
+      setLogLevel('debug');
+
+      expect(logger.level).toBe('warn');
+    });
+
+    test('should keep a level set on a disabled logger to that logger', () => {
+      setNamespaceConfig('voice:*');
+      const http = createComponentLogger({ component: 'http' });
+      const db = createComponentLogger({ component: 'db' });
+
+      http.level = 'debug';
+
+      expect(http.level).toBe('silent');
+      expect(db.level).toBe('silent');
+      expect(() => {
+        http.level = 'verbose';
+      }).toThrow(ConfigurationError);
+
+      setNamespaceConfig('http,db');
+
+      expect(http.level).toBe('debug');
+      expect(db.level).toBe('info');
+    });
+
+    test('should follow a re-initialized logger', async () => {
+      const logger = createComponentLogger({ component: 'voice' });
+
+      await initLogger({ level: 'error' });
+
+      expect(logger.level).toBe('error');
+    });
+
+    test('should apply per-namespace levels to component loggers', () => {
+      setNamespaceConfig('voice:*=debug,http:*=warn,*=info');
+
+      const voice = createComponentLogger({
+        component: 'voice',
+        layer: 'service',
+      });
+      const http = createComponentLogger({
+        component: 'http',
+        operation: 'request',
+      });
+      const db = createComponentLogger({ component: 'db', layer: 'query' });
+
+      expect(voice.level).toBe('debug');
+      expect(voice.child({ callId: 'c-1' }).level).toBe('debug');
+      expect(http.level).toBe('warn');
+      expect(db.level).toBe('info');
+    });
+
+    test('should keep per-namespace levels across setLogLevel', () => {
+      setNamespaceConfig('voice:*=debug,*');
+      const voice = createComponentLogger({
+        component: 'voice',
+        layer: 'service',
+      });
+      const http = createComponentLogger({
+        component: 'http',
+        operation: 'request',
+      });
+
+      setLogLevel('error');
+
+      expect(voice.level).toBe('debug');
+      expect(http.level).toBe('error');
+    });
+
+    test('should reject unknown per-namespace levels', () => {
+      expect(() => setNamespaceConfig('voice:*=verbose')).toThrow(
+        'Unknown log level "verbose"',
+      );
+      expect(getNamespaceConfig().patterns).toBe('*');
+    });
+
+    test('should silence existing loggers matched by an exclusion', () => {
+      const logger = createComponentLogger({
+        component: 'http',
+        operation: 'healthcheck',
+      });
+
+      setNamespaceConfig('*,-http:healthcheck');
+
+      expect(logger.level).toBe('silent');
+    });
+
+    test('should reject unknown levels', () => {
+      expect(() => setLogLevel('verbose')).toThrow('Unknown log level');
+      expect(getLogLevel()).toBe('info');
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    let messages: Array<unknown>;
+
+    /**
+     * Logger options that record every message reaching Pino
+     * @param options - Additional logger options
+     * @returns Logger options with a capturing logMethod hook
+     */
+    function capturing(
+      options: Partial<LoggerOptions>,
+    ): Partial<LoggerOptions> {
+      return {
+        ...options,
+        strict: false,
+        pinoOptions: {
+          hooks: {
+            logMethod(args, method): void {
+              messages.push(args.find((arg) => typeof arg === 'string'));
+              method.apply(this, args);
+            },
+          },
+        },
+      };
+    }
+
+    beforeEach(() => {
+      messages = [];
+    });
+
+    afterEach(async () => {
+      await initLogger({ level: 'info' });
+    });
+
+    test('should rate limit every log call with the rateLimit option', async () => {
+      const logger = await initLogger(capturing({ rateLimit: { limit: 2 } }));
+      const component = createComponentLogger({ component: 'voice' });
+
+      logger.info('one');
+      component.info('two');
+      logger.info('three');
+      component.warn('four');
+
+      expect(messages).toEqual(['one', 'two', 'four']);
+    });
+
+    test('should rate limit a component logger and its children', async () => {
+      await initLogger(capturing({}));
+      const logger = createComponentLogger(
+        { component: 'queue', operation: 'poll' },
+        { rateLimit: { limit: 1 } },
+      );
+      const child = logger.child({ jobId: 'job-1' });
+
+      logger.info('polled');
+      child.info('polled again');
+      createComponentLogger({ component: 'queue' }).info('unlimited');
+
+      expect(messages).toEqual(['polled', 'unlimited']);
+    });
+
+    test('should reject invalid rate limit options with failOnError', async () => {
+      await expect(
+        initLogger({ rateLimit: { limit: 0 }, failOnError: true }),
+      ).rejects.toThrow('rateLimit.limit');
+    });
+  });
+
+  describe('Duplicate Collapsing', () => {
+    let messages: Array<unknown>;
+
+    /**
+     * Logger options that record every merge object reaching Pino
+     * @param options - Additional logger options
+     * @returns Logger options with a capturing logMethod hook
+     */
+    function capturing(
+      options: Partial<LoggerOptions>,
+    ): Partial<LoggerOptions> {
+      return {
+        ...options,
+        strict: false,
+        pinoOptions: {
+          hooks: {
+            logMethod(args, method): void {
+              messages.push(args[0]);
+              method.apply(this, args);
+            },
+          },
+        },
+      };
+    }
+
+    beforeEach(() => {
+      messages = [];
+    });
+
+    afterEach(async () => {
+      await initLogger({ level: 'info' });
+    });
+
+    test('should collapse repeats from component logger children', async () => {
+      await initLogger(capturing({ dedup: { windowMs: 50 } }));
+      const worker = createComponentLogger({ component: 'worker' });
+
+      for (let i = 0; i < 5; i++) {
+        worker.child({ attempt: i }).warn({ jobId: 'job-1' }, 'Retrying');
+      }
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      expect(messages).toHaveLength(2);
+      expect(messages[1]).toMatchObject({ jobId: 'job-1', repeat_count: 4 });
+    });
+
+    test('should collapse repeats for a single component logger', async () => {
+      await initLogger(capturing({}));
+      const worker = createComponentLogger(
+        { component: 'worker' },
+        { dedup: { windowMs: 50 } },
+      );
+
+      worker.info({ n: 1 }, 'Polling');
+      worker.info({ n: 2 }, 'Polling');
+      createComponentLogger({ component: 'worker' }).info({ n: 3 }, 'Polling');
+
+      expect(messages).toEqual([{ n: 1 }, { n: 3 }]);
+    });
+  });
+
+  describe('Sampling', () => {
+    let messages: Array<unknown>;
+
+    /**
+     * Logger options that record every message reaching Pino
+     * @param options - Additional logger options
+     * @returns Logger options with a capturing logMethod hook
+     */
+    function capturing(
+      options: Partial<LoggerOptions>,
+    ): Partial<LoggerOptions> {
+      return {
+        ...options,
+        level: 'debug',
+        strict: false,
+        pinoOptions: {
+          hooks: {
+            logMethod(args, method): void {
+              messages.push(args.at(-1));
+              method.apply(this, args);
+            },
+          },
+        },
+      };
+    }
+
+    beforeEach(() => {
+      messages = [];
+    });
+
+    afterEach(async () => {
+      await initLogger({ level: 'info' });
+    });
+
+    test('should drop sampled-out levels but keep errors', async () => {
+      const logger = await initLogger(
+        capturing({ sampling: { rates: { debug: 0, info: 0, error: 0 } } }),
+      );
+
+      logger.debug('debug');
+      logger.info('info');
+      logger.warn('warn');
+      logger.error('error');
+
+      expect(messages).toEqual(['warn', 'error']);
+    });
+
+    test('should apply namespace overrides to component loggers', async () => {
+      await initLogger(
+        capturing({
+          sampling: {
+            rates: { info: 0 },
+            namespaces: { 'payments:*': { info: 1 } },
+          },
+        }),
+      );
+
+      createComponentLogger({
+        component: 'payments',
+        operation: 'charge',
+      }).info('kept');
+      createComponentLogger({
+        component: 'http',
+        operation: 'request',
+      }).info('dropped');
+
+      expect(messages).toEqual(['kept']);
+    });
+
+    test('should follow the sampled flag of the trace context', async () => {
+      const logger = await initLogger(
+        capturing({ sampling: { mode: 'trace-flags' } }),
+      );
+      const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+
+      logger
+        .child({ trace_id: traceId, trace_flags: '00' })
+        .info('not sampled');
+      logger.child({ trace_id: traceId, trace_flags: '01' }).info('sampled');
+
+      expect(messages).toEqual(['sampled']);
+    });
+  });
+
+  describe('Tail Buffering', () => {
+    let messages: Array<unknown>;
+
+    beforeEach(() => {
+      messages = [];
+    });
+
+    afterEach(async () => {
+      await initLogger({ level: 'info' });
+    });
+
+    test('should flush component logger debug records with trace fields', async () => {
+      await initLogger({
+        level: 'debug',
+        strict: false,
+        pinoOptions: {
+          hooks: {
+            logMethod(args, method): void {
+              messages.push(args[0]);
+              method.apply(this, args);
+            },
+          },
+        },
+      });
+      const orders = createComponentLogger({
+        component: 'orders',
+        operation: 'load',
+      });
+      const traceContext: SpanContext = {
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        spanId: '00f067aa0ba902b7',
+      };
+
+      runWithLogBuffer(() => orders.debug({ step: 1 }, 'discarded'));
+      runWithTraceContext(traceContext, () =>
+        runWithLogBuffer(() => {
+          orders.debug({ step: 1 }, 'loading');
+          orders.error({ step: 2 }, 'failed');
+        }),
+      );
+
+      expect(messages).toHaveLength(2);
+      expect(messages[0]).toMatchObject({
+        step: 1,
+        trace_id: traceContext.traceId,
+      });
+      expect(messages[1]).toEqual({ step: 2 });
+    });
+  });
+
+  describe('Duration Timers', () => {
+    let messages: Array<unknown>;
+
+    beforeEach(() => {
+      messages = [];
+    });
+
+    afterEach(async () => {
+      await initLogger({ level: 'info' });
+    });
+
+    /**
+     * Initialize a logger that records the first log argument
+     * @param options - Additional logger options
+     * @returns The initialized logger
+     */
+    async function initCapturingLogger(
+      options: LoggerOptions,
+    ): Promise<Logger> {
+      return initLogger({
+        level: 'debug',
+        strict: false,
+        ...options,
+        pinoOptions: {
+          hooks: {
+            logMethod(args, method): void {
+              messages.push(args[0]);
+              method.apply(this, args);
+            },
+          },
+        },
+      });
+    }
+
+    test('should apply the configured slow threshold', async () => {
+      const logger = await initCapturingLogger({ timers: { slowMs: 0 } });
+
+      const durationMs = logger.startTimer({ query: 'users' })('Query');
+
+      expect(messages[0]).toEqual({
+        query: 'users',
+        duration_ms: durationMs,
+        slow: true,
+      });
+    });
+
+    test('should time through component loggers', async () => {
+      await initCapturingLogger({});
+      const orders = createComponentLogger({
+        component: 'orders',
+        operation: 'load',
+      });
+
+      const result = await orders.time('load orders', () => 'loaded');
+      orders.child({ batch: 2 }).startTimer()('Batch loaded');
+
+      expect(result).toBe('loaded');
+      expect(messages[0]).toMatchObject({ label: 'load orders' });
+      expect(messages[1]).toMatchObject({ duration_ms: expect.any(Number) });
+    });
+
+    test('should skip timers filtered out by namespace', async () => {
+      await initCapturingLogger({ namespaces: '-orders:*' });
+      const orders = createComponentLogger({
+        component: 'orders',
+        operation: 'load',
+      });
+
+      const result = await orders.time('load orders', () => 'loaded');
+
+      expect(result).toBe('loaded');
+      expect(messages).toHaveLength(0);
+    });
+  });
+
+  describe('Custom Levels', () => {
+    let levels: Array<number>;
+
+    beforeEach(() => {
+      levels = [];
+      clearNamespaceCache();
+    });
+
+    afterEach(async () => {
+      await initLogger({ level: 'info', namespaces: '*' });
+    });
+
+    /**
+     * Initialize a logger with `notice` and `audit` levels that records the
+     * level of each log call
+     * @param options - Additional logger options
+     * @returns The initialized logger
+     */
+    async function initCustomLevelLogger(
+      options: Partial<LoggerOptions<'notice' | 'audit'>>,
+    ): Promise<CustomLevelLogger<'notice' | 'audit'>> {
+      return initLogger({
+        strict: false,
+        ...options,
+        customLevels: { notice: 35, audit: 70 },
+        pinoOptions: {
+          hooks: {
+            logMethod(args, method, level): void {
+              levels.push(level);
+              method.apply(this, args);
+            },
+          },
+        },
+      });
+    }
+
+    test('should add a method per custom level and filter by its value', async () => {
+      const logger = await initCustomLevelLogger({ level: 'notice' });
+
+      logger.info('Filtered');
+      logger.notice('Quota at 80%');
+      logger.audit({ actor: 'u-1' }, 'Role granted');
+
+      expect(levels).toEqual([35, 70]);
+      expect(logger.levels.values.audit).toBe(70);
+    });
+
+    test('should accept custom levels at runtime and per namespace', async () => {
+      await initCustomLevelLogger({
+        level: 'info',
+        namespaces: 'orders:*=notice',
+      });
+      const orders = createComponentLogger<
+        { component: string; operation: string },
+        'notice'
+      >({ component: 'orders', operation: 'checkout' });
+
+      orders.info('Filtered');
+      orders.notice('Order placed');
+      setLogLevel('audit');
+
+      expect(levels).toEqual([35]);
+      expect(getLogLevel()).toBe('audit');
+    });
+
+    test('should discard custom level calls of disabled component loggers', async () => {
+      await initCustomLevelLogger({ level: 'info', namespaces: 'orders:*' });
+      const billing = createComponentLogger<{ component: string }, 'audit'>({
+        component: 'billing',
+      });
+
+      expect(() => billing.audit('Refund issued')).not.toThrow();
+      expect(levels).toEqual([]);
+
+      setNamespaceConfig('billing');
+      billing.audit('Refund issued');
+
+      expect(levels).toEqual([70]);
+    });
+
+    test('should reject unknown namespace levels before creating transports', async () => {
+      const logDir = join(tmpdir(), `stern-logger-namespace-${process.pid}`);
+
+      const logger = await initLogger({
+        logDir,
+        customLevels: { notice: 35 },
+        namespaces: 'orders:*=verbose',
+      });
+
+      expect(logger as Logger).toBe(baseLogger);
+      expect(existsSync(logDir)).toBe(false);
+    });
+  });
+
+  describe('Graceful Shutdown', () => {
+    beforeAll(async () => {
+      // Close the transport workers left open by earlier tests
+      await shutdownLogger({ timeoutMs: 60000 });
+    }, 120000);
+
+    test('should flush file transports before resolving', async () => {
+      const logger = await initLogger({
+        logDir: testLogDir,
+        prettyPrint: false,
+      });
+      logger.info('flushed before exit');
+
+      const report = await shutdownLogger({ timeoutMs: 5000 });
+
+      expect(report.timedOut).toBe(false);
+      expect(report.transports.length).toBeGreaterThan(0);
+      expect(
+        report.transports.every((transport) => transport.status === 'flushed'),
+      ).toBe(true);
+      expect(readFileSync(join(testLogDir, 'app.log'), 'utf8')).toContain(
+        'flushed before exit',
+      );
+    });
+
+    test('should log pending dedup and rate limit summaries before closing transports', async () => {
+      const messages: Array<unknown> = [];
+      const logger = await initLogger({
+        prettyPrint: false,
+        strict: false,
+        dedup: { windowMs: 60000 },
+        rateLimit: { limit: 2, intervalMs: 60000 },
+        pinoOptions: {
+          hooks: {
+            logMethod(args, method): void {
+              messages.push(args.find((arg) => typeof arg === 'string'));
+              method.apply(this, args);
+            },
+          },
+        },
+      });
+
+      logger.warn('retrying');
+      logger.warn('retrying');
+      logger.info('one');
+      logger.info('two');
+      logger.info('three');
+      await shutdownLogger({ timeoutMs: 5000 });
+
+      expect(messages).toEqual([
+        'retrying',
+        'one',
+        'two',
+        'retrying',
+        expect.stringMatching(/^suppressed 1 /),
+      ]);
+    });
+
+    test('should be safe to call twice', async () => {
+      await initLogger({ logDir: testLogDir, prettyPrint: false });
+      await shutdownLogger();
+
+      const report = await shutdownLogger();
+
+      expect(report.transports).toEqual([]);
+      expect(report.telemetryTimerStopped).toBe(false);
+      expect(report.timedOut).toBe(false);
+    });
+  });
+
+  describe('Record Signing', () => {
+    test('should sign every record written to the file transport', async () => {
+      const keys = { k1: 'file-signing-key' };
+      const logger = await initLogger({
+        logDir: testLogDir,
+        prettyPrint: false,
+        integrity: { keyId: 'k1', key: keys.k1 },
+      });
+      logger.info({ userId: 'u-1' }, 'Signed');
+      createComponentLogger({ component: 'orders', operation: 'pay' }).warn(
+        'Signed child',
+      );
+
+      await shutdownLogger({ timeoutMs: 5000 });
+
+      const lines = readFileSync(join(testLogDir, 'app.log'), 'utf8')
+        .trimEnd()
+        .split('\n');
+      expect(lines).toHaveLength(2);
+      for (const line of lines) {
+        expect(verifyLogRecord(line, keys)).toEqual({
+          valid: true,
+          keyId: 'k1',
+        });
+      }
+    });
+  });
+
+  describe('File Routing', () => {
+    test('should write records from a level up to a routed file', async () => {
+      const logger = await initLogger({
+        logDir: testLogDir,
+        prettyPrint: false,
+        defaultService: 'orders-api',
+        files: [{ filename: '{service}-error.log', level: 'warn' }],
+      });
+      logger.info('Order placed');
+      logger.warn('Payment retried');
+
+      await shutdownLogger({ timeoutMs: 5000 });
+
+      const routed = readFileSync(
+        join(testLogDir, 'orders-api-error.log'),
+        'utf8',
+      );
+      expect(routed).toContain('Payment retried');
+      expect(routed).not.toContain('Order placed');
+      expect(readFileSync(join(testLogDir, 'app.log'), 'utf8')).toContain(
+        'Order placed',
+      );
+    });
+
+    test('should reject a routed file the logger writes itself', async () => {
+      await expect(
+        initLogger({
+          logDir: testLogDir,
+          prettyPrint: false,
+          failOnError: true,
+          files: [{ filename: 'app.log', level: 'error' }],
+        }),
+      ).rejects.toThrow(ConfigurationError);
+    });
+  });
+
+  describe('File Retention', () => {
+    test('should sweep rotated files while the logger is configured', async () => {
+      const options = {
+        logDir: testLogDir,
+        prettyPrint: false,
+        fileRotationOptions: { compress: true, maxAge: '30d' },
+      };
+      await initLogger(options);
+      expect(stopLogRetention()).toBe(true);
+
+      // Reconfiguring without retention stops the sweep
+      await initLogger(options);
+      await initLogger({ logDir: testLogDir, prettyPrint: false });
+      expect(stopLogRetention()).toBe(false);
+      await shutdownLogger({ timeoutMs: 5000 });
+    });
+
+    test('should write only warnings and above to files while disk space is low', async () => {
+      const logger = await initLogger({
+        logDir: testLogDir,
+        prettyPrint: false,
+        fileRotationOptions: { minFreeSpace: '1000000g' },
+      });
+      while (!isLowDiskSpace()) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      logger.info('dropped while low');
+      logger.warn('kept while low');
+      await shutdownLogger({ timeoutMs: 5000 });
+
+      const content = readdirSync(testLogDir)
+        .filter((name) => name.startsWith('app.'))
+        .map((name) => readFileSync(join(testLogDir, name), 'utf8'))
+        .join('');
+      expect(content).toContain('kept while low');
+      expect(content).not.toContain('dropped while low');
+      expect(isLowDiskSpace()).toBe(false);
+    });
+  });
+
+  describe('Encryption at Rest', () => {
+    test('should reject encryption without a usable key at startup', async () => {
+      const previous = process.env['LOG_ENCRYPTION_KEY'];
+      delete process.env['LOG_ENCRYPTION_KEY'];
+
+      try {
+        await expect(
+          initLogger({
+            logDir: testLogDir,
+            prettyPrint: false,
+            failOnError: true,
+            encryption: {},
+          }),
+        ).rejects.toThrow(ConfigurationError);
+        expect(existsSync(join(testLogDir, 'app.log.enc'))).toBe(false);
+      } finally {
+        if (previous != null) {
+          process.env['LOG_ENCRYPTION_KEY'] = previous;
+        }
+      }
+    });
+  });
 });
@@ -0,0 +1,138 @@
+/**
+ * Tests for the encrypted file transport
+ *
+ * Validates the transport target options, the worker stream, and
+ * pino-roll style rotation of encrypted files.
+ */
+
+import type { EncryptedFileWorkerOptions } from '../../src/transports/encrypted-file';
+
+import { randomBytes } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { finished } from 'node:stream/promises';
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import encryptedFileTransport, {
+  createEncryptedFileTransport,
+} from '../../src/transports/encrypted-file';
+import { decryptLogFile } from '../../src/utils/encryption';
+import { ConfigurationError } from '../../src/utils/error-handler';
+
+// Test constants
+const TEST_DIR_PREFIX = 'stern-logger-encrypted-file-test-';
+const KEY = randomBytes(32).toString('base64');
+
+describe('Encrypted File Transport', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `${TEST_DIR_PREFIX}${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  /**
+   * Write records through the worker stream
+   * @param options - Worker options
+   * @param count - Number of records
+   */
+  async function writeRecords(
+    options: EncryptedFileWorkerOptions,
+    count: number,
+  ): Promise<void> {
+    const stream = encryptedFileTransport(options);
+    for (let index = 1; index <= count; index++) {
+      stream.write(`${JSON.stringify({ index, msg: 'Order placed' })}\n`);
+    }
+    stream.end();
+    await finished(stream);
+  }
+
+  /**
+   * Collect the records of an encrypted file
+   * @param file - Encrypted file
+   * @returns Records
+   */
+  async function readRecords(file: string): Promise<Array<string>> {
+    const records: Array<string> = [];
+    for await (const record of decryptLogFile(file, { key: KEY })) {
+      records.push(record);
+    }
+    return records;
+  }
+
+  test('should create a target with a resolved key and rotation in bytes', () => {
+    const target = createEncryptedFileTransport({
+      file: join(testDir, 'app.log.enc'),
+      encryption: { key: KEY },
+      rotation: { maxSize: '1k', maxFiles: 3 },
+      level: 'info',
+    });
+
+    expect(target.target).toMatch(/encrypted-file\.[jt]s$/u);
+    expect(target).toMatchObject({
+      level: 'info',
+      options: {
+        file: join(testDir, 'app.log.enc'),
+        key: KEY,
+        rotation: { size: 1024, count: 3, frequency: 'daily' },
+      },
+    });
+  });
+
+  test('should reject a missing or invalid key', () => {
+    expect(() =>
+      createEncryptedFileTransport({ file: join(testDir, 'app.log.enc') }),
+    ).toThrow(ConfigurationError);
+    expect(() =>
+      createEncryptedFileTransport({
+        file: join(testDir, 'app.log.enc'),
+        encryption: { key: 'too-short' },
+      }),
+    ).toThrow(ConfigurationError);
+  });
+
+  test('should encrypt records to the file', async () => {
+    const file = join(testDir, 'nested', 'app.log.enc');
+
+    await writeRecords({ file, key: KEY }, 2);
+
+    expect(await readRecords(file)).toEqual([
+      '{"index":1,"msg":"Order placed"}',
+      '{"index":2,"msg":"Order placed"}',
+    ]);
+  });
+
+  test('should rotate to numbered files and keep the configured count', async () => {
+    const file = join(testDir, 'app.log.enc');
+    const rotation = { size: 512, count: 2, frequency: 'daily' } as const;
+
+    await writeRecords({ file, key: KEY, rotation }, 20);
+    // Restarting continues with the newest file
+    await writeRecords({ file, key: KEY, rotation }, 1);
+
+    const files = readdirSync(testDir).sort(
+      (a, b) => Number(a.split('.').pop()) - Number(b.split('.').pop()),
+    );
+    expect(files).toHaveLength(3);
+    expect(files.every((name) => /^app\.log\.enc\.\d+$/u.test(name))).toBe(
+      true,
+    );
+    // Each file starts a new chunk sequence
+    for (const name of files) {
+      expect((await readRecords(join(testDir, name))).length).toBeGreaterThan(
+        0,
+      );
+    }
+    const newest = await readRecords(join(testDir, files.at(-1) ?? ''));
+    expect(newest.at(-1)).toBe('{"index":1,"msg":"Order placed"}');
+  });
+});
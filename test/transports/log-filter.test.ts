@@ -0,0 +1,123 @@
+/**
+ * Tests for the log filter transport
+ *
+ * Validates the pipeline stage options and the worker stream filtering
+ * records by maximum level and namespace patterns.
+ */
+
+import type { LogFilterWorkerOptions } from '../../src/transports/log-filter';
+
+import { describe, expect, test } from 'bun:test';
+
+import logFilterTransport, {
+  createLogFilterStage,
+} from '../../src/transports/log-filter';
+import { ConfigurationError } from '../../src/utils/error-handler';
+import { getLowDiskSpaceFlag } from '../../src/utils/retention';
+
+// Test constants
+const RECORDS = [
+  { level: 30, msg: 'Server started' },
+  { level: 30, namespace: 'payments:api', msg: 'Payment received' },
+  { level: 40, namespace: 'payments:api', msg: 'Payment retried' },
+  { level: 50, namespace: 'payments:ledger', msg: 'Ledger write failed' },
+  { level: 40, namespace: 'payments:healthcheck', msg: 'Slow check' },
+  { level: 40, namespace: 'orders:api', msg: 'Order delayed' },
+];
+
+/**
+ * Write records through the worker stream, split across chunks
+ * @param options - Worker options
+ * @returns Messages of the records passed on
+ */
+async function filterRecords(
+  options: LogFilterWorkerOptions,
+): Promise<Array<string>> {
+  const stream = logFilterTransport(options);
+  const output: Array<string> = [];
+  stream.on('data', (chunk: Buffer) => output.push(chunk.toString()));
+
+  const text = RECORDS.map((record) => `${JSON.stringify(record)}\n`).join('');
+  const middle = Math.floor(text.length / 2);
+  stream.write(text.slice(0, middle));
+  stream.write(text.slice(middle));
+  stream.end('not json\n');
+  await new Promise((resolve) => stream.on('end', resolve));
+
+  return output
+    .join('')
+    .split('\n')
+    .filter((line) => line.length > 0)
+    .map((line) => (JSON.parse(line) as { msg: string }).msg);
+}
+
+describe('Log Filter Transport', () => {
+  test('should create a stage with the maximum level value', () => {
+    const stage = createLogFilterStage({
+      maxLevel: 'notice',
+      namespaces: 'payments:*',
+      customLevels: { notice: 35 },
+    });
+
+    expect(stage.target).toMatch(/log-filter\.[jt]s$/u);
+    expect(stage.options).toEqual({ maxLevel: 35, namespaces: 'payments:*' });
+  });
+
+  test('should share the low disk space flag with the worker', () => {
+    const stage = createLogFilterStage({ lowDiskLevel: 'warn' });
+
+    expect(stage.options).toEqual({
+      lowDiskLevel: 40,
+      lowDiskSpace: getLowDiskSpaceFlag(),
+    });
+  });
+
+  test('should reject an unknown maximum level', () => {
+    expect(() => createLogFilterStage({ maxLevel: 'notice' })).toThrow(
+      ConfigurationError,
+    );
+  });
+
+  test('should pass on records up to the maximum level', async () => {
+    expect(await filterRecords({ maxLevel: 40 })).toEqual([
+      'Server started',
+      'Payment received',
+      'Payment retried',
+      'Slow check',
+      'Order delayed',
+    ]);
+  });
+
+  test('should pass on records of matching namespaces only', async () => {
+    expect(
+      await filterRecords({
+        namespaces: 'payments:*,-payments:healthcheck',
+      }),
+    ).toEqual(['Payment received', 'Payment retried', 'Ledger write failed']);
+  });
+
+  test('should hold back low levels only while disk space is low', async () => {
+    const lowDiskSpace = new Int32Array(
+      new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT),
+    );
+
+    expect(
+      await filterRecords({ lowDiskLevel: 40, lowDiskSpace }),
+    ).toHaveLength(RECORDS.length);
+
+    Atomics.store(lowDiskSpace, 0, 1);
+
+    expect(await filterRecords({ lowDiskLevel: 40, lowDiskSpace })).toEqual([
+      'Payment retried',
+      'Ledger write failed',
+      'Slow check',
+      'Order delayed',
+    ]);
+  });
+
+  test('should combine the maximum level and namespaces', async () => {
+    expect(
+      await filterRecords({ maxLevel: 40, namespaces: 'payments:*' }),
+    ).toEqual(['Payment received', 'Payment retried', 'Slow check']);
+  });
+});
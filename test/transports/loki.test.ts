@@ -0,0 +1,43 @@
+/**
+ * Tests for the Loki transport configuration
+ *
+ * Validates the pino-loki target options, including level labels for
+ * custom levels.
+ */
+
+import { describe, expect, test } from 'bun:test';
+
+import {
+  createLokiLevelMap,
+  createLokiTransport,
+} from '../../src/transports/loki';
+
+describe('Loki Transport', () => {
+  test('should create a pino-loki target', () => {
+    const target = createLokiTransport({
+      host: 'http://localhost:3100',
+      labels: { service: 'api' },
+    });
+
+    expect(target).toMatchObject({
+      target: 'pino-loki',
+      level: 'trace',
+      options: { host: 'http://localhost:3100', labels: { service: 'api' } },
+    });
+    expect(target.options).not.toHaveProperty('levelMap');
+  });
+
+  test('should map custom levels to Loki level labels', () => {
+    expect(createLokiLevelMap({ verbose: 15, notice: 35, audit: 70 })).toEqual({
+      15: 'debug',
+      35: 'info',
+      70: 'critical',
+    });
+    expect(
+      createLokiTransport({
+        host: 'http://localhost:3100',
+        customLevels: { alert: 55 },
+      }).options,
+    ).toMatchObject({ levelMap: { 55: 'error' } });
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Tests for the tamper-evident audit log
+ *
+ * Validates hash chaining, continuation of existing files, checkpointed
+ * rotation, independence from the main logger's filtering, and detection
+ * of tampered and missing records.
+ */
+
+import type { AuditLogger } from '../../src/utils/audit-log';
+
+import {
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import { initLogger } from '../../src/logger';
+import {
+  AUDIT_GENESIS_HASH,
+  createAuditLogger,
+  verifyAuditLog,
+} from '../../src/utils/audit-log';
+import {
+  ConfigurationError,
+  TransportError,
+} from '../../src/utils/error-handler';
+
+// Test constants
+const TEST_DIR_PREFIX = 'stern-logger-audit-test-';
+const RECORD_COUNT = 5;
+
+describe('Audit Log Utilities', () => {
+  let testDir: string;
+  let audit: AuditLogger | undefined;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `${TEST_DIR_PREFIX}${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    audit?.close();
+    audit = undefined;
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  /**
+   * Log numbered admin actions
+   * @param logger - Audit logger
+   * @param count - Number of records
+   */
+  function logActions(logger: AuditLogger, count = RECORD_COUNT): void {
+    for (let index = 1; index <= count; index++) {
+      logger.info(
+        { actor: 'u-1', action: 'role.grant', index },
+        'Role granted',
+      );
+    }
+  }
+
+  /**
+   * Read the lines of a file
+   * @param file - File path
+   * @returns Lines without the trailing newline
+   */
+  function readLines(file: string): Array<string> {
+    return readFileSync(file, 'utf8').trimEnd().split('\n');
+  }
+
+  describe('createAuditLogger', () => {
+    test('should chain records in its own file', async () => {
+      audit = createAuditLogger({ logDir: testDir, service: 'admin-api' });
+
+      logActions(audit);
+
+      const records = readLines(audit.file).map(
+        (line) => JSON.parse(line) as Record<string, unknown>,
+      );
+      expect(audit.file).toBe(join(testDir, 'audit.log'));
+      expect(records).toHaveLength(RECORD_COUNT);
+      expect(records[0]).toMatchObject({
+        seq: 1,
+        prev_hash: AUDIT_GENESIS_HASH,
+        service: 'admin-api',
+        action: 'role.grant',
+        msg: 'Role granted',
+      });
+      expect(records[1]?.prev_hash).toBe(records[0]?.hash);
+      expect(await verifyAuditLog(audit.file)).toEqual({
+        valid: true,
+        records: RECORD_COUNT,
+        head: { seq: RECORD_COUNT, hash: records[4]?.hash as string },
+      });
+    });
+
+    test('should continue the chain of an existing file', async () => {
+      audit = createAuditLogger({ logDir: testDir });
+      logActions(audit, 2);
+      audit.close();
+
+      audit = createAuditLogger({ logDir: testDir });
+      logActions(audit, 1);
+
+      expect(JSON.parse(readLines(audit.file)[2] ?? '')).toMatchObject({
+        seq: 3,
+      });
+      expect((await verifyAuditLog(audit.file)).valid).toBe(true);
+    });
+
+    test('should ignore the main logger level, namespaces and sampling', async () => {
+      await initLogger({
+        level: 'fatal',
+        namespaces: '-*',
+        sampling: { rates: { info: 0 } },
+        prettyPrint: false,
+        strict: false,
+      });
+      audit = createAuditLogger({ logDir: testDir });
+
+      audit.child({ namespace: 'admin:roles' }).info('Role granted');
+
+      expect(readLines(audit.file)).toHaveLength(1);
+      await initLogger({ level: 'info', prettyPrint: false });
+    });
+
+    test('should checkpoint the chain head on rotation', async () => {
+      audit = createAuditLogger({ logDir: testDir, maxSize: '1k' });
+
+      logActions(audit, 20);
+
+      const files = readdirSync(testDir).sort();
+      const checkpoints = readLines(join(testDir, 'audit.log.checkpoints'));
+      expect(files.length).toBeGreaterThan(2);
+      expect(checkpoints).toHaveLength(files.length - 2);
+
+      for (const file of files.filter(
+        (name) => !name.endsWith('.checkpoints'),
+      )) {
+        expect((await verifyAuditLog(join(testDir, file))).valid).toBe(true);
+      }
+      const firstActive = JSON.parse(readLines(audit.file)[0] ?? '') as {
+        prev_hash: string;
+      };
+      const lastCheckpoint = JSON.parse(checkpoints.at(-1) ?? '') as {
+        hash: string;
+      };
+      expect(firstActive.prev_hash).toBe(lastCheckpoint.hash);
+    });
+
+    test('should stop writing after a failed rotation', () => {
+      // Directories in the way of every rotated file name
+      for (let seq = 1; seq <= 20; seq++) {
+        mkdirSync(join(testDir, `audit.log.${seq}`));
+      }
+      audit = createAuditLogger({ logDir: testDir, maxSize: '1k' });
+      const logger = audit;
+
+      expect(() => logActions(logger, 20)).toThrow(TransportError);
+
+      const unrelated = join(testDir, 'unrelated.txt');
+      const fd = openSync(unrelated, 'w');
+      try {
+        expect(() => logActions(logger, 1)).toThrow(TransportError);
+      } finally {
+        closeSync(fd);
+      }
+      expect(readFileSync(unrelated, 'utf8')).toBe('');
+      expect(() => logger.close()).not.toThrow();
+    });
+
+    test('should reject invalid options', () => {
+      expect(() =>
+        createAuditLogger({ logDir: testDir, fileName: '../audit.log' }),
+      ).toThrow(ConfigurationError);
+      expect(() =>
+        createAuditLogger({ logDir: testDir, maxSize: '10 MB' }),
+      ).toThrow(ConfigurationError);
+    });
+  });
+
+  describe('verifyAuditLog', () => {
+    test('should report an edited record', async () => {
+      audit = createAuditLogger({ logDir: testDir });
+      logActions(audit);
+      const lines = readLines(audit.file);
+      lines[2] = (lines[2] ?? '').replace('"u-1"', '"u-2"');
+      writeFileSync(audit.file, `${lines.join('\n')}\n`);
+
+      const result = await verifyAuditLog(audit.file);
+
+      expect(result).toMatchObject({
+        valid: false,
+        records: 2,
+        issue: { line: 3, seq: 3, reason: 'tampered' },
+      });
+    });
+
+    test('should report removed records', async () => {
+      audit = createAuditLogger({ logDir: testDir });
+      logActions(audit);
+      const lines = readLines(audit.file);
+      writeFileSync(audit.file, `${[lines[0], lines[3]].join('\n')}\n`);
+
+      const result = await verifyAuditLog(audit.file);
+
+      expect(result.issue).toEqual({
+        line: 2,
+        seq: 2,
+        reason: 'missing',
+        message: 'Records 2 to 3 are missing',
+      });
+    });
+
+    test('should report a record replaced with a rehashed one', async () => {
+      audit = createAuditLogger({ logDir: testDir });
+      logActions(audit, 2);
+      const forger = createAuditLogger({
+        logDir: join(testDir, 'forged'),
+      });
+      forger.info({ actor: 'u-9' }, 'Role granted');
+      forger.info({ actor: 'u-9' }, 'Role granted');
+      forger.close();
+      const forged = readLines(forger.file);
+      writeFileSync(
+        audit.file,
+        `${[readLines(audit.file)[0], forged[1]].join('\n')}\n`,
+      );
+
+      const result = await verifyAuditLog(audit.file);
+
+      expect(result.issue).toMatchObject({ line: 2, reason: 'tampered' });
+    });
+
+    test('should report records cut from a rotated file or its start', async () => {
+      audit = createAuditLogger({ logDir: testDir, maxSize: '1k' });
+      logActions(audit, 20);
+      const rotated = readdirSync(testDir).find((name) =>
+        /^audit\.log\.\d+$/u.test(name),
+      );
+      const rotatedPath = join(testDir, rotated ?? '');
+      const lines = readLines(rotatedPath);
+      writeFileSync(rotatedPath, `${lines.slice(0, -1).join('\n')}\n`);
+      const active = readLines(audit.file);
+      writeFileSync(audit.file, `${active.slice(1).join('\n')}\n`);
+
+      expect((await verifyAuditLog(rotatedPath)).issue).toMatchObject({
+        line: lines.length,
+        reason: 'missing',
+      });
+      expect((await verifyAuditLog(audit.file)).issue).toMatchObject({
+        line: 1,
+        reason: 'missing',
+      });
+    });
+
+    test('should report malformed lines', async () => {
+      audit = createAuditLogger({ logDir: testDir });
+      logActions(audit, 1);
+      writeFileSync(audit.file, 'not json\n', { flag: 'a' });
+
+      expect((await verifyAuditLog(audit.file)).issue).toMatchObject({
+        line: 2,
+        reason: 'malformed',
+      });
+    });
+  });
+});
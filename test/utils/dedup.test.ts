@@ -0,0 +1,201 @@
+/**
+ * Tests for duplicate log collapsing utilities
+ *
+ * Validates fingerprinting, repeat summaries, level exemptions, and
+ * integration with the Pino log method pipeline.
+ */
+
+import type { DedupOptions } from '../../src/types';
+import type { DedupHook } from '../../src/utils/dedup';
+import type { CapturingLogger, LogMethodOption } from '../helpers/capture';
+
+import { describe, expect, test } from 'bun:test';
+
+import { createDedupHook } from '../../src/utils/dedup';
+import { ConfigurationError } from '../../src/utils/error-handler';
+import {
+  getTraceContext,
+  runWithTraceContext,
+} from '../../src/utils/telemetry';
+import { createCapturingLogger } from '../helpers/capture';
+
+// Test constants
+const WINDOW_MS = 50;
+const WAIT_MS = 150;
+
+/**
+ * Creates a Pino logger with the dedup hook that records output
+ * @param options - Dedup options
+ * @returns Logger and captured records
+ */
+function createDedupLogger(
+  options: DedupOptions,
+): CapturingLogger & { hook: DedupHook } {
+  const hook = createDedupHook(options);
+  const { logger, records } = createCapturingLogger({
+    level: 'trace',
+    // Record the trace context each record is logged in
+    mixin: () => ({ trace: getTraceContext('dedup')?.traceId }),
+    hooks: { logMethod: hook as LogMethodOption },
+  });
+  return { logger, records, hook };
+}
+
+/**
+ * Wait for the dedup window to close
+ * @returns Promise resolving after the window
+ */
+function waitForWindow(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, WAIT_MS));
+}
+
+describe('Dedup Utilities', () => {
+  test('should reject a non-positive window', () => {
+    expect(() => createDedupHook({ windowMs: 0 })).toThrow(ConfigurationError);
+  });
+
+  test('should log the first record and collapse repeats', async () => {
+    const { logger, records } = createDedupLogger({ windowMs: WINDOW_MS });
+
+    for (let i = 0; i < 1000; i++) {
+      logger.warn({ attempt: i }, 'Retrying connection');
+    }
+    expect(records).toHaveLength(1);
+    expect(records[0]?.attempt).toBe(0);
+
+    await waitForWindow();
+
+    expect(records).toHaveLength(2);
+    expect(records[1]).toMatchObject({
+      msg: 'Retrying connection',
+      attempt: 999,
+      repeat_count: 999,
+      level: 40,
+    });
+    expect(typeof records[1]?.first_seen).toBe('string');
+    expect(
+      Date.parse(records[1]?.last_seen as string) -
+        Date.parse(records[1]?.first_seen as string),
+    ).toBeGreaterThanOrEqual(0);
+  });
+
+  test('should not add a summary when nothing repeated', async () => {
+    const { logger, records } = createDedupLogger({ windowMs: WINDOW_MS });
+
+    logger.info('once');
+    await waitForWindow();
+
+    expect(records).toHaveLength(1);
+    expect(records[0]?.repeat_count).toBeUndefined();
+  });
+
+  test('should start a new window after the previous one closes', async () => {
+    const { logger, records } = createDedupLogger({ windowMs: WINDOW_MS });
+
+    logger.info('tick');
+    await waitForWindow();
+    logger.info('tick');
+
+    expect(records.map((record) => record.msg)).toEqual(['tick', 'tick']);
+  });
+
+  test('should fingerprint configured fields', async () => {
+    const { logger, records } = createDedupLogger({
+      windowMs: WINDOW_MS,
+      fields: ['job.id'],
+    });
+
+    logger.warn({ job: { id: 1 }, attempt: 1 }, 'Retrying');
+    logger.warn({ job: { id: 2 }, attempt: 1 }, 'Retrying');
+    logger.warn({ job: { id: 1 }, attempt: 2 }, 'Retrying');
+    await waitForWindow();
+
+    expect(records).toHaveLength(3);
+    expect(records[2]).toMatchObject({ job: { id: 1 }, repeat_count: 1 });
+  });
+
+  test('should treat different interpolation arguments as different', () => {
+    const { logger, records } = createDedupLogger({ windowMs: WINDOW_MS });
+
+    logger.info('user %s', 'alice');
+    logger.info('user %s', 'bob');
+
+    expect(records.map((record) => record.msg)).toEqual([
+      'user alice',
+      'user bob',
+    ]);
+  });
+
+  test('should keep separate fingerprints per namespace', () => {
+    const { logger, records } = createDedupLogger({ windowMs: WINDOW_MS });
+
+    logger.child({ namespace: 'worker:a' }).warn('Retrying');
+    logger.child({ namespace: 'worker:b' }).warn('Retrying');
+
+    expect(records).toHaveLength(2);
+  });
+
+  test('should never collapse errors by default', () => {
+    const { logger, records } = createDedupLogger({ windowMs: WINDOW_MS });
+
+    logger.error('failed');
+    logger.error('failed');
+    logger.fatal('down');
+    logger.fatal('down');
+
+    expect(records).toHaveLength(4);
+  });
+
+  test('should collapse the configured levels only', async () => {
+    const { logger, records } = createDedupLogger({
+      windowMs: WINDOW_MS,
+      levels: ['error'],
+    });
+
+    logger.error(new Error('boom'), 'failed');
+    logger.error(new Error('boom'), 'failed');
+    logger.warn('retry');
+    logger.warn('retry');
+    await waitForWindow();
+
+    expect(records.map((record) => record.msg)).toEqual([
+      'failed',
+      'retry',
+      'retry',
+      'failed',
+    ]);
+    expect(records[3]).toMatchObject({
+      repeat_count: 1,
+      err: { message: 'boom' },
+    });
+  });
+
+  test('should log held repeats on flush', () => {
+    const { logger, records, hook } = createDedupLogger({ windowMs: 60000 });
+
+    logger.warn('Retrying connection');
+    logger.warn('Retrying connection');
+    hook.flush();
+
+    expect(records).toHaveLength(2);
+    expect(records[1]).toMatchObject({ repeat_count: 1 });
+
+    // The window is closed, so the next record starts a new one
+    logger.warn('Retrying connection');
+    expect(records).toHaveLength(3);
+  });
+
+  test('should log the summary in the async context of the last repeat', async () => {
+    const { logger, records } = createDedupLogger({ windowMs: WINDOW_MS });
+    const log = (traceId: string): void =>
+      runWithTraceContext({ traceId, spanId: 'span' }, () => {
+        logger.warn('Retrying connection');
+      });
+
+    log('first');
+    log('last');
+    await waitForWindow();
+
+    expect(records.map((record) => record.trace)).toEqual(['first', 'last']);
+  });
+});
@@ -17,7 +17,10 @@ import { join } from 'node:path';
 
 import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
 
-import { setupLogDirectory } from '../../src/utils/directory';
+import {
+  checkLogDirectory,
+  setupLogDirectory,
+} from '../../src/utils/directory';
 import { ConfigurationError } from '../../src/utils/error-handler';
 
 // Test constants
@@ -316,4 +319,37 @@ describe('Directory Utilities', () => {
       expect(existsSync(logDir2)).toBe(true);
     });
   });
+
+  describe('checkLogDirectory', () => {
+    test('should accept an existing writable directory', () => {
+      expect(checkLogDirectory(testBaseDir)).toBeUndefined();
+    });
+
+    test('should accept a missing directory without creating it', () => {
+      const logDir = join(testBaseDir, 'nested', 'logs');
+
+      expect(checkLogDirectory(logDir)).toBeUndefined();
+      expect(existsSync(logDir)).toBe(false);
+    });
+
+    test('should reject an empty path', () => {
+      expect(checkLogDirectory('  ')).toContain('non-empty string');
+    });
+
+    test('should reject a path that is a file', () => {
+      const file = join(testBaseDir, 'file.log');
+      writeFileSync(file, '');
+
+      expect(checkLogDirectory(file)).toContain('not a directory');
+    });
+
+    test('should reject a path below a file', () => {
+      const file = join(testBaseDir, 'file.log');
+      writeFileSync(file, '');
+
+      expect(checkLogDirectory(join(file, 'logs'))).toContain(
+        `${file} is not a directory`,
+      );
+    });
+  });
 });
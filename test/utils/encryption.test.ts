@@ -0,0 +1,235 @@
+/**
+ * Tests for encryption of log files at rest
+ *
+ * Validates key parsing and resolution, round trips through
+ * `decryptLogFile()` (including records split across chunks), and
+ * rejection of wrong keys, altered data, and missing or reordered chunks.
+ */
+
+import { randomBytes } from 'node:crypto';
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import {
+  createFileId,
+  decryptLogFile,
+  encryptChunk,
+  ENCRYPTION_KEY_ENV,
+  parseEncryptionKey,
+  resolveEncryptionKey,
+} from '../../src/utils/encryption';
+import {
+  ConfigurationError,
+  TransportError,
+} from '../../src/utils/error-handler';
+
+// Test constants
+const TEST_DIR_PREFIX = 'stern-logger-encryption-test-';
+const KEY = randomBytes(32);
+
+/**
+ * Collect the records of an encrypted file
+ * @param file - Encrypted file
+ * @param key - Encryption key
+ * @returns Records
+ */
+async function readRecords(
+  file: string,
+  key: string | Uint8Array = KEY,
+): Promise<Array<string>> {
+  const records: Array<string> = [];
+  for await (const record of decryptLogFile(file, { key })) {
+    records.push(record);
+  }
+  return records;
+}
+
+describe('Encryption Utilities', () => {
+  let testDir: string;
+  let file: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `${TEST_DIR_PREFIX}${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    file = join(testDir, 'app.log.enc');
+  });
+
+  afterEach(() => {
+    delete process.env[ENCRYPTION_KEY_ENV];
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  /**
+   * Encrypt chunks as one writer does
+   * @param chunks - Plaintext chunks
+   * @returns Encrypted lines
+   */
+  function encryptChunks(chunks: Array<string>): Array<string> {
+    const fileId = createFileId();
+    return chunks.map((chunk, index) =>
+      encryptChunk(KEY, Buffer.from(chunk), { fileId, index }),
+    );
+  }
+
+  /**
+   * Write chunks to the encrypted file
+   * @param chunks - Plaintext chunks
+   */
+  function writeChunks(chunks: Array<string>): void {
+    writeFileSync(file, `${encryptChunks(chunks).join('\n')}\n`);
+  }
+
+  describe('parseEncryptionKey', () => {
+    test('should accept 32-byte keys as bytes, hex and base64', () => {
+      expect(parseEncryptionKey(KEY)).toEqual(KEY);
+      expect(parseEncryptionKey(KEY.toString('hex'))).toEqual(KEY);
+      expect(parseEncryptionKey(KEY.toString('base64'))).toEqual(KEY);
+    });
+
+    test('should reject keys of another length', () => {
+      expect(() => parseEncryptionKey('secret')).toThrow(ConfigurationError);
+      expect(() => parseEncryptionKey(randomBytes(16))).toThrow(
+        ConfigurationError,
+      );
+    });
+  });
+
+  describe('resolveEncryptionKey', () => {
+    test('should fall back to the environment', () => {
+      process.env[ENCRYPTION_KEY_ENV] = KEY.toString('base64');
+
+      expect(resolveEncryptionKey()).toEqual(KEY);
+    });
+
+    test('should require a key', () => {
+      expect(() => resolveEncryptionKey({})).toThrow(ConfigurationError);
+    });
+  });
+
+  describe('decryptLogFile', () => {
+    test('should yield records split across chunks', async () => {
+      writeChunks([
+        '{"msg":"one"}\n{"msg":"tw',
+        'o"}\n{"msg":"café"}\n',
+        '{"msg":"three"}\n',
+      ]);
+
+      expect(await readRecords(file)).toEqual([
+        '{"msg":"one"}',
+        '{"msg":"two"}',
+        '{"msg":"café"}',
+        '{"msg":"three"}',
+      ]);
+    });
+
+    test('should keep the plaintext out of the file', () => {
+      writeChunks(['{"msg":"card 4111"}\n']);
+
+      expect(readFileSync(file, 'utf8')).not.toContain('4111');
+    });
+
+    test('should reject a wrong key', async () => {
+      writeChunks(['{"msg":"one"}\n']);
+
+      await expect(readRecords(file, randomBytes(32))).rejects.toThrow(
+        TransportError,
+      );
+    });
+
+    test('should reject altered chunks, naming the line', async () => {
+      writeChunks(['{"msg":"one"}\n', '{"msg":"two"}\n']);
+      const lines = readFileSync(file, 'utf8').split('\n');
+      const ciphertext = Buffer.from(lines[1]?.split('.')[5] ?? '', 'base64');
+      ciphertext[0] = (ciphertext[0] ?? 0) ^ 1;
+      const parts = lines[1]?.split('.') ?? [];
+      parts[5] = ciphertext.toString('base64');
+      lines[1] = parts.join('.');
+      writeFileSync(file, lines.join('\n'));
+
+      await expect(readRecords(file)).rejects.toThrow('decryption of line 2');
+    });
+
+    test('should reject altered chunk positions', async () => {
+      writeChunks(['{"msg":"one"}\n', '{"msg":"two"}\n']);
+      const lines = readFileSync(file, 'utf8').split('\n');
+      const parts = lines[1]?.split('.') ?? [];
+      parts[2] = '2';
+      lines[1] = parts.join('.');
+      writeFileSync(file, lines.join('\n'));
+
+      await expect(readRecords(file)).rejects.toThrow('decryption of line 2');
+    });
+
+    test('should report missing chunks', async () => {
+      const [first, , third] = encryptChunks([
+        '{"msg":"one"}\n',
+        '{"msg":"two"}\n',
+        '{"msg":"three"}\n',
+      ]);
+      writeFileSync(file, `${first}\n${third}\n`);
+
+      await expect(readRecords(file)).rejects.toThrow(
+        'decryption of line 2 (missing chunks)',
+      );
+    });
+
+    test('should report missing chunks at the start of a file', async () => {
+      const [, second] = encryptChunks(['{"msg":"one"}\n', '{"msg":"two"}\n']);
+      writeFileSync(file, `${second}\n`);
+
+      await expect(readRecords(file)).rejects.toThrow(
+        'decryption of line 1 (missing chunks)',
+      );
+    });
+
+    test('should report reordered chunks', async () => {
+      const [first, second] = encryptChunks([
+        '{"msg":"one"}\n',
+        '{"msg":"two"}\n',
+      ]);
+      writeFileSync(file, `${second}\n${first}\n`);
+
+      await expect(readRecords(file)).rejects.toThrow(
+        'decryption of line 1 (missing chunks)',
+      );
+      writeFileSync(file, `${first}\n${second}\n${first}\n`);
+
+      await expect(readRecords(file)).rejects.toThrow(
+        'decryption of line 3 (reordered chunk)',
+      );
+    });
+
+    test('should report chunks of an earlier writer after a later one', async () => {
+      const earlier = encryptChunks(['{"msg":"one"}\n', '{"msg":"two"}\n']);
+      const later = encryptChunks(['{"msg":"three"}\n']);
+      writeFileSync(file, `${earlier[0]}\n${later[0]}\n${earlier[1]}\n`);
+
+      await expect(readRecords(file)).rejects.toThrow(
+        'decryption of line 3 (reordered chunk)',
+      );
+    });
+
+    test('should read the chunks of writers appending in turn', async () => {
+      const earlier = encryptChunks(['{"msg":"one"}\n', '{"msg":"two"}\n']);
+      const later = encryptChunks(['{"msg":"three"}\n']);
+      writeFileSync(file, `${[...earlier, ...later].join('\n')}\n`);
+
+      expect(await readRecords(file)).toEqual([
+        '{"msg":"one"}',
+        '{"msg":"two"}',
+        '{"msg":"three"}',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for environment variable configuration
+ *
+ * Validates variable mapping, type coercion, custom prefixes, and
+ * ConfigurationErrors that name the offending variable.
+ */
+
+import { describe, expect, test } from 'bun:test';
+
+import { loggerOptionsFromEnv } from '../../src/utils/env-config';
+import { ConfigurationError } from '../../src/utils/error-handler';
+import { assertValidLoggerOptions } from '../../src/utils/options-validation';
+
+const ENCRYPTION_KEY = 'ab'.repeat(32);
+
+describe('Environment Configuration', () => {
+  describe('loggerOptionsFromEnv', () => {
+    test('should return no options for an empty environment', () => {
+      expect(loggerOptionsFromEnv({})).toEqual({});
+    });
+
+    test('should map all supported variables', () => {
+      const options = loggerOptionsFromEnv({
+        LOG_LEVEL: 'DEBUG',
+        LOG_NAMESPACES: 'voice:*=debug,-db:pool',
+        LOG_DIR: '/var/log/app',
+        LOG_PRETTY: 'false',
+        LOG_FORMAT_STYLE: 'default',
+        LOG_ROTATION_MAX_SIZE: '50M',
+        LOG_ROTATION_MAX_FILES: '7',
+        LOG_ROTATION_FREQUENCY: 'hourly',
+        LOG_ROTATION_COMPRESS: 'on',
+        LOG_ROTATION_MAX_AGE: '30D',
+        LOG_ROTATION_MAX_TOTAL_SIZE: '2G',
+        LOG_ROTATION_MIN_FREE_SPACE: '500m',
+        LOG_REDACT_PATHS: 'user.email, session.id,',
+        LOG_ENCRYPTION_KEY: ENCRYPTION_KEY,
+        SERVICE_NAME: 'api',
+        NODE_ENV: 'production',
+      });
+
+      expect(options).toEqual({
+        level: 'debug',
+        namespaces: 'voice:*=debug,-db:pool',
+        logDir: '/var/log/app',
+        prettyPrint: false,
+        formatStyle: 'default',
+        fileRotationOptions: {
+          maxSize: '50m',
+          maxFiles: 7,
+          frequency: 'hourly',
+          compress: true,
+          maxAge: '30d',
+          maxTotalSize: '2g',
+          minFreeSpace: '500m',
+        },
+        redactPaths: ['user.email', 'session.id'],
+        encryption: { key: ENCRYPTION_KEY },
+        defaultService: 'api',
+        nodeEnv: 'production',
+      });
+    });
+
+    test('should treat empty values as unset', () => {
+      expect(loggerOptionsFromEnv({ LOG_LEVEL: '', LOG_DIR: '  ' })).toEqual(
+        {},
+      );
+    });
+
+    test('should accept boolean-like values', () => {
+      expect(loggerOptionsFromEnv({ LOG_PRETTY: '1' }).prettyPrint).toBe(true);
+      expect(loggerOptionsFromEnv({ LOG_PRETTY: 'Yes' }).prettyPrint).toBe(
+        true,
+      );
+      expect(loggerOptionsFromEnv({ LOG_PRETTY: 'off' }).prettyPrint).toBe(
+        false,
+      );
+    });
+
+    test('should only include rotation fields that are set', () => {
+      expect(
+        loggerOptionsFromEnv({ LOG_ROTATION_MAX_FILES: '3' })
+          .fileRotationOptions,
+      ).toEqual({ maxFiles: 3 });
+    });
+
+    test('should honor a custom prefix', () => {
+      const options = loggerOptionsFromEnv(
+        { MYAPP_LEVEL: 'warn', LOG_LEVEL: 'debug', SERVICE_NAME: 'worker' },
+        'MYAPP_',
+      );
+
+      expect(options).toEqual({ level: 'warn', defaultService: 'worker' });
+    });
+
+    test('should read process.env by default', () => {
+      const previous = process.env['LOG_FORMAT_STYLE'];
+      process.env['LOG_FORMAT_STYLE'] = 'compact';
+
+      try {
+        expect(loggerOptionsFromEnv().formatStyle).toBe('compact');
+      } finally {
+        if (previous == null) {
+          delete process.env['LOG_FORMAT_STYLE'];
+        } else {
+          process.env['LOG_FORMAT_STYLE'] = previous;
+        }
+      }
+    });
+
+    test.each([
+      ['LOG_PRETTY', 'maybe'],
+      ['LOG_FORMAT_STYLE', 'fancy'],
+      ['LOG_ROTATION_MAX_SIZE', '10 megabytes'],
+      ['LOG_ROTATION_MAX_FILES', '0'],
+      ['LOG_ROTATION_MAX_FILES', '2.5'],
+      ['LOG_ROTATION_FREQUENCY', 'weekly'],
+      ['LOG_ROTATION_COMPRESS', 'gzip'],
+      ['LOG_ROTATION_MAX_AGE', '30 days'],
+      ['LOG_ROTATION_MAX_TOTAL_SIZE', '2 GB'],
+    ])('should reject invalid %s=%s', (name, value) => {
+      expect(() => loggerOptionsFromEnv({ [name]: value })).toThrow(
+        ConfigurationError,
+      );
+      expect(() => loggerOptionsFromEnv({ [name]: value })).toThrow(
+        `Invalid ${name}: "${value}"`,
+      );
+    });
+
+    test('should pass any level name on for validation with the logger options', () => {
+      const options = {
+        customLevels: { notice: 35 },
+        ...loggerOptionsFromEnv({ LOG_LEVEL: 'Notice' }),
+      };
+
+      expect(options.level).toBe('notice');
+      expect(() => assertValidLoggerOptions(options)).not.toThrow();
+      expect(() =>
+        assertValidLoggerOptions(
+          loggerOptionsFromEnv({ LOG_LEVEL: 'verbose' }),
+        ),
+      ).toThrow(ConfigurationError);
+    });
+
+    test('should reject an invalid encryption key without echoing it', () => {
+      expect(() =>
+        loggerOptionsFromEnv({ LOG_ENCRYPTION_KEY: 'hunter2' }),
+      ).toThrow('Invalid LOG_ENCRYPTION_KEY: expected a 32-byte key');
+    });
+
+    test('should name the prefixed variable in errors', () => {
+      expect(() =>
+        loggerOptionsFromEnv({ APP_PRETTY: 'loud' }, 'APP_'),
+      ).toThrow('Invalid APP_PRETTY');
+    });
+  });
+});
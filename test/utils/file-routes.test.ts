@@ -0,0 +1,77 @@
+/**
+ * Tests for filename templates of routed log files
+ *
+ * Validates template checks, placeholder expansion, and the patterns used
+ * to find the files of a template for retention.
+ */
+
+import { describe, expect, test } from 'bun:test';
+
+import { ConfigurationError } from '../../src/utils/error-handler';
+import {
+  checkFilenameTemplate,
+  createFilenamePattern,
+  expandFilenameTemplate,
+} from '../../src/utils/file-routes';
+
+// Test constants
+const VALUES = { service: 'payment-api', env: 'production', pid: 4242 };
+
+describe('File Route Utilities', () => {
+  describe('checkFilenameTemplate', () => {
+    test('should accept file names with known placeholders', () => {
+      expect(checkFilenameTemplate('error.log')).toBeUndefined();
+      expect(
+        checkFilenameTemplate('{service}-{env}-{pid}.log'),
+      ).toBeUndefined();
+    });
+
+    test('should reject paths, reserved names and unknown placeholders', () => {
+      expect(checkFilenameTemplate('')).toContain('non-empty');
+      expect(checkFilenameTemplate('../error.log')).toContain('not a path');
+      expect(checkFilenameTemplate('logs\\error.log')).toContain('not a path');
+      expect(checkFilenameTemplate('app.log')).toContain('logger itself');
+      expect(checkFilenameTemplate('{host}.log')).toContain(
+        'Unknown placeholder "{host}"',
+      );
+    });
+  });
+
+  describe('expandFilenameTemplate', () => {
+    test('should substitute service, env and pid', () => {
+      expect(expandFilenameTemplate('{service}-{env}-{pid}.log', VALUES)).toBe(
+        'payment-api-production-4242.log',
+      );
+    });
+
+    test('should keep substituted values inside the log directory', () => {
+      expect(
+        expandFilenameTemplate('{service}.log', {
+          ...VALUES,
+          service: '../billing/api',
+        }),
+      ).toBe('..-billing-api.log');
+    });
+
+    test('should throw a ConfigurationError for an invalid template', () => {
+      expect(() => expandFilenameTemplate('{host}.log', VALUES)).toThrow(
+        ConfigurationError,
+      );
+    });
+  });
+
+  describe('createFilenamePattern', () => {
+    test('should match the files of any process', () => {
+      const pattern = createFilenamePattern('{service}.payments-{pid}.log', {
+        service: 'payment-api',
+        env: 'production',
+      });
+
+      expect(pattern.test('payment-api.payments-4242.log')).toBe(true);
+      expect(pattern.test('payment-api.payments-17.log')).toBe(true);
+      expect(pattern.test('payment-apiXpayments-17.log')).toBe(false);
+      expect(pattern.test('payment-api.payments-17.log.1')).toBe(false);
+      expect(pattern.test('orders-api.payments-17.log')).toBe(false);
+    });
+  });
+});
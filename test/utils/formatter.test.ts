@@ -4,7 +4,10 @@
 
 import { describe, expect, test } from 'bun:test';
 
-import { createCustomPrettyOptions } from '../../src/utils/formatter';
+import {
+  createCustomPrettyOptions,
+  createPrettyLevelOptions,
+} from '../../src/utils/formatter';
 
 describe('Formatter', () => {
   describe('createCustomPrettyOptions', () => {
@@ -54,4 +57,30 @@ describe('Formatter', () => {
       );
     });
   });
+
+  describe('createPrettyLevelOptions', () => {
+    test('should return nothing without custom levels or colors', () => {
+      expect(createPrettyLevelOptions()).toEqual({});
+    });
+
+    test('should label and colorize custom levels', () => {
+      expect(
+        createPrettyLevelOptions(
+          { notice: 35, audit: 70 },
+          { audit: 'magenta' },
+        ),
+      ).toEqual({
+        customLevels: 'notice:35,audit:70',
+        customColors: 'notice:green,audit:magenta',
+        useOnlyCustomProps: false,
+      });
+    });
+
+    test('should recolor built-in levels', () => {
+      expect(createPrettyLevelOptions(undefined, { info: 'cyan' })).toEqual({
+        customColors: 'info:cyan',
+        useOnlyCustomProps: false,
+      });
+    });
+  });
 });
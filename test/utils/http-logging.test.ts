@@ -0,0 +1,492 @@
+/**
+ * Tests for HTTP request logging middleware
+ *
+ * Validates request ID propagation, trace context extraction, completion
+ * records and levels, capture options with redaction, and the Fetch,
+ * Express, and Hono adapters.
+ */
+
+import type { Logger } from '../../src/types';
+import type {
+  ExpressLikeRequest,
+  ExpressLikeResponse,
+  HonoLikeContext,
+} from '../../src/utils/http-logging';
+
+import { EventEmitter } from 'node:events';
+
+import { describe, expect, test } from 'bun:test';
+
+import {
+  createExpressRequestLogger,
+  createHonoRequestLogger,
+  getRequestId,
+  getRequestLogger,
+  withRequestLogging,
+} from '../../src/utils/http-logging';
+import { getTraceContext } from '../../src/utils/telemetry';
+import { installTimerMethods } from '../../src/utils/timing';
+import { createCapturingLogger } from '../helpers/capture';
+
+// Test constants
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+const TRACEPARENT = `00-${TRACE_ID}-${SPAN_ID}-01`;
+const STATUS_OK = 200;
+const STATUS_NOT_FOUND = 404;
+const STATUS_SERVER_ERROR = 503;
+const LARGE_CHUNK = 40_000;
+
+/**
+ * Creates a logger with timer methods that records parsed log lines
+ * @returns Logger and captured records
+ */
+function createTimedLogger(): {
+  logger: Logger;
+  records: Array<Record<string, unknown>>;
+} {
+  const { logger, records } = createCapturingLogger({ level: 'trace' });
+  installTimerMethods(logger);
+  return { logger: logger as Logger, records };
+}
+
+/**
+ * Creates a minimal Express-style response
+ * @returns Response that emits 'finish' from end()
+ */
+function createExpressResponse(): ExpressLikeResponse & {
+  headers: Record<string, string>;
+  end: () => void;
+  abort: () => void;
+} {
+  const emitter = new EventEmitter();
+  const headers: Record<string, string> = {};
+  const response = {
+    statusCode: STATUS_OK,
+    writableFinished: false,
+    headers,
+    getHeader: (name: string): string | undefined => headers[name],
+    getHeaders: (): Record<string, string> => ({ ...headers }),
+    setHeader: (name: string, value: string): void => {
+      headers[name.toLowerCase()] = value;
+    },
+    once: (event: string, listener: () => void): unknown =>
+      emitter.once(event, listener),
+    end: (): void => {
+      response.writableFinished = true;
+      emitter.emit('finish');
+      emitter.emit('close');
+    },
+    abort: (): void => {
+      emitter.emit('close');
+    },
+  };
+  return response;
+}
+
+describe('HTTP Logging Middleware', () => {
+  describe('withRequestLogging', () => {
+    test('should log a completion record with status, duration and sizes', async () => {
+      const { logger, records } = createTimedLogger();
+      const handler = withRequestLogging(logger, () =>
+        Response.json({ ok: true }, { headers: { 'content-length': '11' } }),
+      );
+
+      const response = await handler(
+        new Request('http://localhost/users/1?token=abc', {
+          method: 'POST',
+          headers: { 'content-length': '2' },
+          body: '{}',
+        }),
+      );
+
+      expect(response.status).toBe(STATUS_OK);
+      expect(records).toHaveLength(1);
+      expect(records[0]).toMatchObject({
+        level: 30,
+        msg: 'Request completed',
+        http: {
+          method: 'POST',
+          path: '/users/1',
+          status_code: STATUS_OK,
+          request_size: 2,
+          response_size: 11,
+        },
+      });
+      const http = records[0]?.http as Record<string, unknown>;
+      expect(typeof http.duration_ms).toBe('number');
+      expect(http.request_headers).toBeUndefined();
+      expect(http.request_body).toBeUndefined();
+    });
+
+    test('should pick the level from the status code', async () => {
+      const { logger, records } = createTimedLogger();
+      let status = STATUS_NOT_FOUND;
+      const handler = withRequestLogging(
+        logger,
+        () => new Response(null, { status }),
+      );
+
+      await handler(new Request('http://localhost/missing'));
+      status = STATUS_SERVER_ERROR;
+      await handler(new Request('http://localhost/down'));
+
+      expect(records.map((record) => record.level)).toEqual([40, 50]);
+    });
+
+    test('should honor a custom levelForStatus', async () => {
+      const { logger, records } = createTimedLogger();
+      const handler = withRequestLogging(
+        logger,
+        () => new Response(null, { status: STATUS_NOT_FOUND }),
+        { levelForStatus: () => 'debug' },
+      );
+
+      await handler(new Request('http://localhost/missing'));
+
+      expect(records[0]?.level).toBe(20);
+    });
+
+    test('should propagate a valid incoming request ID', async () => {
+      const { logger, records } = createTimedLogger();
+      let seen: string | undefined;
+      const handler = withRequestLogging(logger, () => {
+        seen = getRequestId();
+        getRequestLogger()?.info('handling');
+        return new Response('ok');
+      });
+
+      const response = await handler(
+        new Request('http://localhost/', {
+          headers: { 'x-request-id': 'req-123' },
+        }),
+      );
+
+      expect(seen).toBe('req-123');
+      expect(response.headers.get('x-request-id')).toBe('req-123');
+      expect(records.map((record) => record.request_id)).toEqual([
+        'req-123',
+        'req-123',
+      ]);
+    });
+
+    test('should generate a request ID when the incoming one is unsafe', async () => {
+      const { logger, records } = createTimedLogger();
+      const handler = withRequestLogging(logger, () => new Response('ok'), {
+        generateRequestId: () => 'generated',
+      });
+
+      const response = await handler(
+        new Request('http://localhost/', {
+          headers: { 'x-request-id': 'bad id "quoted"' },
+        }),
+      );
+
+      expect(response.headers.get('x-request-id')).toBe('generated');
+      expect(records[0]?.request_id).toBe('generated');
+    });
+
+    test('should run the handler with the incoming trace context', async () => {
+      const { logger } = createTimedLogger();
+      let traceId: string | undefined;
+      const handler = withRequestLogging(logger, async () => {
+        await Promise.resolve();
+        traceId = getTraceContext('http')?.traceId;
+        return new Response('ok');
+      });
+
+      await handler(
+        new Request('http://localhost/', {
+          headers: { traceparent: TRACEPARENT },
+        }),
+      );
+
+      expect(traceId).toBe(TRACE_ID);
+      expect(getTraceContext('http')).toBeUndefined();
+    });
+
+    test('should log and rethrow handler errors', async () => {
+      const { logger, records } = createTimedLogger();
+      const handler = withRequestLogging(logger, () => {
+        throw new Error('boom');
+      });
+
+      await expect(handler(new Request('http://localhost/'))).rejects.toThrow(
+        'boom',
+      );
+      expect(records[0]).toMatchObject({
+        level: 50,
+        msg: 'Request failed',
+        err: { message: 'boom' },
+        http: { status_code: 500 },
+      });
+    });
+
+    test('should capture query, headers and body with redaction', async () => {
+      const { logger, records } = createTimedLogger();
+      const handler = withRequestLogging(
+        logger,
+        async (request) => {
+          // The handler can still read the body
+          expect(await request.json()).toMatchObject({ name: 'Ada' });
+          return new Response('ok', { headers: { 'set-cookie': 'sid=1' } });
+        },
+        {
+          capture: { query: true, headers: true, body: true },
+          redactKeys: ['pin'],
+        },
+      );
+
+      await handler(
+        new Request('http://localhost/login?next=%2Fhome', {
+          method: 'POST',
+          headers: {
+            'content-type': 'application/json',
+            authorization: 'Bearer secret',
+          },
+          body: JSON.stringify({
+            name: 'Ada',
+            password: 'hunter2',
+            card: { pin: '1234' },
+          }),
+        }),
+      );
+
+      expect(records[0]?.http).toMatchObject({
+        path: '/login?next=%2Fhome',
+        request_headers: {
+          'content-type': 'application/json',
+          authorization: '[REDACTED]',
+        },
+        response_headers: { 'set-cookie': '[REDACTED]' },
+        request_body: {
+          name: 'Ada',
+          password: '[REDACTED]',
+          card: { pin: '[REDACTED]' },
+        },
+      });
+    });
+
+    test('should capture only listed headers and truncate large bodies after redaction', async () => {
+      const { logger, records } = createTimedLogger();
+      const handler = withRequestLogging(logger, () => new Response('ok'), {
+        capture: {
+          path: false,
+          headers: ['X-Tenant'],
+          body: true,
+          maxBodySize: 24,
+        },
+      });
+
+      await handler(
+        new Request('http://localhost/upload', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', 'x-tenant': 'acme' },
+          body: JSON.stringify({ password: 'hunter2hunter2', note: 'x' }),
+        }),
+      );
+
+      const http = records[0]?.http as Record<string, unknown>;
+      expect(http.path).toBeUndefined();
+      expect(http.request_headers).toEqual({ 'x-tenant': 'acme' });
+      expect(http.request_body).toBe('{"password":"[REDACTED]"…[truncated]');
+    });
+
+    test('should parse and redact form bodies', async () => {
+      const { logger, records } = createTimedLogger();
+      const handler = withRequestLogging(logger, () => new Response('ok'), {
+        capture: { body: true },
+      });
+
+      await handler(
+        new Request('http://localhost/login', {
+          method: 'POST',
+          headers: { 'content-type': 'application/x-www-form-urlencoded' },
+          body: 'user=ada&password=hunter2&role=a&role=b',
+        }),
+      );
+
+      expect(
+        (records[0]?.http as Record<string, unknown>).request_body,
+      ).toEqual({ user: 'ada', password: '[REDACTED]', role: ['a', 'b'] });
+    });
+
+    test('should drop bodies that cannot be parsed or are too large', async () => {
+      const { logger, records } = createTimedLogger();
+      const handler = withRequestLogging(logger, () => new Response('ok'), {
+        capture: { body: true },
+      });
+
+      await handler(
+        new Request('http://localhost/login', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: '{"password":"hunter2"',
+        }),
+      );
+      await handler(
+        new Request('http://localhost/upload', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: new ReadableStream<Uint8Array>({
+            start(controller): void {
+              const chunk = new TextEncoder().encode(' '.repeat(LARGE_CHUNK));
+              controller.enqueue(chunk);
+              controller.enqueue(chunk);
+              controller.enqueue(new TextEncoder().encode('{}'));
+              controller.close();
+            },
+          }),
+        }),
+      );
+
+      expect(records).toHaveLength(2);
+      for (const record of records) {
+        expect(
+          (record.http as Record<string, unknown>).request_body,
+        ).toBeUndefined();
+      }
+    });
+  });
+
+  describe('createExpressRequestLogger', () => {
+    test('should set req.log and log when the response finishes', () => {
+      const { logger, records } = createTimedLogger();
+      const middleware = createExpressRequestLogger(logger, {
+        capture: { body: true },
+      });
+      const req: ExpressLikeRequest = {
+        method: 'PUT',
+        url: '/profile',
+        originalUrl: '/api/profile?x=1',
+        headers: { 'x-request-id': 'req-9', traceparent: TRACEPARENT },
+        body: { token: 'abc', name: 'Ada' },
+      };
+      const res = createExpressResponse();
+      let traceId: string | undefined;
+
+      middleware(req, res, () => {
+        traceId = getTraceContext('http')?.traceId;
+        req.log?.info('handling');
+      });
+      res.statusCode = STATUS_NOT_FOUND;
+      res.end();
+
+      expect(traceId).toBe(TRACE_ID);
+      expect(req.id).toBe('req-9');
+      expect(res.headers['x-request-id']).toBe('req-9');
+      expect(records.map((record) => record.msg)).toEqual([
+        'handling',
+        'Request completed',
+      ]);
+      expect(records[1]).toMatchObject({
+        level: 40,
+        request_id: 'req-9',
+        http: {
+          method: 'PUT',
+          path: '/api/profile',
+          status_code: STATUS_NOT_FOUND,
+          request_body: { token: '[REDACTED]', name: 'Ada' },
+        },
+      });
+    });
+
+    test('should truncate a parsed body after redaction', () => {
+      const { logger, records } = createTimedLogger();
+      const middleware = createExpressRequestLogger(logger, {
+        capture: { body: true, maxBodySize: 21 },
+      });
+      const res = createExpressResponse();
+
+      middleware(
+        {
+          method: 'POST',
+          url: '/notes',
+          headers: {},
+          body: { token: 'abcdefghijklmnop', note: 'hello' },
+        },
+        res,
+        () => undefined,
+      );
+      res.end();
+
+      expect((records[0]?.http as Record<string, unknown>).request_body).toBe(
+        '{"token":"[REDACTED]"…[truncated]',
+      );
+    });
+
+    test('should warn when the connection closes before finishing', () => {
+      const { logger, records } = createTimedLogger();
+      const res = createExpressResponse();
+
+      createExpressRequestLogger(logger)(
+        { method: 'GET', url: '/stream', headers: {} },
+        res,
+        () => undefined,
+      );
+      res.abort();
+
+      expect(records).toHaveLength(1);
+      expect(records[0]).toMatchObject({ level: 40, msg: 'Request aborted' });
+    });
+  });
+
+  describe('createHonoRequestLogger', () => {
+    /**
+     * Creates a minimal Hono-style context
+     * @param request - Incoming request
+     * @returns Context and the variables set on it
+     */
+    function createHonoContext(request: Request): {
+      context: HonoLikeContext;
+      variables: Map<string, unknown>;
+    } {
+      const variables = new Map<string, unknown>();
+      const context: HonoLikeContext = {
+        req: { raw: request },
+        res: new Response(null),
+        set: (key, value) => variables.set(key, value),
+        header: (name, value) => context.res.headers.set(name, value),
+      };
+      return { context, variables };
+    }
+
+    test('should set c.var.logger and log after the handler', async () => {
+      const { logger, records } = createTimedLogger();
+      const { context, variables } = createHonoContext(
+        new Request('http://localhost/items', {
+          headers: { 'x-request-id': 'req-7' },
+        }),
+      );
+
+      await createHonoRequestLogger(logger)(context, async () => {
+        (variables.get('logger') as Logger).info('handling');
+        context.res = new Response('created', { status: 201 });
+      });
+
+      expect(variables.get('requestId')).toBe('req-7');
+      expect(context.res.headers.get('x-request-id')).toBe('req-7');
+      expect(records[1]).toMatchObject({
+        level: 30,
+        request_id: 'req-7',
+        http: { method: 'GET', path: '/items', status_code: 201 },
+      });
+    });
+
+    test('should log errors handled by Hono', async () => {
+      const { logger, records } = createTimedLogger();
+      const { context } = createHonoContext(new Request('http://localhost/'));
+
+      await createHonoRequestLogger(logger)(context, async () => {
+        context.error = new Error('handler failed');
+        context.res = new Response('error', { status: 500 });
+      });
+
+      expect(records[0]).toMatchObject({
+        level: 50,
+        msg: 'Request failed',
+        err: { message: 'handler failed' },
+      });
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for HMAC signing of log records
+ *
+ * Validates canonical JSON, signing through a Pino streamWrite hook, key
+ * rotation, and detection of altered, unsigned and malformed records.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import pino from 'pino';
+
+import { ConfigurationError } from '../../src/utils/error-handler';
+import {
+  canonicalJson,
+  createIntegrityHook,
+  verifyLogRecord,
+} from '../../src/utils/integrity';
+
+const KEYS = { '2026-09': 'previous-key', '2026-10': 'current-key' };
+
+/**
+ * Creates a logger that signs records and keeps the written lines
+ * @param keyId - Id of the signing key
+ * @returns Logger and written lines
+ */
+function createSigningLogger(keyId: keyof typeof KEYS = '2026-10'): {
+  logger: pino.Logger;
+  lines: Array<string>;
+} {
+  const lines: Array<string> = [];
+  const logger = pino(
+    {
+      hooks: {
+        streamWrite: createIntegrityHook({ keyId, key: KEYS[keyId] }),
+      },
+    },
+    {
+      write(line: string): void {
+        lines.push(line);
+      },
+    },
+  );
+  return { logger, lines };
+}
+
+describe('Integrity Utilities', () => {
+  describe('canonicalJson', () => {
+    test('should sort keys at every depth and drop undefined properties', () => {
+      expect(
+        canonicalJson({ b: 1, a: [true, { d: null, c: 'x' }], e: undefined }),
+      ).toBe('{"a":[true,{"c":"x","d":null}],"b":1}');
+    });
+  });
+
+  describe('createIntegrityHook', () => {
+    test('should append a signature naming the key and algorithm', () => {
+      const { logger, lines } = createSigningLogger();
+
+      logger.info({ userId: 'u-1' }, 'Signed in');
+
+      const record = JSON.parse(lines[0] ?? '') as Record<string, unknown>;
+      expect(lines[0]?.endsWith('}\n')).toBe(true);
+      expect(record.userId).toBe('u-1');
+      expect(record.sig).toMatchObject({ kid: '2026-10', alg: 'sha256' });
+    });
+
+    test('should reject invalid options', () => {
+      expect(() => createIntegrityHook({ keyId: '', key: 'k' })).toThrow(
+        ConfigurationError,
+      );
+      expect(() => createIntegrityHook({ keyId: 'k1', key: '' })).toThrow(
+        ConfigurationError,
+      );
+      expect(() =>
+        createIntegrityHook({
+          keyId: 'k1',
+          key: 'k',
+          algorithm: 'md5' as 'sha256',
+        }),
+      ).toThrow(ConfigurationError);
+    });
+  });
+
+  describe('verifyLogRecord', () => {
+    test('should verify lines and re-serialized records', () => {
+      const { logger, lines } = createSigningLogger();
+      logger.warn({ order: { id: 7, items: ['a', 'b'] } }, 'Slow checkout');
+      const line = lines[0] ?? '';
+
+      // Loki and other shippers may reorder keys and drop formatting
+      const record = JSON.parse(line) as Record<string, unknown>;
+      const reordered = Object.fromEntries(Object.entries(record).reverse());
+
+      expect(verifyLogRecord(line, KEYS)).toEqual({
+        valid: true,
+        keyId: '2026-10',
+      });
+      expect(verifyLogRecord(reordered, KEYS).valid).toBe(true);
+    });
+
+    test('should verify records signed with a rotated-out key', () => {
+      const { logger, lines } = createSigningLogger('2026-09');
+      logger.info('Before rotation');
+
+      expect(verifyLogRecord(lines[0] ?? '', KEYS)).toEqual({
+        valid: true,
+        keyId: '2026-09',
+      });
+    });
+
+    test('should reject altered records', () => {
+      const { logger, lines } = createSigningLogger();
+      logger.info({ amount: 10 }, 'Refund issued');
+
+      const altered = (lines[0] ?? '').replace('"amount":10', '"amount":1000');
+
+      expect(verifyLogRecord(altered, KEYS)).toEqual({
+        valid: false,
+        keyId: '2026-10',
+        reason: 'invalid_signature',
+      });
+    });
+
+    test('should report unsigned, unknown-key and malformed records', () => {
+      const { logger, lines } = createSigningLogger();
+      logger.info('Signed');
+
+      expect(verifyLogRecord('{"level":30,"msg":"hi"}', KEYS).reason).toBe(
+        'unsigned',
+      );
+      expect(verifyLogRecord(lines[0] ?? '', { other: 'key' })).toEqual({
+        valid: false,
+        keyId: '2026-10',
+        reason: 'unknown_key',
+      });
+      expect(verifyLogRecord('not json', KEYS).reason).toBe('malformed');
+      expect(verifyLogRecord('42', KEYS).reason).toBe('malformed');
+    });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Tests for custom log level helpers
+ *
+ * Validates placement of custom levels on the built-in severity scale,
+ * merged level values, and default pretty colors.
+ */
+
+import { describe, expect, test } from 'bun:test';
+
+import {
+  nearestSeverityLevel,
+  resolveLevelColors,
+  resolveLevelValues,
+} from '../../src/utils/levels';
+
+describe('Level Utilities', () => {
+  describe('nearestSeverityLevel', () => {
+    test('should return the highest built-in level at or below the value', () => {
+      expect(nearestSeverityLevel(35)).toBe('info');
+      expect(nearestSeverityLevel(40)).toBe('warn');
+      expect(nearestSeverityLevel(70)).toBe('fatal');
+    });
+
+    test('should map values below trace to trace', () => {
+      expect(nearestSeverityLevel(5)).toBe('trace');
+    });
+  });
+
+  describe('resolveLevelValues', () => {
+    test('should merge custom levels into the built-in levels', () => {
+      expect(resolveLevelValues({ notice: 35 })).toMatchObject({
+        info: 30,
+        notice: 35,
+        warn: 40,
+      });
+      expect(resolveLevelValues()).toMatchObject({ fatal: 60 });
+    });
+  });
+
+  describe('resolveLevelColors', () => {
+    test('should default custom levels to their nearest built-in color', () => {
+      expect(resolveLevelColors({ notice: 35, audit: 70 })).toEqual({
+        notice: 'green',
+        audit: 'bgRed',
+      });
+    });
+
+    test('should prefer explicit colors', () => {
+      expect(
+        resolveLevelColors({ audit: 70 }, { audit: 'magenta', warn: 'cyan' }),
+      ).toEqual({ audit: 'magenta', warn: 'cyan' });
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Tests for request-scoped tail buffering utilities
+ *
+ * Validates buffering, flushing on the trigger level, discarding at scope
+ * end, memory caps, nested scopes, and integration with Pino child
+ * bindings and mixins.
+ */
+
+import type pino from 'pino';
+
+import type { CapturingLogger, LogMethodOption } from '../helpers/capture';
+
+import { describe, expect, test } from 'bun:test';
+
+import { ConfigurationError } from '../../src/utils/error-handler';
+import {
+  createLogBufferHook,
+  flushLogBuffer,
+  runWithLogBuffer,
+} from '../../src/utils/log-buffer';
+import {
+  createLogContextMixin,
+  runWithLogContext,
+} from '../../src/utils/log-context';
+import { createCapturingLogger } from '../helpers/capture';
+
+/**
+ * Creates a Pino logger with the tail buffer hook that records output
+ * @param mixin - Mixin installed on the logger and the hook
+ * @param customLevels - Custom levels of the logger
+ * @returns Logger and captured records
+ */
+function createBufferedLogger(
+  mixin: () => Record<string, unknown> = createLogContextMixin(),
+  customLevels?: Record<string, number>,
+): CapturingLogger {
+  return createCapturingLogger({
+    level: 'trace',
+    customLevels,
+    mixin,
+    hooks: { logMethod: createLogBufferHook(mixin) as LogMethodOption },
+  });
+}
+
+describe('Log Buffer Utilities', () => {
+  test('should pass records outside a scope', () => {
+    const { logger, records } = createBufferedLogger();
+
+    logger.debug('not buffered');
+
+    expect(records).toHaveLength(1);
+  });
+
+  test('should discard buffered records when the scope succeeds', () => {
+    const { logger, records } = createBufferedLogger();
+
+    const result = runWithLogBuffer(() => {
+      logger.trace('step 1');
+      logger.debug('step 2');
+      logger.info('done');
+      return 42;
+    });
+
+    expect(result).toBe(42);
+    expect(records.map((record) => record.msg)).toEqual(['done']);
+  });
+
+  test('should flush buffered records in order before the error', () => {
+    const { logger, records } = createBufferedLogger();
+
+    runWithLogBuffer(() => {
+      logger.debug('step 1');
+      logger.info('progress');
+      logger.debug('step 2');
+      logger.error('failed');
+      logger.debug('after failure');
+    });
+
+    expect(records.map((record) => record.msg)).toEqual([
+      'progress',
+      'step 1',
+      'step 2',
+      'failed',
+      'after failure',
+    ]);
+  });
+
+  test('should buffer across awaits and discard when the promise settles', async () => {
+    const { logger, records } = createBufferedLogger();
+
+    await runWithLogBuffer(async () => {
+      logger.debug('before await');
+      await Promise.resolve();
+      logger.debug('after await');
+    });
+    logger.debug('outside');
+
+    expect(records.map((record) => record.msg)).toEqual(['outside']);
+  });
+
+  test('should flush across awaits', async () => {
+    const { logger, records } = createBufferedLogger();
+
+    await runWithLogBuffer(async () => {
+      logger.debug('before await');
+      await Promise.resolve();
+      logger.fatal('crashed');
+    });
+
+    expect(records.map((record) => record.msg)).toEqual([
+      'before await',
+      'crashed',
+    ]);
+  });
+
+  test('should discard records when the scope throws', () => {
+    const { logger, records } = createBufferedLogger();
+
+    expect(() =>
+      runWithLogBuffer(() => {
+        logger.debug('held');
+        throw new Error('boom');
+      }),
+    ).toThrow('boom');
+
+    expect(records).toHaveLength(0);
+  });
+
+  test('should discard late records of a closed scope', async () => {
+    const { logger, records } = createBufferedLogger();
+    let late: Promise<void> = Promise.resolve();
+
+    runWithLogBuffer(() => {
+      late = Promise.resolve().then(() => logger.debug('late'));
+    });
+    await late;
+
+    expect(records).toHaveLength(0);
+  });
+
+  test('should keep child bindings and mixin fields from logging time', () => {
+    let requestPhase = 'parse';
+    const { logger, records } = createBufferedLogger(
+      createLogContextMixin(() => ({ phase: requestPhase })),
+    );
+
+    runWithLogContext({ requestId: 'req-1' }, () =>
+      runWithLogBuffer(() => {
+        logger.child({ component: 'db' }).debug({ rows: 3 }, 'query');
+        logger.debug({ phase: 'explicit' }, 'explicit phase');
+        requestPhase = 'respond';
+        logger.error('failed');
+      }),
+    );
+
+    expect(records[0]).toMatchObject({
+      component: 'db',
+      requestId: 'req-1',
+      phase: 'parse',
+      rows: 3,
+      msg: 'query',
+    });
+    expect(records[1]).toMatchObject({ phase: 'explicit' });
+    expect(records[2]).toMatchObject({ phase: 'respond', msg: 'failed' });
+  });
+
+  test('should keep the time records were logged', async () => {
+    const { logger, records } = createBufferedLogger();
+
+    await runWithLogBuffer(async () => {
+      logger.debug('step 1');
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      logger.error('failed');
+    });
+
+    const [step, failure] = records;
+    const bufferedAt = Date.parse(String(step?.buffered_at));
+    expect(failure?.buffered_at).toBeUndefined();
+    expect(Number(step?.time) - bufferedAt).toBeGreaterThanOrEqual(40);
+  });
+
+  test('should honor custom level and flushOn', () => {
+    const { logger, records } = createBufferedLogger();
+
+    runWithLogBuffer(
+      () => {
+        logger.info('held');
+        logger.warn('trigger');
+      },
+      { level: 'warn', flushOn: 'warn' },
+    );
+
+    expect(records.map((record) => record.msg)).toEqual(['held', 'trigger']);
+  });
+
+  test('should resolve custom levels of the logger', () => {
+    const { logger, records } = createBufferedLogger(createLogContextMixin(), {
+      verbose: 25,
+      audit: 45,
+    });
+    const custom = logger as unknown as pino.Logger<'verbose' | 'audit'>;
+
+    runWithLogBuffer(
+      () => {
+        custom.debug('held');
+        custom.verbose('direct');
+        custom.audit('trigger');
+      },
+      { level: 'verbose', flushOn: 'audit' },
+    );
+
+    expect(records.map((record) => record.msg)).toEqual([
+      'direct',
+      'held',
+      'trigger',
+    ]);
+  });
+
+  test('should drop the oldest records beyond maxRecords', () => {
+    const { logger, records } = createBufferedLogger();
+
+    runWithLogBuffer(
+      () => {
+        for (let i = 1; i <= 5; i++) {
+          logger.debug(`step ${i}`);
+        }
+        logger.error('failed');
+      },
+      { maxRecords: 2 },
+    );
+
+    expect(records.map((record) => record.msg)).toEqual([
+      'dropped 3 buffered logs',
+      'step 4',
+      'step 5',
+      'failed',
+    ]);
+    expect(records[0]).toMatchObject({ log_buffer: { dropped: 3 }, level: 20 });
+  });
+
+  test('should flush on demand with flushLogBuffer', () => {
+    const { logger, records } = createBufferedLogger();
+
+    runWithLogBuffer(() => {
+      logger.debug('held');
+      flushLogBuffer();
+    });
+
+    expect(records.map((record) => record.msg)).toEqual(['held']);
+    expect(() => flushLogBuffer()).not.toThrow();
+  });
+
+  test('should flush enclosing scopes from a nested scope', () => {
+    const { logger, records } = createBufferedLogger();
+
+    runWithLogBuffer(() => {
+      logger.debug('outer');
+      runWithLogBuffer(() => {
+        logger.debug('inner');
+        logger.error('failed');
+      });
+    });
+
+    expect(records.map((record) => record.msg)).toEqual([
+      'outer',
+      'inner',
+      'failed',
+    ]);
+  });
+
+  test('should reject invalid options', () => {
+    expect(() => runWithLogBuffer(() => 1, { maxRecords: 0 })).toThrow(
+      ConfigurationError,
+    );
+    // Levels are resolved against the logger that logs in the scope
+    const { logger } = createBufferedLogger();
+    expect(() =>
+      runWithLogBuffer(() => logger.info('unknown level'), {
+        flushOn: 'verbose',
+      }),
+    ).toThrow(ConfigurationError);
+  });
+});
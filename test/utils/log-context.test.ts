@@ -0,0 +1,120 @@
+/**
+ * Tests for ambient log context utilities
+ *
+ * Validates scope isolation, nested merging, addLogContext semantics,
+ * and mixin integration with Pino loggers and their children.
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test';
+
+import {
+  addLogContext,
+  clearLogContext,
+  createLogContextMixin,
+  getLogContext,
+  runWithLogContext,
+} from '../../src/utils/log-context';
+import { createCapturingLogger } from '../helpers/capture';
+
+describe('Log Context Utilities', () => {
+  afterEach(() => {
+    clearLogContext();
+  });
+
+  describe('runWithLogContext', () => {
+    test('should expose bindings inside the scope only', () => {
+      const inside = runWithLogContext({ requestId: 'req-1' }, () =>
+        getLogContext(),
+      );
+
+      expect(inside).toEqual({ requestId: 'req-1' });
+      expect(getLogContext()).toEqual({});
+    });
+
+    test('should merge nested scopes with inner values winning', () => {
+      const result = runWithLogContext({ requestId: 'req-1', tier: 'a' }, () =>
+        runWithLogContext({ userId: 'u-1', tier: 'b' }, () => getLogContext()),
+      );
+
+      expect(result).toEqual({ requestId: 'req-1', userId: 'u-1', tier: 'b' });
+    });
+
+    test('should isolate concurrent scopes across awaits', async () => {
+      const run = async (requestId: string, delayMs: number) =>
+        runWithLogContext({ requestId }, async () => {
+          await new Promise((resolve) => setTimeout(resolve, delayMs));
+          return getLogContext()['requestId'];
+        });
+
+      const results = await Promise.all([run('a', 20), run('b', 5)]);
+
+      expect(results).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('addLogContext', () => {
+    test('should add to the current scope for later code in it', async () => {
+      const authenticate = async (): Promise<void> => {
+        await Promise.resolve();
+        addLogContext({ userId: 'u-1' });
+      };
+
+      const result = await runWithLogContext(
+        { requestId: 'req-1' },
+        async () => {
+          await authenticate();
+          return getLogContext();
+        },
+      );
+
+      expect(result).toEqual({ requestId: 'req-1', userId: 'u-1' });
+    });
+
+    test('should not leak into the enclosing scope', () => {
+      runWithLogContext({ requestId: 'req-1' }, () => {
+        runWithLogContext({}, () => {
+          addLogContext({ userId: 'u-1' });
+        });
+
+        expect(getLogContext()).toEqual({ requestId: 'req-1' });
+      });
+    });
+  });
+
+  describe('createLogContextMixin', () => {
+    test('should return only the wrapped mixin outside a scope', () => {
+      const mixin = createLogContextMixin(() => ({ trace_id: 't' }));
+
+      expect(mixin()).toEqual({ trace_id: 't' });
+    });
+
+    test('should let wrapped mixin fields win over ambient bindings', () => {
+      const mixin = createLogContextMixin(() => ({ trace_id: 'from-trace' }));
+
+      const result = runWithLogContext(
+        { trace_id: 'ambient', requestId: 'req-1' },
+        () => mixin(),
+      );
+
+      expect(result).toEqual({ trace_id: 'from-trace', requestId: 'req-1' });
+    });
+
+    test('should stamp bindings on parent and child logger records', () => {
+      const { logger, records } = createCapturingLogger({
+        mixin: createLogContextMixin(),
+      });
+      const child = logger.child({ component: 'voice' });
+
+      runWithLogContext({ requestId: 'req-1' }, () => {
+        logger.info('parent');
+        child.child({ layer: 'service' }).info('grandchild');
+      });
+      logger.info('outside');
+
+      expect(records[0]?.['requestId']).toBe('req-1');
+      expect(records[1]?.['requestId']).toBe('req-1');
+      expect(records[1]?.['component']).toBe('voice');
+      expect(records[2]?.['requestId']).toBeUndefined();
+    });
+  });
+});
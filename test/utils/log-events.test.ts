@@ -0,0 +1,162 @@
+/**
+ * Tests for the typed log event catalog
+ *
+ * Validates emitter naming, field typing, the stamped `event` key,
+ * definition checks, and the JSON Schema export.
+ */
+
+import { describe, expect, test } from 'bun:test';
+
+import { ConfigurationError } from '../../src/utils/error-handler';
+import {
+  defineLogEvents,
+  getLogEventsJsonSchema,
+  toLogEventMethodName,
+} from '../../src/utils/log-events';
+import { createCapturingLogger } from '../helpers/capture';
+
+const events = defineLogEvents({
+  'payment.failed': {
+    level: 'error',
+    message: 'Payment failed',
+    description: 'A charge was declined or errored',
+    fields: {
+      amount: 'number',
+      currency: 'string',
+      reason: { type: 'string', optional: true, description: 'Decline code' },
+    },
+  },
+  'user.signed_up': {
+    level: 'info',
+    fields: { userId: 'string', referral: { type: 'boolean', optional: true } },
+  },
+  'cache-warmed': { level: 'debug' },
+});
+
+describe('Log Event Utilities', () => {
+  describe('toLogEventMethodName', () => {
+    test('should camelCase dotted, dashed and snake_case names', () => {
+      expect(toLogEventMethodName('payment.failed')).toBe('paymentFailed');
+      expect(toLogEventMethodName('user.signed_up')).toBe('userSignedUp');
+      expect(toLogEventMethodName('cache-warmed')).toBe('cacheWarmed');
+    });
+  });
+
+  describe('defineLogEvents', () => {
+    test('should log at the event level with the event key', () => {
+      const { logger, records } = createCapturingLogger({ level: 'trace' });
+
+      events.paymentFailed(logger, { amount: 42, currency: 'EUR' });
+      events.userSignedUp(logger.child({ component: 'auth' }), {
+        userId: 'u-1',
+      });
+
+      expect(records[0]).toMatchObject({
+        level: 50,
+        event: 'payment.failed',
+        amount: 42,
+        currency: 'EUR',
+        msg: 'Payment failed',
+      });
+      expect(records[1]).toMatchObject({
+        level: 30,
+        component: 'auth',
+        event: 'user.signed_up',
+        userId: 'u-1',
+        msg: 'user.signed_up',
+      });
+    });
+
+    test('should accept a message and omit fields when none are required', () => {
+      const { logger, records } = createCapturingLogger({ level: 'trace' });
+
+      events.cacheWarmed(logger);
+      events.cacheWarmed(logger, {}, 'Cache ready');
+
+      expect(records.map((record) => record.msg)).toEqual([
+        'cache-warmed',
+        'Cache ready',
+      ]);
+    });
+
+    test('should check fields at compile time', () => {
+      const { logger, records } = createCapturingLogger({ level: 'trace' });
+
+      // @ts-expect-error - Missing required field
+      events.paymentFailed(logger, { amount: 42 });
+      // @ts-expect-error - Misspelled field
+      events.userSignedUp(logger, { userID: 'u-1' });
+      // @ts-expect-error - Wrong field type
+      events.paymentFailed(logger, { amount: '42', currency: 'EUR' });
+
+      expect(records).toHaveLength(3);
+    });
+
+    test('should not let fields override the event key', () => {
+      const { logger, records } = createCapturingLogger({ level: 'trace' });
+      const fields = { userId: 'u-1', event: 'spoofed' };
+
+      events.userSignedUp(logger, fields);
+
+      expect(records[0]?.event).toBe('user.signed_up');
+    });
+
+    test('should reject invalid definitions', () => {
+      expect(() =>
+        defineLogEvents({ 'a.b': { level: 'verbose' as 'info' } }),
+      ).toThrow(ConfigurationError);
+      expect(() =>
+        defineLogEvents({
+          'a.b': { level: 'info', fields: { event: 'string' } },
+        }),
+      ).toThrow(ConfigurationError);
+      expect(() =>
+        defineLogEvents({
+          'a.b': { level: 'info', fields: { id: 'uuid' as 'string' } },
+        }),
+      ).toThrow(ConfigurationError);
+      expect(() =>
+        defineLogEvents({ 'a.b': { level: 'info' }, a_b: { level: 'info' } }),
+      ).toThrow('both map to method "aB"');
+    });
+  });
+
+  describe('getLogEventsJsonSchema', () => {
+    test('should describe every event record', () => {
+      const schema = getLogEventsJsonSchema(events, 'Checkout events');
+
+      expect(schema.title).toBe('Checkout events');
+      expect(schema.oneOf).toEqual([
+        { $ref: '#/$defs/payment.failed' },
+        { $ref: '#/$defs/user.signed_up' },
+        { $ref: '#/$defs/cache-warmed' },
+      ]);
+      expect(schema.$defs['payment.failed']).toEqual({
+        type: 'object',
+        title: 'payment.failed',
+        description: 'A charge was declined or errored',
+        properties: {
+          event: { const: 'payment.failed' },
+          level: { const: 50 },
+          amount: { type: 'number' },
+          currency: { type: 'string' },
+          reason: { type: 'string', description: 'Decline code' },
+        },
+        required: ['event', 'amount', 'currency'],
+      });
+      expect(JSON.parse(JSON.stringify(schema))).toEqual(schema);
+    });
+
+    test('should escape event names in references', () => {
+      const schema = getLogEventsJsonSchema(
+        defineLogEvents({ 'jobs/retry~1': { level: 'warn' } }),
+      );
+
+      expect(schema.oneOf[0]?.$ref).toBe('#/$defs/jobs~1retry~01');
+    });
+
+    test('should reject objects not created by defineLogEvents', () => {
+      expect(() => getLogEventsJsonSchema({})).toThrow(ConfigurationError);
+    });
+  });
+});
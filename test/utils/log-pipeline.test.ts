@@ -0,0 +1,113 @@
+/**
+ * Tests for log method pipeline composition
+ */
+
+import type { LogMethodHook } from '../../src/utils/log-pipeline';
+
+import { describe, expect, test } from 'bun:test';
+import pino from 'pino';
+
+import {
+  composeLogMethodHooks,
+  getLoggerNamespace,
+  splitLogArgs,
+  withLogFields,
+} from '../../src/utils/log-pipeline';
+import { createCapturingLogger } from '../helpers/capture';
+
+describe('Log Pipeline', () => {
+  describe('composeLogMethodHooks', () => {
+    test('should return undefined when no stage is active', () => {
+      expect(composeLogMethodHooks([undefined])).toBeUndefined();
+    });
+
+    test('should run stages in order and allow rewriting and dropping', () => {
+      const order: Array<string> = [];
+      const tag: LogMethodHook = function (args, method) {
+        order.push('tag');
+        method.apply(this, [{ tagged: true }, ...args] as never);
+      };
+      const dropDebug: LogMethodHook = function (args, method, level) {
+        order.push('drop');
+        if (level < 30) {
+          return;
+        }
+        Reflect.apply(method, this, args);
+      };
+
+      const { logger, records } = createCapturingLogger({
+        level: 'debug',
+        hooks: {
+          logMethod: composeLogMethodHooks([tag, dropDebug]) as never,
+        },
+      });
+
+      logger.debug('dropped');
+      logger.info('kept');
+
+      expect(order).toEqual(['tag', 'drop', 'tag', 'drop']);
+      expect(records).toHaveLength(1);
+      expect(records[0]?.['tagged']).toBe(true);
+      expect(records[0]?.['msg']).toBe('kept');
+    });
+  });
+
+  describe('splitLogArgs', () => {
+    test('should split message-only calls', () => {
+      expect(splitLogArgs(['hello'])).toEqual({
+        obj: undefined,
+        msg: 'hello',
+        msgIndex: 0,
+      });
+    });
+
+    test('should split object and message calls', () => {
+      expect(splitLogArgs([{ a: 1 }, 'hello'])).toEqual({
+        obj: { a: 1 },
+        msg: 'hello',
+        msgIndex: 1,
+      });
+    });
+
+    test('should not treat Error as merge object', () => {
+      expect(splitLogArgs([new Error('x'), 'hello']).obj).toBeUndefined();
+    });
+  });
+
+  describe('withLogFields', () => {
+    test('should add fields to message-only calls', () => {
+      expect(withLogFields(['hello %s', 'world'], { n: 1 })).toEqual([
+        { n: 1 },
+        'hello %s',
+        'world',
+      ]);
+    });
+
+    test('should merge fields into the merge object', () => {
+      expect(withLogFields([{ a: 1, n: 0 }, 'msg'], { n: 1 })).toEqual([
+        { a: 1, n: 1 },
+        'msg',
+      ]);
+    });
+
+    test('should keep errors under err', () => {
+      const error = new Error('boom');
+
+      expect(withLogFields([error, 'failed'], { n: 1 })).toEqual([
+        { err: error, n: 1 },
+        'failed',
+      ]);
+    });
+  });
+
+  describe('getLoggerNamespace', () => {
+    test('should read the namespace binding', () => {
+      const logger = pino({ level: 'silent' });
+
+      expect(getLoggerNamespace(logger)).toBeUndefined();
+      expect(
+        getLoggerNamespace(logger.child({ namespace: 'voice:call' })),
+      ).toBe('voice:call');
+    });
+  });
+});
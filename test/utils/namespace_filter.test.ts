@@ -11,7 +11,9 @@ import {
   buildNamespace,
   clearNamespaceCache,
   isNamespaceEnabled,
+  matchNamespaceRule,
   parseNamespacePatterns,
+  resolveNamespaceLevel,
 } from '../../src/utils/namespace_filter';
 
 describe('Namespace Filter Utilities', () => {
@@ -269,6 +271,144 @@ describe('Namespace Filter Utilities', () => {
     });
   });
 
+  describe('resolveNamespaceLevel', () => {
+    test('should parse level suffixes into rules', () => {
+      const config = parseNamespacePatterns(
+        'voice:*=DEBUG, http:* = warn,db:*',
+      );
+
+      expect(config.matchers).toHaveLength(3);
+      expect(config.rules.map((rule) => [rule.pattern, rule.level])).toEqual([
+        ['voice:*', 'debug'],
+        ['http:*', 'warn'],
+        ['db:*', undefined],
+      ]);
+    });
+
+    test('should resolve the level of the matching pattern', () => {
+      const config = parseNamespacePatterns('voice:*=debug,http:*=warn,*=info');
+
+      expect(resolveNamespaceLevel('voice:orchestrator', config)).toBe('debug');
+      expect(resolveNamespaceLevel('http:request', config)).toBe('warn');
+      expect(resolveNamespaceLevel('db:query', config)).toBe('info');
+    });
+
+    test('should prefer the most specific match regardless of order', () => {
+      const config = parseNamespacePatterns(
+        '*=info,voice:*=debug,voice:service:*=warn,voice:service:twilio=error',
+      );
+
+      expect(resolveNamespaceLevel('voice:orchestrator', config)).toBe('debug');
+      expect(resolveNamespaceLevel('voice:service:redis', config)).toBe('warn');
+      expect(resolveNamespaceLevel('voice:service:twilio', config)).toBe(
+        'error',
+      );
+    });
+
+    test('should let the first pattern win ties', () => {
+      const config = parseNamespacePatterns('http:*=debug,*:http=warn');
+
+      expect(resolveNamespaceLevel('http:http', config)).toBe('debug');
+    });
+
+    test('should return undefined when the winning pattern has no level', () => {
+      const config = parseNamespacePatterns('voice:*,*=warn');
+
+      expect(resolveNamespaceLevel('voice:service', config)).toBeUndefined();
+      expect(resolveNamespaceLevel('http:request', config)).toBe('warn');
+    });
+
+    test('should return undefined without rules', () => {
+      expect(
+        resolveNamespaceLevel('voice:service', parseNamespacePatterns('*')),
+      ).toBeUndefined();
+    });
+
+    test('should keep filtering namespaces not covered by any pattern', () => {
+      const config = parseNamespacePatterns('voice:*=debug');
+
+      expect(isNamespaceEnabled('voice:service', config)).toBe(true);
+      expect(isNamespaceEnabled('http:request', config)).toBe(false);
+    });
+  });
+
+  describe('matchNamespaceRule', () => {
+    test('should return the most specific matching rule', () => {
+      const { rules } = parseNamespacePatterns('payments:*,payments:webhook');
+
+      expect(matchNamespaceRule('payments:webhook', rules)?.pattern).toBe(
+        'payments:webhook',
+      );
+      expect(matchNamespaceRule('payments:charge', rules)?.pattern).toBe(
+        'payments:*',
+      );
+      expect(matchNamespaceRule('http:request', rules)).toBeUndefined();
+    });
+  });
+
+  describe('Exclusion Patterns', () => {
+    test('should compile exclusions separately from inclusions', () => {
+      const config = parseNamespacePatterns('*,-http:healthcheck, -db:*');
+
+      expect(config.matchers).toHaveLength(1);
+      expect(config.exclusions).toHaveLength(2);
+      expect(config.rules.map((rule) => rule.pattern)).toEqual(['*']);
+    });
+
+    test('should exclude matching namespaces from a wildcard', () => {
+      const config = parseNamespacePatterns('*,-http:healthcheck,-db:pool');
+
+      expect(isNamespaceEnabled('http:request', config)).toBe(true);
+      expect(isNamespaceEnabled('http:healthcheck', config)).toBe(false);
+      expect(isNamespaceEnabled('db:pool', config)).toBe(false);
+      expect(isNamespaceEnabled('db:query', config)).toBe(true);
+    });
+
+    test('should let exclusions win regardless of order or specificity', () => {
+      const config = parseNamespacePatterns('-voice:*,voice:service');
+
+      expect(isNamespaceEnabled('voice:service', config)).toBe(false);
+    });
+
+    test('should support wildcards in exclusions', () => {
+      const config = parseNamespacePatterns('voice:*,-*:twilio');
+
+      expect(isNamespaceEnabled('voice:service', config)).toBe(true);
+      expect(isNamespaceEnabled('voice:twilio', config)).toBe(false);
+    });
+
+    test('should enable nothing when only exclusions are given, as debug does', () => {
+      const config = parseNamespacePatterns('-http:healthcheck');
+
+      expect(config.matchers).toEqual([]);
+      expect(isNamespaceEnabled('voice:service', config)).toBe(false);
+      expect(isNamespaceEnabled('http:healthcheck', config)).toBe(false);
+    });
+
+    test('should disable everything with "-*"', () => {
+      const config = parseNamespacePatterns('*,-*');
+
+      expect(isNamespaceEnabled('voice:service', config)).toBe(false);
+    });
+
+    test('should ignore bare "-" and level suffixes on exclusions', () => {
+      const config = parseNamespacePatterns('*,-,-http:*=debug');
+
+      expect(config.exclusions).toHaveLength(1);
+      expect(isNamespaceEnabled('http:request', config)).toBe(false);
+    });
+
+    test('should cache configs with exclusions by their exact string', () => {
+      const config = parseNamespacePatterns('*,-db:pool');
+
+      expect(parseNamespacePatterns('*,-db:pool')).toBe(config);
+      expect(parseNamespacePatterns('*')).not.toBe(config);
+      expect(isNamespaceEnabled('db:pool', parseNamespacePatterns('*'))).toBe(
+        true,
+      );
+    });
+  });
+
   describe('clearNamespaceCache', () => {
     test('should clear cached configurations', () => {
       const config1 = parseNamespacePatterns('voice:*');
@@ -0,0 +1,420 @@
+/**
+ * Tests for up-front logger options validation
+ *
+ * Validates aggregated diagnostics for levels, rotation, routed log files,
+ * transports,
+ * redact paths, log directory, validation limits, rate limits, dedup,
+ * sampling, timer, and telemetry options.
+ */
+
+import type { LoggerOptions } from '../../src/types';
+
+import { rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, expect, test } from 'bun:test';
+
+import { ConfigurationError } from '../../src/utils/error-handler';
+import {
+  assertValidLoggerOptions,
+  isValidRedactPath,
+  isValidRotationSize,
+  parseRetentionAge,
+  parseRotationSize,
+  validateLoggerOptions,
+} from '../../src/utils/options-validation';
+
+/**
+ * Collect the paths of all issues for a set of options
+ * @param options - Options to validate
+ * @returns Issue paths
+ */
+function issuePaths(options: Partial<LoggerOptions>): Array<string> {
+  return validateLoggerOptions(options).issues.map((issue) => issue.path);
+}
+
+describe('Options Validation', () => {
+  describe('validateLoggerOptions', () => {
+    test('should accept undefined and valid options', () => {
+      expect(validateLoggerOptions(undefined)).toEqual({
+        valid: true,
+        issues: [],
+      });
+      expect(
+        validateLoggerOptions({
+          level: 'debug',
+          namespaces: 'voice:*=trace,-db:pool',
+          formatStyle: 'compact',
+          fileRotationOptions: {
+            maxSize: '10m',
+            maxFiles: 14,
+            frequency: 'daily',
+          },
+          redactPaths: [
+            'user.password',
+            'headers["x-api-key"]',
+            'items[*].ssn',
+          ],
+          transports: [{ target: 'pino/file', level: 'warn', options: {} }],
+          validation: { maxDepth: 5, onViolation: 'drop' },
+        }).valid,
+      ).toBe(true);
+    });
+
+    test('should report every problem at once', () => {
+      const result = validateLoggerOptions({
+        level: 'verbose',
+        fileRotationOptions: {
+          maxSize: '10 MB',
+          maxFiles: 0,
+          frequency: 'weekly' as 'daily',
+        },
+        redactPaths: ['user..password'],
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.issues.map((issue) => issue.path)).toEqual([
+        'level',
+        'fileRotationOptions.maxSize',
+        'fileRotationOptions.maxFiles',
+        'fileRotationOptions.frequency',
+        'redactPaths[0]',
+      ]);
+      expect(result.issues[0]?.message).toContain('"verbose"');
+    });
+
+    test('should check compression and retention options', () => {
+      expect(
+        issuePaths({
+          fileRotationOptions: {
+            compress: 'yes' as unknown as boolean,
+            maxAge: '30 days',
+            maxTotalSize: '2 GB',
+            minFreeSpace: 'lots',
+          },
+        }),
+      ).toEqual([
+        'fileRotationOptions.compress',
+        'fileRotationOptions.maxAge',
+        'fileRotationOptions.maxTotalSize',
+        'fileRotationOptions.minFreeSpace',
+      ]);
+      expect(
+        issuePaths({
+          fileRotationOptions: {
+            compress: true,
+            maxAge: '30d',
+            maxTotalSize: '2g',
+            minFreeSpace: '500m',
+          },
+        }),
+      ).toEqual([]);
+    });
+
+    test('should check per-namespace levels', () => {
+      expect(issuePaths({ namespaces: 'voice:*=loud' })).toEqual([
+        'namespaces',
+      ]);
+    });
+
+    test('should accept Pino custom levels', () => {
+      expect(
+        issuePaths({
+          level: 'audit',
+          pinoOptions: { customLevels: { audit: 35 } },
+        }),
+      ).toEqual([]);
+      expect(
+        issuePaths({
+          level: 'info',
+          pinoOptions: {
+            customLevels: { audit: 35 },
+            useOnlyCustomLevels: true,
+          },
+        }),
+      ).toEqual(['level']);
+    });
+
+    test('should check transport shapes', () => {
+      const transports = [
+        { target: '' },
+        { target: 'pino-loki', level: 'loud' },
+        { target: 'pino/file', options: 'nope' },
+        null,
+      ] as unknown as LoggerOptions['transports'];
+
+      expect(issuePaths({ transports })).toEqual([
+        'transports[0].target',
+        'transports[1].level',
+        'transports[2].options',
+        'transports[3]',
+      ]);
+    });
+
+    test('should check validation limits and policy', () => {
+      expect(
+        issuePaths({
+          validation: {
+            maxDepth: -1,
+            maxKeys: 1.5,
+            onViolation: 'ignore' as 'drop',
+          },
+        }),
+      ).toEqual([
+        'validation.maxDepth',
+        'validation.maxKeys',
+        'validation.onViolation',
+      ]);
+    });
+
+    test('should check rate limit options', () => {
+      expect(
+        issuePaths({
+          rateLimit: {
+            limit: 0,
+            intervalMs: -5,
+            by: 'caller' as 'level',
+            levels: { verbose: 10, error: 0, debug: Infinity },
+          },
+        }),
+      ).toEqual([
+        'rateLimit.limit',
+        'rateLimit.intervalMs',
+        'rateLimit.by',
+        'rateLimit.levels',
+        'rateLimit.levels.error',
+      ]);
+      expect(
+        issuePaths({ rateLimit: { limit: 5, by: () => 'custom-key' } }),
+      ).toEqual([]);
+    });
+
+    test('should check dedup options', () => {
+      expect(
+        issuePaths({ dedup: { windowMs: 0, levels: ['warn', 'verbose'] } }),
+      ).toEqual(['dedup.windowMs', 'dedup.levels[1]']);
+    });
+
+    test('should check sampling options', () => {
+      expect(
+        issuePaths({
+          sampling: {
+            mode: 'head' as 'trace',
+            rates: { info: 1.5, verbose: 0.5 },
+            namespaces: { 'payments:*,http:*': { debug: 0.1 } },
+          },
+        }),
+      ).toEqual([
+        'sampling.mode',
+        'sampling.rates.info',
+        'sampling.rates',
+        'sampling.namespaces["payments:*,http:*"]',
+      ]);
+      expect(
+        issuePaths({
+          sampling: {
+            rates: { debug: 0, info: 0.1 },
+            namespaces: { 'payments:*': { info: 1 } },
+            mode: 'trace',
+          },
+        }),
+      ).toEqual([]);
+    });
+
+    test('should check integrity options', () => {
+      expect(
+        issuePaths({
+          integrity: {
+            keyId: '',
+            key: '',
+            algorithm: 'md5' as 'sha256',
+          },
+        }),
+      ).toEqual(['integrity.keyId', 'integrity.key', 'integrity.algorithm']);
+      expect(
+        issuePaths({
+          integrity: { keyId: 'k1', key: new Uint8Array([1, 2, 3]) },
+        }),
+      ).toEqual([]);
+    });
+
+    test('should check encryption options', () => {
+      expect(issuePaths({ encryption: { key: 'too-short' } })).toEqual([
+        'encryption',
+        'encryption.key',
+      ]);
+      expect(
+        issuePaths({
+          logDir: tmpdir(),
+          encryption: { key: new Uint8Array(32) },
+        }),
+      ).toEqual([]);
+    });
+
+    test('should check routed log files', () => {
+      expect(
+        issuePaths({
+          files: [
+            { filename: 'logs/error.log', level: 'error', maxLevel: 'warn' },
+            { filename: 'payments-{host}.log', namespaces: ' ' },
+            {
+              filename: 'audit.log',
+              maxLevel: 'loud',
+              rotation: { maxSize: '10 MB', maxAge: '1y' },
+            },
+            { filename: 'audit.log', level: 'info' },
+          ],
+        }),
+      ).toEqual([
+        'files',
+        'files[0].filename',
+        'files[0].maxLevel',
+        'files[1].filename',
+        'files[1].namespaces',
+        'files[2].maxLevel',
+        'files[2].rotation.maxSize',
+        'files[2].rotation.maxAge',
+        'files[3].filename',
+      ]);
+      expect(
+        issuePaths({
+          logDir: tmpdir(),
+          customLevels: { notice: 35 },
+          files: [
+            { filename: 'error.log', level: 'warn' },
+            {
+              filename: '{service}-payments-{pid}.log',
+              level: 'info',
+              maxLevel: 'notice',
+              namespaces: 'payments:*',
+              rotation: { maxFiles: 30, compress: true },
+            },
+          ],
+        }),
+      ).toEqual([]);
+    });
+
+    test('should check custom levels', () => {
+      expect(
+        issuePaths({
+          customLevels: { Notice: 35, info: 31, audit: 1.5, alert: 50 },
+        }),
+      ).toEqual([
+        'customLevels.Notice',
+        'customLevels.info',
+        'customLevels.audit',
+        'customLevels.alert',
+      ]);
+      expect(
+        issuePaths({
+          customLevels: { notice: 35, audit: 70 },
+          level: 'notice',
+          namespaces: '*,billing:*=audit',
+        }),
+      ).toEqual([]);
+    });
+
+    test('should check timer options', () => {
+      expect(
+        issuePaths({
+          timers: {
+            level: 'verbose' as 'info',
+            slowMs: -5,
+            slowLevel: 'loud' as 'warn',
+          },
+        }),
+      ).toEqual(['timers.level', 'timers.slowLevel', 'timers.slowMs']);
+      expect(
+        issuePaths({
+          timers: { level: 'debug', slowMs: 500, slowLevel: 'error' },
+        }),
+      ).toEqual([]);
+    });
+
+    test('should check contradictory telemetry options', () => {
+      expect(
+        issuePaths({
+          telemetry: {
+            enabled: true,
+            autoInject: true,
+            contextOptions: { correlationMode: 'manual' },
+          },
+        }),
+      ).toEqual(['telemetry.contextOptions']);
+    });
+
+    test('should report an unusable log directory', () => {
+      const file = join(tmpdir(), `stern-logger-options-${Date.now()}.log`);
+      writeFileSync(file, '');
+
+      try {
+        expect(issuePaths({ logDir: join(file, 'logs') })).toEqual(['logDir']);
+      } finally {
+        rmSync(file, { force: true });
+      }
+    });
+  });
+
+  describe('assertValidLoggerOptions', () => {
+    test('should not throw for valid options', () => {
+      expect(() => assertValidLoggerOptions({ level: 'info' })).not.toThrow();
+    });
+
+    test('should throw one ConfigurationError listing all issues', () => {
+      let caught: unknown;
+      try {
+        assertValidLoggerOptions({
+          level: 'verbose',
+          fileRotationOptions: { maxSize: '10 MB' },
+        });
+      } catch (error) {
+        caught = error;
+      }
+
+      expect(caught).toBeInstanceOf(ConfigurationError);
+      const error = caught as ConfigurationError;
+      expect(error.message).toContain('2 issues');
+      expect(error.message).toContain('level: "verbose"');
+      expect(error.message).toContain('fileRotationOptions.maxSize');
+      expect(error.issues).toHaveLength(2);
+    });
+  });
+
+  describe('isValidRotationSize / isValidRedactPath', () => {
+    test('should accept pino-roll sizes', () => {
+      for (const size of ['10m', '500k', '1g', '1.5G', '1024b', '20']) {
+        expect(isValidRotationSize(size)).toBe(true);
+      }
+      for (const size of ['10 MB', 'm', '10mb', '']) {
+        expect(isValidRotationSize(size)).toBe(false);
+      }
+    });
+
+    test('should convert rotation sizes to bytes', () => {
+      expect(parseRotationSize('1024b')).toBe(1024);
+      expect(parseRotationSize('1.5k')).toBe(1536);
+      expect(parseRotationSize('2')).toBe(2 * 1024 * 1024);
+      expect(parseRotationSize('1G')).toBe(1024 ** 3);
+      expect(() => parseRotationSize('10 MB')).toThrow(ConfigurationError);
+    });
+
+    test('should convert retention ages to milliseconds', () => {
+      expect(parseRetentionAge('12h')).toBe(12 * 3_600_000);
+      expect(parseRetentionAge('30d')).toBe(30 * 24 * 3_600_000);
+      expect(parseRetentionAge('2W')).toBe(2 * 7 * 24 * 3_600_000);
+      for (const age of ['30', '1.5d', '30 days', '10m', '']) {
+        expect(() => parseRetentionAge(age)).toThrow(ConfigurationError);
+      }
+    });
+
+    test('should accept fast-redact paths', () => {
+      for (const path of ['a', 'a.b.c', '*.token', 'a[*].b', 'a["b-c"].d']) {
+        expect(isValidRedactPath(path)).toBe(true);
+      }
+      for (const path of ['', 'a.', 'a..b', 'a-b', 'a[b]']) {
+        expect(isValidRedactPath(path)).toBe(false);
+      }
+    });
+  });
+});
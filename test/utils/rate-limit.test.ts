@@ -0,0 +1,236 @@
+/**
+ * Tests for log rate limiting utilities
+ *
+ * Validates token-bucket accounting, bucket keys, per-level limits,
+ * suppression summaries, and integration with the Pino log method pipeline.
+ */
+
+import type { RateLimitOptions } from '../../src/types';
+import type { CapturingLogger, LogMethodOption } from '../helpers/capture';
+
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+
+import { ConfigurationError } from '../../src/utils/error-handler';
+import {
+  createRateLimitHook,
+  formatSuppressionSummary,
+  LogRateLimiter,
+  RATE_LIMIT_FIELD,
+} from '../../src/utils/rate-limit';
+import { createCapturingLogger } from '../helpers/capture';
+
+// Test constants
+const START_TIME = new Date('2026-01-01T00:00:00.000Z');
+
+/**
+ * Creates a Pino logger with the rate limit hook that records output
+ * @param options - Rate limit options, or a rate limiter
+ * @returns Logger and captured records
+ */
+function createRateLimitedLogger(
+  options: RateLimitOptions | LogRateLimiter,
+): CapturingLogger {
+  return createCapturingLogger({
+    level: 'trace',
+    hooks: { logMethod: createRateLimitHook(options) as LogMethodOption },
+  });
+}
+
+/**
+ * Advance the mocked clock
+ * @param ms - Milliseconds to advance
+ */
+function advanceTime(ms: number): void {
+  setSystemTime(new Date(Date.now() + ms));
+}
+
+describe('Rate Limit Utilities', () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  describe('formatSuppressionSummary', () => {
+    test('should format counts and windows', () => {
+      expect(
+        formatSuppressionSummary({
+          key: 'info',
+          suppressed: 4210,
+          window_ms: 60000,
+        }),
+      ).toBe('suppressed 4,210 similar logs in 60s');
+      expect(
+        formatSuppressionSummary({
+          key: 'info',
+          suppressed: 1,
+          window_ms: 250,
+        }),
+      ).toBe('suppressed 1 similar log in 250ms');
+    });
+  });
+
+  describe('LogRateLimiter', () => {
+    test('should reject non-positive limits', () => {
+      expect(() => new LogRateLimiter({ limit: 0 })).toThrow(
+        ConfigurationError,
+      );
+      expect(() => new LogRateLimiter({ limit: 1, intervalMs: -1 })).toThrow(
+        ConfigurationError,
+      );
+    });
+  });
+
+  describe('createRateLimitHook', () => {
+    test('should allow bursts up to the limit and suppress the rest', () => {
+      setSystemTime(START_TIME);
+      const { logger, records } = createRateLimitedLogger({
+        limit: 3,
+        intervalMs: 1000,
+      });
+
+      for (let i = 0; i < 10; i++) {
+        logger.info({ i }, 'tick');
+      }
+
+      expect(records.map((record) => record.i)).toEqual([0, 1, 2]);
+    });
+
+    test('should emit the summary before the first record allowed after the interval', () => {
+      setSystemTime(START_TIME);
+      const { logger, records } = createRateLimitedLogger({
+        limit: 2,
+        intervalMs: 1000,
+      });
+
+      for (let i = 0; i < 6; i++) {
+        logger.warn('disk almost full');
+      }
+      advanceTime(500);
+      logger.warn('disk almost full');
+      advanceTime(500);
+      logger.warn('disk almost full');
+
+      expect(records).toHaveLength(5);
+      expect(records[3]?.msg).toBe('suppressed 4 similar logs in 1s');
+      expect(records[3]?.[RATE_LIMIT_FIELD]).toEqual({
+        key: 'warn',
+        suppressed: 4,
+        window_ms: 1000,
+      });
+      expect(records[3]?.level).toBe(40);
+      expect(records[4]?.msg).toBe('disk almost full');
+    });
+
+    test('should emit one summary per interval during a sustained flood', () => {
+      setSystemTime(START_TIME);
+      const limiter = new LogRateLimiter({ limit: 10, intervalMs: 1000 });
+      const { logger, records } = createRateLimitedLogger(limiter);
+
+      // 3s of 100 records per second
+      for (let i = 0; i < 300; i++) {
+        logger.info('connection refused');
+        advanceTime(10);
+      }
+      limiter.flush();
+
+      const summaries = records.filter(
+        (record) => record[RATE_LIMIT_FIELD] != null,
+      );
+      const suppressed = summaries.reduce(
+        (total, record) =>
+          total +
+          (record[RATE_LIMIT_FIELD] as { suppressed: number }).suppressed,
+        0,
+      );
+      // A burst of 10, then 10 per second, and one summary per second
+      expect(records.length - summaries.length).toBeLessThanOrEqual(40);
+      expect(summaries).toHaveLength(3);
+      expect(records.length - summaries.length + suppressed).toBe(300);
+    });
+
+    test('should emit a summary once the interval ends', async () => {
+      const { logger, records } = createRateLimitedLogger({
+        limit: 1,
+        intervalMs: 50,
+      });
+
+      logger.info('first');
+      logger.info('second');
+      logger.info('third');
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      expect(records.map((record) => record.msg)).toEqual([
+        'first',
+        expect.stringMatching(/^suppressed 2 similar logs in \d+ms$/),
+      ]);
+    });
+
+    test('should keep separate buckets per level', () => {
+      setSystemTime(START_TIME);
+      const { logger, records } = createRateLimitedLogger({ limit: 1 });
+
+      logger.info('a');
+      logger.info('b');
+      logger.error('c');
+
+      expect(records.map((record) => record.msg)).toEqual(['a', 'c']);
+    });
+
+    test('should apply per-level limits', () => {
+      setSystemTime(START_TIME);
+      const { logger, records } = createRateLimitedLogger({
+        limit: 1,
+        levels: { error: Infinity, debug: 2 },
+      });
+
+      for (let i = 0; i < 3; i++) {
+        logger.error('error');
+        logger.debug('debug');
+        logger.info('info');
+      }
+
+      const count = (msg: string): number =>
+        records.filter((record) => record.msg === msg).length;
+      expect(count('error')).toBe(3);
+      expect(count('debug')).toBe(2);
+      expect(count('info')).toBe(1);
+    });
+
+    test('should keep separate buckets per namespace', () => {
+      setSystemTime(START_TIME);
+      const { logger, records } = createRateLimitedLogger({
+        limit: 1,
+        by: 'namespace',
+      });
+      const voice = logger.child({ namespace: 'voice:call' });
+      const http = logger.child({ namespace: 'http:request' });
+
+      voice.info('a');
+      voice.info('b');
+      http.info('c');
+
+      expect(records.map((record) => record.msg)).toEqual(['a', 'c']);
+    });
+
+    test('should use caller-supplied keys', () => {
+      setSystemTime(START_TIME);
+      const { logger, records } = createRateLimitedLogger({
+        limit: 1,
+        by: ({ obj }) => String(obj?.tenant),
+      });
+
+      logger.info({ tenant: 'a' }, 'first');
+      logger.info({ tenant: 'a' }, 'second');
+      logger.info({ tenant: 'b' }, 'third');
+      advanceTime(60000);
+      logger.info({ tenant: 'a' }, 'fourth');
+
+      expect(records.map((record) => record.msg)).toEqual([
+        'first',
+        'third',
+        'suppressed 1 similar log in 60s',
+        'fourth',
+      ]);
+      expect(records[2]?.[RATE_LIMIT_FIELD]).toMatchObject({ key: 'a' });
+    });
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Tests for compression and retention of rotated log files
+ *
+ * Validates gzip compression of rotated files, retention by count, age and
+ * total size, the low disk space guard, and the background sweep.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gunzipSync } from 'node:zlib';
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import { TransportError } from '../../src/utils/error-handler';
+import {
+  applyLogRetention,
+  isLowDiskSpace,
+  startLogRetention,
+  stopLogRetention,
+} from '../../src/utils/retention';
+
+// Test constants
+const TEST_DIR_PREFIX = 'stern-logger-retention-test-';
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+
+describe('Retention Utilities', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `${TEST_DIR_PREFIX}${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    stopLogRetention();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  /**
+   * Write a log file last modified some time ago
+   * @param name - File name
+   * @param ageMs - Age of the file
+   * @param content - File content
+   */
+  function writeLogFile(name: string, ageMs: number, content = 'x'): void {
+    const file = join(testDir, name);
+    writeFileSync(file, content);
+    const mtime = new Date(Date.now() - ageMs);
+    utimesSync(file, mtime, mtime);
+  }
+
+  /**
+   * List the files of the test directory
+   * @returns Sorted file names
+   */
+  function listFiles(): Array<string> {
+    return readdirSync(testDir).sort();
+  }
+
+  describe('applyLogRetention', () => {
+    test('should gzip rotated files but not the ones being written', async () => {
+      const records = '{"msg":"Order placed"}\n'.repeat(100);
+      writeLogFile('app.1.log', 2 * HOUR_MS, records);
+      writeLogFile('app.2.log', 0, records);
+      writeLogFile('exceptions.1.log', HOUR_MS, records);
+
+      const report = await applyLogRetention(testDir, { compress: true });
+
+      expect(report).toEqual({
+        compressed: ['app.1.log'],
+        removed: [],
+        lowDiskSpace: false,
+      });
+      expect(listFiles()).toEqual([
+        'app.1.log.gz',
+        'app.2.log',
+        'exceptions.1.log',
+      ]);
+      const compressed = readFileSync(join(testDir, 'app.1.log.gz'));
+      expect(gunzipSync(compressed).toString()).toBe(records);
+    });
+
+    test('should append to a gzip file left by a reused number', async () => {
+      writeLogFile('app.1.log', 3 * HOUR_MS, 'first\n');
+      writeLogFile('app.2.log', 2 * HOUR_MS, 'current\n');
+      await applyLogRetention(testDir, { compress: true });
+      writeLogFile('app.1.log', HOUR_MS, 'second\n');
+      writeLogFile('app.3.log', 0, 'current\n');
+
+      await applyLogRetention(testDir, { compress: true });
+
+      const compressed = readFileSync(join(testDir, 'app.1.log.gz'));
+      expect(gunzipSync(compressed).toString()).toBe('first\nsecond\n');
+    });
+
+    test('should keep maxFiles rotated files per log', async () => {
+      for (let index = 1; index <= 4; index++) {
+        writeLogFile(`app.${index}.log.gz`, (5 - index) * HOUR_MS);
+      }
+      writeLogFile('app.5.log', 0);
+      writeLogFile('rejections.1.log.gz', DAY_MS);
+      writeLogFile('rejections.2.log', 0);
+
+      const report = await applyLogRetention(testDir, {
+        maxFiles: 2,
+        compress: true,
+      });
+
+      expect(report.removed).toEqual(['app.2.log.gz', 'app.1.log.gz']);
+      expect(listFiles()).toEqual([
+        'app.3.log.gz',
+        'app.4.log.gz',
+        'app.5.log',
+        'rejections.1.log.gz',
+        'rejections.2.log',
+      ]);
+    });
+
+    test('should delete rotated files older than maxAge', async () => {
+      writeLogFile('app.1.log', 40 * DAY_MS);
+      writeLogFile('app.2.log', 20 * DAY_MS);
+      writeLogFile('app.3.log', 40 * DAY_MS);
+      // Being written, however old
+      writeLogFile('exceptions.1.log', 60 * DAY_MS);
+
+      const report = await applyLogRetention(testDir, { maxAge: '30d' });
+
+      expect([...report.removed].sort()).toEqual(['app.1.log', 'app.3.log']);
+      expect(listFiles()).toEqual(['app.2.log', 'exceptions.1.log']);
+    });
+
+    test('should delete the oldest rotated files over maxTotalSize', async () => {
+      const kib = 'x'.repeat(1024);
+      writeLogFile('app.1.log', 3 * HOUR_MS, kib);
+      writeLogFile('app.log.enc.1', 2 * HOUR_MS, kib);
+      writeLogFile('app.2.log', HOUR_MS, kib);
+      writeLogFile('app.log.enc.2', 0, kib);
+      writeLogFile('app.3.log', 0, kib);
+      writeLogFile('other.1.log', 4 * HOUR_MS, kib);
+
+      const report = await applyLogRetention(testDir, { maxTotalSize: '3k' });
+
+      expect(report.removed).toEqual(['app.1.log', 'app.log.enc.1']);
+      expect(listFiles()).toEqual([
+        'app.2.log',
+        'app.3.log',
+        'app.log.enc.2',
+        'other.1.log',
+      ]);
+    });
+
+    test('should sweep only the log files a pattern matches', async () => {
+      writeLogFile('payments-17.1.log', 2 * HOUR_MS);
+      writeLogFile('payments-17.2.log', HOUR_MS);
+      writeLogFile('payments-4242.log.enc.1', HOUR_MS);
+      writeLogFile('payments-4242.log.enc.2', 0);
+      writeLogFile('app.1.log', HOUR_MS);
+      writeLogFile('app.2.log', 0);
+
+      const report = await applyLogRetention(
+        testDir,
+        { compress: true },
+        /^payments-\d+\.log$/,
+      );
+
+      expect(report.compressed).toEqual([
+        'payments-17.1.log',
+        'payments-4242.log.enc.1',
+      ]);
+      expect(listFiles()).toEqual([
+        'app.1.log',
+        'app.2.log',
+        'payments-17.1.log.gz',
+        'payments-17.2.log',
+        'payments-4242.log.enc.1.gz',
+        'payments-4242.log.enc.2',
+      ]);
+    });
+
+    test('should reclaim rotated files when disk space is low', async () => {
+      writeLogFile('app.1.log', HOUR_MS);
+      writeLogFile('app.2.log', 0);
+
+      const report = await applyLogRetention(testDir, {
+        minFreeSpace: '1000000g',
+      });
+
+      expect(report).toMatchObject({
+        removed: ['app.1.log'],
+        lowDiskSpace: true,
+      });
+      expect(report.freeBytes).toBeGreaterThan(0);
+      expect(listFiles()).toEqual(['app.2.log']);
+    });
+  });
+
+  describe('startLogRetention', () => {
+    test('should report low disk space as a TransportError', async () => {
+      writeLogFile('app.1.log', 0);
+
+      const error = await new Promise<TransportError>((resolve) => {
+        startLogRetention(
+          testDir,
+          [{ options: { minFreeSpace: '1000000g' } }],
+          resolve,
+        );
+      });
+
+      expect(error).toBeInstanceOf(TransportError);
+      expect(error.message).toContain(`file (${testDir})`);
+      expect(error.message).toContain('below minFreeSpace 1000000g');
+      expect(stopLogRetention()).toBe(true);
+      expect(stopLogRetention()).toBe(false);
+    });
+
+    test('should hold log files to warn while disk space is low', async () => {
+      expect(isLowDiskSpace()).toBe(false);
+
+      const error = await new Promise<TransportError>((resolve) => {
+        startLogRetention(
+          testDir,
+          [{ options: { minFreeSpace: '1000000g' } }],
+          resolve,
+        );
+      });
+
+      expect(error.message).toContain('only receive warn and above');
+      expect(isLowDiskSpace()).toBe(true);
+
+      stopLogRetention();
+
+      expect(isLowDiskSpace()).toBe(false);
+    });
+
+    test('should sweep each policy with its own options', async () => {
+      writeLogFile('app.1.log', 40 * DAY_MS);
+      writeLogFile('app.2.log', 0);
+      writeLogFile('error.1.log', 40 * DAY_MS);
+      writeLogFile('error.2.log', 0);
+
+      const error = await new Promise<TransportError>((resolve) => {
+        startLogRetention(
+          testDir,
+          [
+            { files: /^error\.log$/, options: { maxAge: '90d' } },
+            { options: { maxAge: '30d', minFreeSpace: '1000000g' } },
+          ],
+          resolve,
+        );
+      });
+
+      expect(error.message).toContain('below minFreeSpace 1000000g');
+      expect(listFiles()).toEqual(['app.2.log', 'error.1.log', 'error.2.log']);
+    });
+
+    test('should not start without compression or retention options', () => {
+      startLogRetention(testDir, [{ options: { maxFiles: 3 } }], () => {});
+
+      expect(stopLogRetention()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Tests for log sampling utilities
+ *
+ * Validates per-level and per-namespace rates, trace-consistent and
+ * trace-flags modes, error exemption, and integration with the Pino log
+ * method pipeline.
+ */
+
+import type { SamplingOptions } from '../../src/types';
+import type { CapturingLogger, LogMethodOption } from '../helpers/capture';
+
+import { describe, expect, test } from 'bun:test';
+
+import {
+  createSamplingHook,
+  traceSamplingValue,
+} from '../../src/utils/sampling';
+import { createCapturingLogger } from '../helpers/capture';
+
+// Test constants
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+const SAMPLE_SIZE = 2000;
+
+/**
+ * Creates a Pino logger with the sampling hook that records output
+ * @param options - Sampling options
+ * @param traceFields - Trace fields returned by the mixin
+ * @param random - Random number source
+ * @returns Logger and captured records
+ */
+function createSampledLogger(
+  options: SamplingOptions,
+  traceFields: Record<string, unknown> = {},
+  random: () => number = Math.random,
+): CapturingLogger {
+  return createCapturingLogger({
+    level: 'trace',
+    hooks: {
+      logMethod: createSamplingHook(
+        options,
+        () => traceFields,
+        random,
+      ) as LogMethodOption,
+    },
+  });
+}
+
+/**
+ * Generate a random-looking W3C trace ID
+ * @param seed - Seed number
+ * @returns 32-character hex trace ID
+ */
+function traceIdFor(seed: number): string {
+  return (seed * 2654435761).toString(16).padStart(32, 'a').slice(-32);
+}
+
+describe('Sampling Utilities', () => {
+  describe('traceSamplingValue', () => {
+    test('should be stable and within [0, 1)', () => {
+      const value = traceSamplingValue(TRACE_ID);
+
+      expect(value).toBe(traceSamplingValue(TRACE_ID));
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+
+    test('should spread trace IDs evenly', () => {
+      let below = 0;
+      for (let i = 0; i < SAMPLE_SIZE; i++) {
+        if (traceSamplingValue(traceIdFor(i)) < 0.5) {
+          below++;
+        }
+      }
+
+      expect(below / SAMPLE_SIZE).toBeGreaterThan(0.4);
+      expect(below / SAMPLE_SIZE).toBeLessThan(0.6);
+    });
+  });
+
+  describe('random mode', () => {
+    test('should apply per-level rates', () => {
+      const { logger, records } = createSampledLogger(
+        { rates: { debug: 0, info: 0.5 } },
+        {},
+        () => 0.7,
+      );
+
+      logger.debug('dropped');
+      logger.info('dropped');
+      logger.warn('kept');
+
+      expect(records.map((record) => record.msg)).toEqual(['kept']);
+    });
+
+    test('should keep roughly the configured share', () => {
+      const { logger, records } = createSampledLogger({
+        rates: { info: 0.25 },
+      });
+
+      for (let i = 0; i < SAMPLE_SIZE; i++) {
+        logger.info('sampled');
+      }
+
+      expect(records.length / SAMPLE_SIZE).toBeGreaterThan(0.15);
+      expect(records.length / SAMPLE_SIZE).toBeLessThan(0.35);
+    });
+
+    test('should always keep errors and fatals', () => {
+      const { logger, records } = createSampledLogger({
+        rates: { error: 0, fatal: 0 },
+      });
+
+      logger.error('kept');
+      logger.fatal('kept');
+
+      expect(records).toHaveLength(2);
+    });
+
+    test('should apply the most specific namespace override', () => {
+      const { logger, records } = createSampledLogger(
+        {
+          rates: { info: 0 },
+          namespaces: {
+            'payments:*': { info: 1 },
+            'payments:webhook': { info: 0 },
+          },
+        },
+        {},
+        () => 0.5,
+      );
+
+      logger.child({ namespace: 'payments:charge' }).info('charge');
+      logger.child({ namespace: 'payments:webhook' }).info('webhook');
+      logger.child({ namespace: 'http:request' }).info('request');
+      logger.child({ namespace: 'payments:charge' }).debug('debug');
+
+      expect(records.map((record) => record.msg)).toEqual(['charge', 'debug']);
+    });
+  });
+
+  describe('trace mode', () => {
+    test('should keep all or none of a trace', () => {
+      const options: SamplingOptions = { rates: { info: 0.5 }, mode: 'trace' };
+      const kept = new Set<boolean>();
+
+      for (let i = 0; i < 20; i++) {
+        const { logger, records } = createSampledLogger(options, {
+          trace_id: TRACE_ID,
+        });
+        logger.info('first');
+        logger.info('second');
+        kept.add(records.length === 2);
+        expect([0, 2]).toContain(records.length);
+      }
+
+      expect(kept.size).toBe(1);
+      expect(kept.has(traceSamplingValue(TRACE_ID) < 0.5)).toBe(true);
+    });
+
+    test('should read trace IDs from the merge object and bindings', () => {
+      const rate = traceSamplingValue(TRACE_ID);
+      const { logger, records } = createSampledLogger(
+        { rates: { info: rate }, mode: 'trace' },
+        {},
+        () => 0,
+      );
+
+      // Exactly at the trace's value the trace is dropped
+      logger.info({ trace_id: TRACE_ID }, 'merge object');
+      logger.child({ trace_id: TRACE_ID }).info('binding');
+
+      expect(records).toHaveLength(0);
+    });
+
+    test('should fall back to random sampling without a trace', () => {
+      const { logger, records } = createSampledLogger(
+        { rates: { info: 0.5 }, mode: 'trace' },
+        {},
+        () => 0.1,
+      );
+
+      logger.info('no trace');
+
+      expect(records).toHaveLength(1);
+    });
+  });
+
+  describe('trace-flags mode', () => {
+    test('should keep records of sampled traces', () => {
+      const { logger, records } = createSampledLogger(
+        { rates: { info: 0 }, mode: 'trace-flags' },
+        { trace_id: TRACE_ID, span_id: SPAN_ID, trace_flags: '01' },
+      );
+
+      logger.info('sampled');
+
+      expect(records).toHaveLength(1);
+    });
+
+    test('should drop records of unsampled traces', () => {
+      const { logger, records } = createSampledLogger(
+        { mode: 'trace-flags' },
+        { trace_id: TRACE_ID, span_id: SPAN_ID, trace_flags: '00' },
+      );
+
+      logger.info('not sampled');
+      logger.error('errors still pass');
+
+      expect(records.map((record) => record.msg)).toEqual([
+        'errors still pass',
+      ]);
+    });
+
+    test('should use rates when there is no trace context', () => {
+      const { logger, records } = createSampledLogger(
+        { rates: { debug: 0 }, mode: 'trace-flags' },
+        {},
+      );
+
+      logger.debug('dropped');
+      logger.info('kept');
+
+      expect(records.map((record) => record.msg)).toEqual(['kept']);
+    });
+  });
+});
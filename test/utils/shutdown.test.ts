@@ -0,0 +1,102 @@
+/**
+ * Tests for transport shutdown utilities
+ *
+ * Validates transport tracking, flushing and closing of worker streams,
+ * and the per-transport shutdown results.
+ */
+
+import { existsSync, mkdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import pino from 'pino';
+
+import {
+  closeTransportStreams,
+  describeTransport,
+  registerTransportStream,
+} from '../../src/utils/shutdown';
+
+// Test constants
+const TEST_DIR_PREFIX = 'stern-logger-shutdown-test-';
+const SHUTDOWN_TIMEOUT_MS = 5000;
+
+describe('Shutdown Utilities', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `${TEST_DIR_PREFIX}${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  /**
+   * Create a logger writing to a file through a pino/file worker
+   * @param destination - Output file path
+   * @returns Logger backed by a transport worker
+   */
+  function createFileLogger(destination: string): pino.Logger {
+    return pino({
+      transport: { target: 'pino/file', options: { destination } },
+    });
+  }
+
+  describe('describeTransport', () => {
+    test('should name a single target', () => {
+      expect(describeTransport({ target: 'pino-pretty' })).toBe('pino-pretty');
+    });
+
+    test('should join multiple targets', () => {
+      expect(
+        describeTransport({
+          targets: [{ target: 'pino-pretty' }, { target: 'pino-roll' }],
+        }),
+      ).toBe('pino-pretty, pino-roll');
+    });
+  });
+
+  describe('closeTransportStreams', () => {
+    test('should flush pending logs and report the transport', async () => {
+      const destination = join(testDir, 'app.log');
+      const logger = createFileLogger(destination);
+      registerTransportStream('pino/file', logger);
+
+      logger.info('last words');
+      const results = await closeTransportStreams(SHUTDOWN_TIMEOUT_MS);
+
+      expect(results).toEqual([{ name: 'pino/file', status: 'flushed' }]);
+      expect(readFileSync(destination, 'utf8')).toContain('last words');
+    });
+
+    test('should silence loggers after closing their transport', async () => {
+      const logger = createFileLogger(join(testDir, 'app.log'));
+      registerTransportStream('pino/file', logger);
+
+      await closeTransportStreams(SHUTDOWN_TIMEOUT_MS);
+
+      expect(logger.level).toBe('silent');
+      expect(() => logger.info('after shutdown')).not.toThrow();
+    });
+
+    test('should only close each transport once', async () => {
+      const logger = createFileLogger(join(testDir, 'app.log'));
+      registerTransportStream('pino/file', logger);
+
+      await closeTransportStreams(SHUTDOWN_TIMEOUT_MS);
+
+      expect(await closeTransportStreams(SHUTDOWN_TIMEOUT_MS)).toEqual([]);
+    });
+
+    test('should ignore loggers without a transport worker', async () => {
+      registerTransportStream('stdout', pino({ level: 'silent' }));
+
+      expect(await closeTransportStreams(SHUTDOWN_TIMEOUT_MS)).toEqual([]);
+    });
+  });
+});
@@ -10,13 +10,19 @@ import type { SpanContext } from '../../src/types';
 import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
 
 import { DEFAULT_TELEMETRY_OPTIONS } from '../../src/constants';
+import { ConfigurationError } from '../../src/utils/error-handler';
 import {
   clearTraceContext,
+  createTelemetryMixin,
   createTraceMixin,
   destroyTraceContextManager,
   getTraceContext,
   getTraceContextStats,
+  isAsyncContextSupported,
+  resolveCorrelationMode,
+  runWithTraceContext,
   setTraceContext,
+  TraceContextManager,
 } from '../../src/utils/telemetry';
 
 describe('Telemetry Utilities', () => {
@@ -79,25 +85,25 @@ describe('Telemetry Utilities', () => {
       expect(context?.spanId).toBe(newContext.spanId);
     });
 
-    test('should handle multiple threads independently', () => {
-      const thread1 = 'thread-1';
-      const thread2 = 'thread-2';
-
-      const context1: SpanContext = {
-        traceId: 'trace-1',
-        spanId: 'span-1',
-      };
-
-      const context2: SpanContext = {
-        traceId: 'trace-2',
-        spanId: 'span-2',
+    test('should isolate concurrent async executions', async () => {
+      const handleRequest = async (
+        traceId: string,
+        delayMs: number,
+      ): Promise<string | undefined> => {
+        await Promise.resolve();
+        setTraceContext(testThreadId, { traceId, spanId: 'span' });
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        return getTraceContext(testThreadId)?.traceId;
       };
 
-      setTraceContext(thread1, context1);
-      setTraceContext(thread2, context2);
+      const results = await Promise.all([
+        handleRequest('trace-1', 20),
+        handleRequest('trace-2', 5),
+        handleRequest('trace-3', 10),
+      ]);
 
-      expect(getTraceContext(thread1)?.traceId).toBe('trace-1');
-      expect(getTraceContext(thread2)?.traceId).toBe('trace-2');
+      expect(results).toEqual(['trace-1', 'trace-2', 'trace-3']);
+      expect(getTraceContext(testThreadId)).toBeUndefined();
     });
 
     test('should handle setting context for same thread multiple times', () => {
@@ -166,20 +172,16 @@ describe('Telemetry Utilities', () => {
       expect(getTraceContext(testThreadId)).toBeUndefined();
     });
 
-    test('should not affect other threads when clearing', () => {
-      const thread1 = 'thread-1';
-      const thread2 = 'thread-2';
+    test('should not affect other async executions when clearing', async () => {
+      setTraceContext(testThreadId, validSpanContext);
 
-      setTraceContext(thread1, validSpanContext);
-      setTraceContext(thread2, {
-        traceId: 'other-trace',
-        spanId: 'other-span',
+      await runWithTraceContext(validSpanContext, async () => {
+        await Promise.resolve();
+        clearTraceContext(testThreadId);
+        expect(getTraceContext(testThreadId)).toBeUndefined();
       });
 
-      clearTraceContext(thread1);
-
-      expect(getTraceContext(thread1)).toBeUndefined();
-      expect(getTraceContext(thread2)).toBeDefined();
+      expect(getTraceContext(testThreadId)).toEqual(validSpanContext);
     });
 
     test('should be idempotent', () => {
@@ -205,34 +207,12 @@ describe('Telemetry Utilities', () => {
       expect(stats.size).toBe(0);
     });
 
-    test('should return correct size after adding contexts', () => {
+    test('should not use the keyed store with async context support', () => {
       setTraceContext('thread-1', validSpanContext);
       setTraceContext('thread-2', validSpanContext);
       setTraceContext('thread-3', validSpanContext);
 
-      const stats = getTraceContextStats();
-      expect(stats.size).toBe(3);
-    });
-
-    test('should return correct size after clearing contexts', () => {
-      setTraceContext('thread-1', validSpanContext);
-      setTraceContext('thread-2', validSpanContext);
-
-      clearTraceContext('thread-1');
-
-      const stats = getTraceContextStats();
-      expect(stats.size).toBe(1);
-    });
-
-    test('should track size correctly with updates', () => {
-      setTraceContext('thread-1', validSpanContext);
-      expect(getTraceContextStats().size).toBe(1);
-
-      setTraceContext('thread-1', validSpanContext); // Update same thread
-      expect(getTraceContextStats().size).toBe(1);
-
-      setTraceContext('thread-2', validSpanContext); // Add new thread
-      expect(getTraceContextStats().size).toBe(2);
+      expect(getTraceContextStats().size).toBe(0);
     });
   });
 
@@ -337,17 +317,197 @@ describe('Telemetry Utilities', () => {
     });
   });
 
-  describe('destroyTraceContextManager', () => {
-    test('should clear all contexts', () => {
-      setTraceContext('thread-1', validSpanContext);
-      setTraceContext('thread-2', validSpanContext);
-      setTraceContext('thread-3', validSpanContext);
+  describe('Async Context Storage', () => {
+    test('should report async context support', () => {
+      expect(isAsyncContextSupported()).toBe(true);
+    });
 
-      expect(getTraceContextStats().size).toBe(3);
+    test('should scope context to runWithTraceContext callback', () => {
+      const inside = runWithTraceContext(validSpanContext, () =>
+        getTraceContext(testThreadId),
+      );
+
+      expect(inside).toEqual(validSpanContext);
+      expect(getTraceContext(testThreadId)).toBeUndefined();
+    });
+
+    test('should isolate concurrent scopes across awaits', async () => {
+      const run = async (
+        traceId: string,
+        delayMs: number,
+      ): Promise<string | undefined> =>
+        runWithTraceContext({ traceId, spanId: 'span' }, async () => {
+          await new Promise((resolve) => setTimeout(resolve, delayMs));
+          return getTraceContext(testThreadId)?.traceId;
+        });
+
+      const results = await Promise.all([
+        run('trace-1', 20),
+        run('trace-2', 5),
+        run('trace-3', 10),
+      ]);
+
+      expect(results).toEqual(['trace-1', 'trace-2', 'trace-3']);
+    });
+
+    test('should inject scoped context in mixin', () => {
+      const mixin = createTraceMixin(() => testThreadId);
+      const result = runWithTraceContext(validSpanContext, () => mixin());
+
+      expect(result.trace_id).toBe(validSpanContext.traceId);
+      expect(mixin()).toEqual({});
+    });
+  });
+
+  describe('resolveCorrelationMode', () => {
+    test('should default to manual', () => {
+      expect(resolveCorrelationMode({ enabled: true })).toBe('manual');
+    });
+
+    test('should infer auto from autoInject or getActiveContext', () => {
+      expect(resolveCorrelationMode({ enabled: true, autoInject: true })).toBe(
+        'auto',
+      );
+      expect(
+        resolveCorrelationMode({
+          enabled: true,
+          contextOptions: { getActiveContext: () => undefined },
+        }),
+      ).toBe('auto');
+    });
+
+    test('should honor explicit correlationMode', () => {
+      expect(
+        resolveCorrelationMode({
+          enabled: true,
+          contextOptions: { correlationMode: 'auto' },
+        }),
+      ).toBe('auto');
+    });
+
+    test('should reject unknown correlationMode', () => {
+      expect(() =>
+        resolveCorrelationMode({
+          enabled: true,
+          // @ts-expect-error - Testing invalid input
+          contextOptions: { correlationMode: 'magic' },
+        }),
+      ).toThrow(ConfigurationError);
+    });
+
+    test('should reject manual mode with autoInject', () => {
+      expect(() =>
+        resolveCorrelationMode({
+          enabled: true,
+          autoInject: true,
+          contextOptions: { correlationMode: 'manual' },
+        }),
+      ).toThrow(ConfigurationError);
+    });
+
+    test('should reject manual mode with getActiveContext', () => {
+      expect(() =>
+        resolveCorrelationMode({
+          enabled: true,
+          contextOptions: {
+            correlationMode: 'manual',
+            getActiveContext: () => undefined,
+          },
+        }),
+      ).toThrow(ConfigurationError);
+    });
+
+    test('should reject disabled injection in auto mode', () => {
+      expect(() =>
+        resolveCorrelationMode({
+          enabled: true,
+          autoInject: true,
+          contextOptions: { injectTraceContext: false },
+        }),
+      ).toThrow(ConfigurationError);
+    });
+  });
+
+  describe('createTelemetryMixin', () => {
+    const otelContext: SpanContext = {
+      traceId: 'otel-trace',
+      spanId: 'otel-span',
+    };
+    const getOtelContext = () => otelContext;
+
+    test('should use manual context when telemetry is disabled', () => {
+      setTraceContext(testThreadId, validSpanContext);
+
+      const mixin = createTelemetryMixin(
+        undefined,
+        () => testThreadId,
+        getOtelContext,
+      );
+
+      expect(mixin().trace_id).toBe(validSpanContext.traceId);
+    });
+
+    test('should ignore active span in manual mode', () => {
+      setTraceContext(testThreadId, validSpanContext);
+
+      const mixin = createTelemetryMixin(
+        { enabled: true, contextOptions: { correlationMode: 'manual' } },
+        () => testThreadId,
+        getOtelContext,
+      );
+
+      expect(mixin().trace_id).toBe(validSpanContext.traceId);
+    });
+
+    test('should use OpenTelemetry active span in auto mode', () => {
+      setTraceContext(testThreadId, validSpanContext);
+
+      const mixin = createTelemetryMixin(
+        { enabled: true, contextOptions: { correlationMode: 'auto' } },
+        () => testThreadId,
+        getOtelContext,
+      );
+
+      expect(mixin().trace_id).toBe('otel-trace');
+    });
+
+    test('should prefer custom getActiveContext in auto mode', () => {
+      const mixin = createTelemetryMixin(
+        {
+          enabled: true,
+          contextOptions: {
+            correlationMode: 'auto',
+            getActiveContext: () => ({ traceId: 'custom', spanId: 'span' }),
+          },
+        },
+        () => testThreadId,
+        getOtelContext,
+      );
+
+      expect(mixin().trace_id).toBe('custom');
+    });
+
+    test('should add no trace fields when injectTraceContext is false', () => {
+      setTraceContext(testThreadId, validSpanContext);
+
+      const mixin = createTelemetryMixin(
+        { enabled: true, contextOptions: { injectTraceContext: false } },
+        () => testThreadId,
+        getOtelContext,
+      );
+
+      expect(mixin()).toEqual({});
+    });
+  });
+
+  describe('destroyTraceContextManager', () => {
+    test('should clear the current context', () => {
+      setTraceContext(testThreadId, validSpanContext);
+      expect(getTraceContext(testThreadId)).toBeDefined();
 
       destroyTraceContextManager();
 
-      expect(getTraceContextStats().size).toBe(0);
+      expect(getTraceContext(testThreadId)).toBeUndefined();
     });
 
     test('should allow setting contexts after destroy', () => {
@@ -359,17 +519,44 @@ describe('Telemetry Utilities', () => {
     });
   });
 
-  describe('Size Limits', () => {
-    test('should enforce max context size', () => {
-      // Add contexts up to the limit
-      for (let i = 0; i < DEFAULT_TELEMETRY_OPTIONS.MAX_CONTEXT_SIZE; i++) {
-        setTraceContext(`thread-${i}`, validSpanContext);
-      }
+  describe('TraceContextManager (keyed fallback store)', () => {
+    let manager: TraceContextManager;
 
-      const stats = getTraceContextStats();
-      expect(stats.size).toBeLessThanOrEqual(
-        DEFAULT_TELEMETRY_OPTIONS.MAX_CONTEXT_SIZE,
-      );
+    beforeEach(() => {
+      manager = new TraceContextManager();
+    });
+
+    afterEach(() => {
+      manager.destroy();
+    });
+
+    test('should keep contexts of threads independent', () => {
+      manager.set('thread-1', { traceId: 'trace-1', spanId: 'span-1' });
+      manager.set('thread-2', { traceId: 'trace-2', spanId: 'span-2' });
+      manager.clear('thread-1');
+
+      expect(manager.get('thread-1')).toBeUndefined();
+      expect(manager.get('thread-2')?.traceId).toBe('trace-2');
+      expect(manager.size()).toBe(1);
+    });
+
+    test('should track size correctly with updates', () => {
+      manager.set('thread-1', validSpanContext);
+      manager.set('thread-1', validSpanContext); // Update same thread
+      expect(manager.size()).toBe(1);
+
+      manager.set('thread-2', validSpanContext); // Add new thread
+      expect(manager.size()).toBe(2);
+    });
+
+    test('should expire contexts after the TTL', async () => {
+      const shortLived = new TraceContextManager({ ttlMs: 10 });
+      shortLived.set(testThreadId, validSpanContext);
+
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      expect(shortLived.get(testThreadId)).toBeUndefined();
+      shortLived.destroy();
     });
 
     test('should evict oldest when size limit is reached', () => {
@@ -377,15 +564,14 @@ describe('Telemetry Utilities', () => {
 
       // Add one more than the limit
       for (let i = 0; i < limit + 1; i++) {
-        setTraceContext(`thread-${i}`, {
+        manager.set(`thread-${i}`, {
           traceId: `trace-${i}`,
           spanId: `span-${i}`,
         });
       }
 
-      // Size should be at or below the limit
-      const stats = getTraceContextStats();
-      expect(stats.size).toBeLessThanOrEqual(limit);
+      expect(manager.size()).toBe(limit);
+      expect(manager.get(`thread-${limit}`)?.traceId).toBe(`trace-${limit}`);
     });
   });
 
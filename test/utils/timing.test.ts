@@ -0,0 +1,137 @@
+/**
+ * Tests for duration timer utilities
+ *
+ * Validates startTimer() and time() records, slow-threshold escalation,
+ * error serialization, and inheritance by child loggers.
+ */
+
+import type { Logger, TimerOptions } from '../../src/types';
+
+import { describe, expect, test } from 'bun:test';
+
+import { elapsedMs, installTimerMethods } from '../../src/utils/timing';
+import { createCapturingLogger } from '../helpers/capture';
+
+// Test constants
+const SLOW_MS = 20;
+const SLOW_WAIT_MS = 40;
+
+/**
+ * Creates a logger with timer methods that records parsed log lines
+ * @param defaults - Timer defaults
+ * @returns Logger and captured records
+ */
+function createTimedLogger(defaults?: TimerOptions): {
+  logger: Logger;
+  records: Array<Record<string, unknown>>;
+} {
+  const { logger, records } = createCapturingLogger({ level: 'trace' });
+  installTimerMethods(logger, defaults);
+  return { logger: logger as Logger, records };
+}
+
+/**
+ * Wait long enough to exceed the slow threshold
+ * @returns Promise resolving after the wait
+ */
+function waitPastThreshold(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, SLOW_WAIT_MS));
+}
+
+describe('Timing Utilities', () => {
+  describe('elapsedMs', () => {
+    test('should measure from a performance.now() reading', async () => {
+      const start = performance.now();
+      await waitPastThreshold();
+
+      expect(elapsedMs(start)).toBeGreaterThanOrEqual(SLOW_WAIT_MS - 1);
+    });
+  });
+
+  describe('startTimer', () => {
+    test('should log the elapsed time with bindings and extra fields', () => {
+      const { logger, records } = createTimedLogger();
+
+      const end = logger.startTimer({ query: 'users' });
+      const durationMs = end('Query finished', { rows: 3 });
+
+      expect(records).toHaveLength(1);
+      expect(records[0]).toMatchObject({
+        level: 30,
+        query: 'users',
+        rows: 3,
+        duration_ms: durationMs,
+        msg: 'Query finished',
+      });
+      expect(records[0]?.slow).toBeUndefined();
+    });
+
+    test('should escalate slow durations', async () => {
+      const { logger, records } = createTimedLogger();
+
+      const end = logger.startTimer({}, { level: 'debug', slowMs: SLOW_MS });
+      await waitPastThreshold();
+      end('Slow query');
+
+      expect(records[0]).toMatchObject({ level: 40, slow: true });
+    });
+
+    test('should log through child loggers with their bindings', () => {
+      const { logger, records } = createTimedLogger();
+
+      logger.child({ component: 'db' }).startTimer()('Connected');
+
+      expect(records[0]).toMatchObject({ component: 'db', msg: 'Connected' });
+    });
+  });
+
+  describe('time', () => {
+    test('should return the result and log success', async () => {
+      const { logger, records } = createTimedLogger();
+
+      const result = await logger.time('load users', () => [1, 2]);
+
+      expect(result).toEqual([1, 2]);
+      expect(records[0]).toMatchObject({
+        level: 30,
+        label: 'load users',
+        msg: 'load users completed',
+      });
+      expect(typeof records[0]?.duration_ms).toBe('number');
+    });
+
+    test('should log failures with the serialized error and rethrow', async () => {
+      const { logger, records } = createTimedLogger();
+
+      await expect(
+        logger.time('sync job', async () => {
+          await Promise.resolve();
+          throw new Error('boom');
+        }),
+      ).rejects.toThrow('boom');
+
+      expect(records[0]).toMatchObject({
+        level: 50,
+        label: 'sync job',
+        msg: 'sync job failed',
+        err: { type: 'Error', message: 'boom' },
+      });
+      expect(typeof records[0]?.duration_ms).toBe('number');
+    });
+
+    test('should use the logger defaults unless overridden', async () => {
+      const { logger, records } = createTimedLogger({
+        slowMs: SLOW_MS,
+        slowLevel: 'error',
+      });
+
+      await logger.time('slow task', waitPastThreshold);
+      await logger.time('fast task', () => undefined, { level: 'debug' });
+      await logger.time('lenient task', waitPastThreshold, {
+        slowMs: 60_000,
+      });
+
+      expect(records.map((record) => record.level)).toEqual([50, 20, 30]);
+    });
+  });
+});
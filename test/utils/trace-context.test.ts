@@ -0,0 +1,251 @@
+/**
+ * Tests for W3C Trace Context propagation helpers
+ *
+ * Validates traceparent/tracestate parsing, invalid ID handling, flag
+ * parsing, list-member limits, and header injection.
+ */
+
+import type { SpanContext } from '../../src/types';
+
+import { describe, expect, test } from 'bun:test';
+
+import {
+  extractTraceContext,
+  injectTraceContext,
+  isTraceSampled,
+  parseTraceFlags,
+  parseTraceparent,
+  parseTracestate,
+} from '../../src/utils/trace-context';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+const TRACEPARENT = `00-${TRACE_ID}-${SPAN_ID}-01`;
+
+describe('Trace Context Propagation', () => {
+  describe('parseTraceparent', () => {
+    test('should parse a valid version 00 header', () => {
+      expect(parseTraceparent(TRACEPARENT)).toEqual({
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        traceFlags: '01',
+      });
+    });
+
+    test('should trim surrounding whitespace', () => {
+      expect(parseTraceparent(`  ${TRACEPARENT} `)?.traceId).toBe(TRACE_ID);
+    });
+
+    test('should reject version ff', () => {
+      expect(parseTraceparent(`ff-${TRACE_ID}-${SPAN_ID}-01`)).toBeUndefined();
+    });
+
+    test('should reject extra fields for version 00', () => {
+      expect(parseTraceparent(`${TRACEPARENT}-extra`)).toBeUndefined();
+    });
+
+    test('should accept extra fields for future versions', () => {
+      expect(
+        parseTraceparent(`cc-${TRACE_ID}-${SPAN_ID}-01-what-the-future`)
+          ?.spanId,
+      ).toBe(SPAN_ID);
+    });
+
+    test('should reject all-zero trace and span IDs', () => {
+      expect(
+        parseTraceparent(`00-${'0'.repeat(32)}-${SPAN_ID}-01`),
+      ).toBeUndefined();
+      expect(
+        parseTraceparent(`00-${TRACE_ID}-${'0'.repeat(16)}-01`),
+      ).toBeUndefined();
+    });
+
+    test('should reject uppercase hex and wrong lengths', () => {
+      expect(
+        parseTraceparent(`00-${TRACE_ID.toUpperCase()}-${SPAN_ID}-01`),
+      ).toBeUndefined();
+      expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-1`)).toBeUndefined();
+      expect(parseTraceparent(`00-abc-${SPAN_ID}-01`)).toBeUndefined();
+    });
+  });
+
+  describe('parseTracestate', () => {
+    test('should normalize whitespace and skip empty members', () => {
+      expect(parseTracestate('rojo=00f067aa0ba902b7, ,congo=t61rcWkgMzE')).toBe(
+        'rojo=00f067aa0ba902b7,congo=t61rcWkgMzE',
+      );
+    });
+
+    test('should accept multi-tenant keys', () => {
+      expect(parseTracestate('tenant@vendor=value')).toBe(
+        'tenant@vendor=value',
+      );
+    });
+
+    test('should reject duplicate keys', () => {
+      expect(parseTracestate('a=1,a=2')).toBeUndefined();
+    });
+
+    test('should reject malformed members', () => {
+      expect(parseTracestate('Upper=1')).toBeUndefined();
+      expect(parseTracestate('novalue')).toBeUndefined();
+      expect(parseTracestate('key=a=b')).toBeUndefined();
+    });
+
+    test('should reject more than 32 members', () => {
+      const members = Array.from({ length: 33 }, (_, i) => `k${i}=v`);
+      expect(parseTracestate(members.join(','))).toBeUndefined();
+    });
+  });
+
+  describe('parseTraceFlags / isTraceSampled', () => {
+    test('should parse hex flags', () => {
+      expect(parseTraceFlags('01')).toBe(1);
+      expect(parseTraceFlags('1')).toBe(1);
+      expect(parseTraceFlags('ff')).toBe(255);
+      expect(parseTraceFlags('zz')).toBeUndefined();
+      expect(parseTraceFlags(undefined)).toBeUndefined();
+    });
+
+    test('should detect the sampled bit', () => {
+      const base = { traceId: TRACE_ID, spanId: SPAN_ID };
+      expect(isTraceSampled({ ...base, traceFlags: '01' })).toBe(true);
+      expect(isTraceSampled({ ...base, traceFlags: '03' })).toBe(true);
+      expect(isTraceSampled({ ...base, traceFlags: '00' })).toBe(false);
+      expect(isTraceSampled(base)).toBe(false);
+    });
+  });
+
+  describe('extractTraceContext', () => {
+    test('should extract from a plain header record', () => {
+      const context = extractTraceContext({
+        traceparent: TRACEPARENT,
+        tracestate: 'rojo=00f067aa0ba902b7',
+      });
+
+      expect(context).toEqual({
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        traceFlags: '01',
+        traceState: 'rojo=00f067aa0ba902b7',
+      });
+    });
+
+    test('should extract from Fetch Headers', () => {
+      const headers = new Headers({ TraceParent: TRACEPARENT });
+
+      expect(extractTraceContext(headers)?.traceId).toBe(TRACE_ID);
+    });
+
+    test('should match header names case-insensitively', () => {
+      expect(extractTraceContext({ TraceParent: TRACEPARENT })?.spanId).toBe(
+        SPAN_ID,
+      );
+    });
+
+    test('should join multiple tracestate headers', () => {
+      const context = extractTraceContext({
+        traceparent: TRACEPARENT,
+        tracestate: ['a=1', 'b=2'],
+      });
+
+      expect(context?.traceState).toBe('a=1,b=2');
+    });
+
+    test('should return undefined when traceparent is missing or repeated', () => {
+      expect(extractTraceContext({})).toBeUndefined();
+      expect(
+        extractTraceContext({ traceparent: [TRACEPARENT, TRACEPARENT] }),
+      ).toBeUndefined();
+    });
+
+    test('should drop invalid tracestate but keep traceparent', () => {
+      const context = extractTraceContext({
+        traceparent: TRACEPARENT,
+        tracestate: 'a=1,a=2',
+      });
+
+      expect(context?.traceId).toBe(TRACE_ID);
+      expect(context?.traceState).toBeUndefined();
+    });
+  });
+
+  describe('injectTraceContext', () => {
+    const spanContext: SpanContext = {
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      traceFlags: '1',
+      traceState: 'rojo=00f067aa0ba902b7',
+    };
+
+    test('should write traceparent and tracestate to a record', () => {
+      const headers = injectTraceContext(
+        {} as Record<string, string>,
+        spanContext,
+      );
+
+      expect(headers.traceparent).toBe(TRACEPARENT);
+      expect(headers.tracestate).toBe('rojo=00f067aa0ba902b7');
+    });
+
+    test('should write to Fetch Headers', () => {
+      const headers = injectTraceContext(new Headers(), spanContext);
+
+      expect(headers.get('traceparent')).toBe(TRACEPARENT);
+    });
+
+    test('should default missing flags to 00', () => {
+      const headers = injectTraceContext({} as Record<string, string>, {
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+      });
+
+      expect(headers.traceparent).toBe(`00-${TRACE_ID}-${SPAN_ID}-00`);
+    });
+
+    test('should replace differently-cased existing headers', () => {
+      const headers: Record<string, string> = { TraceParent: 'stale' };
+      injectTraceContext(headers, spanContext);
+
+      expect(headers).toEqual({
+        traceparent: TRACEPARENT,
+        tracestate: 'rojo=00f067aa0ba902b7',
+      });
+    });
+
+    test('should not propagate invalid span contexts', () => {
+      const headers = injectTraceContext({} as Record<string, string>, {
+        traceId: 'trace-123',
+        spanId: 'span-456',
+      });
+
+      expect(headers).toEqual({});
+      expect(injectTraceContext({}, undefined)).toEqual({});
+    });
+
+    test('should truncate tracestate to 32 members, long members first', () => {
+      const long = `long=${'x'.repeat(200)}`;
+      const members = Array.from({ length: 32 }, (_, i) => `k${i}=v`);
+      const headers = injectTraceContext({} as Record<string, string>, {
+        ...spanContext,
+        traceState: [long, ...members].join(','),
+      });
+
+      const emitted = headers.tracestate?.split(',') ?? [];
+      expect(emitted).toHaveLength(32);
+      expect(emitted).not.toContain(long);
+    });
+
+    test('should round-trip with extractTraceContext', () => {
+      const headers = injectTraceContext(
+        {} as Record<string, string>,
+        spanContext,
+      );
+
+      expect(extractTraceContext(headers)).toEqual({
+        ...spanContext,
+        traceFlags: '01',
+      });
+    });
+  });
+});
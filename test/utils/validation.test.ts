@@ -0,0 +1,272 @@
+/**
+ * Tests for strict validation utilities
+ *
+ * Validates limit enforcement, non-serializable value handling, violation
+ * policies, and integration with the Pino log method pipeline.
+ */
+
+import type { ResolvedValidationOptions } from '../../src/utils/validation';
+import type { CapturingLogger, LogMethodOption } from '../helpers/capture';
+
+import { describe, expect, test } from 'bun:test';
+
+import { ValidationError } from '../../src/utils/error-handler';
+import {
+  createValidationHook,
+  resolveValidationOptions,
+  validateLogRecord,
+} from '../../src/utils/validation';
+import { createCapturingLogger } from '../helpers/capture';
+
+const limits: ResolvedValidationOptions = {
+  maxMessageLength: 20,
+  maxRecordSize: 512,
+  maxDepth: 3,
+  maxKeys: 5,
+  onViolation: 'truncate',
+};
+
+/**
+ * Creates a Pino logger with the validation hook that records output
+ * @param options - Validation options
+ * @param nodeEnv - Node environment
+ * @returns Logger and captured records
+ */
+function createValidatingLogger(
+  options: Parameters<typeof createValidationHook>[0],
+  nodeEnv = 'development',
+): CapturingLogger {
+  return createCapturingLogger({
+    hooks: {
+      logMethod: createValidationHook(options, nodeEnv) as LogMethodOption,
+    },
+  });
+}
+
+describe('Validation Utilities', () => {
+  describe('resolveValidationOptions', () => {
+    test('should apply defaults', () => {
+      const resolved = resolveValidationOptions(undefined, 'development');
+
+      expect(resolved.maxMessageLength).toBe(10000);
+      expect(resolved.onViolation).toBe('truncate');
+    });
+
+    test('should downgrade throw to truncate in production', () => {
+      expect(
+        resolveValidationOptions({ onViolation: 'throw' }, 'production')
+          .onViolation,
+      ).toBe('truncate');
+      expect(
+        resolveValidationOptions({ onViolation: 'throw' }, 'development')
+          .onViolation,
+      ).toBe('throw');
+    });
+  });
+
+  describe('validateLogRecord', () => {
+    test('should pass valid records unchanged', () => {
+      const result = validateLogRecord({ userId: '1' }, 'hello', limits);
+
+      expect(result.violations).toEqual([]);
+      expect(result.obj).toEqual({ userId: '1' });
+      expect(result.msg).toBe('hello');
+    });
+
+    test('should truncate long messages', () => {
+      const result = validateLogRecord(undefined, 'x'.repeat(50), limits);
+
+      expect(result.violations).toEqual([
+        { code: 'message_length', path: 'msg' },
+      ]);
+      expect(result.msg?.startsWith('x'.repeat(20))).toBe(true);
+      expect(result.msg?.length).toBeLessThan(50);
+    });
+
+    test('should replace functions, symbols and bigints', () => {
+      const result = validateLogRecord(
+        { fn: function handler() {}, sym: Symbol('s'), big: BigInt(10) },
+        'msg',
+        limits,
+      );
+
+      expect(result.obj).toEqual({
+        fn: '[Function: handler]',
+        sym: '[Symbol(s)]',
+        big: '10',
+      });
+      expect(result.violations.map((v) => v.code)).toEqual([
+        'non_serializable',
+        'non_serializable',
+        'non_serializable',
+      ]);
+    });
+
+    test('should detect circular references but allow shared ones', () => {
+      const shared = { id: 1 };
+      const circular: Record<string, unknown> = { a: shared, b: shared };
+      circular['self'] = circular;
+
+      const result = validateLogRecord(circular, 'msg', limits);
+
+      expect(result.violations).toEqual([{ code: 'circular', path: 'self' }]);
+      expect(result.obj).toEqual({
+        a: { id: 1 },
+        b: { id: 1 },
+        self: '[Circular]',
+      });
+    });
+
+    test('should enforce maximum depth', () => {
+      const result = validateLogRecord(
+        { a: { b: { c: { d: { e: 1 } } } } },
+        'msg',
+        limits,
+      );
+
+      expect(result.violations).toEqual([{ code: 'depth', path: 'a.b.c.d' }]);
+      expect(result.obj).toEqual({ a: { b: { c: { d: '[Object]' } } } });
+    });
+
+    test('should enforce maximum key count', () => {
+      const obj = Object.fromEntries(
+        Array.from({ length: 8 }, (_, i) => [`k${i}`, i]),
+      );
+
+      const result = validateLogRecord(obj, 'msg', limits);
+
+      expect(result.violations).toEqual([
+        { code: 'key_count', path: '<root>' },
+      ]);
+      expect(Object.keys(result.obj ?? {})).toHaveLength(5);
+    });
+
+    test('should shrink records over the size limit', () => {
+      const result = validateLogRecord(
+        { small: 'ok', big: 'y'.repeat(1000) },
+        'msg',
+        limits,
+      );
+
+      expect(result.violations).toEqual([
+        { code: 'record_size', path: '<root>' },
+      ]);
+      expect(result.obj).toEqual({ small: 'ok', big: '[Truncated]' });
+    });
+
+    test('should keep Error and Date values intact', () => {
+      const err = new Error('boom');
+      const at = new Date(0);
+
+      const result = validateLogRecord({ err, at }, 'msg', limits);
+
+      expect(result.violations).toEqual([]);
+      expect(result.obj?.['err']).toBe(err);
+      expect(result.obj?.['at']).toBe(at);
+    });
+
+    test('should measure Errors with circular properties', () => {
+      const err = new Error('Request failed') as Error & {
+        request?: Record<string, unknown>;
+      };
+      const request: Record<string, unknown> = { method: 'GET' };
+      request['res'] = { req: request };
+      err.request = request;
+
+      const result = validateLogRecord({ err }, 'msg', limits);
+
+      expect(result.violations).toEqual([]);
+      expect(result.obj?.['err']).toBe(err);
+    });
+
+    test('should keep Buffer and typed array values intact', () => {
+      const body = Buffer.from('payload');
+      const samples = new Float64Array([1, 2, 3]);
+
+      const result = validateLogRecord({ body, samples }, 'msg', limits);
+
+      expect(result.violations).toEqual([]);
+      expect(result.obj?.['body']).toBe(body);
+      expect(result.obj?.['samples']).toBe(samples);
+    });
+  });
+
+  describe('createValidationHook', () => {
+    test('should annotate truncated records with violation codes', () => {
+      const { logger, records } = createValidatingLogger({
+        maxMessageLength: 5,
+      });
+
+      logger.info({ fn: () => 1 }, 'too long message');
+
+      expect(records[0]?.['msg']).toStartWith('too l');
+      expect(records[0]?.['validation_violations']).toEqual([
+        'non_serializable',
+        'message_length',
+      ]);
+    });
+
+    test('should promote message-only calls when truncating', () => {
+      const { logger, records } = createValidatingLogger({
+        maxMessageLength: 5,
+      });
+
+      logger.info('too long message');
+
+      expect(records[0]?.['validation_violations']).toEqual(['message_length']);
+    });
+
+    test('should drop violating records with the drop policy', () => {
+      const { logger, records } = createValidatingLogger({
+        maxMessageLength: 5,
+        onViolation: 'drop',
+      });
+
+      logger.info('too long message');
+      logger.info('ok');
+
+      expect(records).toHaveLength(1);
+      expect(records[0]?.['msg']).toBe('ok');
+    });
+
+    test('should throw with the throw policy in development', () => {
+      const { logger } = createValidatingLogger({
+        maxMessageLength: 5,
+        onViolation: 'throw',
+      });
+
+      expect(() => logger.info('too long message')).toThrow(ValidationError);
+    });
+
+    test('should not throw with the throw policy in production', () => {
+      const { logger, records } = createValidatingLogger(
+        { maxMessageLength: 5, onViolation: 'throw' },
+        'production',
+      );
+
+      expect(() => logger.info('too long message')).not.toThrow();
+      expect(records).toHaveLength(1);
+    });
+
+    test('should log Errors with circular properties', () => {
+      const { logger, records } = createValidatingLogger(undefined);
+      const err = new Error('Request failed') as Error & { request?: unknown };
+      const request: Record<string, unknown> = { method: 'GET' };
+      request['self'] = request;
+      err.request = request;
+
+      expect(() => logger.error({ err }, 'failed')).not.toThrow();
+      expect(records[0]?.['msg']).toBe('failed');
+      expect(records[0]?.['validation_violations']).toBeUndefined();
+    });
+
+    test('should pass valid records through untouched', () => {
+      const { logger, records } = createValidatingLogger(undefined);
+
+      logger.info({ userId: '1' }, 'hello %s', 'world');
+
+      expect(records[0]?.['msg']).toBe('hello world');
+      expect(records[0]?.['validation_violations']).toBeUndefined();
+    });
+  });
+});